@@ -0,0 +1,47 @@
+-- Full-text search indexes over transcripts and episode analyses.
+-- Both are external-content FTS5 tables kept in sync by triggers, so the
+-- indexed text is never stored twice.
+CREATE VIRTUAL TABLE `transcript_segments_fts` USING fts5(
+	`text`,
+	content='transcript_segments',
+	tokenize='porter unicode61'
+);
+--> statement-breakpoint
+CREATE TRIGGER `transcript_segments_fts_ai` AFTER INSERT ON `transcript_segments` BEGIN
+	INSERT INTO `transcript_segments_fts` (rowid, `text`) VALUES (new.rowid, new.`text`);
+END;
+--> statement-breakpoint
+CREATE TRIGGER `transcript_segments_fts_ad` AFTER DELETE ON `transcript_segments` BEGIN
+	INSERT INTO `transcript_segments_fts` (`transcript_segments_fts`, rowid, `text`) VALUES ('delete', old.rowid, old.`text`);
+END;
+--> statement-breakpoint
+CREATE TRIGGER `transcript_segments_fts_au` AFTER UPDATE ON `transcript_segments` BEGIN
+	INSERT INTO `transcript_segments_fts` (`transcript_segments_fts`, rowid, `text`) VALUES ('delete', old.rowid, old.`text`);
+	INSERT INTO `transcript_segments_fts` (rowid, `text`) VALUES (new.rowid, new.`text`);
+END;
+--> statement-breakpoint
+CREATE VIRTUAL TABLE `episode_analyses_fts` USING fts5(
+	`summary`,
+	`tags`,
+	`key_quotes`,
+	content='episode_analyses',
+	tokenize='porter unicode61'
+);
+--> statement-breakpoint
+CREATE TRIGGER `episode_analyses_fts_ai` AFTER INSERT ON `episode_analyses` BEGIN
+	INSERT INTO `episode_analyses_fts` (rowid, `summary`, `tags`, `key_quotes`) VALUES (new.rowid, new.`summary`, new.`tags`, new.`key_quotes`);
+END;
+--> statement-breakpoint
+CREATE TRIGGER `episode_analyses_fts_ad` AFTER DELETE ON `episode_analyses` BEGIN
+	INSERT INTO `episode_analyses_fts` (`episode_analyses_fts`, rowid, `summary`, `tags`, `key_quotes`) VALUES ('delete', old.rowid, old.`summary`, old.`tags`, old.`key_quotes`);
+END;
+--> statement-breakpoint
+CREATE TRIGGER `episode_analyses_fts_au` AFTER UPDATE ON `episode_analyses` BEGIN
+	INSERT INTO `episode_analyses_fts` (`episode_analyses_fts`, rowid, `summary`, `tags`, `key_quotes`) VALUES ('delete', old.rowid, old.`summary`, old.`tags`, old.`key_quotes`);
+	INSERT INTO `episode_analyses_fts` (rowid, `summary`, `tags`, `key_quotes`) VALUES (new.rowid, new.`summary`, new.`tags`, new.`key_quotes`);
+END;
+--> statement-breakpoint
+-- Index everything that already exists
+INSERT INTO `transcript_segments_fts` (`transcript_segments_fts`) VALUES ('rebuild');
+--> statement-breakpoint
+INSERT INTO `episode_analyses_fts` (`episode_analyses_fts`) VALUES ('rebuild');
@@ -0,0 +1,16 @@
+CREATE TABLE `digests` (
+	`id` text PRIMARY KEY NOT NULL,
+	`period_start` integer NOT NULL,
+	`period_end` integer NOT NULL,
+	`subject` text NOT NULL,
+	`html` text NOT NULL,
+	`text` text NOT NULL,
+	`episode_ids` text NOT NULL,
+	`recipients` text NOT NULL,
+	`status` text DEFAULT 'pending' NOT NULL,
+	`error` text,
+	`sent_at` integer,
+	`created_at` integer NOT NULL
+);
+--> statement-breakpoint
+CREATE INDEX `idx_digests_period_end` ON `digests` (`period_end`);
\ No newline at end of file
@@ -0,0 +1,15 @@
+CREATE TABLE `episode_events` (
+	`id` text PRIMARY KEY NOT NULL,
+	`episode_id` text NOT NULL,
+	`workflow_id` text,
+	`type` text NOT NULL,
+	`step` text,
+	`attempt` integer,
+	`message` text,
+	`created_at` integer NOT NULL,
+	FOREIGN KEY (`episode_id`) REFERENCES `episodes`(`id`) ON UPDATE no action ON DELETE no action
+);
+--> statement-breakpoint
+CREATE INDEX `idx_episode_events_episode` ON `episode_events` (`episode_id`,`created_at`);--> statement-breakpoint
+ALTER TABLE `episodes` ADD `failed_step` text;--> statement-breakpoint
+ALTER TABLE `episodes` ADD `failed_attempts` integer;
\ No newline at end of file
@@ -0,0 +1,11 @@
+CREATE TABLE `speakers` (
+	`id` text PRIMARY KEY NOT NULL,
+	`episode_id` text NOT NULL,
+	`label` text NOT NULL,
+	`display_name` text,
+	`created_at` integer NOT NULL,
+	FOREIGN KEY (`episode_id`) REFERENCES `episodes`(`id`) ON UPDATE no action ON DELETE no action
+);
+--> statement-breakpoint
+CREATE INDEX `idx_speakers_episode` ON `speakers` (`episode_id`);--> statement-breakpoint
+ALTER TABLE `transcript_segments` ADD `speaker_id` text REFERENCES speakers(id);
\ No newline at end of file
@@ -0,0 +1,15 @@
+CREATE TABLE `clips` (
+	`id` text PRIMARY KEY NOT NULL,
+	`episode_id` text NOT NULL,
+	`start_time` real NOT NULL,
+	`end_time` real NOT NULL,
+	`quote` text NOT NULL,
+	`note` text,
+	`created_by` text,
+	`created_at` integer NOT NULL,
+	FOREIGN KEY (`episode_id`) REFERENCES `episodes`(`id`) ON UPDATE no action ON DELETE no action,
+	FOREIGN KEY (`created_by`) REFERENCES `users`(`id`) ON UPDATE no action ON DELETE no action
+);
+--> statement-breakpoint
+CREATE INDEX `idx_clips_created_at` ON `clips` (`created_at`);--> statement-breakpoint
+CREATE INDEX `idx_clips_episode` ON `clips` (`episode_id`);
\ No newline at end of file
@@ -0,0 +1,9 @@
+CREATE TABLE `audio_seek_indexes` (
+	`episode_id` text PRIMARY KEY NOT NULL,
+	`r2_size` integer NOT NULL,
+	`duration` real NOT NULL,
+	`data_end` integer NOT NULL,
+	`points` text NOT NULL,
+	`created_at` integer NOT NULL,
+	FOREIGN KEY (`episode_id`) REFERENCES `episodes`(`id`) ON UPDATE no action ON DELETE no action
+);
@@ -0,0 +1,16 @@
+CREATE TABLE `transcript_revisions` (
+	`id` text PRIMARY KEY NOT NULL,
+	`segment_id` text NOT NULL,
+	`episode_id` text NOT NULL,
+	`previous_text` text NOT NULL,
+	`previous_words` text NOT NULL,
+	`text` text NOT NULL,
+	`created_by` text,
+	`created_at` integer NOT NULL,
+	FOREIGN KEY (`segment_id`) REFERENCES `transcript_segments`(`id`) ON UPDATE no action ON DELETE no action,
+	FOREIGN KEY (`episode_id`) REFERENCES `episodes`(`id`) ON UPDATE no action ON DELETE no action,
+	FOREIGN KEY (`created_by`) REFERENCES `users`(`id`) ON UPDATE no action ON DELETE no action
+);
+--> statement-breakpoint
+CREATE INDEX `idx_transcript_revisions_segment` ON `transcript_revisions` (`segment_id`,`created_at`);--> statement-breakpoint
+CREATE INDEX `idx_transcript_revisions_episode` ON `transcript_revisions` (`episode_id`);
\ No newline at end of file
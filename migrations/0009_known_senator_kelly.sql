@@ -0,0 +1,11 @@
+CREATE TABLE `glossary_terms` (
+	`id` text PRIMARY KEY NOT NULL,
+	`term` text NOT NULL,
+	`variants` text NOT NULL,
+	`podcast_id` text,
+	`created_at` integer NOT NULL,
+	`updated_at` integer NOT NULL,
+	FOREIGN KEY (`podcast_id`) REFERENCES `podcasts`(`id`) ON UPDATE no action ON DELETE no action
+);
+--> statement-breakpoint
+CREATE INDEX `idx_glossary_terms_podcast` ON `glossary_terms` (`podcast_id`);
\ No newline at end of file
@@ -0,0 +1,22 @@
+CREATE TABLE `entities` (
+	`id` text PRIMARY KEY NOT NULL,
+	`name` text NOT NULL,
+	`type` text NOT NULL,
+	`normalized_name` text NOT NULL,
+	`created_at` integer NOT NULL
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `idx_entities_type_name` ON `entities` (`type`,`normalized_name`);--> statement-breakpoint
+CREATE TABLE `episode_entities` (
+	`id` text PRIMARY KEY NOT NULL,
+	`episode_id` text NOT NULL,
+	`entity_id` text NOT NULL,
+	`mention_count` integer NOT NULL,
+	`mentions` text NOT NULL,
+	`created_at` integer NOT NULL,
+	FOREIGN KEY (`episode_id`) REFERENCES `episodes`(`id`) ON UPDATE no action ON DELETE no action,
+	FOREIGN KEY (`entity_id`) REFERENCES `entities`(`id`) ON UPDATE no action ON DELETE no action
+);
+--> statement-breakpoint
+CREATE INDEX `idx_episode_entities_episode` ON `episode_entities` (`episode_id`);--> statement-breakpoint
+CREATE INDEX `idx_episode_entities_entity` ON `episode_entities` (`entity_id`);
\ No newline at end of file
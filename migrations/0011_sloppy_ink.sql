@@ -0,0 +1,26 @@
+CREATE TABLE `episode_tags` (
+	`id` text PRIMARY KEY NOT NULL,
+	`episode_id` text NOT NULL,
+	`tag_id` text NOT NULL,
+	`position` integer NOT NULL,
+	FOREIGN KEY (`episode_id`) REFERENCES `episodes`(`id`) ON UPDATE no action ON DELETE no action,
+	FOREIGN KEY (`tag_id`) REFERENCES `tags`(`id`) ON UPDATE no action ON DELETE no action
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `idx_episode_tags_episode_tag` ON `episode_tags` (`episode_id`,`tag_id`);--> statement-breakpoint
+CREATE INDEX `idx_episode_tags_tag` ON `episode_tags` (`tag_id`);--> statement-breakpoint
+CREATE TABLE `tag_aliases` (
+	`alias` text PRIMARY KEY NOT NULL,
+	`tag_id` text NOT NULL,
+	`created_at` integer NOT NULL,
+	FOREIGN KEY (`tag_id`) REFERENCES `tags`(`id`) ON UPDATE no action ON DELETE no action
+);
+--> statement-breakpoint
+CREATE INDEX `idx_tag_aliases_tag` ON `tag_aliases` (`tag_id`);--> statement-breakpoint
+CREATE TABLE `tags` (
+	`id` text PRIMARY KEY NOT NULL,
+	`name` text NOT NULL,
+	`created_at` integer NOT NULL
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `tags_name_unique` ON `tags` (`name`);
\ No newline at end of file
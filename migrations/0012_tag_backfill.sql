@@ -0,0 +1,20 @@
+-- Backfill the tag tables from the JSON tags stored on existing analyses.
+-- Tags are normalised the same way as normalizeTag() in src/lib/tags.ts
+-- (lowercased, runs of spaces collapsed, a leading "#" dropped), except that
+-- SQLite's lower() only folds ASCII letters. Analyses whose tags aren't
+-- valid JSON are skipped.
+INSERT OR IGNORE INTO `tags` (`id`, `name`, `created_at`)
+SELECT lower(hex(randomblob(10))), `name`, CAST(strftime('%s', 'now') AS integer)
+FROM (
+	SELECT DISTINCT trim(ltrim(lower(trim(replace(replace(replace(`value`, '  ', ' '), '  ', ' '), '  ', ' '))), '#')) AS `name`
+	FROM `episode_analyses`, json_each(CASE WHEN json_valid(`episode_analyses`.`tags`) THEN `episode_analyses`.`tags` ELSE '[]' END)
+	WHERE json_each.`type` = 'text'
+)
+WHERE `name` <> '';
+--> statement-breakpoint
+INSERT OR IGNORE INTO `episode_tags` (`id`, `episode_id`, `tag_id`, `position`)
+SELECT lower(hex(randomblob(10))), `episode_analyses`.`episode_id`, `tags`.`id`, json_each.`key`
+FROM `episode_analyses`, json_each(CASE WHEN json_valid(`episode_analyses`.`tags`) THEN `episode_analyses`.`tags` ELSE '[]' END)
+INNER JOIN `tags` ON `tags`.`name` = trim(ltrim(lower(trim(replace(replace(replace(json_each.`value`, '  ', ' '), '  ', ' '), '  ', ' '))), '#'))
+WHERE json_each.`type` = 'text'
+ORDER BY `episode_analyses`.`episode_id`, json_each.`key`;
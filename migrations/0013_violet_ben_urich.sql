@@ -0,0 +1,32 @@
+CREATE TABLE `narrative_claims` (
+	`id` text PRIMARY KEY NOT NULL,
+	`narrative_id` text NOT NULL,
+	`episode_id` text NOT NULL,
+	`text` text NOT NULL,
+	`embedding` text NOT NULL,
+	`similarity` real NOT NULL,
+	`created_at` integer NOT NULL,
+	FOREIGN KEY (`narrative_id`) REFERENCES `narratives`(`id`) ON UPDATE no action ON DELETE no action,
+	FOREIGN KEY (`episode_id`) REFERENCES `episodes`(`id`) ON UPDATE no action ON DELETE no action
+);
+--> statement-breakpoint
+CREATE INDEX `idx_narrative_claims_narrative` ON `narrative_claims` (`narrative_id`);--> statement-breakpoint
+CREATE INDEX `idx_narrative_claims_episode` ON `narrative_claims` (`episode_id`);--> statement-breakpoint
+CREATE TABLE `narratives` (
+	`id` text PRIMARY KEY NOT NULL,
+	`label` text NOT NULL,
+	`embedder` text NOT NULL,
+	`centroid` text NOT NULL,
+	`first_episode_id` text NOT NULL,
+	`first_seen_at` integer NOT NULL,
+	`last_seen_at` integer NOT NULL,
+	`claim_count` integer NOT NULL,
+	`episode_count` integer NOT NULL,
+	`podcast_count` integer NOT NULL,
+	`created_at` integer NOT NULL,
+	`updated_at` integer NOT NULL,
+	FOREIGN KEY (`first_episode_id`) REFERENCES `episodes`(`id`) ON UPDATE no action ON DELETE no action
+);
+--> statement-breakpoint
+CREATE INDEX `idx_narratives_last_seen` ON `narratives` (`last_seen_at`);--> statement-breakpoint
+CREATE INDEX `idx_narratives_podcast_count` ON `narratives` (`podcast_count`);
\ No newline at end of file
@@ -0,0 +1,13 @@
+CREATE TABLE `transcript_windows` (
+	`id` text PRIMARY KEY NOT NULL,
+	`episode_id` text NOT NULL,
+	`first_segment_index` integer NOT NULL,
+	`last_segment_index` integer NOT NULL,
+	`start_time` real NOT NULL,
+	`end_time` real NOT NULL,
+	`embedder` text NOT NULL,
+	`created_at` integer NOT NULL,
+	FOREIGN KEY (`episode_id`) REFERENCES `episodes`(`id`) ON UPDATE no action ON DELETE no action
+);
+--> statement-breakpoint
+CREATE INDEX `idx_transcript_windows_episode` ON `transcript_windows` (`episode_id`,`first_segment_index`);
\ No newline at end of file
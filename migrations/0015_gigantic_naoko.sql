@@ -0,0 +1,7 @@
+ALTER TABLE `podcasts` ADD `poll_interval_minutes` integer DEFAULT 360 NOT NULL;--> statement-breakpoint
+ALTER TABLE `podcasts` ADD `next_poll_at` integer;--> statement-breakpoint
+ALTER TABLE `podcasts` ADD `etag` text;--> statement-breakpoint
+ALTER TABLE `podcasts` ADD `last_modified` text;--> statement-breakpoint
+ALTER TABLE `podcasts` ADD `last_poll_status` text;--> statement-breakpoint
+ALTER TABLE `podcasts` ADD `last_poll_error` text;--> statement-breakpoint
+ALTER TABLE `podcasts` ADD `consecutive_failures` integer DEFAULT 0 NOT NULL;
\ No newline at end of file
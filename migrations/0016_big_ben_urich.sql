@@ -0,0 +1,13 @@
+CREATE TABLE `feed_poll_jobs` (
+	`id` text PRIMARY KEY NOT NULL,
+	`podcast_id` text NOT NULL,
+	`status` text DEFAULT 'queued' NOT NULL,
+	`attempts` integer DEFAULT 0 NOT NULL,
+	`last_error` text,
+	`enqueued_at` integer NOT NULL,
+	`updated_at` integer NOT NULL,
+	FOREIGN KEY (`podcast_id`) REFERENCES `podcasts`(`id`) ON UPDATE no action ON DELETE no action
+);
+--> statement-breakpoint
+CREATE INDEX `idx_feed_poll_jobs_podcast` ON `feed_poll_jobs` (`podcast_id`);--> statement-breakpoint
+CREATE INDEX `idx_feed_poll_jobs_status` ON `feed_poll_jobs` (`status`);
\ No newline at end of file
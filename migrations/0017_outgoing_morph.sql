@@ -0,0 +1,18 @@
+ALTER TABLE `episodes` ADD `audio_type` text;--> statement-breakpoint
+ALTER TABLE `episodes` ADD `audio_length` integer;--> statement-breakpoint
+ALTER TABLE `episodes` ADD `description` text;--> statement-breakpoint
+ALTER TABLE `episodes` ADD `image_url` text;--> statement-breakpoint
+ALTER TABLE `episodes` ADD `episode_number` integer;--> statement-breakpoint
+ALTER TABLE `episodes` ADD `season_number` integer;--> statement-breakpoint
+ALTER TABLE `episodes` ADD `episode_type` text;--> statement-breakpoint
+ALTER TABLE `episodes` ADD `explicit` integer;--> statement-breakpoint
+ALTER TABLE `episodes` ADD `author` text;--> statement-breakpoint
+ALTER TABLE `episodes` ADD `feed_transcripts` text;--> statement-breakpoint
+ALTER TABLE `episodes` ADD `chapters_url` text;--> statement-breakpoint
+ALTER TABLE `episodes` ADD `persons` text;--> statement-breakpoint
+ALTER TABLE `podcasts` ADD `website_url` text;--> statement-breakpoint
+ALTER TABLE `podcasts` ADD `author` text;--> statement-breakpoint
+ALTER TABLE `podcasts` ADD `language` text;--> statement-breakpoint
+ALTER TABLE `podcasts` ADD `explicit` integer;--> statement-breakpoint
+ALTER TABLE `podcasts` ADD `categories` text;--> statement-breakpoint
+ALTER TABLE `podcasts` ADD `persons` text;
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE `episodes` ADD `transcript_source` text;--> statement-breakpoint
+ALTER TABLE `episodes` ADD `transcript_source_url` text;
\ No newline at end of file
@@ -0,0 +1,15 @@
+CREATE TABLE `episode_chapters` (
+	`id` text PRIMARY KEY NOT NULL,
+	`episode_id` text NOT NULL,
+	`chapter_index` integer NOT NULL,
+	`start_time` real NOT NULL,
+	`end_time` real,
+	`title` text NOT NULL,
+	`url` text,
+	`image_url` text,
+	`source` text NOT NULL,
+	`created_at` integer NOT NULL,
+	FOREIGN KEY (`episode_id`) REFERENCES `episodes`(`id`) ON UPDATE no action ON DELETE no action
+);
+--> statement-breakpoint
+CREATE INDEX `idx_episode_chapters_episode` ON `episode_chapters` (`episode_id`,`chapter_index`);
\ No newline at end of file
@@ -0,0 +1,3 @@
+-- Keep the earliest report of any window generated more than once
+DELETE FROM `weekly_analyses` WHERE `id` NOT IN (SELECT `id` FROM (SELECT `id`, ROW_NUMBER() OVER (PARTITION BY `week_start`, `week_end` ORDER BY `created_at`, `id`) AS `rank` FROM `weekly_analyses`) WHERE `rank` = 1);--> statement-breakpoint
+CREATE UNIQUE INDEX `idx_weekly_analyses_window` ON `weekly_analyses` (`week_start`,`week_end`);
@@ -0,0 +1 @@
+ALTER TABLE `podcasts` ADD `podcast_guid` text;
\ No newline at end of file
@@ -0,0 +1,4 @@
+-- Keep the earliest digest of any period generated more than once
+DELETE FROM `digests` WHERE `id` NOT IN (SELECT `id` FROM (SELECT `id`, ROW_NUMBER() OVER (PARTITION BY `period_end` ORDER BY `created_at`, `id`) AS `rank` FROM `digests`) WHERE `rank` = 1);--> statement-breakpoint
+DROP INDEX `idx_digests_period_end`;--> statement-breakpoint
+CREATE UNIQUE INDEX `idx_digests_period_end` ON `digests` (`period_end`);
@@ -0,0 +1,153 @@
+// Series colours, picked to stay distinct on light and dark backgrounds
+export const TREND_COLORS = [
+  '#5386c0',
+  '#d97706',
+  '#16a34a',
+  '#dc2626',
+  '#9333ea',
+  '#0891b2',
+  '#db2777',
+  '#65a30d',
+]
+
+const WIDTH = 800
+const HEIGHT = 260
+const PADDING = { top: 12, right: 12, bottom: 28, left: 32 }
+
+function formatBucket(bucket: string): string {
+  return new Date(`${bucket}T00:00:00Z`).toLocaleDateString(undefined, {
+    month: 'short',
+    day: 'numeric',
+    timeZone: 'UTC',
+  })
+}
+
+// Roughly four gridlines on a whole-number scale
+function yTicks(max: number): number[] {
+  const step = Math.max(1, Math.ceil(max / 4))
+  const ticks: number[] = []
+  for (let v = 0; v <= max; v += step) ticks.push(v)
+  if (ticks[ticks.length - 1] < max) ticks.push(ticks[ticks.length - 1] + step)
+  return ticks
+}
+
+/**
+ * Line chart of episode counts per bucket, one line per topic. Plain SVG,
+ * scaled to its container's width.
+ */
+export function TrendChart({
+  buckets,
+  series,
+}: {
+  buckets: string[]
+  series: { topic: string; counts: number[]; color: string }[]
+}) {
+  const ticks = yTicks(Math.max(1, ...series.flatMap((s) => s.counts)))
+  const yMax = ticks[ticks.length - 1]
+  const plotWidth = WIDTH - PADDING.left - PADDING.right
+  const plotHeight = HEIGHT - PADDING.top - PADDING.bottom
+
+  const x = (i: number) =>
+    PADDING.left +
+    (buckets.length > 1 ? (i / (buckets.length - 1)) * plotWidth : plotWidth / 2)
+  const y = (v: number) => PADDING.top + plotHeight - (v / yMax) * plotHeight
+
+  // Label every bucket when they fit, otherwise about six of them
+  const labelEvery = Math.max(1, Math.ceil(buckets.length / 6))
+
+  return (
+    <svg
+      viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+      className="w-full h-auto text-gray-400 dark:text-gray-500"
+      role="img"
+      aria-label={`Episodes per period for ${series.map((s) => s.topic).join(', ')}`}
+    >
+      {ticks.map((tick) => (
+        <g key={tick}>
+          <line
+            x1={PADDING.left}
+            x2={WIDTH - PADDING.right}
+            y1={y(tick)}
+            y2={y(tick)}
+            stroke="currentColor"
+            strokeOpacity={0.25}
+          />
+          <text
+            x={PADDING.left - 6}
+            y={y(tick)}
+            dy="0.32em"
+            textAnchor="end"
+            fontSize={11}
+            fill="currentColor"
+            className="font-mono"
+          >
+            {tick}
+          </text>
+        </g>
+      ))}
+
+      {buckets.map(
+        (bucket, i) =>
+          (i % labelEvery === 0 || i === buckets.length - 1) && (
+            <text
+              key={bucket}
+              x={x(i)}
+              y={HEIGHT - 8}
+              textAnchor="middle"
+              fontSize={11}
+              fill="currentColor"
+              className="font-mono"
+            >
+              {formatBucket(bucket)}
+            </text>
+          ),
+      )}
+
+      {series.map((s) => (
+        <g key={s.topic}>
+          <polyline
+            points={s.counts.map((v, i) => `${x(i)},${y(v)}`).join(' ')}
+            fill="none"
+            stroke={s.color}
+            strokeWidth={2}
+            strokeLinejoin="round"
+          />
+          {s.counts.map((v, i) => (
+            <circle key={i} cx={x(i)} cy={y(v)} r={2.5} fill={s.color}>
+              <title>
+                {s.topic}: {v} episode{v !== 1 ? 's' : ''} ({formatBucket(buckets[i])})
+              </title>
+            </circle>
+          ))}
+        </g>
+      ))}
+    </svg>
+  )
+}
+
+/**
+ * Tiny inline trend line for tables.
+ */
+export function Sparkline({
+  counts,
+  color = 'currentColor',
+}: {
+  counts: number[]
+  color?: string
+}) {
+  const width = 80
+  const height = 20
+  const max = Math.max(1, ...counts)
+  const points = counts
+    .map(
+      (v, i) =>
+        `${counts.length > 1 ? (i / (counts.length - 1)) * width : width / 2},${height - 1 - (v / max) * (height - 2)}`,
+    )
+    .join(' ')
+
+  return (
+    <svg width={width} height={height} viewBox={`0 0 ${width} ${height}`} aria-hidden>
+      <polyline points={points} fill="none" stroke={color} strokeWidth={1.5} />
+    </svg>
+  )
+}
@@ -0,0 +1,43 @@
+import Markdown from 'react-markdown'
+
+export function WeeklyReport({
+  weekStart,
+  weekEnd,
+  trendingTopics,
+  analysis,
+}: {
+  weekStart: Date
+  weekEnd: Date
+  trendingTopics: string[]
+  analysis: string
+}) {
+  return (
+    <div className="podcast-card p-6">
+      <div className="flex items-center gap-2 text-xs font-mono text-gray-500 dark:text-gray-400 mb-4">
+        <span>
+          {new Date(weekStart).toLocaleDateString()} &ndash;{' '}
+          {new Date(weekEnd).toLocaleDateString()}
+        </span>
+      </div>
+
+      {/* Trending Topics */}
+      {trendingTopics.length > 0 && (
+        <div className="mb-5">
+          <p className="sidebar-label">Trending Topics</p>
+          <div className="flex flex-wrap gap-2">
+            {trendingTopics.map((topic, i) => (
+              <span key={i} className="topic-tag">
+                {topic}
+              </span>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {/* Analysis Text */}
+      <div className="prose dark:prose-invert max-w-none text-sm">
+        <Markdown>{analysis}</Markdown>
+      </div>
+    </div>
+  )
+}
@@ -1,4 +1,11 @@
-import { sqliteTable, text, integer, real, index } from 'drizzle-orm/sqlite-core'
+import {
+  sqliteTable,
+  text,
+  integer,
+  real,
+  index,
+  uniqueIndex,
+} from 'drizzle-orm/sqlite-core'
 
 export const podcasts = sqliteTable('podcasts', {
   id: text('id').primaryKey(),
@@ -6,9 +13,27 @@ export const podcasts = sqliteTable('podcasts', {
   feedUrl: text('feed_url').notNull().unique(),
   imageUrl: text('image_url'),
   description: text('description'),
+  // Channel metadata, refreshed from the feed on every full poll
+  podcastGuid: text('podcast_guid'), // Podcasting 2.0 podcast:guid
+  websiteUrl: text('website_url'),
+  author: text('author'),
+  language: text('language'),
+  explicit: integer('explicit', { mode: 'boolean' }),
+  categories: text('categories'), // JSON array of names, subcategories as "Parent > Child"
+  persons: text('persons'), // JSON array of FeedPerson
   addedAt: integer('added_at', { mode: 'timestamp' }).notNull(),
   lastPolledAt: integer('last_polled_at', { mode: 'timestamp' }),
   active: integer('active', { mode: 'boolean' }).notNull().default(true),
+  // Polling schedule. Failing feeds back off from the interval exponentially.
+  pollIntervalMinutes: integer('poll_interval_minutes').notNull().default(360),
+  nextPollAt: integer('next_poll_at', { mode: 'timestamp' }), // null: due now
+  // Validators from the last full response, sent back as conditional headers
+  etag: text('etag'),
+  lastModified: text('last_modified'),
+  // Feed health
+  lastPollStatus: text('last_poll_status'), // updated | unchanged | error
+  lastPollError: text('last_poll_error'),
+  consecutiveFailures: integer('consecutive_failures').notNull().default(0),
 })
 
 export const episodes = sqliteTable(
@@ -21,12 +46,30 @@ export const episodes = sqliteTable(
     title: text('title').notNull(),
     guid: text('guid').notNull(),
     audioUrl: text('audio_url').notNull(),
+    audioType: text('audio_type'),
+    audioLength: integer('audio_length'), // bytes, as declared by the feed
     r2Key: text('r2_key'),
     publishedAt: integer('published_at', { mode: 'timestamp' }).notNull(),
-    durationSeconds: integer('duration_seconds'),
+    durationSeconds: integer('duration_seconds'), // from the feed, then the transcript
+    // Item metadata from the feed, as it was when the episode was added
+    description: text('description'),
+    imageUrl: text('image_url'),
+    episodeNumber: integer('episode_number'),
+    seasonNumber: integer('season_number'),
+    episodeType: text('episode_type'), // full | trailer | bonus
+    explicit: integer('explicit', { mode: 'boolean' }),
+    author: text('author'),
+    feedTranscripts: text('feed_transcripts'), // JSON array of FeedTranscript
+    chaptersUrl: text('chapters_url'),
+    persons: text('persons'), // JSON array of FeedPerson
+    // Where the stored transcript came from: whisper | publisher
+    transcriptSource: text('transcript_source'),
+    transcriptSourceUrl: text('transcript_source_url'), // the publisher's file
     status: text('status').notNull().default('pending'),
     workflowId: text('workflow_id'),
     errorMessage: text('error_message'),
+    failedStep: text('failed_step'),
+    failedAttempts: integer('failed_attempts'),
     createdAt: integer('created_at', { mode: 'timestamp' }).notNull(),
   },
   (table) => [
@@ -36,6 +79,22 @@ export const episodes = sqliteTable(
   ],
 )
 
+// Speakers identified in an episode by diarization. `label` is the
+// diarizer's id (e.g. "S1"); `displayName` can be edited by hand.
+export const speakers = sqliteTable(
+  'speakers',
+  {
+    id: text('id').primaryKey(),
+    episodeId: text('episode_id')
+      .notNull()
+      .references(() => episodes.id),
+    label: text('label').notNull(),
+    displayName: text('display_name'),
+    createdAt: integer('created_at', { mode: 'timestamp' }).notNull(),
+  },
+  (table) => [index('idx_speakers_episode').on(table.episodeId)],
+)
+
 export const transcriptSegments = sqliteTable(
   'transcript_segments',
   {
@@ -48,6 +107,7 @@ export const transcriptSegments = sqliteTable(
     startTime: real('start_time').notNull(),
     endTime: real('end_time').notNull(),
     words: text('words').notNull(), // JSON: [{word, start, end}]
+    speakerId: text('speaker_id').references(() => speakers.id),
   },
   (table) => [
     index('idx_transcript_segments_episode').on(
@@ -57,6 +117,73 @@ export const transcriptSegments = sqliteTable(
   ],
 )
 
+// Hand corrections to transcript segments. Each row keeps the text and
+// words the segment had before the edit, so every earlier version (including
+// the original transcription) can be restored.
+export const transcriptRevisions = sqliteTable(
+  'transcript_revisions',
+  {
+    id: text('id').primaryKey(),
+    segmentId: text('segment_id')
+      .notNull()
+      .references(() => transcriptSegments.id),
+    episodeId: text('episode_id')
+      .notNull()
+      .references(() => episodes.id),
+    previousText: text('previous_text').notNull(),
+    previousWords: text('previous_words').notNull(), // JSON: [{word, start, end}]
+    text: text('text').notNull(),
+    createdBy: text('created_by').references(() => users.id), // null if the author was not signed in or has been deleted
+    createdAt: integer('created_at', { mode: 'timestamp' }).notNull(),
+  },
+  (table) => [
+    index('idx_transcript_revisions_segment').on(
+      table.segmentId,
+      table.createdAt,
+    ),
+    index('idx_transcript_revisions_episode').on(table.episodeId),
+  ],
+)
+
+// Chapter markers per episode, from the feed's chapters file, the audio's
+// ID3 CHAP frames, or generated from the transcript when neither has any
+export const episodeChapters = sqliteTable(
+  'episode_chapters',
+  {
+    id: text('id').primaryKey(),
+    episodeId: text('episode_id')
+      .notNull()
+      .references(() => episodes.id),
+    chapterIndex: integer('chapter_index').notNull(),
+    startTime: real('start_time').notNull(),
+    endTime: real('end_time'), // null when the chapter runs until the next one
+    title: text('title').notNull(),
+    url: text('url'),
+    imageUrl: text('image_url'),
+    source: text('source').notNull(), // 'feed' | 'id3' | 'generated'
+    createdAt: integer('created_at', { mode: 'timestamp' }).notNull(),
+  },
+  (table) => [
+    index('idx_episode_chapters_episode').on(
+      table.episodeId,
+      table.chapterIndex,
+    ),
+  ],
+)
+
+// Frame-aligned seek points into an episode's MP3 in R2, used to cut audio
+// clips without scanning the whole file
+export const audioSeekIndexes = sqliteTable('audio_seek_indexes', {
+  episodeId: text('episode_id')
+    .primaryKey()
+    .references(() => episodes.id),
+  r2Size: integer('r2_size').notNull(), // size of the object the index was built from
+  duration: real('duration').notNull(),
+  dataEnd: integer('data_end').notNull(), // byte offset just past the last frame
+  points: text('points').notNull(), // JSON: [[seconds, byteOffset], ...]
+  createdAt: integer('created_at', { mode: 'timestamp' }).notNull(),
+})
+
 export const episodeAnalyses = sqliteTable('episode_analyses', {
   id: text('id').primaryKey(),
   episodeId: text('episode_id')
@@ -71,6 +198,49 @@ export const episodeAnalyses = sqliteTable('episode_analyses', {
   createdAt: integer('created_at', { mode: 'timestamp' }).notNull(),
 })
 
+// Processing history per episode: every failed step attempt, final failures
+// and manual retries
+export const episodeEvents = sqliteTable(
+  'episode_events',
+  {
+    id: text('id').primaryKey(),
+    episodeId: text('episode_id')
+      .notNull()
+      .references(() => episodes.id),
+    workflowId: text('workflow_id'),
+    type: text('type').notNull(), // 'attempt_failed' | 'failed' | 'retried'
+    step: text('step'),
+    attempt: integer('attempt'),
+    message: text('message'),
+    createdAt: integer('created_at', { mode: 'timestamp' }).notNull(),
+  },
+  (table) => [
+    index('idx_episode_events_episode').on(table.episodeId, table.createdAt),
+  ],
+)
+
+// One row per feed poll sent through the queue. Finished polls are deleted;
+// polls that run out of attempts stay as dead letters until retried or
+// dismissed.
+export const feedPollJobs = sqliteTable(
+  'feed_poll_jobs',
+  {
+    id: text('id').primaryKey(),
+    podcastId: text('podcast_id')
+      .notNull()
+      .references(() => podcasts.id),
+    status: text('status').notNull().default('queued'), // queued | running | retrying | dead
+    attempts: integer('attempts').notNull().default(0),
+    lastError: text('last_error'),
+    enqueuedAt: integer('enqueued_at', { mode: 'timestamp' }).notNull(),
+    updatedAt: integer('updated_at', { mode: 'timestamp' }).notNull(),
+  },
+  (table) => [
+    index('idx_feed_poll_jobs_podcast').on(table.podcastId),
+    index('idx_feed_poll_jobs_status').on(table.status),
+  ],
+)
+
 export const weeklyAnalyses = sqliteTable(
   'weekly_analyses',
   {
@@ -82,5 +252,241 @@ export const weeklyAnalyses = sqliteTable(
     episodeIds: text('episode_ids').notNull(), // JSON array of episode IDs
     createdAt: integer('created_at', { mode: 'timestamp' }).notNull(),
   },
-  (table) => [index('idx_weekly_analyses_week_end').on(table.weekEnd)],
+  (table) => [
+    index('idx_weekly_analyses_week_end').on(table.weekEnd),
+    // One report per window, so a retried cron run can't add a duplicate
+    uniqueIndex('idx_weekly_analyses_window').on(table.weekStart, table.weekEnd),
+  ],
+)
+
+export const digests = sqliteTable(
+  'digests',
+  {
+    id: text('id').primaryKey(),
+    periodStart: integer('period_start', { mode: 'timestamp' }).notNull(),
+    periodEnd: integer('period_end', { mode: 'timestamp' }).notNull(),
+    subject: text('subject').notNull(),
+    html: text('html').notNull(),
+    text: text('text').notNull(),
+    episodeIds: text('episode_ids').notNull(), // JSON array of episode IDs
+    recipients: text('recipients').notNull(), // JSON array of addresses last sent to
+    status: text('status').notNull().default('pending'), // pending | sent | failed
+    error: text('error'),
+    sentAt: integer('sent_at', { mode: 'timestamp' }),
+    createdAt: integer('created_at', { mode: 'timestamp' }).notNull(),
+  },
+  (table) => [uniqueIndex('idx_digests_period_end').on(table.periodEnd)],
+)
+
+export const users = sqliteTable('users', {
+  id: text('id').primaryKey(),
+  email: text('email').notNull().unique(),
+  name: text('name'),
+  passwordHash: text('password_hash'), // null for users who only sign in through Cloudflare Access
+  role: text('role').notNull().default('viewer'), // viewer | editor | admin
+  createdAt: integer('created_at', { mode: 'timestamp' }).notNull(),
+  lastLoginAt: integer('last_login_at', { mode: 'timestamp' }),
+})
+
+export const sessions = sqliteTable(
+  'sessions',
+  {
+    id: text('id').primaryKey(), // SHA-256 of the session token; the token itself is only in the cookie
+    userId: text('user_id')
+      .notNull()
+      .references(() => users.id),
+    expiresAt: integer('expires_at', { mode: 'timestamp' }).notNull(),
+    createdAt: integer('created_at', { mode: 'timestamp' }).notNull(),
+  },
+  (table) => [index('idx_sessions_user_id').on(table.userId)],
+)
+
+// A saved range of an episode, shared as a permalink or quote card. `quote`
+// is the transcript text of the range at the time the clip was made.
+export const clips = sqliteTable(
+  'clips',
+  {
+    id: text('id').primaryKey(),
+    episodeId: text('episode_id')
+      .notNull()
+      .references(() => episodes.id),
+    startTime: real('start_time').notNull(),
+    endTime: real('end_time').notNull(),
+    quote: text('quote').notNull(),
+    note: text('note'),
+    createdBy: text('created_by').references(() => users.id), // null if the creator was not signed in or has been deleted
+    createdAt: integer('created_at', { mode: 'timestamp' }).notNull(),
+  },
+  (table) => [
+    index('idx_clips_created_at').on(table.createdAt),
+    index('idx_clips_episode').on(table.episodeId),
+  ],
+)
+
+// Spellings to enforce in transcripts: names, shows and jargon that Whisper
+// gets wrong. Terms without a podcast apply to every show.
+export const glossaryTerms = sqliteTable(
+  'glossary_terms',
+  {
+    id: text('id').primaryKey(),
+    term: text('term').notNull(), // canonical spelling
+    variants: text('variants').notNull(), // JSON array of common mis-transcriptions
+    podcastId: text('podcast_id').references(() => podcasts.id),
+    createdAt: integer('created_at', { mode: 'timestamp' }).notNull(),
+    updatedAt: integer('updated_at', { mode: 'timestamp' }).notNull(),
+  },
+  (table) => [index('idx_glossary_terms_podcast').on(table.podcastId)],
+)
+
+// People, organisations, products and places named in episode analyses. One
+// row per distinct name and type across all shows.
+export const entities = sqliteTable(
+  'entities',
+  {
+    id: text('id').primaryKey(),
+    name: text('name').notNull(), // display name, as first extracted
+    type: text('type').notNull(), // person | organization | product | place
+    normalizedName: text('normalized_name').notNull(), // lowercased, punctuation stripped; the dedupe key
+    createdAt: integer('created_at', { mode: 'timestamp' }).notNull(),
+  },
+  (table) => [
+    uniqueIndex('idx_entities_type_name').on(table.type, table.normalizedName),
+  ],
+)
+
+// An entity's appearance in one episode. `mentions` holds the transcript
+// segments whose text names it, found by string matching.
+export const episodeEntities = sqliteTable(
+  'episode_entities',
+  {
+    id: text('id').primaryKey(),
+    episodeId: text('episode_id')
+      .notNull()
+      .references(() => episodes.id),
+    entityId: text('entity_id')
+      .notNull()
+      .references(() => entities.id),
+    mentionCount: integer('mention_count').notNull(),
+    mentions: text('mentions').notNull(), // JSON array of { segmentId, startTime }
+    createdAt: integer('created_at', { mode: 'timestamp' }).notNull(),
+  },
+  (table) => [
+    index('idx_episode_entities_episode').on(table.episodeId),
+    index('idx_episode_entities_entity').on(table.entityId),
+  ],
+)
+
+// Canonical topic tags. Tags from the analysis model are normalised through
+// tag_aliases before they are linked to episodes.
+export const tags = sqliteTable('tags', {
+  id: text('id').primaryKey(),
+  name: text('name').notNull().unique(), // lowercase, single-spaced
+  createdAt: integer('created_at', { mode: 'timestamp' }).notNull(),
+})
+
+// Alternative spellings that resolve to a canonical tag, e.g. "male identity"
+// -> "masculinity". Added by editors, and by merging one tag into another.
+export const tagAliases = sqliteTable(
+  'tag_aliases',
+  {
+    alias: text('alias').primaryKey(), // normalised like tags.name
+    tagId: text('tag_id')
+      .notNull()
+      .references(() => tags.id),
+    createdAt: integer('created_at', { mode: 'timestamp' }).notNull(),
+  },
+  (table) => [index('idx_tag_aliases_tag').on(table.tagId)],
+)
+
+export const episodeTags = sqliteTable(
+  'episode_tags',
+  {
+    id: text('id').primaryKey(),
+    episodeId: text('episode_id')
+      .notNull()
+      .references(() => episodes.id),
+    tagId: text('tag_id')
+      .notNull()
+      .references(() => tags.id),
+    position: integer('position').notNull(), // order the model listed it in
+  },
+  (table) => [
+    uniqueIndex('idx_episode_tags_episode_tag').on(
+      table.episodeId,
+      table.tagId,
+    ),
+    index('idx_episode_tags_tag').on(table.tagId),
+  ],
+)
+
+// Talking points that recur across episodes. Claims from episode analyses are
+// clustered by embedding similarity, and the earliest published episode
+// making the claim is the narrative's origin.
+export const narratives = sqliteTable(
+  'narratives',
+  {
+    id: text('id').primaryKey(),
+    label: text('label').notNull(), // the origin episode's wording of the claim
+    embedder: text('embedder').notNull(), // model that made the vectors; clusters never mix models
+    centroid: text('centroid').notNull(), // JSON number[]: unit mean of the claims' embeddings
+    firstEpisodeId: text('first_episode_id')
+      .notNull()
+      .references(() => episodes.id),
+    firstSeenAt: integer('first_seen_at', { mode: 'timestamp' }).notNull(),
+    lastSeenAt: integer('last_seen_at', { mode: 'timestamp' }).notNull(),
+    claimCount: integer('claim_count').notNull(),
+    episodeCount: integer('episode_count').notNull(),
+    podcastCount: integer('podcast_count').notNull(),
+    createdAt: integer('created_at', { mode: 'timestamp' }).notNull(),
+    updatedAt: integer('updated_at', { mode: 'timestamp' }).notNull(),
+  },
+  (table) => [
+    index('idx_narratives_last_seen').on(table.lastSeenAt),
+    index('idx_narratives_podcast_count').on(table.podcastCount),
+  ],
+)
+
+export const narrativeClaims = sqliteTable(
+  'narrative_claims',
+  {
+    id: text('id').primaryKey(),
+    narrativeId: text('narrative_id')
+      .notNull()
+      .references(() => narratives.id),
+    episodeId: text('episode_id')
+      .notNull()
+      .references(() => episodes.id),
+    text: text('text').notNull(),
+    embedding: text('embedding').notNull(), // JSON number[]
+    similarity: real('similarity').notNull(), // to the narrative's centre when assigned; 1 for the claim that started it
+    createdAt: integer('created_at', { mode: 'timestamp' }).notNull(),
+  },
+  (table) => [
+    index('idx_narrative_claims_narrative').on(table.narrativeId),
+    index('idx_narrative_claims_episode').on(table.episodeId),
+  ],
+)
+
+// Runs of consecutive transcript segments embedded for semantic search. The
+// id is also the vector's id in the vector index.
+export const transcriptWindows = sqliteTable(
+  'transcript_windows',
+  {
+    id: text('id').primaryKey(),
+    episodeId: text('episode_id')
+      .notNull()
+      .references(() => episodes.id),
+    firstSegmentIndex: integer('first_segment_index').notNull(),
+    lastSegmentIndex: integer('last_segment_index').notNull(),
+    startTime: real('start_time').notNull(),
+    endTime: real('end_time').notNull(),
+    embedder: text('embedder').notNull(), // model that made the vector
+    createdAt: integer('created_at', { mode: 'timestamp' }).notNull(),
+  },
+  (table) => [
+    index('idx_transcript_windows_episode').on(
+      table.episodeId,
+      table.firstSegmentIndex,
+    ),
+  ],
 )
@@ -6,6 +6,13 @@ declare namespace Cloudflare {
     AUDIO_BUCKET: R2Bucket
     AI: Ai
     EPISODE_WORKFLOW: Workflow
+    GLOSSARY_WORKFLOW: Workflow
+    // Optional queue that fans feed polls out to the queue consumer
+    FEED_POLL_QUEUE?: Queue<{ jobId: string }>
+    // Optional Vectorize index of transcript windows for semantic search
+    TRANSCRIPT_INDEX?: Vectorize
+    // Optional Cloudflare Email Workers binding used when MAIL_TRANSPORT is "cloudflare"
+    DIGEST_EMAIL?: SendEmail
   }
 }
 
@@ -0,0 +1,22 @@
+/**
+ * Runs a single-turn chat completion against GLM-4.7-Flash on Workers AI and
+ * returns the response text (empty if the model returned nothing).
+ */
+export async function runGlm(
+  env: Env,
+  systemPrompt: string,
+  userPrompt: string,
+  options: { json?: boolean } = {},
+): Promise<string> {
+  const result = (await env.AI.run('@cf/zai-org/glm-4.7-flash' as any, {
+    messages: [
+      { role: 'system', content: systemPrompt },
+      { role: 'user', content: userPrompt },
+    ],
+    max_completion_tokens: 4096,
+    ...(options.json ? { response_format: { type: 'json_object' } } : {}),
+  })) as any
+
+  // Handle GLM response format
+  return result?.choices?.[0]?.message?.content || result?.response || ''
+}
@@ -1,3 +1,6 @@
+import { parseExtractedEntities, type ExtractedEntity } from '~/lib/entities'
+import { parseClaims } from '~/lib/narratives'
+
 const ANALYSIS_SYSTEM_PROMPT = `You are an expert media analyst specializing in podcast content analysis.
 Analyze the following podcast transcript and return a JSON object with exactly these fields:
 - "summary": A markdown-formatted summary of the episode's main points and arguments. Use short paragraphs separated by blank lines. Use **bold** for key names and concepts. Aim for 3-5 paragraphs.
@@ -5,6 +8,8 @@ Analyze the following podcast transcript and return a JSON object with exactly t
 - "themes": An array of objects with "theme" and "description" fields identifying major themes discussed
 - "sentiment": A brief overall tone assessment (e.g., "confrontational", "educational", "motivational", "conversational")
 - "keyQuotes": An array of 3-5 notable direct quotes from the transcript
+- "entities": An array of up to 30 named people, organizations, products and places discussed, most mentioned first. Each is an object with "name" (the full name as normally written, e.g. "Andrew Tate"), "type" (one of "person", "organization", "product", "place"), "mentions" (roughly how many times it comes up) and "aliases" (other forms the transcript uses for it, e.g. ["Tate"]; may be empty)
+- "claims": An array of up to 8 specific claims or talking points the hosts put forward, each one self-contained sentence in plain words that makes sense without the episode (e.g. "Dating apps have made women too selective")
 
 Return ONLY valid JSON. No markdown code fences, no explanation outside the JSON.`
 
@@ -24,45 +29,53 @@ Also return a JSON array of trending topic strings at the very end, wrapped in a
 
 Be specific and cite which podcasts discussed which topics.`
 
+const PODCAST_DIGEST_SYSTEM_PROMPT = `You are an expert media analyst who studies podcast ecosystems.
+Given analyses of several episodes of the same podcast from the past week, condense them into a single digest of what the show discussed that week.
+Return a JSON object with exactly these fields:
+- "summary": A markdown-formatted summary of the show's main points and arguments across the week, naming the episodes where relevant. Aim for 2-4 short paragraphs.
+- "tags": An array of up to 15 lowercase topic tags as strings, most prominent first
+- "themes": An array of objects with "theme" and "description" fields identifying the week's major themes
+
+Return ONLY valid JSON. No markdown code fences, no explanation outside the JSON.`
+
+// GLM-4.7-Flash has a 131k token context window (~4 chars per token).
+// Reserve ~30k tokens for system prompt + response, use the rest for input.
+const MAX_PROMPT_CHARS = 400000
+
 export interface AnalysisResult {
   summary: string
   tags: string[]
   themes: { theme: string; description: string }[]
   sentiment: string
   keyQuotes: string[]
+  entities: ExtractedEntity[]
+  claims: string[]
 }
 
 export function buildAnalysisPrompt(transcript: string): string {
-  // GLM-4.7-Flash has a 131k token context window (~4 chars per token).
-  // Reserve ~30k tokens for system prompt + response, use the rest for transcript.
-  const maxChars = 400000
   const truncated =
-    transcript.length > maxChars
-      ? transcript.slice(0, maxChars) + '\n\n[TRANSCRIPT TRUNCATED]'
+    transcript.length > MAX_PROMPT_CHARS
+      ? transcript.slice(0, MAX_PROMPT_CHARS) + '\n\n[TRANSCRIPT TRUNCATED]'
       : transcript
 
   return `Analyze this podcast episode transcript:\n\n${truncated}`
 }
 
-export function parseAnalysisResult(response: string): AnalysisResult {
-  const extract = (parsed: any): AnalysisResult => ({
-    summary: parsed.summary || '',
-    tags: Array.isArray(parsed.tags) ? parsed.tags : [],
-    themes: Array.isArray(parsed.themes) ? parsed.themes : [],
-    sentiment: parsed.sentiment || '',
-    keyQuotes: Array.isArray(parsed.keyQuotes) ? parsed.keyQuotes : [],
-  })
-
+/**
+ * Pulls a JSON object out of a model response: the whole response, a fenced
+ * code block, or the first {...} span. Returns null if none parses.
+ */
+export function extractJsonObject(response: string): any | null {
   // Strategy 1: Direct parse (model returned clean JSON)
   try {
-    return extract(JSON.parse(response.trim()))
+    return JSON.parse(response.trim())
   } catch {}
 
   // Strategy 2: Strip markdown code fences
   const fenceMatch = response.match(/```(?:json)?\s*\n?([\s\S]*?)\n?\s*```/)
   if (fenceMatch) {
     try {
-      return extract(JSON.parse(fenceMatch[1]))
+      return JSON.parse(fenceMatch[1])
     } catch {}
   }
 
@@ -71,10 +84,27 @@ export function parseAnalysisResult(response: string): AnalysisResult {
   const braceEnd = response.lastIndexOf('}')
   if (braceStart !== -1 && braceEnd > braceStart) {
     try {
-      return extract(JSON.parse(response.slice(braceStart, braceEnd + 1)))
+      return JSON.parse(response.slice(braceStart, braceEnd + 1))
     } catch {}
   }
 
+  return null
+}
+
+export function parseAnalysisResult(response: string): AnalysisResult {
+  const parsed = extractJsonObject(response)
+  if (parsed && typeof parsed === 'object') {
+    return {
+      summary: parsed.summary || '',
+      tags: Array.isArray(parsed.tags) ? parsed.tags : [],
+      themes: Array.isArray(parsed.themes) ? parsed.themes : [],
+      sentiment: parsed.sentiment || '',
+      keyQuotes: Array.isArray(parsed.keyQuotes) ? parsed.keyQuotes : [],
+      entities: parseExtractedEntities(parsed.entities),
+      claims: parseClaims(parsed.claims),
+    }
+  }
+
   // Fallback: nothing parsed – store the raw text as summary
   return {
     summary: response.slice(0, 4000),
@@ -82,6 +112,8 @@ export function parseAnalysisResult(response: string): AnalysisResult {
     themes: [],
     sentiment: 'unknown',
     keyQuotes: [],
+    entities: [],
+    claims: [],
   }
 }
 
@@ -91,6 +123,8 @@ export interface WeeklyAnalysisInput {
   summary: string
   tags: string[]
   themes: { theme: string; description: string }[]
+  // Episodes this input stands for: one, or all of a digest's
+  episodeIds: string[]
 }
 
 export function buildWeeklyAnalysisPrompt(
@@ -103,7 +137,83 @@ export function buildWeeklyAnalysisPrompt(
     )
     .join('\n\n---\n\n')
 
-  return `Here are the podcast episode analyses from this past week:\n\n${episodeSummaries}`
+  const truncated =
+    episodeSummaries.length > MAX_PROMPT_CHARS
+      ? episodeSummaries.slice(0, MAX_PROMPT_CHARS) + '\n\n[ANALYSES TRUNCATED]'
+      : episodeSummaries
+
+  return `Here are the podcast episode analyses from this past week:\n\n${truncated}`
+}
+
+/**
+ * Whether the week's analyses fit in a single weekly prompt. When they don't,
+ * each podcast's episodes should first be condensed with a digest prompt.
+ */
+export function fitsWeeklyPrompt(episodes: WeeklyAnalysisInput[]): boolean {
+  return buildWeeklyAnalysisPrompt(episodes).length <= MAX_PROMPT_CHARS
+}
+
+/**
+ * Whether a podcast's episodes fit in a single digest prompt. Larger groups
+ * should be digested in parts.
+ */
+export function fitsPodcastDigestPrompt(
+  episodes: WeeklyAnalysisInput[],
+): boolean {
+  return buildPodcastDigestPrompt(episodes).length <= MAX_PROMPT_CHARS
+}
+
+/**
+ * Groups weekly inputs by podcast, preserving the order in which each
+ * podcast first appears.
+ */
+export function groupWeeklyInputsByPodcast(
+  episodes: WeeklyAnalysisInput[],
+): WeeklyAnalysisInput[][] {
+  const groups = new Map<string, WeeklyAnalysisInput[]>()
+  for (const ep of episodes) {
+    const group = groups.get(ep.podcastTitle)
+    if (group) group.push(ep)
+    else groups.set(ep.podcastTitle, [ep])
+  }
+  return [...groups.values()]
+}
+
+export function buildPodcastDigestPrompt(
+  episodes: WeeklyAnalysisInput[],
+): string {
+  const podcastTitle = episodes[0]?.podcastTitle ?? 'Unknown'
+  const episodeSummaries = episodes
+    .map(
+      (ep) =>
+        `## "${ep.episodeTitle}"\n\nSummary: ${ep.summary}\n\nTags: ${ep.tags.join(', ')}\n\nThemes: ${ep.themes.map((t) => `${t.theme}: ${t.description}`).join('; ')}`,
+    )
+    .join('\n\n---\n\n')
+
+  const truncated =
+    episodeSummaries.length > MAX_PROMPT_CHARS
+      ? episodeSummaries.slice(0, MAX_PROMPT_CHARS) + '\n\n[ANALYSES TRUNCATED]'
+      : episodeSummaries
+
+  return `Here are this week's episode analyses for the podcast "${podcastTitle}":\n\n${truncated}`
+}
+
+/**
+ * Folds a podcast's digest back into a single weekly input standing in for
+ * all of that podcast's episodes.
+ */
+export function digestToWeeklyInput(
+  episodes: WeeklyAnalysisInput[],
+  digest: AnalysisResult,
+): WeeklyAnalysisInput {
+  return {
+    podcastTitle: episodes[0]?.podcastTitle ?? 'Unknown',
+    episodeTitle: `${episodes.length} episodes: ${episodes.map((ep) => `"${ep.episodeTitle}"`).join(', ')}`,
+    summary: digest.summary,
+    tags: digest.tags,
+    themes: digest.themes,
+    episodeIds: episodes.flatMap((ep) => ep.episodeIds),
+  }
 }
 
 export function parseWeeklyAnalysis(response: string): {
@@ -127,4 +237,8 @@ export function parseWeeklyAnalysis(response: string): {
   return { analysis, trendingTopics }
 }
 
-export { ANALYSIS_SYSTEM_PROMPT, WEEKLY_ANALYSIS_SYSTEM_PROMPT }
+export {
+  ANALYSIS_SYSTEM_PROMPT,
+  WEEKLY_ANALYSIS_SYSTEM_PROMPT,
+  PODCAST_DIGEST_SYSTEM_PROMPT,
+}
@@ -0,0 +1,258 @@
+import { and, eq, gte, lte } from 'drizzle-orm'
+import { getDb } from '~/db'
+import { audioSeekIndexes, clips } from '~/db/schema'
+import {
+  Mp3ChunkPlanner,
+  findFrameSpan,
+  type Mp3ChunkPlan,
+} from '~/lib/mp3'
+
+// One seek point per ~64KB of audio: about 4 seconds at 128kbps
+export const SEEK_POINT_BYTES = 64 * 1024
+export const MAX_AUDIO_CLIP_SECONDS = 10 * 60
+// Clip links round times to hundredths of a second, so a request counts as a
+// saved clip's range when both ends are this close to it
+const SAVED_CLIP_TOLERANCE = 0.01
+
+export interface SeekIndex {
+  r2Size: number
+  duration: number
+  dataEnd: number
+  // [playback time in seconds, byte offset of a frame starting at that time]
+  points: [number, number][]
+}
+
+export interface AudioClip {
+  body: ReadableStream | Uint8Array<ArrayBuffer>
+  size: number
+  etag: string
+}
+
+export class AudioClipError extends Error {
+  constructor(
+    message: string,
+    readonly status: number,
+  ) {
+    super(message)
+    this.name = 'AudioClipError'
+  }
+}
+
+export function createSeekPlanner(): Mp3ChunkPlanner {
+  return new Mp3ChunkPlanner({ targetChunkBytes: SEEK_POINT_BYTES })
+}
+
+export function seekIndexFromPlan(
+  plan: Mp3ChunkPlan,
+  r2Size: number,
+): SeekIndex | null {
+  const last = plan.chunks[plan.chunks.length - 1]
+  if (!last) return null
+  return {
+    r2Size,
+    duration: plan.duration,
+    dataEnd: last.offset + last.length,
+    points: plan.chunks.map((c) => [
+      Math.round(c.startTime * 10000) / 10000,
+      c.offset,
+    ]),
+  }
+}
+
+export async function saveSeekIndex(
+  env: Env,
+  episodeId: string,
+  index: SeekIndex,
+): Promise<void> {
+  const db = getDb(env.DB)
+  const row = {
+    r2Size: index.r2Size,
+    duration: index.duration,
+    dataEnd: index.dataEnd,
+    points: JSON.stringify(index.points),
+    createdAt: new Date(),
+  }
+  await db
+    .insert(audioSeekIndexes)
+    .values({ episodeId, ...row })
+    .onConflictDoUpdate({ target: audioSeekIndexes.episodeId, set: row })
+}
+
+/**
+ * Loads the episode's seek index, building it by streaming the audio from R2
+ * if there is none yet or the object has changed since it was built. Returns
+ * null when the audio isn't MP3.
+ */
+export async function getSeekIndex(
+  env: Env,
+  episodeId: string,
+  r2Key: string,
+): Promise<SeekIndex | null> {
+  const db = getDb(env.DB)
+  const head = await env.AUDIO_BUCKET.head(r2Key)
+  if (!head) throw new AudioClipError('Audio not found', 404)
+
+  const [stored] = await db
+    .select()
+    .from(audioSeekIndexes)
+    .where(eq(audioSeekIndexes.episodeId, episodeId))
+    .limit(1)
+  if (stored && stored.r2Size === head.size) {
+    return {
+      r2Size: stored.r2Size,
+      duration: stored.duration,
+      dataEnd: stored.dataEnd,
+      points: JSON.parse(stored.points),
+    }
+  }
+
+  const audio = await env.AUDIO_BUCKET.get(r2Key)
+  if (!audio) throw new AudioClipError('Audio not found', 404)
+
+  const planner = createSeekPlanner()
+  const reader = audio.body.getReader()
+  while (true) {
+    const { done, value } = await reader.read()
+    if (done) break
+    planner.push(value)
+    if (planner.failed) {
+      await reader.cancel()
+      break
+    }
+  }
+
+  const plan = planner.finish()
+  const index = plan ? seekIndexFromPlan(plan, audio.size) : null
+  if (index) await saveSeekIndex(env, episodeId, index)
+  return index
+}
+
+function clipKey(episodeId: string, clipId: string): string {
+  return `clips/${episodeId}/${clipId}.mp3`
+}
+
+// The saved clip whose range the request is for, if any
+async function findSavedClip(
+  env: Env,
+  episodeId: string,
+  start: number,
+  end: number,
+): Promise<string | null> {
+  const db = getDb(env.DB)
+  const [clip] = await db
+    .select({ id: clips.id })
+    .from(clips)
+    .where(
+      and(
+        eq(clips.episodeId, episodeId),
+        gte(clips.startTime, start - SAVED_CLIP_TOLERANCE),
+        lte(clips.startTime, start + SAVED_CLIP_TOLERANCE),
+        gte(clips.endTime, end - SAVED_CLIP_TOLERANCE),
+        lte(clips.endTime, end + SAVED_CLIP_TOLERANCE),
+      ),
+    )
+    .limit(1)
+  return clip?.id ?? null
+}
+
+/**
+ * Returns the audio between `start` and `end` seconds as an MP3, cut on frame
+ * boundaries. Only the ranges of saved clips are kept in R2 and served from
+ * there on repeat requests; any other range is cut afresh each time, so
+ * arbitrary requests can't fill the bucket.
+ */
+export async function getAudioClip(
+  env: Env,
+  episode: { id: string; r2Key: string },
+  start: number,
+  end: number,
+): Promise<AudioClip> {
+  const savedClipId = await findSavedClip(env, episode.id, start, end)
+  const key = savedClipId ? clipKey(episode.id, savedClipId) : null
+  if (key) {
+    const cached = await env.AUDIO_BUCKET.get(key)
+    if (cached) {
+      return { body: cached.body, size: cached.size, etag: cached.httpEtag }
+    }
+  }
+
+  const index = await getSeekIndex(env, episode.id, episode.r2Key)
+  if (!index) {
+    throw new AudioClipError('Clips can only be cut from MP3 audio', 422)
+  }
+  if (start >= index.duration) {
+    throw new AudioClipError('Clip starts after the end of the episode', 416)
+  }
+
+  // Read from the last seek point at or before the start to the first one
+  // at or after the end
+  const { points } = index
+  let first = 0
+  while (first + 1 < points.length && points[first + 1][0] <= start) first++
+  let last = first
+  while (last < points.length && points[last][0] < end) last++
+  const rangeStart = points[first][1]
+  const rangeEnd = last < points.length ? points[last][1] : index.dataEnd
+
+  const source = await env.AUDIO_BUCKET.get(episode.r2Key, {
+    range: { offset: rangeStart, length: rangeEnd - rangeStart },
+  })
+  if (!source) throw new AudioClipError('Audio not found', 404)
+  const bytes = new Uint8Array(await source.arrayBuffer())
+
+  const span = findFrameSpan(bytes, points[first][0], start, end)
+  if (!span) throw new AudioClipError('No audio in the requested range', 416)
+  const clip = bytes.subarray(span.offset, span.offset + span.length)
+
+  if (!key) {
+    // The episode's audio never changes, so its byte range identifies the clip
+    return {
+      body: clip,
+      size: clip.length,
+      etag: `"${index.r2Size}-${rangeStart + span.offset}-${span.length}"`,
+    }
+  }
+
+  const stored = await env.AUDIO_BUCKET.put(key, clip, {
+    httpMetadata: { contentType: 'audio/mpeg' },
+    customMetadata: {
+      startTime: String(span.startTime),
+      endTime: String(span.endTime),
+    },
+  })
+  if (!stored) throw new AudioClipError('Failed to store clip', 500)
+  return { body: clip, size: clip.length, etag: stored.httpEtag }
+}
+
+/**
+ * Removes the stored audio of a saved clip from R2.
+ */
+export async function deleteSavedClipAudio(
+  env: Env,
+  episodeId: string,
+  clipId: string,
+): Promise<void> {
+  await env.AUDIO_BUCKET.delete(clipKey(episodeId, clipId))
+}
+
+/**
+ * Removes every cut clip of the given episodes from R2.
+ */
+export async function deleteAudioClips(
+  env: Env,
+  episodeIds: string[],
+): Promise<void> {
+  for (const episodeId of episodeIds) {
+    let cursor: string | undefined
+    do {
+      const listing = await env.AUDIO_BUCKET.list({
+        prefix: `clips/${episodeId}/`,
+        cursor,
+      })
+      if (listing.objects.length > 0) {
+        await env.AUDIO_BUCKET.delete(listing.objects.map((o) => o.key))
+      }
+      cursor = listing.truncated ? listing.cursor : undefined
+    } while (cursor)
+  }
+}
@@ -0,0 +1,364 @@
+import { nanoid } from 'nanoid'
+import { eq, and, gt } from 'drizzle-orm'
+import { getDb } from '~/db'
+import { users, sessions } from '~/db/schema'
+
+export const ROLES = ['viewer', 'editor', 'admin'] as const
+export type Role = (typeof ROLES)[number]
+
+export interface Principal {
+  userId: string | null
+  email: string | null
+  name: string | null
+  // null when the visitor may not see anything at all
+  role: Role | null
+  source: 'session' | 'access' | 'anonymous'
+}
+
+export const SESSION_COOKIE = 'mr_session'
+export const SESSION_TTL_MS = 30 * 24 * 60 * 60 * 1000
+
+export function isRole(value: unknown): value is Role {
+  return typeof value === 'string' && (ROLES as readonly string[]).includes(value)
+}
+
+export function hasRole(principal: Principal, required: Role): boolean {
+  if (!principal.role) return false
+  return ROLES.indexOf(principal.role) >= ROLES.indexOf(required)
+}
+
+export function isDemo(env: Env): boolean {
+  return String((env as any).IS_DEMO) === 'true'
+}
+
+/**
+ * Role granted to visitors who are not signed in. Demo deployments always
+ * treat them as viewers; otherwise ANONYMOUS_ROLE decides ("viewer" by
+ * default, "none" to require sign-in for everything).
+ */
+export function anonymousRole(env: Env): Role | null {
+  if (isDemo(env)) return 'viewer'
+  const configured = String((env as any).ANONYMOUS_ROLE || 'viewer')
+  return isRole(configured) ? configured : null
+}
+
+// ==================== Passwords ====================
+
+// Workers caps PBKDF2 at 100k iterations
+const PBKDF2_ITERATIONS = 100000
+
+function toBase64(bytes: Uint8Array): string {
+  return btoa(String.fromCharCode(...bytes))
+}
+
+function fromBase64(value: string): Uint8Array<ArrayBuffer> {
+  return Uint8Array.from(atob(value), (c) => c.charCodeAt(0))
+}
+
+async function pbkdf2(
+  password: string,
+  salt: Uint8Array<ArrayBuffer>,
+  iterations: number,
+): Promise<Uint8Array> {
+  const key = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(password),
+    'PBKDF2',
+    false,
+    ['deriveBits'],
+  )
+  const bits = await crypto.subtle.deriveBits(
+    { name: 'PBKDF2', hash: 'SHA-256', salt, iterations },
+    key,
+    256,
+  )
+  return new Uint8Array(bits)
+}
+
+/**
+ * Hashes a password as `pbkdf2$<iterations>$<salt>$<hash>`.
+ */
+export async function hashPassword(password: string): Promise<string> {
+  const salt = crypto.getRandomValues(new Uint8Array(16))
+  const hash = await pbkdf2(password, salt, PBKDF2_ITERATIONS)
+  return `pbkdf2$${PBKDF2_ITERATIONS}$${toBase64(salt)}$${toBase64(hash)}`
+}
+
+export async function verifyPassword(
+  password: string,
+  stored: string,
+): Promise<boolean> {
+  const [scheme, iterations, salt, hash] = stored.split('$')
+  if (scheme !== 'pbkdf2' || !iterations || !salt || !hash) return false
+
+  const expected = fromBase64(hash)
+  const actual = await pbkdf2(password, fromBase64(salt), parseInt(iterations, 10))
+  return bytesEqual(actual, expected)
+}
+
+// Constant-time comparison
+function bytesEqual(a: Uint8Array, b: Uint8Array): boolean {
+  if (a.byteLength !== b.byteLength) return false
+  let diff = 0
+  for (let i = 0; i < a.byteLength; i++) diff |= a[i] ^ b[i]
+  return diff === 0
+}
+
+/**
+ * Whether `token` matches the SETUP_TOKEN secret that guards creating the
+ * first admin account. Always false when no secret is set. Both sides are
+ * hashed first so the comparison doesn't leak the secret's length.
+ */
+export async function verifySetupToken(
+  env: Env,
+  token: string,
+): Promise<boolean> {
+  const secret = String((env as any).SETUP_TOKEN || '')
+  if (!secret) return false
+  const digest = async (value: string) =>
+    new Uint8Array(
+      await crypto.subtle.digest('SHA-256', new TextEncoder().encode(value)),
+    )
+  return bytesEqual(await digest(token), await digest(secret))
+}
+
+// ==================== Sessions ====================
+
+async function sha256Hex(value: string): Promise<string> {
+  const digest = await crypto.subtle.digest(
+    'SHA-256',
+    new TextEncoder().encode(value),
+  )
+  return [...new Uint8Array(digest)]
+    .map((b) => b.toString(16).padStart(2, '0'))
+    .join('')
+}
+
+/**
+ * Creates a session for the user and returns the token to put in the
+ * session cookie. Only a hash of the token is stored.
+ */
+export async function createSession(
+  env: Env,
+  userId: string,
+): Promise<{ token: string; expiresAt: Date }> {
+  const token = nanoid(48)
+  const expiresAt = new Date(Date.now() + SESSION_TTL_MS)
+
+  const db = getDb(env.DB)
+  await db.insert(sessions).values({
+    id: await sha256Hex(token),
+    userId,
+    expiresAt,
+    createdAt: new Date(),
+  })
+
+  return { token, expiresAt }
+}
+
+export async function deleteSession(env: Env, token: string): Promise<void> {
+  const db = getDb(env.DB)
+  await db.delete(sessions).where(eq(sessions.id, await sha256Hex(token)))
+}
+
+function readCookie(request: Request, name: string): string | undefined {
+  const header = request.headers.get('Cookie')
+  if (!header) return undefined
+  for (const part of header.split(';')) {
+    const [key, ...rest] = part.trim().split('=')
+    if (key === name) return decodeURIComponent(rest.join('='))
+  }
+  return undefined
+}
+
+// ==================== Cloudflare Access ====================
+// When the deployment sits behind Cloudflare Access, every request carries a
+// signed JWT in Cf-Access-Jwt-Assertion. It is verified against the team's
+// public keys and the user is matched (or provisioned) by email.
+
+interface AccessClaims {
+  aud: string | string[]
+  email?: string
+  exp: number
+  iss: string
+}
+
+const ACCESS_CERTS_TTL_MS = 60 * 60 * 1000
+let accessCertsCache: {
+  url: string
+  keys: (JsonWebKey & { kid?: string })[]
+  fetchedAt: number
+} | null = null
+
+function decodeBase64Url(value: string): Uint8Array<ArrayBuffer> {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/')
+  return fromBase64(base64.padEnd(Math.ceil(base64.length / 4) * 4, '='))
+}
+
+async function getAccessKeys(certsUrl: string) {
+  if (
+    accessCertsCache?.url === certsUrl &&
+    Date.now() - accessCertsCache.fetchedAt < ACCESS_CERTS_TTL_MS
+  ) {
+    return accessCertsCache.keys
+  }
+
+  const response = await fetch(certsUrl)
+  if (!response.ok) {
+    throw new Error(`Failed to fetch Access certs: ${response.status}`)
+  }
+  const { keys } = (await response.json()) as {
+    keys: (JsonWebKey & { kid?: string })[]
+  }
+  accessCertsCache = { url: certsUrl, keys, fetchedAt: Date.now() }
+  return keys
+}
+
+async function verifyAccessJwt(
+  env: Env,
+  token: string,
+): Promise<AccessClaims | null> {
+  const teamDomain = String((env as any).ACCESS_TEAM_DOMAIN || '').replace(
+    /^https?:\/\/|\/+$/g,
+    '',
+  )
+  const audience = String((env as any).ACCESS_AUD || '')
+  if (!teamDomain || !audience) return null
+
+  const [rawHeader, rawPayload, rawSignature] = token.split('.')
+  if (!rawHeader || !rawPayload || !rawSignature) return null
+
+  const decoder = new TextDecoder()
+  const header = JSON.parse(decoder.decode(decodeBase64Url(rawHeader))) as {
+    alg: string
+    kid?: string
+  }
+  if (header.alg !== 'RS256') return null
+
+  const keys = await getAccessKeys(`https://${teamDomain}/cdn-cgi/access/certs`)
+  const jwk = keys.find((k) => k.kid === header.kid)
+  if (!jwk) return null
+
+  const key = await crypto.subtle.importKey(
+    'jwk',
+    jwk,
+    { name: 'RSASSA-PKCS1-v1_5', hash: 'SHA-256' },
+    false,
+    ['verify'],
+  )
+  const valid = await crypto.subtle.verify(
+    'RSASSA-PKCS1-v1_5',
+    key,
+    decodeBase64Url(rawSignature),
+    new TextEncoder().encode(`${rawHeader}.${rawPayload}`),
+  )
+  if (!valid) return null
+
+  const claims = JSON.parse(
+    decoder.decode(decodeBase64Url(rawPayload)),
+  ) as AccessClaims
+  const audiences = Array.isArray(claims.aud) ? claims.aud : [claims.aud]
+  if (!audiences.includes(audience)) return null
+  if (claims.iss !== `https://${teamDomain}`) return null
+  if (claims.exp * 1000 < Date.now()) return null
+
+  return claims
+}
+
+// ==================== Resolution ====================
+
+function anonymousPrincipal(env: Env): Principal {
+  return {
+    userId: null,
+    email: null,
+    name: null,
+    role: anonymousRole(env),
+    source: 'anonymous',
+  }
+}
+
+/**
+ * Works out who is making the request: a signed-in session first, then a
+ * Cloudflare Access identity, and otherwise an anonymous visitor.
+ */
+export async function resolvePrincipal(
+  env: Env,
+  request: Request,
+): Promise<Principal> {
+  const db = getDb(env.DB)
+
+  const token = readCookie(request, SESSION_COOKIE)
+  if (token) {
+    const [row] = await db
+      .select({
+        id: users.id,
+        email: users.email,
+        name: users.name,
+        role: users.role,
+      })
+      .from(sessions)
+      .innerJoin(users, eq(users.id, sessions.userId))
+      .where(
+        and(
+          eq(sessions.id, await sha256Hex(token)),
+          gt(sessions.expiresAt, new Date()),
+        ),
+      )
+      .limit(1)
+
+    if (row && isRole(row.role)) {
+      return {
+        userId: row.id,
+        email: row.email,
+        name: row.name,
+        role: row.role,
+        source: 'session',
+      }
+    }
+  }
+
+  const accessJwt = request.headers.get('Cf-Access-Jwt-Assertion')
+  if (accessJwt) {
+    let claims: AccessClaims | null = null
+    try {
+      claims = await verifyAccessJwt(env, accessJwt)
+    } catch (error) {
+      console.error('Error verifying Cloudflare Access JWT:', error)
+    }
+
+    if (claims?.email) {
+      const email = claims.email.toLowerCase()
+      let [user] = await db
+        .select()
+        .from(users)
+        .where(eq(users.email, email))
+        .limit(1)
+
+      if (!user) {
+        const configured = String((env as any).ACCESS_DEFAULT_ROLE || 'viewer')
+        const role: Role = isRole(configured) ? configured : 'viewer'
+        ;[user] = await db
+          .insert(users)
+          .values({
+            id: nanoid(),
+            email,
+            role,
+            createdAt: new Date(),
+          })
+          .returning()
+      }
+
+      if (isRole(user.role)) {
+        return {
+          userId: user.id,
+          email: user.email,
+          name: user.name,
+          role: user.role,
+          source: 'access',
+        }
+      }
+    }
+  }
+
+  return anonymousPrincipal(env)
+}
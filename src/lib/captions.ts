@@ -0,0 +1,189 @@
+import type { Word } from '~/lib/timestamp'
+
+export const TRANSCRIPT_FORMATS = ['srt', 'vtt', 'txt', 'json'] as const
+export type TranscriptFormat = (typeof TRANSCRIPT_FORMATS)[number]
+
+export const TRANSCRIPT_CONTENT_TYPES: Record<TranscriptFormat, string> = {
+  srt: 'application/x-subrip; charset=utf-8',
+  vtt: 'text/vtt; charset=utf-8',
+  txt: 'text/plain; charset=utf-8',
+  json: 'application/json; charset=utf-8',
+}
+
+export function isTranscriptFormat(value: string): value is TranscriptFormat {
+  return (TRANSCRIPT_FORMATS as readonly string[]).includes(value)
+}
+
+export interface CaptionSegment {
+  text: string
+  startTime: number
+  endTime: number
+  words: Word[]
+  // Display name of the speaker, if known
+  speaker: string | null
+}
+
+export interface TranscriptDocument {
+  episode: {
+    id: string
+    title: string
+    podcast: string | null
+    publishedAt: Date
+    durationSeconds: number | null
+  }
+  speakers: { label: string; name: string | null }[]
+  segments: CaptionSegment[]
+}
+
+/**
+ * Formats seconds as a caption timestamp: `hh:mm:ss,mmm` for SRT and
+ * `hh:mm:ss.mmm` for WebVTT.
+ */
+export function formatCaptionTime(seconds: number, separator: ',' | '.'): string {
+  const totalMs = Math.max(0, Math.round(seconds * 1000))
+  const h = Math.floor(totalMs / 3_600_000)
+  const m = Math.floor((totalMs % 3_600_000) / 60_000)
+  const s = Math.floor((totalMs % 60_000) / 1000)
+  const ms = totalMs % 1000
+  return `${String(h).padStart(2, '0')}:${String(m).padStart(2, '0')}:${String(s).padStart(2, '0')}${separator}${String(ms).padStart(3, '0')}`
+}
+
+// Cue text must not contain a blank line, which would end the cue early
+function cueText(text: string): string {
+  return text.replace(/\s*\n\s*/g, ' ').trim()
+}
+
+// WebVTT cue payloads treat these as markup
+function escapeVtt(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;')
+}
+
+// Players reject cues that end before they start
+function cueEnd(segment: CaptionSegment): number {
+  return Math.max(segment.endTime, segment.startTime + 0.001)
+}
+
+export function formatSrt(segments: CaptionSegment[]): string {
+  return segments
+    .map((segment, i) => {
+      const text = cueText(segment.text)
+      return [
+        String(i + 1),
+        `${formatCaptionTime(segment.startTime, ',')} --> ${formatCaptionTime(cueEnd(segment), ',')}`,
+        segment.speaker ? `${segment.speaker}: ${text}` : text,
+      ].join('\n')
+    })
+    .join('\n\n')
+    .concat('\n')
+}
+
+/**
+ * Renders WebVTT with each speaker in a voice span (`<v Name>`). With
+ * `wordTimings`, each word after the first gets an inline timestamp tag so
+ * players can highlight words as they are spoken.
+ */
+export function formatVtt(
+  segments: CaptionSegment[],
+  options: { wordTimings?: boolean } = {},
+): string {
+  const cues = segments.map((segment) => {
+    const start = segment.startTime
+    const end = cueEnd(segment)
+
+    let payload: string
+    if (options.wordTimings && segment.words.length > 0) {
+      payload = segment.words
+        .map((word, i) => {
+          const text = escapeVtt(cueText(word.word))
+          // Timestamp tags must fall strictly inside the cue
+          if (i === 0 || word.start <= start || word.start >= end) return text
+          return `<${formatCaptionTime(word.start, '.')}>${text}`
+        })
+        .filter(Boolean)
+        .join(' ')
+    } else {
+      payload = escapeVtt(cueText(segment.text))
+    }
+
+    if (segment.speaker) {
+      payload = `<v ${escapeVtt(segment.speaker)}>${payload}`
+    }
+
+    return `${formatCaptionTime(start, '.')} --> ${formatCaptionTime(end, '.')}\n${payload}`
+  })
+
+  return ['WEBVTT', ...cues].join('\n\n').concat('\n')
+}
+
+const PARAGRAPH_PAUSE_SECONDS = 2
+
+/**
+ * Readable transcript: a paragraph per speaker turn, each headed by its start
+ * time. Without speakers, paragraphs break on long pauses instead.
+ */
+export function formatPlainText(document: TranscriptDocument): string {
+  const { episode, segments } = document
+  const header = [
+    episode.title,
+    episode.podcast,
+    episode.publishedAt.toISOString().slice(0, 10),
+  ]
+    .filter(Boolean)
+    .join('\n')
+
+  const paragraphs: {
+    start: number
+    end: number
+    speaker: string | null
+    text: string[]
+  }[] = []
+  for (const segment of segments) {
+    const previous = paragraphs[paragraphs.length - 1]
+    const continues =
+      previous &&
+      previous.speaker === segment.speaker &&
+      (segment.speaker !== null ||
+        segment.startTime - previous.end < PARAGRAPH_PAUSE_SECONDS)
+
+    if (continues) {
+      previous.text.push(cueText(segment.text))
+      previous.end = segment.endTime
+    } else {
+      paragraphs.push({
+        start: segment.startTime,
+        end: segment.endTime,
+        speaker: segment.speaker,
+        text: [cueText(segment.text)],
+      })
+    }
+  }
+
+  const body = paragraphs.map((paragraph) => {
+    const time = formatCaptionTime(paragraph.start, '.').slice(0, 8)
+    const heading = paragraph.speaker ? `[${time}] ${paragraph.speaker}` : `[${time}]`
+    return `${heading}\n${paragraph.text.join(' ')}`
+  })
+
+  return [header, ...body].join('\n\n').concat('\n')
+}
+
+export function formatJson(document: TranscriptDocument): string {
+  return JSON.stringify(
+    {
+      episode: {
+        ...document.episode,
+        publishedAt: document.episode.publishedAt.toISOString(),
+      },
+      speakers: document.speakers,
+      segments: document.segments.map((segment) => ({
+        start: segment.startTime,
+        end: segment.endTime,
+        speaker: segment.speaker,
+        text: segment.text,
+        words: segment.words,
+      })),
+    },
+    null,
+    2,
+  )
+}
@@ -0,0 +1,504 @@
+import { and, asc, eq, ne } from 'drizzle-orm'
+import { nanoid } from 'nanoid'
+import { getDb } from '~/db'
+import { episodeChapters, episodes, transcriptSegments } from '~/db/schema'
+import { runGlm } from '~/lib/ai'
+import { extractJsonObject } from '~/lib/analysis'
+import { parseId3v2Size } from '~/lib/mp3'
+import { parseCueTime } from '~/lib/publisher-transcripts'
+import { formatTime, readLimitedText } from '~/lib/utils'
+
+export interface Chapter {
+  startTime: number
+  endTime: number | null
+  title: string
+  url: string | null
+  imageUrl: string | null
+}
+
+export type ChapterSource = 'feed' | 'id3' | 'generated'
+
+const FETCH_TIMEOUT_MS = 30_000
+const MAX_CHAPTERS_BYTES = 1024 * 1024
+// ID3 tags can hold large cover art ahead of the CHAP frames
+const MAX_ID3_BYTES = 10 * 1024 * 1024
+const MAX_TITLE_LENGTH = 200
+// Rows per insert, to stay under D1's bound parameter limit
+const INSERT_BATCH = 9
+
+// Generated chapters: the transcript is sent in blocks of about this many
+// seconds, each labelled with its start time
+const GENERATION_BLOCK_SECONDS = 60
+// Episodes shorter than this aren't worth splitting
+const MIN_GENERATION_SECONDS = 5 * 60
+// Chapters closer together than this are merged into the earlier one
+const MIN_GENERATED_CHAPTER_SECONDS = 60
+const MAX_GENERATED_CHAPTERS = 20
+// Well inside GLM-4.7-Flash's context, leaving room for the response
+const MAX_GENERATION_PROMPT_CHARS = 300_000
+
+const CHAPTERS_SYSTEM_PROMPT = `You split podcast transcripts into chapters by topic.
+The transcript is given in blocks, each starting with its timestamp in square brackets.
+Return a JSON object with one field:
+- "chapters": An array of 3-${MAX_GENERATED_CHAPTERS} chapters in order. Each is an object with "start" (the timestamp of the block where the topic begins, copied exactly as written, e.g. "12:30") and "title" (a short, specific title of at most 8 words, e.g. "Why dating apps fail men").
+
+The first chapter starts at "0:00". Start a new chapter only where the conversation moves to a different topic, not for every block. Include ads and intros as their own chapters when they are long.
+
+Return ONLY valid JSON. No markdown code fences, no explanation outside the JSON.`
+
+function cleanTitle(value: unknown): string | null {
+  if (typeof value !== 'string') return null
+  const title = value.replace(/\s+/g, ' ').trim()
+  return title ? title.slice(0, MAX_TITLE_LENGTH) : null
+}
+
+function cleanUrl(value: unknown): string | null {
+  if (typeof value !== 'string') return null
+  try {
+    const url = new URL(value.trim())
+    return url.protocol === 'http:' || url.protocol === 'https:'
+      ? url.toString()
+      : null
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Sorts chapters by start time and drops any without a usable start or
+ * that start at the same moment as an earlier one.
+ */
+export function normalizeChapters(chapters: Chapter[]): Chapter[] {
+  const sorted = chapters
+    .filter((c) => Number.isFinite(c.startTime) && c.startTime >= 0)
+    .sort((a, b) => a.startTime - b.startTime)
+
+  const result: Chapter[] = []
+  for (const chapter of sorted) {
+    const previous = result[result.length - 1]
+    if (previous && chapter.startTime - previous.startTime < 1) continue
+    result.push({
+      ...chapter,
+      endTime:
+        chapter.endTime !== null &&
+        Number.isFinite(chapter.endTime) &&
+        chapter.endTime > chapter.startTime
+          ? chapter.endTime
+          : null,
+    })
+  }
+  return result
+}
+
+/**
+ * Parses a Podcasting 2.0 chapters file: `{ chapters: [{ startTime,
+ * endTime, title, img, url, toc }] }`. Chapters marked `toc: false` are
+ * silent markers (e.g. for artwork changes) and are left out.
+ */
+export function parseChaptersJson(text: string): Chapter[] {
+  const data = JSON.parse(text.replace(/^\uFEFF/, '')) as { chapters?: unknown }
+  if (!Array.isArray(data.chapters)) {
+    throw new Error('Chapters file has no chapters')
+  }
+
+  const chapters: Chapter[] = []
+  for (const entry of data.chapters as Record<string, unknown>[]) {
+    if (!entry || entry.toc === false) continue
+    const title = cleanTitle(entry.title)
+    if (!title) continue
+    chapters.push({
+      startTime: Number(entry.startTime),
+      endTime: entry.endTime === undefined ? null : Number(entry.endTime),
+      title,
+      url: cleanUrl(entry.url),
+      imageUrl: cleanUrl(entry.img),
+    })
+  }
+  return normalizeChapters(chapters)
+}
+
+/**
+ * Downloads and parses the chapters file a feed links for an episode.
+ */
+export async function fetchChaptersJson(url: string): Promise<Chapter[]> {
+  const response = await fetch(url, {
+    signal: AbortSignal.timeout(FETCH_TIMEOUT_MS),
+  })
+  if (!response.ok) {
+    throw new Error(
+      `Chapters download failed: ${response.status} ${response.statusText}`,
+    )
+  }
+  const length = Number(response.headers.get('Content-Length'))
+  if (length > MAX_CHAPTERS_BYTES) {
+    throw new Error(`Chapters file is too large (${length} bytes)`)
+  }
+  const content = await readLimitedText(response, MAX_CHAPTERS_BYTES)
+  if (content === null) {
+    throw new Error(
+      `Chapters file is too large (over ${MAX_CHAPTERS_BYTES} bytes)`,
+    )
+  }
+  return parseChaptersJson(content)
+}
+
+function readUint32(bytes: Uint8Array, offset: number): number {
+  return (
+    ((bytes[offset] << 24) >>> 0) +
+    (bytes[offset + 1] << 16) +
+    (bytes[offset + 2] << 8) +
+    bytes[offset + 3]
+  )
+}
+
+function readSyncsafe(bytes: Uint8Array, offset: number): number {
+  return (
+    ((bytes[offset] & 0x7f) << 21) |
+    ((bytes[offset + 1] & 0x7f) << 14) |
+    ((bytes[offset + 2] & 0x7f) << 7) |
+    (bytes[offset + 3] & 0x7f)
+  )
+}
+
+/**
+ * Decodes ID3 text in the given encoding byte: 0 ISO-8859-1, 1 UTF-16 with
+ * a byte order mark, 2 UTF-16BE, 3 UTF-8. Stops at the first terminator.
+ */
+function decodeId3Text(bytes: Uint8Array, encoding: number): string {
+  if (encoding === 1 || encoding === 2) {
+    const hasBom =
+      encoding === 1 &&
+      ((bytes[0] === 0xff && bytes[1] === 0xfe) ||
+        (bytes[0] === 0xfe && bytes[1] === 0xff))
+    const littleEndian = hasBom && bytes[0] === 0xff
+    const start = hasBom ? 2 : 0
+    let text = ''
+    for (let i = start; i + 1 < bytes.length; i += 2) {
+      const unit = littleEndian
+        ? bytes[i] | (bytes[i + 1] << 8)
+        : (bytes[i] << 8) | bytes[i + 1]
+      if (unit === 0) break
+      text += String.fromCharCode(unit)
+    }
+    return text
+  }
+
+  const end = bytes.indexOf(0)
+  const content = end === -1 ? bytes : bytes.subarray(0, end)
+  if (encoding === 3) return new TextDecoder().decode(content)
+  let text = ''
+  for (const byte of content) text += String.fromCharCode(byte)
+  return text
+}
+
+// Length of an encoded string including its terminator, or the rest of
+// the bytes when it isn't terminated
+function terminatedLength(bytes: Uint8Array, encoding: number): number {
+  const wide = encoding === 1 || encoding === 2
+  for (let i = 0; i < bytes.length; i += wide ? 2 : 1) {
+    if (bytes[i] === 0 && (!wide || bytes[i + 1] === 0)) {
+      return i + (wide ? 2 : 1)
+    }
+  }
+  return bytes.length
+}
+
+interface Id3Frame {
+  id: string
+  data: Uint8Array
+}
+
+function readId3Frames(bytes: Uint8Array, version: number): Id3Frame[] {
+  const frames: Id3Frame[] = []
+  let offset = 0
+
+  while (offset + 10 <= bytes.length) {
+    // Padding after the last frame
+    if (bytes[offset] === 0) break
+    const id = String.fromCharCode(...bytes.subarray(offset, offset + 4))
+    if (!/^[A-Z0-9]{4}$/.test(id)) break
+    const size =
+      version === 4 ? readSyncsafe(bytes, offset + 4) : readUint32(bytes, offset + 4)
+    const start = offset + 10
+    if (start + size > bytes.length) break
+    frames.push({ id, data: bytes.subarray(start, start + size) })
+    offset = start + size
+  }
+
+  return frames
+}
+
+function parseChapFrame(data: Uint8Array, version: number): Chapter | null {
+  // Element ID, then start and end times in milliseconds and byte offsets
+  const idEnd = data.indexOf(0)
+  if (idEnd === -1 || idEnd + 17 > data.length) return null
+  const startMs = readUint32(data, idEnd + 1)
+  const endMs = readUint32(data, idEnd + 5)
+
+  let title: string | null = null
+  let url: string | null = null
+  for (const frame of readId3Frames(data.subarray(idEnd + 17), version)) {
+    if (frame.data.length === 0) continue
+    const encoding = frame.data[0]
+    if (frame.id === 'TIT2') {
+      title = cleanTitle(decodeId3Text(frame.data.subarray(1), encoding))
+    } else if (frame.id === 'WXXX') {
+      // Description in the frame's encoding, then the URL in ISO-8859-1
+      const rest = frame.data.subarray(1)
+      url = cleanUrl(decodeId3Text(rest.subarray(terminatedLength(rest, encoding)), 0))
+    }
+  }
+  if (!title) return null
+
+  return {
+    startTime: startMs / 1000,
+    endTime: endMs === 0xffffffff ? null : endMs / 1000,
+    title,
+    url,
+    imageUrl: null,
+  }
+}
+
+/**
+ * Reads the CHAP frames of an ID3v2.3 or v2.4 tag at the start of `bytes`.
+ * Returns no chapters if there is no tag, or it can't hold any.
+ */
+export function parseId3Chapters(bytes: Uint8Array): Chapter[] {
+  const tagSize = parseId3v2Size(bytes)
+  if (tagSize === 0) return []
+  const version = bytes[3]
+  const flags = bytes[5]
+  // ID3v2.2 has no chapter frames; whole-tag unsynchronisation is too rare
+  // in podcast files to be worth undoing
+  if ((version !== 3 && version !== 4) || flags & 0x80) return []
+
+  let offset = 10
+  if (flags & 0x40) {
+    // Extended header: v2.4 counts its own size field, v2.3 doesn't
+    offset +=
+      version === 4 ? readSyncsafe(bytes, 10) : readUint32(bytes, 10) + 4
+  }
+
+  const chapters: Chapter[] = []
+  const tag = bytes.subarray(offset, Math.min(tagSize, bytes.length))
+  for (const frame of readId3Frames(tag, version)) {
+    if (frame.id !== 'CHAP') continue
+    const chapter = parseChapFrame(frame.data, version)
+    if (chapter) chapters.push(chapter)
+  }
+  return normalizeChapters(chapters)
+}
+
+/**
+ * Reads the chapters embedded in an episode's audio in R2.
+ */
+export async function readId3ChaptersFromR2(
+  env: Env,
+  r2Key: string,
+): Promise<Chapter[]> {
+  const head = await env.AUDIO_BUCKET.get(r2Key, {
+    range: { offset: 0, length: 10 },
+  })
+  if (!head) throw new Error('Audio not found in R2')
+  const tagSize = parseId3v2Size(new Uint8Array(await head.arrayBuffer()))
+  if (tagSize === 0) return []
+
+  const object = await env.AUDIO_BUCKET.get(r2Key, {
+    range: { offset: 0, length: Math.min(tagSize, MAX_ID3_BYTES) },
+  })
+  if (!object) throw new Error('Audio not found in R2')
+  return parseId3Chapters(new Uint8Array(await object.arrayBuffer()))
+}
+
+/**
+ * Replaces all of an episode's chapters.
+ */
+export async function replaceEpisodeChapters(
+  env: Env,
+  episodeId: string,
+  chapters: Chapter[],
+  source: ChapterSource,
+): Promise<void> {
+  const db = getDb(env.DB)
+  await db.delete(episodeChapters).where(eq(episodeChapters.episodeId, episodeId))
+
+  const now = new Date()
+  const rows = chapters.map((chapter, i) => ({
+    id: nanoid(),
+    episodeId,
+    chapterIndex: i,
+    startTime: chapter.startTime,
+    endTime: chapter.endTime,
+    title: chapter.title,
+    url: chapter.url,
+    imageUrl: chapter.imageUrl,
+    source,
+    createdAt: now,
+  }))
+  for (let i = 0; i < rows.length; i += INSERT_BATCH) {
+    await db.insert(episodeChapters).values(rows.slice(i, i + INSERT_BATCH))
+  }
+}
+
+/**
+ * Stores the chapters the publisher provides for an episode: the feed's
+ * chapters file if it links one, else the audio's ID3 CHAP frames.
+ * Existing chapters are only replaced when the publisher has some.
+ * Returns the number stored.
+ */
+export async function loadPublisherChapters(
+  env: Env,
+  episodeId: string,
+  r2Key: string,
+): Promise<number> {
+  const db = getDb(env.DB)
+  const [episode] = await db
+    .select({ chaptersUrl: episodes.chaptersUrl })
+    .from(episodes)
+    .where(eq(episodes.id, episodeId))
+    .limit(1)
+  if (!episode) throw new Error('Episode not found')
+
+  let source: ChapterSource = 'feed'
+  let chapters = episode.chaptersUrl
+    ? await fetchChaptersJson(episode.chaptersUrl)
+    : []
+  if (chapters.length === 0) {
+    source = 'id3'
+    chapters = await readId3ChaptersFromR2(env, r2Key)
+  }
+  if (chapters.length === 0) return 0
+
+  await replaceEpisodeChapters(env, episodeId, chapters, source)
+  return chapters.length
+}
+
+interface ChapterSegment {
+  startTime: number
+  endTime: number
+  text: string
+}
+
+/**
+ * Joins transcript segments into blocks of about GENERATION_BLOCK_SECONDS,
+ * each labelled with its start time. Long transcripts are shortened block
+ * by block so the whole episode still fits in the prompt.
+ */
+export function buildChaptersPrompt(segments: ChapterSegment[]): string {
+  const blocks: { startTime: number; text: string }[] = []
+  for (const segment of segments) {
+    const current = blocks[blocks.length - 1]
+    if (
+      current &&
+      segment.startTime - current.startTime < GENERATION_BLOCK_SECONDS
+    ) {
+      current.text += ` ${segment.text}`
+    } else {
+      blocks.push({ startTime: segment.startTime, text: segment.text })
+    }
+  }
+
+  const budget = Math.floor(MAX_GENERATION_PROMPT_CHARS / Math.max(blocks.length, 1))
+  return blocks
+    .map((block) => {
+      const text =
+        block.text.length > budget ? `${block.text.slice(0, budget)}…` : block.text
+      return `[${formatTime(block.startTime)}] ${text}`
+    })
+    .join('\n')
+}
+
+/**
+ * Reads the model's chapters, keeping those inside the episode and at
+ * least MIN_GENERATED_CHAPTER_SECONDS apart. The first always starts at 0.
+ * Returns no chapters if fewer than two survive.
+ */
+export function parseGeneratedChapters(
+  response: string,
+  duration: number,
+): Chapter[] {
+  const parsed = extractJsonObject(response)
+  if (!parsed || !Array.isArray(parsed.chapters)) {
+    throw new Error(`Unparseable chapters response: ${response.slice(0, 300)}`)
+  }
+
+  const candidates: Chapter[] = []
+  for (const entry of parsed.chapters as Record<string, unknown>[]) {
+    const title = cleanTitle(entry?.title)
+    const start =
+      typeof entry?.start === 'number'
+        ? entry.start
+        : typeof entry?.start === 'string'
+          ? parseCueTime(entry.start)
+          : null
+    if (!title || start === null || start >= duration) continue
+    candidates.push({ startTime: start, endTime: null, title, url: null, imageUrl: null })
+  }
+
+  const chapters: Chapter[] = []
+  for (const chapter of normalizeChapters(candidates)) {
+    const previous = chapters[chapters.length - 1]
+    if (
+      previous &&
+      chapter.startTime - previous.startTime < MIN_GENERATED_CHAPTER_SECONDS
+    ) {
+      continue
+    }
+    chapters.push(chapter)
+    if (chapters.length >= MAX_GENERATED_CHAPTERS) break
+  }
+  if (chapters.length < 2) return []
+
+  chapters[0].startTime = 0
+  return chapters
+}
+
+/**
+ * Splits an episode's transcript into topic chapters with GLM-4.7-Flash and
+ * stores them, unless the publisher provided chapters. Returns the number
+ * stored.
+ */
+export async function generateEpisodeChapters(
+  env: Env,
+  episodeId: string,
+): Promise<number> {
+  const db = getDb(env.DB)
+
+  const [publisherChapter] = await db
+    .select({ id: episodeChapters.id })
+    .from(episodeChapters)
+    .where(
+      and(
+        eq(episodeChapters.episodeId, episodeId),
+        ne(episodeChapters.source, 'generated'),
+      ),
+    )
+    .limit(1)
+  if (publisherChapter) return 0
+
+  const segments = await db
+    .select({
+      startTime: transcriptSegments.startTime,
+      endTime: transcriptSegments.endTime,
+      text: transcriptSegments.text,
+    })
+    .from(transcriptSegments)
+    .where(eq(transcriptSegments.episodeId, episodeId))
+    .orderBy(asc(transcriptSegments.segmentIndex))
+
+  const duration = segments.length > 0 ? segments[segments.length - 1].endTime : 0
+  let chapters: Chapter[] = []
+  if (duration >= MIN_GENERATION_SECONDS) {
+    const response = await runGlm(
+      env,
+      CHAPTERS_SYSTEM_PROMPT,
+      buildChaptersPrompt(segments),
+      { json: true },
+    )
+    chapters = parseGeneratedChapters(response, duration)
+  }
+
+  // Also clears chapters generated from an earlier version of the transcript
+  await replaceEpisodeChapters(env, episodeId, chapters, 'generated')
+  return chapters.length
+}
@@ -0,0 +1,225 @@
+import { describe, expect, it } from 'vitest'
+import {
+  attributeQuote,
+  createDiarizer,
+  HeuristicDiarizer,
+  labelWords,
+  LlmDiarizer,
+  splitIntoUtterances,
+  StubDiarizer,
+  type Utterance,
+} from './diarization'
+import type { Word } from './timestamp'
+
+// Consecutive words a quarter of a second apart, starting at `start`
+function spoken(text: string, start = 0): Word[] {
+  return text.split(' ').map((word, i) => ({
+    word,
+    start: start + i * 0.25,
+    end: start + i * 0.25 + 0.2,
+  }))
+}
+
+function utterance(text: string, start: number, end: number): Utterance {
+  return { text, start, end, firstWord: 0, lastWord: 0 }
+}
+
+describe('splitIntoUtterances', () => {
+  it('breaks after sentence endings', () => {
+    const utterances = splitIntoUtterances(
+      spoken('Is it on? Yes it is. "Great."'),
+    )
+    expect(utterances.map((u) => u.text)).toEqual([
+      'Is it on?',
+      'Yes it is.',
+      '"Great."',
+    ])
+    expect(utterances.map((u) => [u.firstWord, u.lastWord])).toEqual([
+      [0, 2],
+      [3, 5],
+      [6, 6],
+    ])
+  })
+
+  it('breaks at a pause of a second or more', () => {
+    const words = [...spoken('so anyway'), ...spoken('moving on', 10)]
+    const utterances = splitIntoUtterances(words)
+    expect(utterances).toEqual([
+      { text: 'so anyway', start: 0, end: 0.45, firstWord: 0, lastWord: 1 },
+      { text: 'moving on', start: 10, end: 10.45, firstWord: 2, lastWord: 3 },
+    ])
+  })
+
+  it('caps an utterance at 60 words', () => {
+    const words = spoken(Array.from({ length: 130 }, () => 'word').join(' '))
+    expect(
+      splitIntoUtterances(words).map((u) => u.lastWord - u.firstWord + 1),
+    ).toEqual([60, 60, 10])
+  })
+
+  it('returns nothing for no words', () => {
+    expect(splitIntoUtterances([])).toEqual([])
+  })
+})
+
+describe('labelWords', () => {
+  it('gives each word the label of its utterance', () => {
+    const utterances = splitIntoUtterances(spoken('Hello there. Hi.'))
+    expect(labelWords(3, utterances, ['S1', 'S2'])).toEqual(['S1', 'S1', 'S2'])
+  })
+
+  it('leaves words without a label null', () => {
+    const utterances = splitIntoUtterances(spoken('Hello there. Hi.'))
+    expect(labelWords(4, utterances, ['S1'])).toEqual(['S1', 'S1', null, null])
+  })
+})
+
+describe('StubDiarizer', () => {
+  it('attributes everything to one speaker', async () => {
+    const result = await new StubDiarizer().diarize([
+      utterance('Hi?', 0, 1),
+      utterance('Hello.', 5, 6),
+    ])
+    expect(result).toEqual({
+      speakers: [{ label: 'S1', name: null }],
+      labels: ['S1', 'S1'],
+    })
+  })
+})
+
+describe('HeuristicDiarizer', () => {
+  it('switches speaker after a question', async () => {
+    const result = await new HeuristicDiarizer().diarize([
+      utterance('How did you start?', 0, 2),
+      utterance('By accident.', 2.2, 3),
+      utterance('Really.', 3.1, 3.5),
+    ])
+    expect(result.labels).toEqual(['S1', 'S2', 'S2'])
+  })
+
+  it('switches speaker after a long pause', async () => {
+    const result = await new HeuristicDiarizer().diarize([
+      utterance('That was the news.', 0, 2),
+      utterance('Thanks.', 3.5, 4),
+      utterance('Next up.', 4.5, 5),
+      utterance('Back to you.', 7, 8),
+    ])
+    expect(result.labels).toEqual(['S1', 'S2', 'S2', 'S1'])
+  })
+
+  it('keeps one speaker without questions or pauses', async () => {
+    const result = await new HeuristicDiarizer().diarize([
+      utterance('One.', 0, 1),
+      utterance('Two.', 1.2, 2),
+      utterance('Three.', 3.4, 4),
+    ])
+    expect(result).toEqual({
+      speakers: [{ label: 'S1', name: null }],
+      labels: ['S1', 'S1', 'S1'],
+    })
+  })
+
+  it('uses the configured turn pause', async () => {
+    const utterances = [utterance('One.', 0, 1), utterance('Two.', 1.5, 2)]
+    expect((await new HeuristicDiarizer().diarize(utterances)).labels).toEqual([
+      'S1',
+      'S1',
+    ])
+    expect(
+      (await new HeuristicDiarizer(0.5).diarize(utterances)).labels,
+    ).toEqual(['S1', 'S2'])
+  })
+
+  it('lists each speaker once in order of appearance', async () => {
+    const result = await new HeuristicDiarizer().diarize([
+      utterance('Ready?', 0, 1),
+      utterance('Yes. Are you?', 1.2, 2),
+      utterance('Yes.', 2.2, 3),
+    ])
+    expect(result.labels).toEqual(['S1', 'S2', 'S1'])
+    expect(result.speakers).toEqual([
+      { label: 'S1', name: null },
+      { label: 'S2', name: null },
+    ])
+  })
+})
+
+describe('createDiarizer', () => {
+  it('picks the diarizer named by DIARIZER', () => {
+    expect(createDiarizer({ DIARIZER: 'stub' } as any)).toBeInstanceOf(
+      StubDiarizer,
+    )
+    expect(createDiarizer({ DIARIZER: 'Heuristic' } as any)).toBeInstanceOf(
+      HeuristicDiarizer,
+    )
+    expect(createDiarizer({} as Env)).toBeInstanceOf(LlmDiarizer)
+  })
+
+  it('rejects unknown diarizers', () => {
+    expect(() => createDiarizer({ DIARIZER: 'magic' } as any)).toThrow(
+      'Unknown DIARIZER "magic"',
+    )
+  })
+})
+
+describe('attributeQuote', () => {
+  const segments = [
+    { text: 'Welcome back to the show.', speakerId: 'host' },
+    {
+      text: 'Honestly, the hardest part of building a company is hiring the first ten people.',
+      speakerId: 'guest',
+    },
+    { text: 'That matches what we hear from most founders.', speakerId: 'host' },
+    { text: 'And then it all changes again at fifty.', speakerId: null },
+  ]
+
+  it('finds an exact quote ignoring case and punctuation', () => {
+    expect(
+      attributeQuote(
+        'the hardest part of building a company is hiring the first ten people',
+        segments,
+      ),
+    ).toBe('guest')
+  })
+
+  it('matches a paraphrased quote by its opening words', () => {
+    expect(
+      attributeQuote(
+        'The hardest part of building a company is hiring your early team.',
+        segments,
+      ),
+    ).toBe('guest')
+  })
+
+  it('attributes a quote spanning segments to where it starts', () => {
+    expect(
+      attributeQuote(
+        'hiring the first ten people. That matches what we hear',
+        segments,
+      ),
+    ).toBe('guest')
+  })
+
+  it('falls back to the first five words', () => {
+    expect(
+      attributeQuote(
+        'That matches what we hear from nearly every founder',
+        segments,
+      ),
+    ).toBe('host')
+  })
+
+  it('returns the null speaker of an unattributed segment', () => {
+    expect(attributeQuote('it all changes again at fifty', segments)).toBeNull()
+  })
+
+  it('returns null when the quote is not in the transcript', () => {
+    expect(
+      attributeQuote('Nobody said anything like this at all', segments),
+    ).toBeNull()
+  })
+
+  it('returns null for an empty quote', () => {
+    expect(attributeQuote(' ... ', segments)).toBeNull()
+  })
+})
@@ -0,0 +1,322 @@
+import { runGlm } from '~/lib/ai'
+import { extractJsonObject } from '~/lib/analysis'
+import type { Word } from '~/lib/timestamp'
+
+/**
+ * A run of words spoken without a sentence break or long pause. Diarizers
+ * assign one speaker to each utterance.
+ */
+export interface Utterance {
+  text: string
+  start: number
+  end: number
+  // Index range into the word stream, inclusive
+  firstWord: number
+  lastWord: number
+}
+
+export interface DiarizationContext {
+  podcastTitle: string
+  episodeTitle: string
+  description?: string | null
+}
+
+export interface DiarizationResult {
+  speakers: { label: string; name: string | null }[]
+  // Speaker label for each utterance, in input order
+  labels: string[]
+}
+
+/**
+ * Anything that can assign speakers to utterances. Implementations should
+ * throw if diarization fails so the workflow can retry.
+ */
+export interface Diarizer {
+  readonly name: string
+  diarize(
+    utterances: Utterance[],
+    context: DiarizationContext,
+  ): Promise<DiarizationResult>
+}
+
+const UTTERANCE_PAUSE_SECONDS = 1.0
+const MAX_UTTERANCE_WORDS = 60
+
+export function splitIntoUtterances(words: Word[]): Utterance[] {
+  const utterances: Utterance[] = []
+  let first = 0
+
+  for (let i = 0; i < words.length; i++) {
+    const next = words[i + 1]
+    const endsSentence = /[.!?]["')\]]?$/.test(words[i].word.trim())
+    const pauseAfter = next ? next.start - words[i].end : Infinity
+
+    if (
+      !next ||
+      endsSentence ||
+      pauseAfter >= UTTERANCE_PAUSE_SECONDS ||
+      i - first + 1 >= MAX_UTTERANCE_WORDS
+    ) {
+      utterances.push({
+        text: words
+          .slice(first, i + 1)
+          .map((w) => w.word.trim())
+          .join(' '),
+        start: words[first].start,
+        end: words[i].end,
+        firstWord: first,
+        lastWord: i,
+      })
+      first = i + 1
+    }
+  }
+
+  return utterances
+}
+
+/**
+ * Expands per-utterance labels to one label per word.
+ */
+export function labelWords(
+  wordCount: number,
+  utterances: Utterance[],
+  labels: string[],
+): (string | null)[] {
+  const wordLabels: (string | null)[] = new Array(wordCount).fill(null)
+  utterances.forEach((utterance, i) => {
+    for (let w = utterance.firstWord; w <= utterance.lastWord; w++) {
+      wordLabels[w] = labels[i] ?? null
+    }
+  })
+  return wordLabels
+}
+
+// ==================== Implementations ====================
+
+/**
+ * Attributes everything to a single speaker. Used when diarization is
+ * disabled and in local development.
+ */
+export class StubDiarizer implements Diarizer {
+  readonly name = 'stub'
+
+  async diarize(utterances: Utterance[]): Promise<DiarizationResult> {
+    return {
+      speakers: [{ label: 'S1', name: null }],
+      labels: utterances.map(() => 'S1'),
+    }
+  }
+}
+
+/**
+ * Two-speaker turn-taking guess from timing alone: the speaker changes after
+ * a question or a long pause. Crude, but needs no model and is deterministic.
+ */
+export class HeuristicDiarizer implements Diarizer {
+  readonly name = 'heuristic'
+
+  constructor(private readonly turnPauseSeconds = 1.5) {}
+
+  async diarize(utterances: Utterance[]): Promise<DiarizationResult> {
+    let current = 'S1'
+    const labels = utterances.map((utterance, i) => {
+      const previous = utterances[i - 1]
+      if (
+        previous &&
+        (previous.text.trim().endsWith('?') ||
+          utterance.start - previous.end >= this.turnPauseSeconds)
+      ) {
+        current = current === 'S1' ? 'S2' : 'S1'
+      }
+      return current
+    })
+
+    return {
+      speakers: [...new Set(labels)].map((label) => ({ label, name: null })),
+      labels,
+    }
+  }
+}
+
+const DIARIZATION_SYSTEM_PROMPT = `You identify who is speaking in podcast transcripts.
+
+You will receive numbered utterances from one episode. Work out where the speaker changes, using conversational cues: questions and answers, introductions ("welcome to the show, ..."), people addressing each other by name, and changes in perspective.
+
+Respond with a JSON object:
+{
+  "speakers": [{ "label": "S1", "name": "Full name or null if unknown" }],
+  "turns": [{ "from": 0, "speaker": "S1" }]
+}
+
+- "turns" lists each point where the speaker changes: "from" is the number of the first utterance of that turn.
+- Reuse the labels of speakers you are told are already known.
+- Only give a name if the transcript or episode details make it clear.
+- Most shows have a host and one or two guests; adverts may have a separate voice.`
+
+const LLM_WINDOW_UTTERANCES = 250
+
+/**
+ * Asks GLM to infer speaker turns from the transcript text, in windows of
+ * utterances. Speakers found in earlier windows are passed on so labels stay
+ * consistent across the episode.
+ */
+export class LlmDiarizer implements Diarizer {
+  readonly name = 'llm'
+
+  constructor(private readonly env: Env) {}
+
+  async diarize(
+    utterances: Utterance[],
+    context: DiarizationContext,
+  ): Promise<DiarizationResult> {
+    const speakers = new Map<string, string | null>()
+    const labels: string[] = []
+
+    for (
+      let windowStart = 0;
+      windowStart < utterances.length;
+      windowStart += LLM_WINDOW_UTTERANCES
+    ) {
+      const window = utterances.slice(
+        windowStart,
+        windowStart + LLM_WINDOW_UTTERANCES,
+      )
+      const known = [...speakers].map(([label, name]) => ({ label, name }))
+      const lastSpeaker = labels[labels.length - 1] ?? 'S1'
+
+      const prompt = [
+        `Podcast: ${context.podcastTitle}`,
+        `Episode: ${context.episodeTitle}`,
+        context.description
+          ? `Description: ${context.description.slice(0, 1000)}`
+          : null,
+        known.length > 0
+          ? `Known speakers: ${JSON.stringify(known)}. The previous utterance was spoken by ${lastSpeaker}.`
+          : null,
+        '',
+        'Utterances:',
+        ...window.map((u, i) => `[${windowStart + i}] ${u.text}`),
+      ]
+        .filter((line) => line !== null)
+        .join('\n')
+
+      const response = await runGlm(this.env, DIARIZATION_SYSTEM_PROMPT, prompt, {
+        json: true,
+      })
+      const parsed = extractJsonObject(response)
+      if (!parsed || !Array.isArray(parsed.turns)) {
+        throw new Error(
+          `Unparseable diarization response: ${response.slice(0, 300)}`,
+        )
+      }
+
+      for (const speaker of Array.isArray(parsed.speakers)
+        ? parsed.speakers
+        : []) {
+        if (typeof speaker?.label !== 'string') continue
+        const name =
+          typeof speaker.name === 'string' && speaker.name.trim()
+            ? speaker.name.trim()
+            : null
+        speakers.set(speaker.label, speakers.get(speaker.label) ?? name)
+      }
+
+      const turns = (parsed.turns as { from: unknown; speaker: unknown }[])
+        .filter(
+          (t) => typeof t?.from === 'number' && typeof t?.speaker === 'string',
+        )
+        .map((t) => ({ from: t.from as number, speaker: t.speaker as string }))
+        .sort((a, b) => a.from - b.from)
+
+      let current = lastSpeaker
+      let turnIndex = 0
+      for (let i = windowStart; i < windowStart + window.length; i++) {
+        while (turnIndex < turns.length && turns[turnIndex].from <= i) {
+          current = turns[turnIndex].speaker
+          turnIndex++
+        }
+        if (!speakers.has(current)) speakers.set(current, null)
+        labels.push(current)
+      }
+    }
+
+    return {
+      speakers: [...speakers]
+        .filter(([label]) => labels.includes(label))
+        .map(([label, name]) => ({ label, name })),
+      labels,
+    }
+  }
+}
+
+/**
+ * Picks the diarizer named by DIARIZER ("llm", "heuristic" or "stub").
+ * Defaults to the LLM diarizer.
+ */
+export function createDiarizer(env: Env): Diarizer {
+  const kind = String((env as any).DIARIZER || 'llm').toLowerCase()
+
+  switch (kind) {
+    case 'llm':
+      return new LlmDiarizer(env)
+    case 'heuristic':
+      return new HeuristicDiarizer()
+    case 'stub':
+      return new StubDiarizer()
+    default:
+      throw new Error(`Unknown DIARIZER "${kind}"`)
+  }
+}
+
+// ==================== Quote attribution ====================
+
+function normalizeText(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\s']/gu, ' ')
+    .replace(/\s+/g, ' ')
+    .trim()
+}
+
+/**
+ * Finds who said a quote by locating it in the transcript. Quotes from the
+ * analysis are often lightly paraphrased, so only the opening words need to
+ * match. Returns the speaker of the segment where the quote starts, or null.
+ */
+export function attributeQuote(
+  quote: string,
+  segments: { text: string; speakerId: string | null }[],
+): string | null {
+  const quoteWords = normalizeText(quote).split(' ').filter(Boolean)
+  if (quoteWords.length === 0) return null
+
+  // Segment boundaries as character offsets into the joined transcript
+  let joined = ''
+  const starts: number[] = []
+  for (const segment of segments) {
+    starts.push(joined.length)
+    joined += normalizeText(segment.text) + ' '
+  }
+
+  // Try a longer opening first so common phrases don't match
+  const lengths = new Set([
+    Math.min(8, quoteWords.length),
+    Math.min(5, quoteWords.length),
+  ])
+  for (const length of lengths) {
+    const needle = quoteWords.slice(0, length).join(' ')
+    const position = joined.indexOf(needle)
+    if (position === -1) continue
+
+    let segmentIndex = 0
+    while (
+      segmentIndex + 1 < starts.length &&
+      starts[segmentIndex + 1] <= position
+    ) {
+      segmentIndex++
+    }
+    return segments[segmentIndex]?.speakerId ?? null
+  }
+
+  return null
+}
@@ -0,0 +1,367 @@
+import { nanoid } from 'nanoid'
+import { eq, desc, and, gte, lt } from 'drizzle-orm'
+import { getDb } from '~/db'
+import {
+  podcasts,
+  episodes,
+  episodeAnalyses,
+  digests,
+} from '~/db/schema'
+import { createMailTransport } from '~/lib/mail'
+import { episodeTagNames } from '~/lib/tags'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+const HOUR_MS = 60 * 60 * 1000
+
+export interface DigestEpisode {
+  episodeId: string
+  episodeTitle: string
+  podcastTitle: string
+  publishedAt: Date
+  durationSeconds: number | null
+  summary: string
+  tags: string[]
+  sentiment: string | null
+}
+
+interface DigestContent {
+  periodStart: Date
+  periodEnd: Date
+  episodes: DigestEpisode[]
+  appUrl: string
+}
+
+/**
+ * Subscriber list from DIGEST_RECIPIENTS (comma or whitespace separated).
+ */
+export function getDigestRecipients(env: Env): string[] {
+  const raw = String((env as any).DIGEST_RECIPIENTS || '')
+  return raw
+    .split(/[\s,;]+/)
+    .map((address) => address.trim())
+    .filter((address) => address.includes('@'))
+}
+
+function getAppUrl(env: Env): string {
+  return String((env as any).APP_URL || '').replace(/\/+$/, '')
+}
+
+// ==================== Rendering ====================
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;')
+}
+
+// Episode summaries are short markdown (paragraphs, bold, italics, the odd
+// list). Emails only need that subset, so convert it directly rather than
+// pulling a markdown renderer into the worker.
+function markdownToEmailHtml(markdown: string): string {
+  return markdown
+    .trim()
+    .split(/\n\s*\n/)
+    .map((block) => {
+      const html = escapeHtml(block.replace(/^#+\s*/gm, ''))
+        .replace(/\*\*(.+?)\*\*/g, '<strong>$1</strong>')
+        .replace(/(^|\W)[*_](\S.*?)[*_](?=\W|$)/g, '$1<em>$2</em>')
+        .replace(/\[(.+?)\]\((.+?)\)/g, '$1')
+        .replace(/\n/g, '<br>')
+      return `<p style="margin:0 0 12px 0;">${html}</p>`
+    })
+    .join('')
+}
+
+function markdownToPlainText(markdown: string): string {
+  return markdown
+    .trim()
+    .replace(/^#+\s*/gm, '')
+    .replace(/\*\*(.+?)\*\*/g, '$1')
+    .replace(/(^|\W)[*_](\S.*?)[*_](?=\W|$)/g, '$1$2')
+    .replace(/\[(.+?)\]\((.+?)\)/g, '$1')
+}
+
+function formatDate(date: Date): string {
+  return date.toLocaleDateString('en-GB', {
+    weekday: 'long',
+    day: 'numeric',
+    month: 'long',
+    year: 'numeric',
+    timeZone: 'UTC',
+  })
+}
+
+export function digestSubject(periodEnd: Date, episodeCount: number): string {
+  return `Manosphere Report – ${formatDate(periodEnd)} (${episodeCount} new episode${episodeCount !== 1 ? 's' : ''})`
+}
+
+function episodeUrl(appUrl: string, episodeId: string): string | null {
+  return appUrl ? `${appUrl}/episodes/${episodeId}` : null
+}
+
+export function renderDigestHtml(content: DigestContent): string {
+  const items = content.episodes
+    .map((ep) => {
+      const url = episodeUrl(content.appUrl, ep.episodeId)
+      const title = url
+        ? `<a href="${escapeHtml(url)}" style="color:#2b4a70;text-decoration:none;">${escapeHtml(ep.episodeTitle)}</a>`
+        : escapeHtml(ep.episodeTitle)
+      const meta = [
+        ep.publishedAt.toISOString().slice(0, 10),
+        ep.durationSeconds ? `${Math.round(ep.durationSeconds / 60)} min` : null,
+        ep.sentiment,
+      ]
+        .filter(Boolean)
+        .map((part) => escapeHtml(String(part)))
+        .join(' &middot; ')
+      const tags = ep.tags
+        .map(
+          (tag) =>
+            `<span style="display:inline-block;margin:0 4px 4px 0;padding:2px 8px;border-radius:9999px;background:#d5e1f0;color:#1d3350;font-size:12px;">${escapeHtml(tag)}</span>`,
+        )
+        .join('')
+
+      return `
+        <tr><td style="padding:20px 0;border-top:1px solid #e5e7eb;">
+          <p style="margin:0 0 4px 0;font-family:monospace;font-size:12px;text-transform:uppercase;letter-spacing:0.05em;color:#6b7280;">${escapeHtml(ep.podcastTitle)}</p>
+          <h2 style="margin:0 0 4px 0;font-family:Georgia,serif;font-size:20px;font-weight:normal;">${title}</h2>
+          <p style="margin:0 0 12px 0;font-family:monospace;font-size:12px;color:#9ca3af;">${meta}</p>
+          <div style="font-size:14px;line-height:1.6;color:#374151;">${markdownToEmailHtml(ep.summary)}</div>
+          ${tags ? `<div>${tags}</div>` : ''}
+        </td></tr>`
+    })
+    .join('')
+
+  return `<!doctype html>
+<html>
+  <body style="margin:0;padding:0;background:#f9fafb;font-family:Helvetica,Arial,sans-serif;color:#111827;">
+    <table role="presentation" width="100%" cellpadding="0" cellspacing="0" style="background:#f9fafb;">
+      <tr><td align="center" style="padding:24px 12px;">
+        <table role="presentation" width="100%" cellpadding="0" cellspacing="0" style="max-width:640px;background:#ffffff;border:1px solid #e5e7eb;border-left:4px solid #2b4a70;border-radius:8px;padding:24px;">
+          <tr><td>
+            <h1 style="margin:0 0 4px 0;font-family:Georgia,serif;font-size:28px;font-weight:normal;">The Manosphere Report</h1>
+            <p style="margin:0 0 8px 0;font-size:14px;color:#6b7280;">Morning briefing for ${escapeHtml(formatDate(content.periodEnd))}: ${content.episodes.length} episode${content.episodes.length !== 1 ? 's' : ''} processed in the last 24 hours.</p>
+          </td></tr>
+          ${items}
+        </table>
+      </td></tr>
+    </table>
+  </body>
+</html>`
+}
+
+export function renderDigestText(content: DigestContent): string {
+  const header = [
+    'THE MANOSPHERE REPORT',
+    `Morning briefing for ${formatDate(content.periodEnd)}`,
+    `${content.episodes.length} episode${content.episodes.length !== 1 ? 's' : ''} processed in the last 24 hours.`,
+  ].join('\n')
+
+  const items = content.episodes.map((ep) => {
+    const url = episodeUrl(content.appUrl, ep.episodeId)
+    return [
+      `${ep.podcastTitle.toUpperCase()}`,
+      ep.episodeTitle,
+      [
+        ep.publishedAt.toISOString().slice(0, 10),
+        ep.durationSeconds ? `${Math.round(ep.durationSeconds / 60)} min` : null,
+        ep.sentiment,
+      ]
+        .filter(Boolean)
+        .join(' · '),
+      '',
+      markdownToPlainText(ep.summary),
+      ep.tags.length > 0 ? `\nTags: ${ep.tags.join(', ')}` : '',
+      url ? `\n${url}` : '',
+    ]
+      .join('\n')
+      .trimEnd()
+  })
+
+  return [header, ...items].join('\n\n' + '-'.repeat(60) + '\n\n') + '\n'
+}
+
+// ==================== Generation and delivery ====================
+
+/**
+ * Episodes whose processing finished (analysis stored) inside the period.
+ */
+async function collectDigestEpisodes(
+  env: Env,
+  periodStart: Date,
+  periodEnd: Date,
+): Promise<DigestEpisode[]> {
+  const db = getDb(env.DB)
+
+  const rows = await db
+    .select({
+      episodeId: episodes.id,
+      episodeTitle: episodes.title,
+      podcastTitle: podcasts.title,
+      publishedAt: episodes.publishedAt,
+      durationSeconds: episodes.durationSeconds,
+      summary: episodeAnalyses.summary,
+      tags: episodeTagNames(episodes.id),
+      sentiment: episodeAnalyses.sentiment,
+    })
+    .from(episodeAnalyses)
+    .innerJoin(episodes, eq(episodes.id, episodeAnalyses.episodeId))
+    .innerJoin(podcasts, eq(podcasts.id, episodes.podcastId))
+    .where(
+      and(
+        eq(episodes.status, 'complete'),
+        gte(episodeAnalyses.createdAt, periodStart),
+        lt(episodeAnalyses.createdAt, periodEnd),
+      ),
+    )
+    .orderBy(podcasts.title, desc(episodes.publishedAt))
+
+  return rows.map((row) => ({ ...row, tags: JSON.parse(row.tags) }))
+}
+
+export type CreateDigestResult =
+  | { status: 'empty' }
+  | { status: 'duplicate' }
+  | { status: 'created'; id: string; episodeCount: number }
+
+/**
+ * Renders and stores a digest for the period. Nothing is stored when no
+ * episodes completed in that period, or when a digest for the same period
+ * end already exists.
+ */
+export async function createDigest(
+  env: Env,
+  period: { periodStart: Date; periodEnd: Date },
+): Promise<CreateDigestResult> {
+  const digestEpisodes = await collectDigestEpisodes(
+    env,
+    period.periodStart,
+    period.periodEnd,
+  )
+  if (digestEpisodes.length === 0) return { status: 'empty' }
+
+  const content: DigestContent = {
+    ...period,
+    episodes: digestEpisodes,
+    appUrl: getAppUrl(env),
+  }
+
+  const id = nanoid()
+  const db = getDb(env.DB)
+  const inserted = await db
+    .insert(digests)
+    .values({
+      id,
+      periodStart: period.periodStart,
+      periodEnd: period.periodEnd,
+      subject: digestSubject(period.periodEnd, digestEpisodes.length),
+      html: renderDigestHtml(content),
+      text: renderDigestText(content),
+      episodeIds: JSON.stringify(digestEpisodes.map((ep) => ep.episodeId)),
+      recipients: JSON.stringify([]),
+      status: 'pending',
+      createdAt: new Date(),
+    })
+    .onConflictDoNothing()
+    .returning({ id: digests.id })
+  if (inserted.length === 0) return { status: 'duplicate' }
+
+  return { status: 'created', id, episodeCount: digestEpisodes.length }
+}
+
+/**
+ * Sends a stored digest to the current subscriber list and records the
+ * outcome on the digest row. Used for first delivery and for resends.
+ */
+export async function deliverDigest(env: Env, digestId: string) {
+  const db = getDb(env.DB)
+
+  const [digest] = await db
+    .select()
+    .from(digests)
+    .where(eq(digests.id, digestId))
+    .limit(1)
+
+  if (!digest) throw new Error('Digest not found')
+
+  const recipients = getDigestRecipients(env)
+  if (recipients.length === 0) {
+    throw new Error('No digest recipients configured (DIGEST_RECIPIENTS)')
+  }
+
+  try {
+    const transport = createMailTransport(env)
+    await transport.send({
+      from: String((env as any).DIGEST_FROM || 'digest@localhost'),
+      to: recipients,
+      subject: digest.subject,
+      html: digest.html,
+      text: digest.text,
+    })
+
+    await db
+      .update(digests)
+      .set({
+        status: 'sent',
+        error: null,
+        recipients: JSON.stringify(recipients),
+        sentAt: new Date(),
+      })
+      .where(eq(digests.id, digestId))
+
+    return { status: 'sent' as const, recipientCount: recipients.length }
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error)
+    await db
+      .update(digests)
+      .set({ status: 'failed', error: message.slice(0, 1000) })
+      .where(eq(digests.id, digestId))
+    throw error
+  }
+}
+
+/**
+ * Cron entry point. Covers the 24 hours up to the hour the trigger fired and
+ * is skipped if a digest for that period already exists. Only the run that
+ * stores the digest sends it, so overlapping triggers send one email.
+ */
+export async function runScheduledDigest(
+  env: Env,
+  scheduledTime: number,
+): Promise<void> {
+  const periodEnd = new Date(Math.floor(scheduledTime / HOUR_MS) * HOUR_MS)
+  const periodStart = new Date(periodEnd.getTime() - DAY_MS)
+
+  const db = getDb(env.DB)
+  const [existing] = await db
+    .select({ id: digests.id })
+    .from(digests)
+    .where(eq(digests.periodEnd, periodEnd))
+    .limit(1)
+
+  if (existing) {
+    console.log(`Skipping digest: ${periodEnd.toISOString()} already generated`)
+    return
+  }
+
+  try {
+    const digest = await createDigest(env, { periodStart, periodEnd })
+    if (digest.status === 'empty') {
+      console.log('Skipping digest: no episodes completed in the last 24 hours')
+      return
+    }
+    if (digest.status === 'duplicate') {
+      console.log(`Skipping digest: ${periodEnd.toISOString()} already generated`)
+      return
+    }
+    await deliverDigest(env, digest.id)
+    console.log(
+      `Sent digest ${digest.id} covering ${digest.episodeCount} episodes`,
+    )
+  } catch (error) {
+    console.error('Error sending daily digest:', error)
+  }
+}
@@ -0,0 +1,157 @@
+/**
+ * Anything that can turn text into vectors whose cosine similarity reflects
+ * how alike the texts are in meaning. Vectors from different embedders are
+ * not comparable, so callers store `name` alongside them.
+ */
+export interface Embedder {
+  readonly name: string
+  readonly dimensions: number
+  // Cosine similarity at or above which two texts make the same point
+  readonly matchThreshold: number
+  embed(texts: string[]): Promise<number[][]>
+}
+
+// ==================== Vector maths ====================
+
+export function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0
+  let normA = 0
+  let normB = 0
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    dot += a[i] * b[i]
+    normA += a[i] * a[i]
+    normB += b[i] * b[i]
+  }
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0
+}
+
+export function normalizeVector(vector: number[]): number[] {
+  const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0))
+  return norm ? vector.map((v) => v / norm) : vector
+}
+
+/**
+ * Unit-length mean of a set of vectors: the centre of a cluster.
+ */
+export function meanVector(vectors: number[][]): number[] {
+  if (vectors.length === 0) return []
+  const sum = new Array<number>(vectors[0].length).fill(0)
+  for (const vector of vectors) {
+    for (let i = 0; i < sum.length; i++) sum[i] += vector[i] ?? 0
+  }
+  return normalizeVector(sum)
+}
+
+/**
+ * Compact JSON for storing a vector in D1. Four decimal places keep cosine
+ * similarities accurate to well under a percent.
+ */
+export function serializeVector(vector: number[]): string {
+  return JSON.stringify(vector.map((v) => Math.round(v * 10000) / 10000))
+}
+
+export function parseVector(value: string | null): number[] {
+  if (!value) return []
+  try {
+    const parsed = JSON.parse(value)
+    return Array.isArray(parsed) ? parsed : []
+  } catch {
+    return []
+  }
+}
+
+// ==================== Implementations ====================
+
+const WORKERS_AI_BATCH = 100
+
+/**
+ * BGE embeddings on Workers AI. English-only, 512 tokens per text, which is
+ * plenty for single claims.
+ */
+export class WorkersAiEmbedder implements Embedder {
+  readonly name = 'bge-base-en-v1.5'
+  readonly dimensions = 768
+  readonly matchThreshold = 0.82
+
+  constructor(private readonly env: Env) {}
+
+  async embed(texts: string[]): Promise<number[][]> {
+    const vectors: number[][] = []
+    for (let i = 0; i < texts.length; i += WORKERS_AI_BATCH) {
+      const batch = texts.slice(i, i + WORKERS_AI_BATCH)
+      const result = (await this.env.AI.run('@cf/baai/bge-base-en-v1.5' as any, {
+        text: batch,
+      })) as any
+      const data: number[][] | undefined = result?.data
+      if (!Array.isArray(data) || data.length !== batch.length) {
+        throw new Error(
+          `Embedding model returned ${data?.length ?? 'no'} vectors for ${batch.length} texts`,
+        )
+      }
+      vectors.push(...data.map(normalizeVector))
+    }
+    return vectors
+  }
+}
+
+function hashToken(token: string): number {
+  // FNV-1a
+  let hash = 0x811c9dc5
+  for (let i = 0; i < token.length; i++) {
+    hash ^= token.charCodeAt(i)
+    hash = Math.imul(hash, 0x01000193)
+  }
+  return hash >>> 0
+}
+
+/**
+ * Hashes words and word pairs into a fixed-size vector. Only texts that
+ * share wording come out similar, but it needs no model and gives the same
+ * vectors every time. Used in local development and tests.
+ */
+export class HashEmbedder implements Embedder {
+  readonly name: string
+  readonly matchThreshold = 0.5
+
+  constructor(readonly dimensions = 256) {
+    this.name = `hash-${dimensions}`
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    return texts.map((text) => {
+      const words = text
+        .toLowerCase()
+        .replace(/[^\p{L}\p{N}\s']/gu, ' ')
+        .split(/\s+/)
+        .filter((w) => w.length > 2)
+      const tokens = [
+        ...words,
+        ...words.slice(1).map((w, i) => `${words[i]} ${w}`),
+      ]
+
+      const vector = new Array<number>(this.dimensions).fill(0)
+      for (const token of tokens) {
+        const hash = hashToken(token)
+        vector[hash % this.dimensions] += hash & 0x80000000 ? -1 : 1
+      }
+      return normalizeVector(vector)
+    })
+  }
+}
+
+/**
+ * Picks the embedder named by EMBEDDER ("workers-ai" or "hash"). Falls back
+ * to Workers AI when unset.
+ */
+export function createEmbedder(env: Env): Embedder {
+  const kind = String((env as any).EMBEDDER || 'workers-ai').toLowerCase()
+
+  switch (kind) {
+    case 'workers-ai':
+      return new WorkersAiEmbedder(env)
+    case 'hash':
+      return new HashEmbedder()
+    default:
+      throw new Error(`Unknown EMBEDDER "${kind}"`)
+  }
+}
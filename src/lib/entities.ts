@@ -0,0 +1,201 @@
+import { nanoid } from 'nanoid'
+import { and, eq } from 'drizzle-orm'
+import { getDb } from '~/db'
+import { entities, episodeEntities, transcriptSegments } from '~/db/schema'
+
+export const ENTITY_TYPES = [
+  'person',
+  'organization',
+  'product',
+  'place',
+] as const
+export type EntityType = (typeof ENTITY_TYPES)[number]
+
+export const ENTITY_TYPE_LABELS: Record<EntityType, string> = {
+  person: 'People',
+  organization: 'Organisations',
+  product: 'Products',
+  place: 'Places',
+}
+
+export function isEntityType(value: string): value is EntityType {
+  return (ENTITY_TYPES as readonly string[]).includes(value)
+}
+
+export interface ExtractedEntity {
+  name: string
+  type: EntityType
+  // How often the model thinks the entity is mentioned
+  mentions: number
+  // Other forms the transcript uses, e.g. a surname on its own
+  aliases: string[]
+}
+
+export interface EntityMention {
+  segmentId: string
+  startTime: number
+}
+
+const MAX_ENTITIES = 30
+// Shorter aliases ("X", "Al") match too much unrelated text
+const MIN_ALIAS_LENGTH = 3
+
+/**
+ * Key used to dedupe entities across episodes: lowercased, with punctuation
+ * and a leading "the" dropped, so "The New York Times" and "new york times"
+ * are the same organisation.
+ */
+export function normalizeEntityName(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/[’']s\b/g, '')
+    .replace(/[^\p{L}\p{N}]+/gu, ' ')
+    .trim()
+    .replace(/^the /, '')
+}
+
+/**
+ * Validates the `entities` array of an analysis response, dropping malformed
+ * entries and merging duplicates.
+ */
+export function parseExtractedEntities(raw: unknown): ExtractedEntity[] {
+  if (!Array.isArray(raw)) return []
+
+  const byKey = new Map<string, ExtractedEntity>()
+  for (const item of raw) {
+    if (!item || typeof item !== 'object') continue
+    const name = typeof item.name === 'string' ? item.name.trim() : ''
+    const type = typeof item.type === 'string' ? item.type.toLowerCase() : ''
+    // Models sometimes use the British spelling
+    const normalizedType = type === 'organisation' ? 'organization' : type
+    if (!name || !isEntityType(normalizedType)) continue
+
+    const key = `${normalizedType}:${normalizeEntityName(name)}`
+    if (key.endsWith(':')) continue
+    const mentions = Number.isFinite(Number(item.mentions))
+      ? Math.max(1, Math.round(Number(item.mentions)))
+      : 1
+    const aliases = Array.isArray(item.aliases)
+      ? item.aliases
+          .filter((a: unknown): a is string => typeof a === 'string')
+          .map((a: string) => a.trim())
+          .filter((a: string) => a.length >= MIN_ALIAS_LENGTH)
+      : []
+
+    const existing = byKey.get(key)
+    if (existing) {
+      existing.mentions += mentions
+      existing.aliases = [...new Set([...existing.aliases, ...aliases])]
+    } else {
+      byKey.set(key, { name, type: normalizedType, mentions, aliases })
+    }
+  }
+
+  return [...byKey.values()].slice(0, MAX_ENTITIES)
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
+
+/**
+ * Finds the transcript segments that name an entity, by its name or any
+ * alias, as a whole word and ignoring case. Returns the matching segments and
+ * the total number of matches.
+ */
+export function findEntityMentions(
+  entity: Pick<ExtractedEntity, 'name' | 'aliases'>,
+  segments: { id: string; text: string; startTime: number }[],
+): { mentions: EntityMention[]; count: number } {
+  const forms = [entity.name, ...entity.aliases]
+    .map((form) => form.trim())
+    .filter(Boolean)
+    // Longest first, so "Andrew Tate" is matched before "Tate"
+    .sort((a, b) => b.length - a.length)
+    .map((form) => escapeRegExp(form).replace(/\s+/g, '\\s+'))
+  if (forms.length === 0) return { mentions: [], count: 0 }
+
+  const pattern = new RegExp(
+    `(?<![\\p{L}\\p{N}])(?:${forms.join('|')})(?![\\p{L}\\p{N}])`,
+    'giu',
+  )
+
+  const mentions: EntityMention[] = []
+  let total = 0
+  for (const segment of segments) {
+    const matches = segment.text.match(pattern)
+    if (!matches) continue
+    total += matches.length
+    mentions.push({ segmentId: segment.id, startTime: segment.startTime })
+  }
+
+  return { mentions, count: total }
+}
+
+/**
+ * Replaces an episode's entity links with the given extracted entities,
+ * creating any entities not seen before and linking each to the transcript
+ * segments that mention it.
+ */
+export async function storeEpisodeEntities(
+  env: Env,
+  episodeId: string,
+  extracted: ExtractedEntity[],
+): Promise<void> {
+  const db = getDb(env.DB)
+
+  await db
+    .delete(episodeEntities)
+    .where(eq(episodeEntities.episodeId, episodeId))
+  if (extracted.length === 0) return
+
+  const segments = await db
+    .select({
+      id: transcriptSegments.id,
+      text: transcriptSegments.text,
+      startTime: transcriptSegments.startTime,
+    })
+    .from(transcriptSegments)
+    .where(eq(transcriptSegments.episodeId, episodeId))
+    .orderBy(transcriptSegments.segmentIndex)
+
+  const now = new Date()
+  for (const entity of extracted) {
+    const normalizedName = normalizeEntityName(entity.name)
+
+    await db
+      .insert(entities)
+      .values({
+        id: nanoid(),
+        name: entity.name,
+        type: entity.type,
+        normalizedName,
+        createdAt: now,
+      })
+      .onConflictDoNothing({ target: [entities.type, entities.normalizedName] })
+
+    const [row] = await db
+      .select({ id: entities.id })
+      .from(entities)
+      .where(
+        and(
+          eq(entities.type, entity.type),
+          eq(entities.normalizedName, normalizedName),
+        ),
+      )
+      .limit(1)
+    if (!row) continue
+
+    const { mentions, count } = findEntityMentions(entity, segments)
+    await db.insert(episodeEntities).values({
+      id: nanoid(),
+      episodeId,
+      entityId: row.id,
+      // Prefer what the transcript shows; the model's count is a fallback
+      // for names the transcript spells differently
+      mentionCount: count || entity.mentions,
+      mentions: JSON.stringify(mentions),
+      createdAt: now,
+    })
+  }
+}
@@ -0,0 +1,146 @@
+import { nanoid } from 'nanoid'
+import { eq, and, count } from 'drizzle-orm'
+import { getDb } from '~/db'
+import { episodes, episodeEvents } from '~/db/schema'
+
+/**
+ * Points the processing workflow can restart from. A failed step maps to the
+ * stage containing it, and the retry runs that stage's steps again, skipping
+ * work an earlier run already saved: the audio is reused if it is in R2,
+ * Whisper results are kept per chunk until the transcript is stored (see
+ * transcription-cache), and a retry from analysis reuses the stored
+ * transcript. Diarization and the other transcription steps are redone.
+ */
+export const RESUME_STAGES = ['download', 'transcribe', 'analyze'] as const
+export type ResumeStage = (typeof RESUME_STAGES)[number]
+
+export function resumeStageForStep(step: string | null): ResumeStage {
+  if (!step || step === 'download-audio') return 'download'
+  if (
+    step === 'update-status-analyzing' ||
+    step === 'analyze-transcript' ||
+    step === 'store-entities' ||
+    step === 'store-tags' ||
+    step === 'store-narratives' ||
+    step === 'generate-chapters' ||
+    step === 'store-analysis'
+  ) {
+    return 'analyze'
+  }
+  return 'transcribe'
+}
+
+function errorMessage(error: unknown): string {
+  const message = error instanceof Error ? error.message : String(error)
+  return message.slice(0, 1000)
+}
+
+interface StepRef {
+  episodeId: string
+  workflowId: string
+  step: string
+}
+
+async function countFailedAttempts(env: Env, ref: StepRef): Promise<number> {
+  const db = getDb(env.DB)
+  const [row] = await db
+    .select({ count: count() })
+    .from(episodeEvents)
+    .where(
+      and(
+        eq(episodeEvents.workflowId, ref.workflowId),
+        eq(episodeEvents.step, ref.step),
+        eq(episodeEvents.type, 'attempt_failed'),
+      ),
+    )
+  return row?.count ?? 0
+}
+
+/**
+ * Wraps a workflow step callback so every failed attempt is logged before the
+ * error is rethrown for Workflows to retry. Step callbacks may run in a fresh
+ * isolate on each attempt, so the attempt number comes from the log itself.
+ */
+export function withAttemptLogging<T>(
+  env: Env,
+  ref: StepRef,
+  callback: () => Promise<T>,
+): () => Promise<T> {
+  return async () => {
+    try {
+      return await callback()
+    } catch (error) {
+      try {
+        const attempt = (await countFailedAttempts(env, ref)) + 1
+        const db = getDb(env.DB)
+        await db.insert(episodeEvents).values({
+          id: nanoid(),
+          episodeId: ref.episodeId,
+          workflowId: ref.workflowId,
+          type: 'attempt_failed',
+          step: ref.step,
+          attempt,
+          message: errorMessage(error),
+          createdAt: new Date(),
+        })
+      } catch (logError) {
+        console.error('Error logging failed step attempt:', logError)
+      }
+      throw error
+    }
+  }
+}
+
+/**
+ * Marks the episode as failed once a step has exhausted its retries.
+ */
+export async function recordEpisodeFailure(
+  env: Env,
+  ref: StepRef,
+  error: unknown,
+): Promise<void> {
+  const message = errorMessage(error)
+  // Failures outside a step callback (e.g. validating merged results) never
+  // logged an attempt, so count them as one
+  const attempts = Math.max(await countFailedAttempts(env, ref), 1)
+
+  const db = getDb(env.DB)
+  await db.insert(episodeEvents).values({
+    id: nanoid(),
+    episodeId: ref.episodeId,
+    workflowId: ref.workflowId,
+    type: 'failed',
+    step: ref.step,
+    attempt: attempts,
+    message,
+    createdAt: new Date(),
+  })
+
+  await db
+    .update(episodes)
+    .set({
+      status: 'error',
+      errorMessage: message,
+      failedStep: ref.step,
+      failedAttempts: attempts,
+    })
+    .where(eq(episodes.id, ref.episodeId))
+}
+
+export async function recordEpisodeRetry(
+  env: Env,
+  episodeId: string,
+  workflowId: string,
+  stage: ResumeStage,
+): Promise<void> {
+  const db = getDb(env.DB)
+  await db.insert(episodeEvents).values({
+    id: nanoid(),
+    episodeId,
+    workflowId,
+    type: 'retried',
+    step: stage,
+    message: `Retrying from ${stage}`,
+    createdAt: new Date(),
+  })
+}
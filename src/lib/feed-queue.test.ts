@@ -0,0 +1,308 @@
+/// <reference types="node" />
+import { readFileSync } from 'node:fs'
+import { eq } from 'drizzle-orm'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { getDb } from '~/db'
+import { feedPollJobs, podcasts } from '~/db/schema'
+import { createTestDatabase } from '~/test/d1'
+import {
+  enqueueDueFeeds,
+  InProcessFeedQueue,
+  retryFeedPollJob,
+  runFeedPollJob,
+  type FeedPollMessage,
+  type FeedQueue,
+} from './feed-queue'
+
+const FEED_XML = readFileSync(
+  new URL('./__fixtures__/feeds/itunes.xml', import.meta.url),
+  'utf8',
+)
+const OK_FEED = 'https://feeds.test/ok.xml'
+const BROKEN_FEED = 'https://feeds.test/broken.xml'
+
+// Records what was sent instead of delivering it
+class RecordingQueue implements FeedQueue {
+  readonly name = 'recording'
+  sent: FeedPollMessage[] = []
+  failing = false
+
+  async send(messages: FeedPollMessage[]): Promise<void> {
+    if (this.failing) throw new Error('Queue unavailable')
+    this.sent.push(...messages)
+  }
+}
+
+describe('feed poll jobs', () => {
+  let env: Env
+  let dispose: () => Promise<void>
+
+  beforeEach(async () => {
+    const database = await createTestDatabase()
+    env = { DB: database.db } as Env
+    dispose = database.dispose
+    // pollPodcast logs every failed poll
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+
+    // Feeds are answered locally; everything else (the local D1) goes
+    // through untouched
+    const realFetch = globalThis.fetch
+    vi.stubGlobal(
+      'fetch',
+      async (input: RequestInfo | URL, init?: RequestInit) => {
+        const url = input instanceof Request ? input.url : String(input)
+        if (url === OK_FEED) return new Response(FEED_XML)
+        if (url === BROKEN_FEED) {
+          return new Response('Oops', { status: 500, statusText: 'Server Error' })
+        }
+        return realFetch(input, init)
+      },
+    )
+  })
+
+  afterEach(async () => {
+    vi.unstubAllGlobals()
+    vi.restoreAllMocks()
+    await dispose()
+  })
+
+  // Added after every episode in the fixture, so polls store no episodes
+  async function addPodcast(
+    id: string,
+    feedUrl: string,
+    options: { active?: boolean; nextPollAt?: Date | null } = {},
+  ) {
+    await getDb(env.DB)
+      .insert(podcasts)
+      .values({
+        id,
+        title: id,
+        feedUrl,
+        addedAt: new Date('2027-01-01T00:00:00Z'),
+        active: options.active ?? true,
+        nextPollAt: options.nextPollAt ?? null,
+      })
+  }
+
+  async function addJob(
+    id: string,
+    podcastId: string,
+    status: string,
+    options: { attempts?: number; updatedAt?: Date } = {},
+  ) {
+    const updatedAt = options.updatedAt ?? new Date()
+    await getDb(env.DB)
+      .insert(feedPollJobs)
+      .values({
+        id,
+        podcastId,
+        status,
+        attempts: options.attempts ?? 0,
+        enqueuedAt: updatedAt,
+        updatedAt,
+      })
+  }
+
+  function listJobs() {
+    return getDb(env.DB).select().from(feedPollJobs).orderBy(feedPollJobs.id)
+  }
+
+  async function getPodcast(id: string) {
+    const [podcast] = await getDb(env.DB)
+      .select()
+      .from(podcasts)
+      .where(eq(podcasts.id, id))
+    return podcast
+  }
+
+  describe('enqueueDueFeeds', () => {
+    it('queues active feeds that are due and have no job pending', async () => {
+      await addPodcast('due', OK_FEED)
+      await addPodcast('later', OK_FEED.replace('ok', 'later'), {
+        nextPollAt: new Date(Date.now() + 60 * 60 * 1000),
+      })
+      await addPodcast('inactive', OK_FEED.replace('ok', 'off'), {
+        active: false,
+      })
+      await addPodcast('pending', OK_FEED.replace('ok', 'pending'))
+      await addJob('pending-job', 'pending', 'retrying', { attempts: 1 })
+
+      const queue = new RecordingQueue()
+      expect(await enqueueDueFeeds(env, {}, queue)).toEqual({ queued: 1 })
+
+      const jobs = await listJobs()
+      expect(jobs.map((j) => [j.podcastId, j.status])).toEqual(
+        expect.arrayContaining([
+          ['due', 'queued'],
+          ['pending', 'retrying'],
+        ]),
+      )
+      expect(jobs).toHaveLength(2)
+      const dueJob = jobs.find((j) => j.podcastId === 'due')!
+      expect(queue.sent).toEqual([{ jobId: dueJob.id }])
+
+      // Forcing ignores the schedule but not pending jobs or inactive feeds
+      expect(await enqueueDueFeeds(env, { force: true }, queue)).toEqual({
+        queued: 1,
+      })
+      expect((await listJobs()).map((j) => j.podcastId).sort()).toEqual([
+        'due',
+        'later',
+        'pending',
+      ])
+    })
+
+    it('clears stale jobs so their feeds are queued again', async () => {
+      await addPodcast('stuck', OK_FEED)
+      await addPodcast('dead', BROKEN_FEED)
+      const longAgo = new Date(Date.now() - 3 * 60 * 60 * 1000)
+      await addJob('stale', 'stuck', 'running', { attempts: 1, updatedAt: longAgo })
+      await addJob('dead-letter', 'dead', 'dead', { attempts: 3, updatedAt: longAgo })
+
+      const queue = new RecordingQueue()
+      expect(await enqueueDueFeeds(env, {}, queue)).toEqual({ queued: 2 })
+
+      const jobs = await listJobs()
+      expect(jobs.find((j) => j.id === 'stale')).toBeUndefined()
+      // Dead letters are kept until retried or dismissed
+      expect(jobs.find((j) => j.id === 'dead-letter')?.status).toBe('dead')
+      expect(jobs.filter((j) => j.status === 'queued')).toHaveLength(2)
+    })
+
+    it('removes the new jobs when sending fails', async () => {
+      await addPodcast('one', OK_FEED)
+      await addPodcast('two', BROKEN_FEED)
+
+      const queue = new RecordingQueue()
+      queue.failing = true
+      await expect(enqueueDueFeeds(env, {}, queue)).rejects.toThrow(
+        'Queue unavailable',
+      )
+      expect(await listJobs()).toEqual([])
+
+      // Nothing holds the feeds back on the next run
+      queue.failing = false
+      expect(await enqueueDueFeeds(env, {}, queue)).toEqual({ queued: 2 })
+    })
+  })
+
+  describe('runFeedPollJob', () => {
+    it("deletes a job that succeeds, with the feed's dead letters", async () => {
+      await addPodcast('show', OK_FEED)
+      await addJob('old-dead', 'show', 'dead', { attempts: 3 })
+      await addJob('job', 'show', 'queued')
+
+      expect(await runFeedPollJob(env, { jobId: 'job' })).toEqual({
+        action: 'ack',
+      })
+
+      expect(await listJobs()).toEqual([])
+      expect(await getPodcast('show')).toMatchObject({
+        lastPollStatus: 'updated',
+        consecutiveFailures: 0,
+        title: 'show',
+        websiteUrl: 'https://example.com/show',
+      })
+    })
+
+    it('retries with a growing delay, then keeps a dead letter', async () => {
+      await addPodcast('show', BROKEN_FEED)
+      await addJob('job', 'show', 'queued')
+
+      expect(await runFeedPollJob(env, { jobId: 'job' })).toEqual({
+        action: 'retry',
+        delaySeconds: 60,
+      })
+      expect(await runFeedPollJob(env, { jobId: 'job' })).toEqual({
+        action: 'retry',
+        delaySeconds: 120,
+      })
+      // Attempts before the last don't count against the feed's health
+      expect((await getPodcast('show')).consecutiveFailures).toBe(0)
+      expect((await listJobs())[0]).toMatchObject({
+        status: 'retrying',
+        attempts: 2,
+        lastError: 'Failed to fetch feed: 500 Server Error',
+      })
+
+      expect(await runFeedPollJob(env, { jobId: 'job' })).toEqual({
+        action: 'ack',
+      })
+      expect((await listJobs())[0]).toMatchObject({
+        status: 'dead',
+        attempts: 3,
+      })
+      expect(await getPodcast('show')).toMatchObject({
+        lastPollStatus: 'error',
+        consecutiveFailures: 1,
+      })
+
+      // A redelivered message for a dead letter is ignored
+      expect(await runFeedPollJob(env, { jobId: 'job' })).toEqual({
+        action: 'ack',
+      })
+      expect((await listJobs())[0].attempts).toBe(3)
+    })
+
+    it('keeps only the latest dead letter per feed', async () => {
+      await addPodcast('show', BROKEN_FEED)
+      await addPodcast('other', BROKEN_FEED.replace('broken', 'other'))
+      await addJob('a-old', 'show', 'dead', { attempts: 3 })
+      await addJob('b-other', 'other', 'dead', { attempts: 3 })
+      await addJob('c-new', 'show', 'retrying', { attempts: 2 })
+
+      await runFeedPollJob(env, { jobId: 'c-new' })
+
+      expect((await listJobs()).map((j) => [j.id, j.status])).toEqual([
+        ['b-other', 'dead'],
+        ['c-new', 'dead'],
+      ])
+    })
+
+    it('drops jobs for missing or inactive feeds', async () => {
+      await addPodcast('paused', OK_FEED, { active: false })
+      await addJob('job', 'paused', 'queued')
+
+      expect(await runFeedPollJob(env, { jobId: 'job' })).toEqual({
+        action: 'ack',
+      })
+      expect(await runFeedPollJob(env, { jobId: 'missing' })).toEqual({
+        action: 'ack',
+      })
+      expect(await listJobs()).toEqual([])
+    })
+  })
+
+  describe('InProcessFeedQueue', () => {
+    it('runs each job to completion, retrying straight away', async () => {
+      await addPodcast('good', OK_FEED)
+      await addPodcast('bad', BROKEN_FEED)
+
+      const queue = new InProcessFeedQueue(env)
+      expect(await enqueueDueFeeds(env, {}, queue)).toEqual({ queued: 2 })
+
+      const jobs = await listJobs()
+      expect(jobs.map((j) => [j.podcastId, j.status, j.attempts])).toEqual([
+        ['bad', 'dead', 3],
+      ])
+      expect((await getPodcast('good')).lastPollStatus).toBe('updated')
+    })
+
+    it('runs a retried dead letter again with fresh attempts', async () => {
+      await addPodcast('show', BROKEN_FEED)
+      await addJob('job', 'show', 'dead', { attempts: 3 })
+
+      await retryFeedPollJob(env, 'job', new InProcessFeedQueue(env))
+
+      expect((await listJobs())[0]).toMatchObject({
+        status: 'dead',
+        attempts: 3,
+        lastError: 'Failed to fetch feed: 500 Server Error',
+      })
+      expect((await getPodcast('show')).consecutiveFailures).toBe(1)
+      await expect(
+        retryFeedPollJob(env, 'missing', new InProcessFeedQueue(env)),
+      ).rejects.toThrow('Feed poll job not found')
+    })
+  })
+})
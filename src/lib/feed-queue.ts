@@ -0,0 +1,328 @@
+import { nanoid } from 'nanoid'
+import { and, eq, inArray, isNull, lt, lte, ne, notInArray, or } from 'drizzle-orm'
+import { getDb } from '~/db'
+import { feedPollJobs, podcasts } from '~/db/schema'
+import { pollPodcast } from '~/lib/rss'
+
+export interface FeedPollMessage {
+  jobId: string
+}
+
+// Attempts per job before it becomes a dead letter. Only the last failed
+// attempt counts against the feed's health and backoff.
+const MAX_ATTEMPTS = 3
+// Delay before the first retry, doubled for each one after
+const RETRY_DELAY_SECONDS = 60
+// Unfinished jobs untouched for this long were lost, e.g. to a consumer
+// that was evicted mid-poll, and no longer hold back their feed
+const STALE_JOB_MS = 2 * 60 * 60 * 1000
+// Rows per insert, to stay under D1's bound parameter limit
+const INSERT_BATCH = 10
+// IDs per query, to stay under D1's bound parameter limit
+const BATCH_SIZE = 50
+// Queues accept up to 100 messages per sendBatch
+const SEND_BATCH = 100
+// Feeds polled at once by the in-process queue
+const IN_PROCESS_CONCURRENCY = 6
+
+const PENDING_STATUSES = ['queued', 'running', 'retrying']
+
+/**
+ * Anything that can deliver feed poll messages to `runFeedPollJob`.
+ */
+export interface FeedQueue {
+  readonly name: string
+  send(messages: FeedPollMessage[]): Promise<void>
+}
+
+/**
+ * A Cloudflare Queue, consumed by the worker's `queue` handler.
+ */
+export class CloudflareFeedQueue implements FeedQueue {
+  readonly name = 'cloudflare'
+
+  constructor(private readonly binding: Queue<FeedPollMessage>) {}
+
+  async send(messages: FeedPollMessage[]): Promise<void> {
+    for (let i = 0; i < messages.length; i += SEND_BATCH) {
+      await this.binding.sendBatch(
+        messages.slice(i, i + SEND_BATCH).map((body) => ({ body })),
+      )
+    }
+  }
+}
+
+/**
+ * Runs each job as soon as it is sent, retrying straight away rather than
+ * after a delay. For local development and tests.
+ */
+export class InProcessFeedQueue implements FeedQueue {
+  readonly name = 'in-process'
+
+  constructor(private readonly env: Env) {}
+
+  async send(messages: FeedPollMessage[]): Promise<void> {
+    let next = 0
+    const worker = async () => {
+      while (next < messages.length) {
+        const message = messages[next++]
+        while ((await runFeedPollJob(this.env, message)).action === 'retry') {
+          // Try again immediately
+        }
+      }
+    }
+    await Promise.all(
+      Array.from(
+        { length: Math.min(IN_PROCESS_CONCURRENCY, messages.length) },
+        worker,
+      ),
+    )
+  }
+}
+
+/**
+ * Picks the queue named by FEED_QUEUE ("cloudflare" or "in-process"). When
+ * unset, uses the Cloudflare Queue if the FEED_POLL_QUEUE binding exists and
+ * the in-process queue otherwise.
+ */
+export function createFeedQueue(env: Env): FeedQueue {
+  const kind = String(
+    (env as any).FEED_QUEUE || (env.FEED_POLL_QUEUE ? 'cloudflare' : 'in-process'),
+  ).toLowerCase()
+
+  switch (kind) {
+    case 'cloudflare': {
+      if (!env.FEED_POLL_QUEUE) {
+        throw new Error(
+          'FEED_QUEUE is "cloudflare" but no FEED_POLL_QUEUE binding is configured',
+        )
+      }
+      return new CloudflareFeedQueue(env.FEED_POLL_QUEUE)
+    }
+    case 'in-process':
+      return new InProcessFeedQueue(env)
+    default:
+      throw new Error(`Unknown FEED_QUEUE "${kind}"`)
+  }
+}
+
+/**
+ * Creates a job for every active feed that is due, or every active feed with
+ * `force`, and sends them to the queue. Feeds with a job already on its way
+ * are skipped.
+ */
+export async function enqueueDueFeeds(
+  env: Env,
+  options: { force?: boolean } = {},
+  queue: FeedQueue = createFeedQueue(env),
+): Promise<{ queued: number }> {
+  if (String((env as any).IS_STASIS) === 'true') {
+    console.log('Skipping feed poll: stasis mode enabled')
+    return { queued: 0 }
+  }
+
+  const db = getDb(env.DB)
+  const now = new Date()
+
+  await db
+    .delete(feedPollJobs)
+    .where(
+      and(
+        inArray(feedPollJobs.status, PENDING_STATUSES),
+        lt(feedPollJobs.updatedAt, new Date(now.getTime() - STALE_JOB_MS)),
+      ),
+    )
+
+  const due = await db
+    .select({ id: podcasts.id })
+    .from(podcasts)
+    .where(
+      and(
+        eq(podcasts.active, true),
+        notInArray(
+          podcasts.id,
+          db
+            .select({ podcastId: feedPollJobs.podcastId })
+            .from(feedPollJobs)
+            .where(inArray(feedPollJobs.status, PENDING_STATUSES)),
+        ),
+        options.force
+          ? undefined
+          : or(isNull(podcasts.nextPollAt), lte(podcasts.nextPollAt, now)),
+      ),
+    )
+  if (due.length === 0) return { queued: 0 }
+
+  const jobs = due.map((podcast) => ({
+    id: nanoid(),
+    podcastId: podcast.id,
+    status: 'queued',
+    attempts: 0,
+    enqueuedAt: now,
+    updatedAt: now,
+  }))
+  for (let i = 0; i < jobs.length; i += INSERT_BATCH) {
+    await db.insert(feedPollJobs).values(jobs.slice(i, i + INSERT_BATCH))
+  }
+
+  try {
+    await queue.send(jobs.map((job) => ({ jobId: job.id })))
+  } catch (error) {
+    // Unsent jobs would hold back their feeds until they went stale
+    const ids = jobs.map((job) => job.id)
+    for (let i = 0; i < ids.length; i += BATCH_SIZE) {
+      await db
+        .delete(feedPollJobs)
+        .where(
+          and(
+            inArray(feedPollJobs.id, ids.slice(i, i + BATCH_SIZE)),
+            eq(feedPollJobs.attempts, 0),
+          ),
+        )
+    }
+    throw error
+  }
+
+  return { queued: jobs.length }
+}
+
+export type FeedPollOutcome =
+  | { action: 'ack' }
+  | { action: 'retry'; delaySeconds: number }
+
+/**
+ * Polls the feed for one job and records the attempt. Succeeded jobs are
+ * deleted, along with older dead letters for the feed. A failed job is
+ * retried until it runs out of attempts, then kept as a dead letter.
+ */
+export async function runFeedPollJob(
+  env: Env,
+  message: FeedPollMessage,
+): Promise<FeedPollOutcome> {
+  const db = getDb(env.DB)
+
+  const [job] = await db
+    .select()
+    .from(feedPollJobs)
+    .where(eq(feedPollJobs.id, message.jobId))
+    .limit(1)
+  // Dismissed, or a duplicate delivery of a job that already finished
+  if (!job || job.status === 'dead') return { action: 'ack' }
+
+  const [podcast] = await db
+    .select()
+    .from(podcasts)
+    .where(eq(podcasts.id, job.podcastId))
+    .limit(1)
+  if (
+    !podcast ||
+    !podcast.active ||
+    String((env as any).IS_STASIS) === 'true'
+  ) {
+    await db.delete(feedPollJobs).where(eq(feedPollJobs.id, job.id))
+    return { action: 'ack' }
+  }
+
+  const attempts = job.attempts + 1
+  const last = attempts >= MAX_ATTEMPTS
+  await db
+    .update(feedPollJobs)
+    .set({ status: 'running', attempts, updatedAt: new Date() })
+    .where(eq(feedPollJobs.id, job.id))
+
+  const result = await pollPodcast(env, podcast, { recordFailure: last })
+
+  if (result.status !== 'error') {
+    await db
+      .delete(feedPollJobs)
+      .where(
+        or(
+          eq(feedPollJobs.id, job.id),
+          and(
+            eq(feedPollJobs.podcastId, podcast.id),
+            eq(feedPollJobs.status, 'dead'),
+          ),
+        ),
+      )
+    return { action: 'ack' }
+  }
+
+  if (!last) {
+    await db
+      .update(feedPollJobs)
+      .set({ status: 'retrying', lastError: result.error, updatedAt: new Date() })
+      .where(eq(feedPollJobs.id, job.id))
+    return {
+      action: 'retry',
+      delaySeconds: RETRY_DELAY_SECONDS * 2 ** (attempts - 1),
+    }
+  }
+
+  // Keep only the latest dead letter per feed
+  await db
+    .delete(feedPollJobs)
+    .where(
+      and(
+        eq(feedPollJobs.podcastId, podcast.id),
+        eq(feedPollJobs.status, 'dead'),
+        ne(feedPollJobs.id, job.id),
+      ),
+    )
+  await db
+    .update(feedPollJobs)
+    .set({ status: 'dead', lastError: result.error, updatedAt: new Date() })
+    .where(eq(feedPollJobs.id, job.id))
+  return { action: 'ack' }
+}
+
+/**
+ * Queue consumer. Each message is acked or retried on its own, so one bad
+ * feed doesn't redeliver the rest of the batch.
+ */
+export async function handleFeedPollBatch(
+  batch: MessageBatch<FeedPollMessage>,
+  env: Env,
+): Promise<void> {
+  await Promise.all(
+    batch.messages.map(async (message) => {
+      try {
+        const outcome = await runFeedPollJob(env, message.body)
+        if (outcome.action === 'retry') {
+          message.retry({ delaySeconds: outcome.delaySeconds })
+        } else {
+          message.ack()
+        }
+      } catch (error) {
+        // Not a feed failure (pollPodcast never throws), so leave the job
+        // as it is and let the queue redeliver
+        console.error(`Feed poll job ${message.body.jobId} failed:`, error)
+        message.retry()
+      }
+    }),
+  )
+}
+
+/**
+ * Sends a dead-lettered job back to the queue with its attempts reset.
+ */
+export async function retryFeedPollJob(
+  env: Env,
+  jobId: string,
+  queue: FeedQueue = createFeedQueue(env),
+): Promise<void> {
+  const db = getDb(env.DB)
+
+  const [job] = await db
+    .select({ status: feedPollJobs.status })
+    .from(feedPollJobs)
+    .where(eq(feedPollJobs.id, jobId))
+    .limit(1)
+  if (!job) throw new Error('Feed poll job not found')
+  if (job.status !== 'dead') throw new Error('Feed poll job is still pending')
+
+  await db
+    .update(feedPollJobs)
+    .set({ status: 'queued', attempts: 0, lastError: null, updatedAt: new Date() })
+    .where(eq(feedPollJobs.id, jobId))
+  await queue.send([{ jobId }])
+}
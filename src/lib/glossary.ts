@@ -0,0 +1,248 @@
+import { nanoid } from 'nanoid'
+import { desc, eq, isNull, or } from 'drizzle-orm'
+import { getDb } from '~/db'
+import {
+  glossaryTerms,
+  transcriptRevisions,
+  transcriptSegments,
+} from '~/db/schema'
+import type { Word } from '~/lib/timestamp'
+
+export interface GlossaryTerm {
+  term: string
+  variants: string[]
+}
+
+// Whisper reads at most 224 tokens of prompt; stay well inside that
+const MAX_PROMPT_CHARS = 600
+
+/**
+ * Terms that apply to a podcast: its own plus the global ones. With no
+ * podcast, only global terms.
+ */
+export async function loadGlossary(
+  env: Env,
+  podcastId: string | null,
+): Promise<GlossaryTerm[]> {
+  const db = getDb(env.DB)
+  const rows = await db
+    .select({ term: glossaryTerms.term, variants: glossaryTerms.variants })
+    .from(glossaryTerms)
+    .where(
+      podcastId
+        ? or(isNull(glossaryTerms.podcastId), eq(glossaryTerms.podcastId, podcastId))
+        : isNull(glossaryTerms.podcastId),
+    )
+    // Show-specific terms first, so they win the prompt's limited space
+    .orderBy(desc(glossaryTerms.podcastId), glossaryTerms.term)
+
+  return rows.map((row) => ({
+    term: row.term,
+    variants: parseVariants(row.variants),
+  }))
+}
+
+export function parseVariants(json: string): string[] {
+  try {
+    const parsed = JSON.parse(json)
+    return Array.isArray(parsed)
+      ? parsed.filter((v): v is string => typeof v === 'string')
+      : []
+  } catch {
+    return []
+  }
+}
+
+/**
+ * Whisper's `initial_prompt` acts as preceding context, so spelling names out
+ * there nudges the model towards them.
+ */
+export function buildWhisperPrompt(terms: GlossaryTerm[]): string | undefined {
+  let prompt = ''
+  for (const { term } of terms) {
+    const next = prompt ? `${prompt}, ${term}` : term
+    if (next.length + 1 > MAX_PROMPT_CHARS) break
+    prompt = next
+  }
+  return prompt ? `${prompt}.` : undefined
+}
+
+// Splits a word into leading punctuation, the word itself and trailing
+// punctuation, e.g. `"Tait's,` -> `"`, `Tait's`, `,`
+function splitPunctuation(word: string) {
+  const match = word.match(/^([^\p{L}\p{N}]*)(.*?)([^\p{L}\p{N}]*)$/su)
+  return {
+    leading: match?.[1] ?? '',
+    core: match?.[2] ?? word,
+    trailing: match?.[3] ?? '',
+  }
+}
+
+function normalizeToken(token: string): string {
+  return splitPunctuation(token.trim()).core.toLowerCase()
+}
+
+interface Pattern {
+  tokens: string[]
+  replacement: string[]
+}
+
+function buildPatterns(terms: GlossaryTerm[]): Pattern[] {
+  const patterns: Pattern[] = []
+  for (const { term, variants } of terms) {
+    const replacement = term.split(/\s+/).filter(Boolean)
+    if (replacement.length === 0) continue
+    // The canonical spelling is matched too, to fix its capitalisation
+    for (const variant of [term, ...variants]) {
+      const tokens = variant.split(/\s+/).map(normalizeToken).filter(Boolean)
+      if (tokens.length > 0) patterns.push({ tokens, replacement })
+    }
+  }
+  // Longest match wins
+  return patterns.sort((a, b) => b.tokens.length - a.tokens.length)
+}
+
+/**
+ * Rewrites glossary variants in a word stream to their canonical spelling.
+ * Matching ignores case and surrounding punctuation, and allows a possessive
+ * "'s" on the last word; punctuation and the possessive are kept. When the
+ * replacement has a different number of words, they share the time span of
+ * the words they replace.
+ */
+export function applyGlossary(words: Word[], terms: GlossaryTerm[]): Word[] {
+  const patterns = buildPatterns(terms)
+  if (patterns.length === 0 || words.length === 0) return words
+
+  const normalized = words.map((w) => normalizeToken(w.word))
+  const result: Word[] = []
+  let i = 0
+
+  while (i < words.length) {
+    let matched: { pattern: Pattern; possessive: string } | null = null
+
+    for (const pattern of patterns) {
+      const { tokens } = pattern
+      if (i + tokens.length > words.length) continue
+
+      let possessive = ''
+      let ok = true
+      for (let k = 0; k < tokens.length && ok; k++) {
+        const word = normalized[i + k]
+        if (word === tokens[k]) continue
+        const isLast = k === tokens.length - 1
+        const suffix = word.slice(tokens[k].length)
+        if (isLast && word.startsWith(tokens[k]) && /^['’]s$/.test(suffix)) {
+          possessive = splitPunctuation(words[i + k].word.trim()).core.slice(
+            -suffix.length,
+          )
+        } else {
+          ok = false
+        }
+      }
+      if (ok) {
+        matched = { pattern, possessive }
+        break
+      }
+    }
+
+    if (!matched) {
+      result.push(words[i])
+      i++
+      continue
+    }
+
+    const { pattern, possessive } = matched
+    const span = words.slice(i, i + pattern.tokens.length)
+    const first = splitPunctuation(span[0].word.trim())
+    const last = splitPunctuation(span[span.length - 1].word.trim())
+    const replacement = pattern.replacement.map((token, k) => {
+      let text = token
+      if (k === 0) text = first.leading + text
+      if (k === pattern.replacement.length - 1) {
+        text = text + possessive + last.trailing
+      }
+      return text
+    })
+
+    if (replacement.length === span.length) {
+      span.forEach((word, k) => result.push({ ...word, word: replacement[k] }))
+    } else {
+      const start = span[0].start
+      const step = (span[span.length - 1].end - start) / replacement.length
+      replacement.forEach((word, k) =>
+        result.push({
+          word,
+          start: start + k * step,
+          end: start + (k + 1) * step,
+        }),
+      )
+    }
+    i += span.length
+  }
+
+  return result
+}
+
+/**
+ * Applies the glossary to an episode's stored transcript, segment by segment.
+ * Changed segments are recorded in transcript_revisions like hand
+ * corrections, so they can be reverted. Returns the number of segments
+ * changed.
+ */
+export async function reapplyGlossaryToEpisode(
+  env: Env,
+  episodeId: string,
+  terms: GlossaryTerm[],
+  createdBy: string | null,
+): Promise<number> {
+  if (terms.length === 0) return 0
+
+  const db = getDb(env.DB)
+  const segments = await db
+    .select()
+    .from(transcriptSegments)
+    .where(eq(transcriptSegments.episodeId, episodeId))
+
+  let changed = 0
+  for (const segment of segments) {
+    let words: Word[] = []
+    try {
+      words = JSON.parse(segment.words)
+    } catch {
+      // Treated as a segment without word timings
+    }
+
+    // Segments without word timings are corrected on their text alone
+    const input =
+      words.length > 0
+        ? words
+        : segment.text
+            .split(/\s+/)
+            .filter(Boolean)
+            .map((word) => ({ word, start: 0, end: 0 }))
+    const corrected = applyGlossary(input, terms)
+    const text = corrected.map((w) => w.word.trim()).join(' ')
+    if (text === segment.text.replace(/\s+/g, ' ').trim()) continue
+
+    await db.insert(transcriptRevisions).values({
+      id: nanoid(),
+      segmentId: segment.id,
+      episodeId,
+      previousText: segment.text,
+      previousWords: segment.words,
+      text,
+      createdBy,
+      createdAt: new Date(),
+    })
+    await db
+      .update(transcriptSegments)
+      .set({
+        text,
+        words: words.length > 0 ? JSON.stringify(corrected) : segment.words,
+      })
+      .where(eq(transcriptSegments.id, segment.id))
+    changed++
+  }
+
+  return changed
+}
@@ -0,0 +1,166 @@
+import { EmailMessage } from 'cloudflare:email'
+
+export interface MailMessage {
+  from: string
+  to: string[]
+  subject: string
+  html: string
+  text: string
+}
+
+/**
+ * Anything that can deliver a rendered email. Implementations should throw
+ * if delivery fails so the caller can record the error.
+ */
+export interface MailTransport {
+  readonly name: string
+  send(message: MailMessage): Promise<void>
+}
+
+/**
+ * Records messages in memory and logs them instead of sending.
+ * Used for local development and when no transport is configured.
+ */
+export class StubMailTransport implements MailTransport {
+  readonly name = 'stub'
+  readonly sent: MailMessage[] = []
+
+  async send(message: MailMessage): Promise<void> {
+    this.sent.push(message)
+    console.log(
+      `[mail:stub] "${message.subject}" to ${message.to.join(', ')} (${message.text.length} chars)`,
+    )
+  }
+}
+
+/**
+ * POSTs the message as JSON to a generic mail API
+ * ({ from, to, subject, html, text }), authenticating with a bearer token.
+ */
+export class HttpMailTransport implements MailTransport {
+  readonly name = 'http'
+
+  constructor(
+    private readonly endpoint: string,
+    private readonly apiKey?: string,
+  ) {}
+
+  async send(message: MailMessage): Promise<void> {
+    const response = await fetch(this.endpoint, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {}),
+      },
+      body: JSON.stringify(message),
+    })
+    if (!response.ok) {
+      const body = await response.text().catch(() => '')
+      throw new Error(
+        `Mail API request failed: ${response.status} ${response.statusText} ${body.slice(0, 200)}`.trim(),
+      )
+    }
+  }
+}
+
+/**
+ * Sends through a Cloudflare Email Workers `send_email` binding. The binding
+ * takes one raw MIME message per recipient, and recipients must be verified
+ * destination addresses on the account.
+ */
+export class CloudflareEmailTransport implements MailTransport {
+  readonly name = 'cloudflare'
+
+  constructor(private readonly binding: SendEmail) {}
+
+  async send(message: MailMessage): Promise<void> {
+    for (const recipient of message.to) {
+      const raw = buildMimeMessage(message, recipient)
+      await this.binding.send(new EmailMessage(message.from, recipient, raw))
+    }
+  }
+}
+
+/**
+ * Picks the transport named by MAIL_TRANSPORT ("cloudflare", "http" or
+ * "stub"). Falls back to the stub transport when unset.
+ */
+export function createMailTransport(env: Env): MailTransport {
+  const kind = String((env as any).MAIL_TRANSPORT || 'stub').toLowerCase()
+
+  switch (kind) {
+    case 'cloudflare': {
+      if (!env.DIGEST_EMAIL) {
+        throw new Error(
+          'MAIL_TRANSPORT is "cloudflare" but no DIGEST_EMAIL send_email binding is configured',
+        )
+      }
+      return new CloudflareEmailTransport(env.DIGEST_EMAIL)
+    }
+    case 'http': {
+      const endpoint = (env as any).MAIL_API_URL
+      if (!endpoint) {
+        throw new Error('MAIL_TRANSPORT is "http" but MAIL_API_URL is not set')
+      }
+      return new HttpMailTransport(endpoint, (env as any).MAIL_API_KEY)
+    }
+    case 'stub':
+      return new StubMailTransport()
+    default:
+      throw new Error(`Unknown MAIL_TRANSPORT "${kind}"`)
+  }
+}
+
+// ==================== MIME ====================
+
+function encodeBase64Utf8(value: string): string {
+  const bytes = new TextEncoder().encode(value)
+  let binary = ''
+  const chunkSize = 8192
+  for (let i = 0; i < bytes.length; i += chunkSize) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + chunkSize))
+  }
+  return btoa(binary)
+}
+
+function wrapBase64(value: string): string {
+  return value.match(/.{1,76}/g)?.join('\r\n') ?? ''
+}
+
+function encodeHeader(value: string): string {
+  // RFC 2047 encoded-word for anything outside printable ASCII
+  return /^[\x20-\x7e]*$/.test(value)
+    ? value
+    : `=?UTF-8?B?${encodeBase64Utf8(value)}?=`
+}
+
+/**
+ * Builds a multipart/alternative MIME message with plain-text and HTML parts.
+ */
+export function buildMimeMessage(message: MailMessage, to: string): string {
+  const boundary = `----=_mr_${crypto.randomUUID()}`
+  const domain = message.from.split('@')[1]?.replace(/>.*$/, '') || 'localhost'
+
+  return [
+    `From: ${message.from}`,
+    `To: ${to}`,
+    `Subject: ${encodeHeader(message.subject)}`,
+    `Date: ${new Date().toUTCString()}`,
+    `Message-ID: <${crypto.randomUUID()}@${domain}>`,
+    'MIME-Version: 1.0',
+    `Content-Type: multipart/alternative; boundary="${boundary}"`,
+    '',
+    `--${boundary}`,
+    'Content-Type: text/plain; charset=utf-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    wrapBase64(encodeBase64Utf8(message.text)),
+    `--${boundary}`,
+    'Content-Type: text/html; charset=utf-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    wrapBase64(encodeBase64Utf8(message.html)),
+    `--${boundary}--`,
+    '',
+  ].join('\r\n')
+}
@@ -0,0 +1,220 @@
+/// <reference types="node" />
+import { readFileSync } from 'node:fs'
+import { describe, expect, it } from 'vitest'
+import {
+  findFrameSpan,
+  Mp3ChunkPlanner,
+  parseFrameHeader,
+  type Mp3ChunkPlan,
+} from './mp3'
+
+const FRAME_SECONDS = 1152 / 44100
+
+function fixture(name: string): Uint8Array {
+  return new Uint8Array(
+    readFileSync(new URL(`./__fixtures__/mp3/${name}`, import.meta.url)),
+  )
+}
+
+// Offsets of the frames from `start` to the end of the file, found by
+// following frame lengths rather than by the planner's own scan
+function frameOffsets(bytes: Uint8Array, start: number): number[] {
+  const offsets: number[] = []
+  let position = start
+  while (position < bytes.length) {
+    const header = parseFrameHeader(bytes, position)
+    if (!header) throw new Error(`No frame header at ${position}`)
+    offsets.push(position)
+    position += header.frameLength
+  }
+  return offsets
+}
+
+function plan(
+  bytes: Uint8Array,
+  options: { targetChunkBytes: number; overlapSeconds?: number },
+  pieceSize = bytes.length,
+): Mp3ChunkPlan {
+  const planner = new Mp3ChunkPlanner(options)
+  for (let i = 0; i < bytes.length; i += pieceSize) {
+    planner.push(bytes.subarray(i, i + pieceSize))
+  }
+  const result = planner.finish()
+  if (!result) throw new Error('Planner rejected the fixture')
+  return result
+}
+
+// Every chunk starts on a frame and ends on the next frame or the end of
+// the file, and without overlap the chunks tile the audio exactly
+function expectFrameAligned(
+  result: Mp3ChunkPlan,
+  bytes: Uint8Array,
+  offsets: number[],
+) {
+  const boundaries = new Set([...offsets, bytes.length])
+  expect(result.chunks[0].offset).toBe(offsets[0])
+  expect(result.chunks.at(-1)!.offset + result.chunks.at(-1)!.length).toBe(
+    bytes.length,
+  )
+  for (const chunk of result.chunks) {
+    expect(offsets).toContain(chunk.offset)
+    expect(boundaries.has(chunk.offset + chunk.length)).toBe(true)
+  }
+}
+
+function expectContiguous(result: Mp3ChunkPlan) {
+  for (let i = 1; i < result.chunks.length; i++) {
+    const previous = result.chunks[i - 1]
+    const chunk = result.chunks[i]
+    expect(chunk.offset).toBe(previous.offset + previous.length)
+    expect(chunk.startTime).toBeCloseTo(previous.startTime + previous.duration)
+  }
+}
+
+describe('Mp3ChunkPlanner', () => {
+  it('skips an ID3v2 tag and cuts chunks on frame boundaries', () => {
+    const bytes = fixture('id3-cbr.mp3')
+    const offsets = frameOffsets(bytes, 100)
+    const result = plan(bytes, { targetChunkBytes: 4096 })
+
+    expect(result.id3Size).toBe(100)
+    expect(result.vbr).toBeNull()
+    expect(result.sampleRate).toBe(44100)
+    expect(result.chunks.length).toBeGreaterThan(1)
+    expectFrameAligned(result, bytes, offsets)
+    expectContiguous(result)
+    for (const chunk of result.chunks) {
+      expect(chunk.length).toBeLessThanOrEqual(4096)
+      expect(chunk.duration).toBeCloseTo(chunk.frameCount * FRAME_SECONDS)
+    }
+    expect(result.chunks[0].startTime).toBe(0)
+    expect(result.chunks.reduce((n, c) => n + c.frameCount, 0)).toBe(40)
+    expect(result.duration).toBeCloseTo(40 * FRAME_SECONDS)
+  })
+
+  it('gives the same plan however the input is split', () => {
+    const bytes = fixture('id3-cbr.mp3')
+    const whole = plan(bytes, { targetChunkBytes: 4096, overlapSeconds: 0.1 })
+    for (const pieceSize of [1, 3, 7, 417, 5000]) {
+      expect(
+        plan(bytes, { targetChunkBytes: 4096, overlapSeconds: 0.1 }, pieceSize),
+      ).toEqual(whole)
+    }
+  })
+
+  it('excludes the Xing frame and applies LAME gapless info', () => {
+    const bytes = fixture('xing-lame.mp3')
+    const xingFrame = parseFrameHeader(bytes, 0)!
+    const offsets = frameOffsets(bytes, xingFrame.frameLength)
+    const result = plan(bytes, { targetChunkBytes: 4096 })
+
+    expect(result.vbr).toEqual({
+      kind: 'Xing',
+      frameCount: 40,
+      byteCount: bytes.length,
+      encoderDelay: 576,
+      encoderPadding: 1000,
+    })
+    expectFrameAligned(result, bytes, offsets)
+    expectContiguous(result)
+    expect(result.chunks.reduce((n, c) => n + c.frameCount, 0)).toBe(40)
+    // Playback starts after the encoder and decoder delay
+    expect(result.chunks[0].startTime).toBeCloseTo(-(576 + 529) / 44100)
+    expect(result.duration).toBeCloseTo((40 * 1152 - 576 - 529 - 1000) / 44100)
+  })
+
+  it('excludes the VBRI frame', () => {
+    const bytes = fixture('vbri.mp3')
+    const vbriFrame = parseFrameHeader(bytes, 0)!
+    const offsets = frameOffsets(bytes, vbriFrame.frameLength)
+    const result = plan(bytes, { targetChunkBytes: 4096 })
+
+    expect(result.vbr).toEqual({
+      kind: 'VBRI',
+      frameCount: 40,
+      byteCount: bytes.length,
+      encoderDelay: null,
+      encoderPadding: null,
+    })
+    expectFrameAligned(result, bytes, offsets)
+    expectContiguous(result)
+    expect(result.chunks[0].startTime).toBe(0)
+    expect(result.duration).toBeCloseTo(40 * FRAME_SECONDS)
+  })
+
+  it('ignores frame sync bytes inside the ID3 tag and in junk after it', () => {
+    const bytes = fixture('id3-false-sync.mp3')
+    const offsets = frameOffsets(bytes, 69 + 20)
+    const result = plan(bytes, { targetChunkBytes: 4096 })
+
+    expect(result.id3Size).toBe(69)
+    expectFrameAligned(result, bytes, offsets)
+    expect(result.chunks.reduce((n, c) => n + c.frameCount, 0)).toBe(40)
+    expect(result.duration).toBeCloseTo(40 * FRAME_SECONDS)
+  })
+
+  it('ends the last chunk at the end of a truncated file', () => {
+    const bytes = fixture('truncated.mp3')
+    const offsets = frameOffsets(bytes, 0)
+    const result = plan(bytes, { targetChunkBytes: 4096 })
+
+    expect(offsets).toHaveLength(40)
+    expectFrameAligned(result, bytes, offsets)
+    expectContiguous(result)
+    expect(result.chunks.reduce((n, c) => n + c.frameCount, 0)).toBe(40)
+  })
+
+  it('starts each chunk with the frames that end the previous one', () => {
+    const bytes = fixture('id3-cbr.mp3')
+    const offsets = frameOffsets(bytes, 100)
+    const result = plan(bytes, { targetChunkBytes: 4096, overlapSeconds: 0.1 })
+
+    expect(result.chunks[0].overlap).toBe(0)
+    for (let i = 1; i < result.chunks.length; i++) {
+      const previous = result.chunks[i - 1]
+      const chunk = result.chunks[i]
+      expect(offsets).toContain(chunk.offset)
+      expect(chunk.offset).toBeLessThan(previous.offset + previous.length)
+      expect(chunk.overlap).toBeGreaterThan(0)
+      expect(chunk.overlap).toBeLessThanOrEqual(0.1)
+      expect(chunk.startTime + chunk.overlap).toBeCloseTo(
+        previous.startTime + previous.duration,
+      )
+    }
+  })
+
+  it('rejects input with no MP3 frames', () => {
+    const planner = new Mp3ChunkPlanner({ targetChunkBytes: 4096 })
+    planner.push(new Uint8Array(300 * 1024))
+    expect(planner.failed).toBe(true)
+    expect(planner.finish()).toBeNull()
+  })
+})
+
+describe('findFrameSpan', () => {
+  it('returns whole frames covering the range', () => {
+    const bytes = fixture('id3-cbr.mp3').subarray(100)
+    const offsets = frameOffsets(bytes, 0)
+    const span = findFrameSpan(bytes, 10, 10.1, 10.2)!
+
+    expect(offsets).toContain(span.offset)
+    expect([...offsets, bytes.length]).toContain(span.offset + span.length)
+    expect(span.startTime).toBeLessThanOrEqual(10.1)
+    expect(span.startTime).toBeGreaterThan(10.1 - FRAME_SECONDS)
+    expect(span.endTime).toBeGreaterThanOrEqual(10.2)
+    expect(span.endTime).toBeLessThan(10.2 + FRAME_SECONDS)
+  })
+
+  it('stops at the end of a truncated frame', () => {
+    const bytes = fixture('truncated.mp3')
+    const span = findFrameSpan(bytes, 0, 1, 2)!
+
+    expect(span.offset + span.length).toBe(bytes.length)
+    expect(span.endTime).toBeCloseTo(40 * FRAME_SECONDS)
+  })
+
+  it('returns null when no frame overlaps the range', () => {
+    const bytes = fixture('id3-cbr.mp3').subarray(100)
+    expect(findFrameSpan(bytes, 0, 5, 6)).toBeNull()
+  })
+})
@@ -0,0 +1,566 @@
+/**
+ * MP3 frame scanning for splitting episodes into transcription chunks and
+ * cutting audio clips.
+ *
+ * Chunks are cut on frame boundaries so each one is a valid MP3 stream on its
+ * own, and each chunk's start time is computed from the number of samples in
+ * the frames before it rather than from Whisper's reported durations.
+ */
+
+// Bitrates in kbps, indexed by [MPEG-1 ? 0 : 1][layer - 1][bitrate index]
+const BITRATES = [
+  [
+    [0, 32, 64, 96, 128, 160, 192, 224, 256, 288, 320, 352, 384, 416, 448],
+    [0, 32, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320, 384],
+    [0, 32, 40, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320],
+  ],
+  [
+    [0, 32, 48, 56, 64, 80, 96, 112, 128, 144, 160, 176, 192, 224, 256],
+    [0, 8, 16, 24, 32, 40, 48, 56, 64, 80, 96, 112, 128, 144, 160],
+    [0, 8, 16, 24, 32, 40, 48, 56, 64, 80, 96, 112, 128, 144, 160],
+  ],
+]
+
+// Sample rates in Hz, indexed by version then sample rate index
+const SAMPLE_RATES: Record<MpegVersion, number[]> = {
+  '1': [44100, 48000, 32000],
+  '2': [22050, 24000, 16000],
+  '2.5': [11025, 12000, 8000],
+}
+
+// Decoders emit this many samples before the first encoded sample. LAME's
+// gapless info is measured from the same point.
+const DECODER_DELAY = 529
+
+// Give up on files with no MP3 frames in the first 256KB after any ID3 tag
+const MAX_SYNC_SEARCH_BYTES = 256 * 1024
+
+type MpegVersion = '1' | '2' | '2.5'
+
+export interface FrameHeader {
+  version: MpegVersion
+  layer: 1 | 2 | 3
+  bitrate: number // kbps
+  sampleRate: number
+  channels: 1 | 2
+  samplesPerFrame: number
+  frameLength: number // bytes, including the header
+}
+
+export interface VbrInfo {
+  kind: 'Xing' | 'Info' | 'VBRI'
+  frameCount: number | null
+  byteCount: number | null
+  // Gapless playback info from the LAME extension, in samples
+  encoderDelay: number | null
+  encoderPadding: number | null
+}
+
+export interface AudioChunk {
+  offset: number
+  length: number
+  // Seconds from the start of playback to the first sample of the chunk
+  startTime: number
+  duration: number
+  // Seconds at the start of the chunk that repeat the end of the previous one
+  overlap: number
+  frameCount: number
+}
+
+export interface Mp3ChunkPlan {
+  chunks: AudioChunk[]
+  duration: number
+  sampleRate: number
+  id3Size: number
+  vbr: VbrInfo | null
+}
+
+/**
+ * Size of the ID3v2 tag at the start of the buffer (header, body and
+ * footer), or 0 when there is none. Needs at least 10 bytes.
+ */
+export function parseId3v2Size(bytes: Uint8Array, offset = 0): number {
+  if (
+    bytes.length < offset + 10 ||
+    bytes[offset] !== 0x49 || // I
+    bytes[offset + 1] !== 0x44 || // D
+    bytes[offset + 2] !== 0x33 // 3
+  ) {
+    return 0
+  }
+
+  // Size is a 28-bit syncsafe integer (7 bits per byte)
+  const size =
+    ((bytes[offset + 6] & 0x7f) << 21) |
+    ((bytes[offset + 7] & 0x7f) << 14) |
+    ((bytes[offset + 8] & 0x7f) << 7) |
+    (bytes[offset + 9] & 0x7f)
+  const hasFooter = (bytes[offset + 5] & 0x10) !== 0
+  return 10 + size + (hasFooter ? 10 : 0)
+}
+
+/**
+ * Parses the 4-byte frame header at `offset`. Returns null when the bytes
+ * are not a valid MPEG audio frame header.
+ */
+export function parseFrameHeader(
+  bytes: Uint8Array,
+  offset = 0,
+): FrameHeader | null {
+  if (bytes.length < offset + 4) return null
+
+  const b1 = bytes[offset + 1]
+  const b2 = bytes[offset + 2]
+  const b3 = bytes[offset + 3]
+
+  // 11-bit frame sync
+  if (bytes[offset] !== 0xff || (b1 & 0xe0) !== 0xe0) return null
+
+  const versionBits = (b1 >> 3) & 0x03
+  const layerBits = (b1 >> 1) & 0x03
+  const bitrateIndex = (b2 >> 4) & 0x0f
+  const sampleRateIndex = (b2 >> 2) & 0x03
+  const padding = (b2 >> 1) & 0x01
+  const channelMode = (b3 >> 6) & 0x03
+
+  if (versionBits === 0x01 || layerBits === 0x00) return null
+  // Free-format (0) and bad (15) bitrates can't be framed without decoding
+  if (bitrateIndex === 0x00 || bitrateIndex === 0x0f) return null
+  if (sampleRateIndex === 0x03) return null
+
+  const version: MpegVersion =
+    versionBits === 0x03 ? '1' : versionBits === 0x02 ? '2' : '2.5'
+  const layer = (4 - layerBits) as 1 | 2 | 3
+  const bitrate = BITRATES[version === '1' ? 0 : 1][layer - 1][bitrateIndex]
+  const sampleRate = SAMPLE_RATES[version][sampleRateIndex]
+
+  let samplesPerFrame: number
+  let frameLength: number
+  if (layer === 1) {
+    samplesPerFrame = 384
+    frameLength = (Math.floor((12 * bitrate * 1000) / sampleRate) + padding) * 4
+  } else {
+    samplesPerFrame = layer === 3 && version !== '1' ? 576 : 1152
+    frameLength =
+      Math.floor(((samplesPerFrame / 8) * bitrate * 1000) / sampleRate) +
+      padding
+  }
+
+  return {
+    version,
+    layer,
+    bitrate,
+    sampleRate,
+    channels: channelMode === 0x03 ? 1 : 2,
+    samplesPerFrame,
+    frameLength,
+  }
+}
+
+function readUint32(bytes: Uint8Array, offset: number): number {
+  return (
+    ((bytes[offset] << 24) >>> 0) +
+    (bytes[offset + 1] << 16) +
+    (bytes[offset + 2] << 8) +
+    bytes[offset + 3]
+  )
+}
+
+function readTag(bytes: Uint8Array, offset: number): string {
+  return String.fromCharCode(...bytes.subarray(offset, offset + 4))
+}
+
+/**
+ * Reads a Xing/Info or VBRI header from the frame at `offset`. These frames
+ * carry stream metadata rather than audio and are not counted as audio.
+ * Needs the whole frame in `bytes`.
+ */
+export function parseVbrHeader(
+  bytes: Uint8Array,
+  offset: number,
+  header: FrameHeader,
+): VbrInfo | null {
+  if (header.layer !== 3) return null
+
+  // The Xing tag follows the side information, whose size depends on the
+  // version and channel count
+  const sideInfoSize =
+    header.version === '1'
+      ? header.channels === 1
+        ? 17
+        : 32
+      : header.channels === 1
+        ? 9
+        : 17
+  const xingOffset = offset + 4 + sideInfoSize
+  const xingTag = readTag(bytes, xingOffset)
+
+  if (xingTag === 'Xing' || xingTag === 'Info') {
+    const flags = readUint32(bytes, xingOffset + 4)
+    let cursor = xingOffset + 8
+    let frameCount: number | null = null
+    let byteCount: number | null = null
+    if (flags & 0x01) {
+      frameCount = readUint32(bytes, cursor)
+      cursor += 4
+    }
+    if (flags & 0x02) {
+      byteCount = readUint32(bytes, cursor)
+      cursor += 4
+    }
+    if (flags & 0x04) cursor += 100 // seek table
+    if (flags & 0x08) cursor += 4 // quality
+
+    // LAME extension: 9-byte encoder string, then delay and padding packed
+    // into 3 bytes at offset 21
+    let encoderDelay: number | null = null
+    let encoderPadding: number | null = null
+    if (
+      cursor + 24 <= offset + header.frameLength &&
+      readTag(bytes, cursor) === 'LAME'
+    ) {
+      const delayOffset = cursor + 21
+      encoderDelay = (bytes[delayOffset] << 4) | (bytes[delayOffset + 1] >> 4)
+      encoderPadding =
+        ((bytes[delayOffset + 1] & 0x0f) << 8) | bytes[delayOffset + 2]
+    }
+
+    return {
+      kind: xingTag,
+      frameCount,
+      byteCount,
+      encoderDelay,
+      encoderPadding,
+    }
+  }
+
+  // VBRI always sits 32 bytes after the header
+  if (readTag(bytes, offset + 36) === 'VBRI') {
+    return {
+      kind: 'VBRI',
+      byteCount: readUint32(bytes, offset + 36 + 10),
+      frameCount: readUint32(bytes, offset + 36 + 14),
+      encoderDelay: null,
+      encoderPadding: null,
+    }
+  }
+
+  return null
+}
+
+function concatBytes(a: Uint8Array, b: Uint8Array): Uint8Array {
+  if (a.length === 0) return b
+  const out = new Uint8Array(a.length + b.length)
+  out.set(a, 0)
+  out.set(b, a.length)
+  return out
+}
+
+/**
+ * Streams through an MP3 file and groups its frames into chunks of roughly
+ * `targetChunkBytes`, optionally repeating the last `overlapSeconds` of each
+ * chunk at the start of the next. Only frame headers are inspected, so the file can be
+ * fed in as it downloads without holding it in memory:
+ *
+ *   const planner = new Mp3ChunkPlanner({ targetChunkBytes: 5 * 1024 * 1024 })
+ *   for await (const bytes of stream) planner.push(bytes)
+ *   const plan = planner.finish()
+ *
+ * `finish()` returns null if the input doesn't look like MP3. Once `failed`
+ * is true the rest of the input can be skipped.
+ */
+export class Mp3ChunkPlanner {
+  private readonly targetChunkBytes: number
+  private readonly overlapSeconds: number
+
+  // Unconsumed input, starting at absolute offset `bufferOffset`
+  private buffer: Uint8Array = new Uint8Array(0)
+  private bufferOffset = 0
+  // Absolute offset of the next frame header (may be past the buffer)
+  private position = 0
+
+  private id3Checked = false
+  private id3Size = 0
+  private stream: FrameHeader | null = null
+  private vbr: VbrInfo | null = null
+  private syncSearchBytes = 0
+
+  private chunks: AudioChunk[] = []
+  private current: {
+    offset: number
+    startSample: number
+    frameCount: number
+    samples: number
+    overlapSamples: number
+  } | null = null
+  // Frames within the overlap window of the current position, oldest first
+  private recentFrames: { offset: number; startSample: number }[] = []
+  private totalSamples = 0
+  private lastFrameEnd = 0
+  private inputLength = 0
+
+  failed = false
+
+  constructor(options: { targetChunkBytes: number; overlapSeconds?: number }) {
+    this.targetChunkBytes = options.targetChunkBytes
+    this.overlapSeconds = options.overlapSeconds ?? 0
+  }
+
+  push(bytes: Uint8Array): void {
+    if (this.failed) return
+    this.inputLength += bytes.length
+
+    // Drop everything before the next header, including frame bodies that
+    // were skipped over without being buffered
+    const skip = this.position - this.bufferOffset
+    if (skip >= this.buffer.length) {
+      const skipInNew = skip - this.buffer.length
+      this.bufferOffset += this.buffer.length
+      this.buffer = new Uint8Array(0)
+      if (skipInNew >= bytes.length) {
+        this.bufferOffset += bytes.length
+        return
+      }
+      this.buffer = bytes.subarray(skipInNew)
+      this.bufferOffset += skipInNew
+    } else {
+      this.buffer = concatBytes(this.buffer.subarray(skip), bytes)
+      this.bufferOffset = this.position
+    }
+
+    this.scan(false)
+  }
+
+  finish(): Mp3ChunkPlan | null {
+    if (!this.failed) this.scan(true)
+    if (this.failed || !this.stream) return null
+
+    // A truncated final frame still counts, but the chunk stops at the end
+    // of the file
+    this.closeChunk(Math.min(this.lastFrameEnd, this.inputLength))
+
+    // Playback starts after the decoder delay and LAME's encoder delay;
+    // shift every chunk so times line up with the browser player
+    const sampleRate = this.stream.sampleRate
+    const leadingSamples =
+      this.vbr?.encoderDelay != null ? this.vbr.encoderDelay + DECODER_DELAY : 0
+    const trailingSamples = this.vbr?.encoderPadding ?? 0
+
+    const chunks = this.chunks.map((chunk) => ({
+      ...chunk,
+      startTime: (chunk.startTime - leadingSamples) / sampleRate,
+      duration: chunk.duration / sampleRate,
+      overlap: chunk.overlap / sampleRate,
+    }))
+
+    return {
+      chunks,
+      duration: Math.max(
+        0,
+        (this.totalSamples - leadingSamples - trailingSamples) / sampleRate,
+      ),
+      sampleRate,
+      id3Size: this.id3Size,
+      vbr: this.vbr,
+    }
+  }
+
+  private scan(final: boolean) {
+    while (!this.failed) {
+      const rel = this.position - this.bufferOffset
+      const available = this.buffer.length - rel
+
+      if (!this.id3Checked) {
+        if (available < 10 && !final) return
+        this.id3Checked = true
+        this.id3Size = parseId3v2Size(this.buffer, rel)
+        this.position += this.id3Size
+        continue
+      }
+
+      if (available < 4) return
+
+      const header = parseFrameHeader(this.buffer, rel)
+      if (header && this.matchesStream(header)) {
+        if (!this.stream) {
+          // Need the whole first frame to check for a VBR header, and the
+          // header after it to confirm this wasn't a false sync
+          if (available < header.frameLength + 4 && !final) return
+          const next = parseFrameHeader(this.buffer, rel + header.frameLength)
+          if (
+            available >= header.frameLength + 4 &&
+            (!next ||
+              next.version !== header.version ||
+              next.layer !== header.layer ||
+              next.sampleRate !== header.sampleRate)
+          ) {
+            this.resync(rel, final)
+            continue
+          }
+          this.stream = header
+          this.vbr = parseVbrHeader(this.buffer, rel, header)
+          if (this.vbr) {
+            this.position += header.frameLength
+            continue
+          }
+        }
+
+        this.addFrame(this.position, header)
+        this.position += header.frameLength
+        continue
+      }
+
+      this.resync(rel, final)
+    }
+  }
+
+  // Once the first frame is found, later headers must share its version,
+  // layer and sample rate. This filters out false syncs inside tags.
+  private matchesStream(header: FrameHeader): boolean {
+    if (!this.stream) return true
+    return (
+      header.version === this.stream.version &&
+      header.layer === this.stream.layer &&
+      header.sampleRate === this.stream.sampleRate
+    )
+  }
+
+  private resync(rel: number, final: boolean) {
+    for (let i = rel + 1; i + 4 <= this.buffer.length; i++) {
+      if (this.buffer[i] !== 0xff) continue
+      const header = parseFrameHeader(this.buffer, i)
+      if (header && this.matchesStream(header)) {
+        this.skipBytes(i - rel)
+        return
+      }
+    }
+
+    // No header in what we have: keep the last 3 bytes in case a header
+    // straddles the next push
+    const keep = final ? 0 : 3
+    this.skipBytes(Math.max(1, this.buffer.length - rel - keep))
+  }
+
+  private skipBytes(count: number) {
+    this.position += count
+    if (!this.stream) {
+      this.syncSearchBytes += count
+      if (this.syncSearchBytes > MAX_SYNC_SEARCH_BYTES) this.failed = true
+    }
+  }
+
+  private addFrame(offset: number, header: FrameHeader) {
+    if (
+      this.current &&
+      offset + header.frameLength - this.current.offset > this.targetChunkBytes
+    ) {
+      this.closeChunk(offset)
+    }
+
+    if (!this.current) {
+      // Every chunk after the first starts with the frames covering the
+      // last `overlapSeconds` of the previous chunk
+      const overlapFrames =
+        this.chunks.length > 0 ? this.framesInOverlap(header.sampleRate) : []
+      const first = overlapFrames[0]
+      this.current = {
+        offset: first?.offset ?? offset,
+        startSample: first?.startSample ?? this.totalSamples,
+        frameCount: overlapFrames.length,
+        samples: first ? this.totalSamples - first.startSample : 0,
+        overlapSamples: first ? this.totalSamples - first.startSample : 0,
+      }
+    }
+
+    this.current.frameCount++
+    this.current.samples += header.samplesPerFrame
+
+    if (this.overlapSeconds > 0) {
+      this.recentFrames.push({ offset, startSample: this.totalSamples })
+      const windowStart =
+        this.totalSamples - this.overlapSeconds * header.sampleRate
+      while (
+        this.recentFrames.length > 1 &&
+        this.recentFrames[0].startSample < windowStart
+      ) {
+        this.recentFrames.shift()
+      }
+    }
+
+    this.totalSamples += header.samplesPerFrame
+    this.lastFrameEnd = offset + header.frameLength
+  }
+
+  private framesInOverlap(sampleRate: number) {
+    const windowStart = this.totalSamples - this.overlapSeconds * sampleRate
+    return this.recentFrames.filter((f) => f.startSample >= windowStart)
+  }
+
+  // Chunks run up to the next chunk's first frame, so any stray bytes
+  // between frames stay with the frame before them
+  private closeChunk(end: number) {
+    if (!this.current) return
+    this.chunks.push({
+      offset: this.current.offset,
+      length: end - this.current.offset,
+      // In samples until finish() converts to seconds
+      startTime: this.current.startSample,
+      duration: this.current.samples,
+      overlap: this.current.overlapSamples,
+      frameCount: this.current.frameCount,
+    })
+    this.current = null
+  }
+}
+
+/**
+ * Finds the frames of an MP3 byte range that cover `from`–`to` seconds, given
+ * the playback time of the first frame in `bytes`. Returns the byte span of
+ * those frames and their exact start and end times, or null if no frame in
+ * `bytes` overlaps the range.
+ */
+export function findFrameSpan(
+  bytes: Uint8Array,
+  firstFrameTime: number,
+  from: number,
+  to: number,
+): { offset: number; length: number; startTime: number; endTime: number } | null {
+  let stream: FrameHeader | null = null
+  let time = firstFrameTime
+  let position = 0
+  let span: { offset: number; startTime: number } | null = null
+  let spanEnd = 0
+  let endTime = time
+
+  while (position + 4 <= bytes.length && time < to) {
+    const header = parseFrameHeader(bytes, position)
+    if (
+      !header ||
+      (stream &&
+        (header.version !== stream.version ||
+          header.layer !== stream.layer ||
+          header.sampleRate !== stream.sampleRate))
+    ) {
+      position++
+      continue
+    }
+    stream ??= header
+
+    const frameEnd = time + header.samplesPerFrame / header.sampleRate
+    if (frameEnd > from) {
+      span ??= { offset: position, startTime: time }
+      spanEnd = Math.min(position + header.frameLength, bytes.length)
+      endTime = frameEnd
+    }
+    time = frameEnd
+    position += header.frameLength
+  }
+
+  if (!span) return null
+  return {
+    offset: span.offset,
+    length: spanEnd - span.offset,
+    startTime: span.startTime,
+    endTime,
+  }
+}
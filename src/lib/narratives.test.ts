@@ -0,0 +1,260 @@
+import { asc, eq } from 'drizzle-orm'
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+import { getDb } from '~/db'
+import { episodes, narrativeClaims, narratives, podcasts } from '~/db/schema'
+import { HashEmbedder } from '~/lib/embeddings'
+import { createTestDatabase } from '~/test/d1'
+import {
+  buildNarrativeTimeline,
+  parseClaims,
+  removeEpisodeClaims,
+  storeEpisodeClaims,
+} from './narratives'
+
+const CASH_BAN = 'The central bank is secretly planning to ban cash payments'
+const CASH_BAN_AGAIN =
+  'The central bank is secretly planning to ban cash payments by next year'
+const ELECTRIC_CARS =
+  'Electric cars are worse for the environment than petrol cars'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+describe('storeEpisodeClaims', () => {
+  const embedder = new HashEmbedder()
+  let env: Env
+  let dispose: () => Promise<void>
+
+  beforeEach(async () => {
+    const database = await createTestDatabase()
+    env = { DB: database.db } as Env
+    dispose = database.dispose
+
+    const db = getDb(env.DB)
+    const addedAt = new Date('2026-01-01T00:00:00Z')
+    await db.insert(podcasts).values([
+      { id: 'show-a', title: 'Show A', feedUrl: 'https://a.example/feed', addedAt },
+      { id: 'show-b', title: 'Show B', feedUrl: 'https://b.example/feed', addedAt },
+    ])
+  })
+
+  afterEach(async () => {
+    await dispose()
+  })
+
+  async function addEpisode(id: string, podcastId: string, publishedAt: string) {
+    await getDb(env.DB)
+      .insert(episodes)
+      .values({
+        id,
+        podcastId,
+        title: id,
+        guid: id,
+        audioUrl: `https://example.com/${id}.mp3`,
+        publishedAt: new Date(publishedAt),
+        createdAt: new Date(),
+      })
+  }
+
+  function listNarratives() {
+    return getDb(env.DB)
+      .select()
+      .from(narratives)
+      .orderBy(asc(narratives.firstSeenAt), asc(narratives.label))
+  }
+
+  it('joins similar claims from different shows into one narrative', async () => {
+    await addEpisode('later', 'show-b', '2026-10-05T00:00:00Z')
+    await addEpisode('earlier', 'show-a', '2026-10-01T00:00:00Z')
+
+    // Stored out of publish order: the origin is still the earlier episode
+    await storeEpisodeClaims(env, 'later', [CASH_BAN_AGAIN], embedder)
+    await storeEpisodeClaims(env, 'earlier', [CASH_BAN], embedder)
+
+    const [narrative, ...rest] = await listNarratives()
+    expect(rest).toEqual([])
+    expect(narrative).toMatchObject({
+      label: CASH_BAN,
+      embedder: embedder.name,
+      firstEpisodeId: 'earlier',
+      firstSeenAt: new Date('2026-10-01T00:00:00Z'),
+      lastSeenAt: new Date('2026-10-05T00:00:00Z'),
+      claimCount: 2,
+      episodeCount: 2,
+      podcastCount: 2,
+    })
+  })
+
+  it('starts a new narrative for an unrelated claim', async () => {
+    await addEpisode('one', 'show-a', '2026-10-01T00:00:00Z')
+    await addEpisode('two', 'show-b', '2026-10-02T00:00:00Z')
+
+    await storeEpisodeClaims(env, 'one', [CASH_BAN, ELECTRIC_CARS], embedder)
+    await storeEpisodeClaims(env, 'two', [CASH_BAN_AGAIN], embedder)
+
+    const stored = await listNarratives()
+    expect(
+      stored.map((n) => [n.label, n.claimCount, n.podcastCount]),
+    ).toEqual([
+      [ELECTRIC_CARS, 1, 1],
+      [CASH_BAN, 2, 2],
+    ])
+  })
+
+  it('starts a new narrative when the claim returns outside the window', async () => {
+    await addEpisode('spring', 'show-a', '2026-03-01T00:00:00Z')
+    await addEpisode('autumn', 'show-b', '2026-10-01T00:00:00Z')
+
+    await storeEpisodeClaims(env, 'spring', [CASH_BAN], embedder)
+    await storeEpisodeClaims(env, 'autumn', [CASH_BAN_AGAIN], embedder)
+
+    const stored = await listNarratives()
+    expect(stored.map((n) => n.firstEpisodeId)).toEqual(['spring', 'autumn'])
+  })
+
+  it('moves the origin when the first episode loses its claims', async () => {
+    await addEpisode('first', 'show-a', '2026-10-01T00:00:00Z')
+    await addEpisode('second', 'show-b', '2026-10-03T00:00:00Z')
+    await addEpisode('third', 'show-a', '2026-10-04T00:00:00Z')
+
+    await storeEpisodeClaims(env, 'first', [CASH_BAN], embedder)
+    await storeEpisodeClaims(env, 'second', [CASH_BAN_AGAIN], embedder)
+    await storeEpisodeClaims(env, 'third', [CASH_BAN], embedder)
+    await removeEpisodeClaims(env, ['first'])
+
+    const [narrative] = await listNarratives()
+    expect(narrative).toMatchObject({
+      label: CASH_BAN_AGAIN,
+      firstEpisodeId: 'second',
+      firstSeenAt: new Date('2026-10-03T00:00:00Z'),
+      claimCount: 2,
+    })
+
+    // Removing the rest deletes the narrative
+    await removeEpisodeClaims(env, ['second', 'third'])
+    expect(await listNarratives()).toEqual([])
+    expect(
+      await getDb(env.DB)
+        .select()
+        .from(narrativeClaims)
+        .where(eq(narrativeClaims.episodeId, 'third')),
+    ).toEqual([])
+  })
+
+  it('finds a match past the first page of candidates', async () => {
+    await addEpisode('origin', 'show-a', '2026-10-01T00:00:00Z')
+    await addEpisode('repeat', 'show-b', '2026-10-20T00:00:00Z')
+    await storeEpisodeClaims(env, 'origin', [CASH_BAN], embedder)
+
+    // More recently active narratives, read before the matching one
+    const fillers = Array.from(
+      { length: 600 },
+      (_, i) => `Filler talking point ${i} about gardening`,
+    )
+    const vectors = await embedder.embed(fillers)
+    const db = getDb(env.DB)
+    const now = new Date()
+    const rows = fillers.map((label, i) => ({
+      id: `filler-${i}`,
+      label,
+      embedder: embedder.name,
+      centroid: JSON.stringify(vectors[i]),
+      firstEpisodeId: 'origin',
+      firstSeenAt: new Date('2026-10-10T00:00:00Z'),
+      lastSeenAt: new Date('2026-10-10T00:00:00Z'),
+      claimCount: 1,
+      episodeCount: 1,
+      podcastCount: 1,
+      createdAt: now,
+      updatedAt: now,
+    }))
+    // D1 binds at most 100 parameters per statement
+    for (let i = 0; i < rows.length; i += 7) {
+      await db.insert(narratives).values(rows.slice(i, i + 7))
+    }
+
+    await storeEpisodeClaims(env, 'repeat', [CASH_BAN_AGAIN], embedder)
+
+    const [match] = await db
+      .select()
+      .from(narratives)
+      .where(eq(narratives.label, CASH_BAN))
+    expect(match.claimCount).toBe(2)
+  })
+
+  it("replaces an episode's earlier claims", async () => {
+    await addEpisode('one', 'show-a', '2026-10-01T00:00:00Z')
+
+    await storeEpisodeClaims(env, 'one', [CASH_BAN], embedder)
+    await storeEpisodeClaims(env, 'one', [ELECTRIC_CARS], embedder)
+
+    const stored = await listNarratives()
+    expect(stored.map((n) => n.label)).toEqual([ELECTRIC_CARS])
+  })
+})
+
+describe('buildNarrativeTimeline', () => {
+  const start = new Date('2026-10-01T00:00:00Z')
+  const at = (days: number) => new Date(start.getTime() + days * DAY_MS)
+  const row = (
+    episodeId: string,
+    podcastId: string,
+    days: number,
+    text = CASH_BAN,
+  ) => ({
+    text,
+    episodeId,
+    episodeTitle: `Episode ${episodeId}`,
+    publishedAt: at(days),
+    podcastId,
+    podcastTitle: `Show ${podcastId}`,
+  })
+
+  it('orders episodes by publish date and shows by when they took up the claim', () => {
+    const { timeline, shows } = buildNarrativeTimeline([
+      row('e3', 'a', 4),
+      row('e2', 'b', 2),
+      row('e1', 'a', 0),
+      row('e2', 'b', 2, CASH_BAN_AGAIN),
+    ])
+
+    expect(
+      timeline.map((e) => [e.episodeId, e.lag, e.firstForShow, e.claims]),
+    ).toEqual([
+      ['e1', 0, true, [CASH_BAN]],
+      ['e2', 2 * DAY_MS, true, [CASH_BAN, CASH_BAN_AGAIN]],
+      ['e3', 4 * DAY_MS, false, [CASH_BAN]],
+    ])
+    expect(shows).toEqual([
+      {
+        podcastId: 'a',
+        podcastTitle: 'Show a',
+        firstSeenAt: at(0),
+        lag: 0,
+        episodeCount: 2,
+      },
+      {
+        podcastId: 'b',
+        podcastTitle: 'Show b',
+        firstSeenAt: at(2),
+        lag: 2 * DAY_MS,
+        episodeCount: 1,
+      },
+    ])
+  })
+})
+
+describe('parseClaims', () => {
+  it('keeps distinct strings of a sensible length', () => {
+    expect(
+      parseClaims([
+        `  ${CASH_BAN}  `,
+        CASH_BAN.toUpperCase(),
+        'Too short',
+        42,
+        'x'.repeat(301),
+        ELECTRIC_CARS,
+      ]),
+    ).toEqual([CASH_BAN, ELECTRIC_CARS])
+    expect(parseClaims('not a list')).toEqual([])
+  })
+})
@@ -0,0 +1,329 @@
+import { nanoid } from 'nanoid'
+import { and, desc, eq, gte, inArray, lte } from 'drizzle-orm'
+import { getDb } from '~/db'
+import { episodes, narrativeClaims, narratives } from '~/db/schema'
+import {
+  cosineSimilarity,
+  createEmbedder,
+  meanVector,
+  parseVector,
+  serializeVector,
+  type Embedder,
+} from '~/lib/embeddings'
+
+const MAX_CLAIMS = 8
+const MIN_CLAIM_LENGTH = 20
+const MAX_CLAIM_LENGTH = 300
+// A claim only joins a narrative seen within this many days of its episode,
+// so a talking point that resurfaces months later starts a new narrative
+const NARRATIVE_WINDOW_DAYS = 60
+// IDs per query, to stay under D1's bound parameter limit
+const BATCH_SIZE = 50
+// Narrative centres are read and compared a page at a time, so only one page
+// of vectors is in memory at once. Past the cap, the least recently active
+// narratives in the window are not considered.
+const CANDIDATE_PAGE_SIZE = 500
+const MAX_CANDIDATES = 5000
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+/**
+ * Validates the `claims` array of an analysis response: trimmed strings of a
+ * sensible length, without duplicates.
+ */
+export function parseClaims(value: unknown): string[] {
+  if (!Array.isArray(value)) return []
+
+  const seen = new Set<string>()
+  const claims: string[] = []
+  for (const item of value) {
+    if (typeof item !== 'string') continue
+    const claim = item.replace(/\s+/g, ' ').trim()
+    const key = claim.toLowerCase()
+    if (
+      claim.length < MIN_CLAIM_LENGTH ||
+      claim.length > MAX_CLAIM_LENGTH ||
+      seen.has(key)
+    ) {
+      continue
+    }
+    seen.add(key)
+    claims.push(claim)
+    if (claims.length >= MAX_CLAIMS) break
+  }
+  return claims
+}
+
+/**
+ * Recomputes each narrative's centre, origin and counts from its claims.
+ * Narratives left without claims are deleted.
+ */
+export async function refreshNarratives(
+  env: Env,
+  narrativeIds: string[],
+): Promise<void> {
+  const db = getDb(env.DB)
+
+  for (const narrativeId of new Set(narrativeIds)) {
+    const claims = await db
+      .select({
+        text: narrativeClaims.text,
+        embedding: narrativeClaims.embedding,
+        createdAt: narrativeClaims.createdAt,
+        episodeId: episodes.id,
+        podcastId: episodes.podcastId,
+        publishedAt: episodes.publishedAt,
+      })
+      .from(narrativeClaims)
+      .innerJoin(episodes, eq(episodes.id, narrativeClaims.episodeId))
+      .where(eq(narrativeClaims.narrativeId, narrativeId))
+      .orderBy(episodes.publishedAt, narrativeClaims.createdAt)
+
+    if (claims.length === 0) {
+      await db.delete(narratives).where(eq(narratives.id, narrativeId))
+      continue
+    }
+
+    const origin = claims[0]
+    await db
+      .update(narratives)
+      .set({
+        label: origin.text,
+        centroid: serializeVector(
+          meanVector(claims.map((c) => parseVector(c.embedding))),
+        ),
+        firstEpisodeId: origin.episodeId,
+        firstSeenAt: origin.publishedAt,
+        lastSeenAt: claims[claims.length - 1].publishedAt,
+        claimCount: claims.length,
+        episodeCount: new Set(claims.map((c) => c.episodeId)).size,
+        podcastCount: new Set(claims.map((c) => c.podcastId)).size,
+        updatedAt: new Date(),
+      })
+      .where(eq(narratives.id, narrativeId))
+  }
+}
+
+/**
+ * Deletes the episodes' claims and updates the narratives they belonged to.
+ * Call before deleting episodes or replacing their analysis.
+ */
+export async function removeEpisodeClaims(
+  env: Env,
+  episodeIds: string[],
+): Promise<void> {
+  const db = getDb(env.DB)
+
+  for (let i = 0; i < episodeIds.length; i += BATCH_SIZE) {
+    const batch = episodeIds.slice(i, i + BATCH_SIZE)
+    const affected = await db
+      .selectDistinct({ narrativeId: narrativeClaims.narrativeId })
+      .from(narrativeClaims)
+      .where(inArray(narrativeClaims.episodeId, batch))
+    if (affected.length === 0) continue
+
+    await db
+      .delete(narrativeClaims)
+      .where(inArray(narrativeClaims.episodeId, batch))
+    await refreshNarratives(env, affected.map((a) => a.narrativeId))
+  }
+}
+
+// The more similar of the current best match and another narrative
+function closer(
+  best: { id: string; similarity: number } | null,
+  id: string,
+  vector: number[],
+  centroid: number[],
+): { id: string; similarity: number } | null {
+  const similarity = cosineSimilarity(vector, centroid)
+  return !best || similarity > best.similarity ? { id, similarity } : best
+}
+
+/**
+ * Replaces an episode's claims and clusters them into narratives. Each claim
+ * joins the most similar narrative seen around the same time, if it is
+ * similar enough, and otherwise starts a new one.
+ */
+export async function storeEpisodeClaims(
+  env: Env,
+  episodeId: string,
+  claims: string[],
+  embedder: Embedder = createEmbedder(env),
+): Promise<void> {
+  const db = getDb(env.DB)
+
+  await removeEpisodeClaims(env, [episodeId])
+  if (claims.length === 0) return
+
+  const [episode] = await db
+    .select({ publishedAt: episodes.publishedAt })
+    .from(episodes)
+    .where(eq(episodes.id, episodeId))
+    .limit(1)
+  if (!episode) throw new Error('Episode not found')
+
+  const vectors = await embedder.embed(claims)
+
+  const published = episode.publishedAt.getTime()
+  const window = NARRATIVE_WINDOW_DAYS * DAY_MS
+  const matches: ({ id: string; similarity: number } | null)[] = claims.map(
+    () => null,
+  )
+  for (let offset = 0; offset < MAX_CANDIDATES; offset += CANDIDATE_PAGE_SIZE) {
+    const page = await db
+      .select({ id: narratives.id, centroid: narratives.centroid })
+      .from(narratives)
+      .where(
+        and(
+          eq(narratives.embedder, embedder.name),
+          gte(narratives.lastSeenAt, new Date(published - window)),
+          lte(narratives.firstSeenAt, new Date(published + window)),
+        ),
+      )
+      .orderBy(desc(narratives.lastSeenAt), narratives.id)
+      .limit(CANDIDATE_PAGE_SIZE)
+      .offset(offset)
+
+    for (const narrative of page) {
+      const centroid = parseVector(narrative.centroid)
+      for (let i = 0; i < claims.length; i++) {
+        matches[i] = closer(matches[i], narrative.id, vectors[i], centroid)
+      }
+    }
+    if (page.length < CANDIDATE_PAGE_SIZE) break
+  }
+
+  // Narratives started by this episode's earlier claims
+  const created: { id: string; centroid: number[] }[] = []
+  const touched: string[] = []
+  for (let i = 0; i < claims.length; i++) {
+    const vector = vectors[i]
+
+    let best = matches[i]
+    for (const narrative of created) {
+      best = closer(best, narrative.id, vector, narrative.centroid)
+    }
+    if (best && best.similarity < embedder.matchThreshold) best = null
+
+    if (!best) {
+      // Counts and centre are filled in by refreshNarratives below
+      const id = nanoid()
+      const now = new Date()
+      await db.insert(narratives).values({
+        id,
+        label: claims[i],
+        embedder: embedder.name,
+        centroid: serializeVector(vector),
+        firstEpisodeId: episodeId,
+        firstSeenAt: episode.publishedAt,
+        lastSeenAt: episode.publishedAt,
+        claimCount: 0,
+        episodeCount: 0,
+        podcastCount: 0,
+        createdAt: now,
+        updatedAt: now,
+      })
+      // Later claims from this episode may join it
+      created.push({ id, centroid: vector })
+      best = { id, similarity: 1 }
+    }
+
+    await db.insert(narrativeClaims).values({
+      id: nanoid(),
+      narrativeId: best.id,
+      episodeId,
+      text: claims[i],
+      embedding: serializeVector(vector),
+      similarity: best.similarity,
+      createdAt: new Date(),
+    })
+    touched.push(best.id)
+  }
+
+  await refreshNarratives(env, touched)
+}
+
+export interface NarrativeClaimRow {
+  text: string
+  episodeId: string
+  episodeTitle: string
+  publishedAt: Date
+  podcastId: string
+  podcastTitle: string
+}
+
+export interface NarrativeTimelineEntry {
+  episodeId: string
+  episodeTitle: string
+  publishedAt: Date
+  podcastId: string
+  podcastTitle: string
+  // Milliseconds after the narrative's first appearance
+  lag: number
+  // Whether this is the show's first episode to make the claim
+  firstForShow: boolean
+  claims: string[]
+}
+
+export interface NarrativeShow {
+  podcastId: string
+  podcastTitle: string
+  firstSeenAt: Date
+  lag: number
+  episodeCount: number
+}
+
+/**
+ * Groups a narrative's claims, oldest first, into one timeline entry per
+ * episode and lists the shows in the order they took up the claim.
+ */
+export function buildNarrativeTimeline(claims: NarrativeClaimRow[]): {
+  timeline: NarrativeTimelineEntry[]
+  shows: NarrativeShow[]
+} {
+  const sorted = [...claims].sort(
+    (a, b) => a.publishedAt.getTime() - b.publishedAt.getTime(),
+  )
+  const start = sorted[0]?.publishedAt.getTime() ?? 0
+
+  const timeline: NarrativeTimelineEntry[] = []
+  const byEpisode = new Map<string, NarrativeTimelineEntry>()
+  const shows = new Map<string, NarrativeShow>()
+
+  for (const claim of sorted) {
+    const lag = claim.publishedAt.getTime() - start
+
+    let entry = byEpisode.get(claim.episodeId)
+    if (!entry) {
+      const show = shows.get(claim.podcastId)
+      entry = {
+        episodeId: claim.episodeId,
+        episodeTitle: claim.episodeTitle,
+        publishedAt: claim.publishedAt,
+        podcastId: claim.podcastId,
+        podcastTitle: claim.podcastTitle,
+        lag,
+        firstForShow: !show,
+        claims: [],
+      }
+      byEpisode.set(claim.episodeId, entry)
+      timeline.push(entry)
+
+      if (show) {
+        show.episodeCount++
+      } else {
+        shows.set(claim.podcastId, {
+          podcastId: claim.podcastId,
+          podcastTitle: claim.podcastTitle,
+          firstSeenAt: claim.publishedAt,
+          lag,
+          episodeCount: 1,
+        })
+      }
+    }
+    entry.claims.push(claim.text)
+  }
+
+  return { timeline, shows: [...shows.values()] }
+}
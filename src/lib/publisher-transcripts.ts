@@ -0,0 +1,298 @@
+import type { FeedTranscript } from '~/lib/rss'
+import type { Word } from '~/lib/timestamp'
+import { readLimitedText } from '~/lib/utils'
+
+/**
+ * A timed line of a publisher transcript, with the speaker if the file
+ * names one.
+ */
+export interface TranscriptCue {
+  start: number
+  end: number
+  text: string
+  speaker: string | null
+}
+
+type TranscriptFormat = 'json' | 'vtt' | 'srt'
+
+// Most to least useful: JSON and VTT can name speakers, SRT can't
+const FORMAT_PREFERENCE: TranscriptFormat[] = ['json', 'vtt', 'srt']
+
+const FETCH_TIMEOUT_MS = 30_000
+const MAX_TRANSCRIPT_BYTES = 5 * 1024 * 1024
+// Cues are returned from a workflow step, whose result is capped at 1 MiB
+const MAX_CUES_JSON_LENGTH = 900_000
+// Word-level cues are merged into phrases of up to this many words
+const MAX_MERGED_WORDS = 15
+// and only across gaps shorter than this, in seconds
+const MAX_MERGE_GAP = 1.5
+
+function formatOf(type: string): TranscriptFormat | null {
+  switch (type.split(';')[0].trim().toLowerCase()) {
+    case 'application/json':
+      return 'json'
+    case 'text/vtt':
+      return 'vtt'
+    case 'application/srt':
+    case 'application/x-subrip':
+    case 'text/srt':
+      return 'srt'
+    default:
+      // Plain text and HTML transcripts have no timings to align with the audio
+      return null
+  }
+}
+
+/**
+ * Picks the most useful timed transcript a feed lists for an episode, in
+ * the given language or with no language declared.
+ */
+export function choosePublisherTranscript(
+  transcripts: FeedTranscript[],
+  language = 'en',
+): FeedTranscript | null {
+  const candidates = transcripts.filter((t) => {
+    if (!formatOf(t.type)) return false
+    return !t.language || t.language.toLowerCase().split('-')[0] === language
+  })
+  candidates.sort(
+    (a, b) =>
+      FORMAT_PREFERENCE.indexOf(formatOf(a.type)!) -
+      FORMAT_PREFERENCE.indexOf(formatOf(b.type)!),
+  )
+  return candidates[0] ?? null
+}
+
+/**
+ * Parses "HH:MM:SS,mmm", "MM:SS.mmm" or plain seconds into seconds.
+ */
+export function parseCueTime(value: string): number | null {
+  const parts = value.trim().replace(',', '.').split(':')
+  if (parts.length > 3) return null
+  let seconds = 0
+  for (const part of parts) {
+    const number = Number(part)
+    if (!part || !Number.isFinite(number) || number < 0) return null
+    seconds = seconds * 60 + number
+  }
+  return seconds
+}
+
+function decodeEntities(text: string): string {
+  return text
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&amp;/g, '&')
+}
+
+function cleanText(text: string): string {
+  return decodeEntities(text.replace(/<[^>]*>/g, ''))
+    .replace(/\s+/g, ' ')
+    .trim()
+}
+
+/**
+ * Parses the cues of an SRT or WebVTT file. WebVTT voice tags
+ * (`<v Name>`) become the cue's speaker; other markup is dropped.
+ */
+function parseTimedText(text: string): TranscriptCue[] {
+  const cues: TranscriptCue[] = []
+  const blocks = text.replace(/^\uFEFF/, '').replace(/\r\n?/g, '\n').split(/\n\s*\n/)
+
+  for (const block of blocks) {
+    const lines = block.split('\n')
+    const timing = lines.findIndex((line) => line.includes('-->'))
+    if (timing === -1) continue // Header, NOTE, STYLE or REGION block
+
+    const [from, to] = lines[timing].split('-->')
+    const start = parseCueTime(from)
+    // WebVTT cue settings follow the end time
+    const end = parseCueTime(to.trim().split(/\s+/)[0])
+    if (start === null || end === null) continue
+
+    const body = lines.slice(timing + 1).join('\n')
+    const voice = body.match(/<v(?:\.[^\s>]*)?\s+([^>]+)>/)
+    const cueText = cleanText(body)
+    if (!cueText) continue
+
+    cues.push({
+      start,
+      end: Math.max(start, end),
+      text: cueText,
+      speaker: voice ? voice[1].trim() : null,
+    })
+  }
+
+  return cues
+}
+
+/**
+ * Parses a Podcasting 2.0 JSON transcript: `{ segments: [{ startTime,
+ * endTime, body, speaker }] }`, where segments may be single words.
+ */
+function parseJsonTranscript(text: string): TranscriptCue[] {
+  const data = JSON.parse(text) as { segments?: unknown }
+  if (!Array.isArray(data.segments)) {
+    throw new Error('JSON transcript has no segments')
+  }
+
+  const cues: TranscriptCue[] = []
+  for (const segment of data.segments as Record<string, unknown>[]) {
+    const start = Number(segment.startTime)
+    const end = Number(segment.endTime)
+    const body = typeof segment.body === 'string' ? cleanText(segment.body) : ''
+    if (!Number.isFinite(start) || !Number.isFinite(end) || !body) continue
+    cues.push({
+      start,
+      end: Math.max(start, end),
+      text: body,
+      speaker:
+        typeof segment.speaker === 'string' && segment.speaker.trim()
+          ? segment.speaker.trim()
+          : null,
+    })
+  }
+  return cues
+}
+
+/**
+ * Joins consecutive short cues from the same speaker into phrases, so
+ * word-level transcripts stay small. A phrase ends at a sentence break.
+ */
+export function mergeCues(cues: TranscriptCue[]): TranscriptCue[] {
+  const merged: TranscriptCue[] = []
+  let words = 0
+
+  for (const cue of cues) {
+    const cueWords = cue.text.split(' ').length
+    const current = merged[merged.length - 1]
+    if (
+      current &&
+      current.speaker === cue.speaker &&
+      words + cueWords <= MAX_MERGED_WORDS &&
+      cue.start - current.end <= MAX_MERGE_GAP &&
+      !/[.!?]["')\]]?$/.test(current.text)
+    ) {
+      current.text += ` ${cue.text}`
+      current.end = Math.max(current.end, cue.end)
+      words += cueWords
+    } else {
+      merged.push({ ...cue })
+      words = cueWords
+    }
+  }
+
+  return merged
+}
+
+/**
+ * Parses a transcript file. The declared type is checked against the
+ * content, since feeds often label VTT and SRT files loosely.
+ */
+export function parsePublisherTranscript(
+  text: string,
+  type: string,
+): TranscriptCue[] {
+  const content = text.trimStart()
+  const format = content.startsWith('WEBVTT')
+    ? 'vtt'
+    : content.startsWith('{')
+      ? 'json'
+      : formatOf(type)
+
+  const cues =
+    format === 'json' ? parseJsonTranscript(content) : parseTimedText(content)
+  return mergeCues(cues.sort((a, b) => a.start - b.start))
+}
+
+/**
+ * Downloads and parses a publisher transcript. Throws if it can't be
+ * fetched, has no timed text, or is too large to hand between workflow
+ * steps.
+ */
+export async function fetchPublisherTranscript(
+  transcript: FeedTranscript,
+): Promise<TranscriptCue[]> {
+  const response = await fetch(transcript.url, {
+    signal: AbortSignal.timeout(FETCH_TIMEOUT_MS),
+  })
+  if (!response.ok) {
+    throw new Error(
+      `Transcript download failed: ${response.status} ${response.statusText}`,
+    )
+  }
+  const length = Number(response.headers.get('Content-Length'))
+  if (length > MAX_TRANSCRIPT_BYTES) {
+    throw new Error(`Transcript is too large (${length} bytes)`)
+  }
+
+  const content = await readLimitedText(response, MAX_TRANSCRIPT_BYTES)
+  if (content === null) {
+    throw new Error(
+      `Transcript is too large (over ${MAX_TRANSCRIPT_BYTES} bytes)`,
+    )
+  }
+
+  const cues = parsePublisherTranscript(content, transcript.type)
+  if (cues.length === 0) throw new Error('Transcript has no timed text')
+  if (JSON.stringify(cues).length > MAX_CUES_JSON_LENGTH) {
+    throw new Error('Transcript is too long to process')
+  }
+  return cues
+}
+
+/**
+ * Splits cues into words, sharing each cue's time span between its words
+ * by length, with the speaker of each word.
+ */
+export function cuesToWords(cues: TranscriptCue[]): {
+  words: Word[]
+  speakers: (string | null)[]
+} {
+  const words: Word[] = []
+  const speakers: (string | null)[] = []
+
+  for (const cue of cues) {
+    const tokens = cue.text.split(' ').filter(Boolean)
+    const total = tokens.reduce((sum, token) => sum + token.length + 1, 0)
+    const span = cue.end - cue.start
+
+    let position = 0
+    for (const token of tokens) {
+      const start = cue.start + (span * position) / total
+      position += token.length + 1
+      words.push({ word: token, start, end: cue.start + (span * position) / total })
+      speakers.push(cue.speaker)
+    }
+  }
+
+  return { words, speakers }
+}
+
+/**
+ * Turns the speaker names of a word stream into diarization-style labels
+ * ("S1", "S2", ...) in order of first appearance.
+ */
+export function labelNamedSpeakers(names: (string | null)[]): {
+  speakers: { label: string; name: string | null }[]
+  labels: (string | null)[]
+} {
+  const byName = new Map<string, string>()
+  const speakers: { label: string; name: string | null }[] = []
+
+  const labels = names.map((name) => {
+    if (!name) return null
+    let label = byName.get(name)
+    if (!label) {
+      label = `S${byName.size + 1}`
+      byName.set(name, label)
+      speakers.push({ label, name })
+    }
+    return label
+  })
+
+  return { speakers, labels }
+}
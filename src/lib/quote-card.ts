@@ -0,0 +1,98 @@
+import { formatTime } from '~/lib/utils'
+
+export interface QuoteCard {
+  quote: string
+  speaker: string | null
+  podcast: string
+  episode: string
+  startTime: number
+  endTime: number
+}
+
+const WIDTH = 1200
+const HEIGHT = 630
+const PADDING = 80
+// Baseline of the attribution line; the quote must end above it
+const ATTRIBUTION_Y = HEIGHT - PADDING - 56
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+}
+
+function truncate(text: string, maxChars: number): string {
+  return text.length > maxChars ? `${text.slice(0, maxChars - 1).trimEnd()}…` : text
+}
+
+/**
+ * Greedy word wrap by character count. SVG has no text layout, so this
+ * assumes an average glyph width; the last line is ellipsised if the quote
+ * doesn't fit.
+ */
+function wrapText(text: string, maxChars: number, maxLines: number): string[] {
+  const lines: string[] = []
+  let line = ''
+
+  for (const word of text.split(/\s+/).filter(Boolean)) {
+    if (!line) {
+      line = word
+    } else if (line.length + 1 + word.length <= maxChars) {
+      line += ` ${word}`
+    } else {
+      lines.push(line)
+      line = word
+    }
+  }
+  if (line) lines.push(line)
+
+  if (lines.length > maxLines) {
+    const kept = lines.slice(0, maxLines)
+    kept[maxLines - 1] = truncate(`${kept[maxLines - 1]} …`, maxChars)
+    return kept
+  }
+  return lines
+}
+
+/**
+ * Renders a clip as a 1200×630 SVG card (the Open Graph image size): the
+ * quote in large serif type, then the speaker, episode and time range.
+ */
+export function renderQuoteCard(card: QuoteCard): string {
+  const quote = card.quote.replace(/\s+/g, ' ').trim()
+  // Shorter quotes get bigger type
+  const fontSize = quote.length > 220 ? 36 : quote.length > 120 ? 44 : 54
+  const lineHeight = Math.round(fontSize * 1.3)
+  const maxChars = Math.floor((WIDTH - PADDING * 2) / (fontSize * 0.5))
+  const quoteTop = PADDING + fontSize
+  const maxLines =
+    Math.floor((ATTRIBUTION_Y - 60 - quoteTop) / lineHeight) + 1
+  const lines = wrapText(`“${quote}”`, maxChars, maxLines)
+  const quoteText = lines
+    .map(
+      (line, i) =>
+        `<tspan x="${PADDING}" y="${quoteTop + i * lineHeight}">${escapeXml(line)}</tspan>`,
+    )
+    .join('')
+
+  const attribution = card.speaker ? `— ${card.speaker}` : null
+  const range = `${formatTime(card.startTime)}–${formatTime(card.endTime)}`
+  // Leaves room for the time range on the same line
+  const footer = truncate(`${card.podcast} · ${card.episode}`, 56)
+
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${WIDTH}" height="${HEIGHT}" viewBox="0 0 ${WIDTH} ${HEIGHT}">
+  <rect width="${WIDTH}" height="${HEIGHT}" fill="#0f1b2d"/>
+  <rect x="0" y="0" width="12" height="${HEIGHT}" fill="#5386c0"/>
+  <text font-family="'DM Serif Display', Georgia, serif" font-size="${fontSize}" fill="#eef3f9">${quoteText}</text>
+  ${
+    attribution
+      ? `<text x="${PADDING}" y="${ATTRIBUTION_Y}" font-family="'DM Sans', Helvetica, Arial, sans-serif" font-size="30" fill="#aac3e0">${escapeXml(attribution)}</text>`
+      : ''
+  }
+  <text x="${PADDING}" y="${HEIGHT - PADDING}" font-family="'JetBrains Mono', Menlo, monospace" font-size="22" fill="#7ea4d0">${escapeXml(footer)}</text>
+  <text x="${WIDTH - PADDING}" y="${HEIGHT - PADDING}" text-anchor="end" font-family="'JetBrains Mono', Menlo, monospace" font-size="22" fill="#7ea4d0">${escapeXml(range)}</text>
+</svg>
+`
+}
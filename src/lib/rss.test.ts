@@ -0,0 +1,290 @@
+/// <reference types="node" />
+import { readFileSync } from 'node:fs'
+import { getTableColumns } from 'drizzle-orm'
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { episodes, podcasts } from '~/db/schema'
+import {
+  episodeFeedColumns,
+  parseDuration,
+  parseFeedXml,
+  podcastFeedColumns,
+} from './rss'
+
+function fixture(name: string): string {
+  return readFileSync(
+    new URL(`./__fixtures__/feeds/${name}`, import.meta.url),
+    'utf8',
+  )
+}
+
+describe('parseFeedXml', () => {
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('reads RSS 2.0 with iTunes tags', () => {
+    const feed = parseFeedXml(fixture('itunes.xml'))
+
+    expect(feed).toEqual({
+      title: 'The Example Hour',
+      description: 'Weekly conversations about examples.',
+      imageUrl: 'https://example.com/show.jpg',
+      websiteUrl: 'https://example.com/show',
+      author: 'Example Media',
+      language: 'en-us',
+      explicit: true,
+      categories: [
+        'Society & Culture',
+        'Society & Culture > Philosophy',
+        'News',
+        'Talk',
+      ],
+      persons: [],
+      // The item without an enclosure is skipped
+      items: [
+        {
+          title: 'Episode 12: Clocks',
+          guid: 'example-hour-12',
+          audioUrl: 'https://cdn.example.com/12.mp3',
+          audioType: 'audio/mpeg',
+          audioLength: 48123456,
+          publishedAt: new Date('2026-10-05T08:00:00Z'),
+          description: '<p>All about <b>clocks</b>.</p>',
+          durationSeconds: 3723,
+          episodeNumber: 12,
+          seasonNumber: 2,
+          episodeType: 'full',
+          imageUrl: 'https://example.com/12.jpg',
+          explicit: false,
+          author: 'Jo Host',
+          transcripts: [],
+          persons: [],
+        },
+        {
+          // Numeric titles stay strings, and a zero length is left unset
+          title: '1984',
+          guid: 'https://example.com/show/1984',
+          audioUrl: 'https://cdn.example.com/1984.mp3',
+          audioType: 'audio/mpeg',
+          publishedAt: new Date('2026-09-28T08:00:00Z'),
+          description: 'A bonus reading.',
+          durationSeconds: 3600,
+          episodeType: 'bonus',
+          author: 'Sam Reader',
+          transcripts: [],
+          persons: [],
+        },
+      ],
+    })
+  })
+
+  it('reads Podcasting 2.0 tags', () => {
+    const feed = parseFeedXml(fixture('podcasting20.xml'))
+
+    expect(feed.guid).toBe('917393e3-1b1e-5cef-ace4-edaa54e1f810')
+    expect(feed.persons).toEqual([
+      {
+        name: 'Alex Example',
+        role: 'host',
+        href: 'https://radio.example.org/alex',
+        imageUrl: 'https://radio.example.org/alex.jpg',
+      },
+    ])
+
+    const [item] = feed.items
+    // Transcripts without a URL are skipped
+    expect(item.transcripts).toEqual([
+      {
+        url: 'https://radio.example.org/1.vtt',
+        type: 'text/vtt',
+        language: 'en',
+        rel: 'captions',
+      },
+      { url: 'https://radio.example.org/1.json', type: 'application/json' },
+    ])
+    expect(item.chaptersUrl).toBe('https://radio.example.org/1.chapters.json')
+    expect(item.persons).toEqual([
+      {
+        name: 'Kim Guest',
+        role: 'guest',
+        group: 'cast',
+        href: 'https://example.org/kim',
+      },
+      { name: 'Alex Example', role: 'host' },
+    ])
+  })
+
+  it('reads Atom feeds with enclosure links', () => {
+    const feed = parseFeedXml(fixture('atom.xml'))
+
+    expect(feed).toEqual({
+      title: 'Atom Audio',
+      description: 'An Atom-only podcast.',
+      imageUrl: 'https://atom.example.net/logo.png',
+      websiteUrl: 'https://atom.example.net/',
+      author: 'Atom Author',
+      language: 'en-GB',
+      categories: ['Technology'],
+      persons: [],
+      // The entry without an enclosure link is skipped
+      items: [
+        {
+          title: 'First entry',
+          guid: 'urn:uuid:1225c695-cfb8-4ebb-aaaa-80da344efa6a',
+          audioUrl: 'https://atom.example.net/1.m4a',
+          audioType: 'audio/mp4',
+          audioLength: 2048,
+          publishedAt: new Date('2026-10-01T09:00:00Z'),
+          description: 'Summary of the first entry.',
+          durationSeconds: 2730,
+          transcripts: [],
+          persons: [],
+        },
+        {
+          title: 'Updated only',
+          guid: 'urn:uuid:2',
+          audioUrl: 'https://atom.example.net/2.mp3',
+          publishedAt: new Date('2026-09-01T10:00:00Z'),
+          description: 'Content used as the description.',
+          transcripts: [],
+          persons: [],
+        },
+      ],
+    })
+  })
+
+  it('falls back to defaults for missing or invalid fields', () => {
+    vi.useFakeTimers()
+    vi.setSystemTime(new Date('2026-10-19T12:00:00Z'))
+
+    const feed = parseFeedXml(fixture('partial.xml'))
+
+    // The item cut off by the end of the file has no enclosure yet
+    expect(feed).toEqual({
+      title: 'Unknown Podcast',
+      categories: [],
+      persons: [],
+      items: [
+        {
+          title: 'Untitled',
+          guid: 'https://partial.example.com/a.mp3',
+          audioUrl: 'https://partial.example.com/a.mp3',
+          publishedAt: new Date('2026-10-19T12:00:00Z'),
+          transcripts: [],
+          persons: [],
+        },
+      ],
+    })
+  })
+
+  it('rejects documents that are not feeds', () => {
+    for (const xml of [
+      '',
+      'not xml at all',
+      '<html><body>Moved</body></html>',
+      '<rss version="2.0"></rss>',
+    ]) {
+      expect(() => parseFeedXml(xml)).toThrow(
+        'Invalid feed: no RSS channel or Atom feed found',
+      )
+    }
+  })
+})
+
+describe('parseDuration', () => {
+  it('reads seconds and [[H:]M:]S', () => {
+    expect(parseDuration('3600')).toBe(3600)
+    expect(parseDuration('45:30')).toBe(2730)
+    expect(parseDuration('1:02:03')).toBe(3723)
+    expect(parseDuration('90.6')).toBe(91)
+  })
+
+  it('rejects anything else', () => {
+    expect(parseDuration(undefined)).toBeUndefined()
+    expect(parseDuration('about an hour')).toBeUndefined()
+    expect(parseDuration('1:2:3:4')).toBeUndefined()
+    expect(parseDuration('-5')).toBeUndefined()
+  })
+})
+
+describe('feed columns', () => {
+  it('maps channel fields onto podcast columns', () => {
+    const columns = podcastFeedColumns(
+      parseFeedXml(fixture('podcasting20.xml')),
+    )
+
+    expect(getTableColumns(podcasts)).toEqual(
+      expect.objectContaining(
+        Object.fromEntries(
+          Object.keys(columns).map((key) => [key, expect.anything()]),
+        ),
+      ),
+    )
+    expect(columns).toEqual({
+      podcastGuid: '917393e3-1b1e-5cef-ace4-edaa54e1f810',
+      websiteUrl: 'https://radio.example.org',
+      author: null,
+      language: null,
+      explicit: null,
+      categories: null,
+      persons: JSON.stringify([
+        {
+          name: 'Alex Example',
+          role: 'host',
+          href: 'https://radio.example.org/alex',
+          imageUrl: 'https://radio.example.org/alex.jpg',
+        },
+      ]),
+    })
+
+    const itunes = podcastFeedColumns(parseFeedXml(fixture('itunes.xml')))
+    expect(itunes.explicit).toBe(true)
+    expect(JSON.parse(itunes.categories!)).toEqual([
+      'Society & Culture',
+      'Society & Culture > Philosophy',
+      'News',
+      'Talk',
+    ])
+  })
+
+  it('maps item fields onto episode columns', () => {
+    const feed = parseFeedXml(fixture('itunes.xml'))
+    const columns = episodeFeedColumns(feed.items[0])
+
+    expect(getTableColumns(episodes)).toEqual(
+      expect.objectContaining(
+        Object.fromEntries(
+          Object.keys(columns).map((key) => [key, expect.anything()]),
+        ),
+      ),
+    )
+    expect(columns).toEqual({
+      title: 'Episode 12: Clocks',
+      guid: 'example-hour-12',
+      audioUrl: 'https://cdn.example.com/12.mp3',
+      audioType: 'audio/mpeg',
+      audioLength: 48123456,
+      publishedAt: new Date('2026-10-05T08:00:00Z'),
+      durationSeconds: 3723,
+      description: '<p>All about <b>clocks</b>.</p>',
+      imageUrl: 'https://example.com/12.jpg',
+      episodeNumber: 12,
+      seasonNumber: 2,
+      episodeType: 'full',
+      explicit: false,
+      author: 'Jo Host',
+      feedTranscripts: null,
+      chaptersUrl: null,
+      persons: null,
+    })
+  })
+
+  it('stores transcripts and persons as JSON that reads back unchanged', () => {
+    const [item] = parseFeedXml(fixture('podcasting20.xml')).items
+    const columns = episodeFeedColumns(item)
+
+    expect(JSON.parse(columns.feedTranscripts!)).toEqual(item.transcripts)
+    expect(JSON.parse(columns.persons!)).toEqual(item.persons)
+    expect(columns.chaptersUrl).toBe(item.chaptersUrl)
+  })
+})
@@ -4,21 +4,69 @@ import { eq, and } from 'drizzle-orm'
 import { getDb } from '~/db'
 import { podcasts, episodes } from '~/db/schema'
 
-interface FeedItem {
+export interface FeedPerson {
+  name: string
+  role?: string // Podcasting 2.0 taxonomy, e.g. "host" or "guest"
+  group?: string
+  href?: string
+  imageUrl?: string
+}
+
+export interface FeedTranscript {
+  url: string
+  type: string // MIME type, e.g. "text/vtt" or "application/json"
+  language?: string
+  rel?: string // "captions" when the file is timed for display
+}
+
+export interface FeedItem {
   title: string
   guid: string
   audioUrl: string
+  audioType?: string
+  audioLength?: number // bytes, as declared by the enclosure
   publishedAt: Date
   description?: string
+  durationSeconds?: number
+  episodeNumber?: number
+  seasonNumber?: number
+  episodeType?: string // full | trailer | bonus
+  imageUrl?: string
+  explicit?: boolean
+  author?: string
+  transcripts: FeedTranscript[]
+  chaptersUrl?: string
+  persons: FeedPerson[]
 }
 
-interface FeedMeta {
+export interface FeedMeta {
   title: string
+  guid?: string // Podcasting 2.0 `podcast:guid`, stable across feed moves
   description?: string
   imageUrl?: string
+  websiteUrl?: string
+  author?: string
+  language?: string
+  explicit?: boolean
+  categories: string[]
+  persons: FeedPerson[]
   items: FeedItem[]
 }
 
+export type Podcast = typeof podcasts.$inferSelect
+
+// Poll intervals editors can choose, in minutes. The feed cron runs every
+// 15 minutes, so shorter intervals would not be honoured.
+export const POLL_INTERVAL_OPTIONS = [15, 30, 60, 180, 360, 720, 1440] as const
+export const DEFAULT_POLL_INTERVAL_MINUTES = 360
+// Failing feeds are retried at the interval doubled per consecutive failure,
+// up to this long
+const MAX_BACKOFF_MINUTES = 48 * 60
+const FEED_TIMEOUT_MS = 30_000
+const MAX_ERROR_LENGTH = 500
+
+const MINUTE_MS = 60 * 1000
+
 /**
  * Resolves a URL that may be an Apple Podcasts link into an RSS feed URL.
  * Accepts:
@@ -64,132 +112,478 @@ export async function resolveToFeedUrl(input: string): Promise<string> {
   return data.results[0].feedUrl
 }
 
-export async function parseFeed(feedUrl: string): Promise<FeedMeta> {
-  const response = await fetch(feedUrl)
-  if (!response.ok) {
-    throw new Error(`Failed to fetch feed: ${response.status} ${response.statusText}`)
+// Elements that may repeat, so the parser always returns them as arrays
+const REPEATED_ELEMENTS = new Set([
+  'item',
+  'entry',
+  'link',
+  'category',
+  'itunes:category',
+  'podcast:transcript',
+  'podcast:person',
+  'enclosure',
+])
+
+/**
+ * The text of a parsed element, whether it came back as a string, a number,
+ * or an object because it had attributes.
+ */
+function textOf(value: unknown): string | undefined {
+  if (Array.isArray(value)) return textOf(value[0])
+  if (value && typeof value === 'object') {
+    return textOf((value as Record<string, unknown>)['#text'])
+  }
+  if (value === undefined || value === null) return undefined
+  const text = String(value).trim()
+  return text || undefined
+}
+
+function attrOf(value: unknown, name: string): string | undefined {
+  if (Array.isArray(value)) return attrOf(value[0], name)
+  if (!value || typeof value !== 'object') return undefined
+  return textOf((value as Record<string, unknown>)[`@_${name}`])
+}
+
+function listOf(value: unknown): any[] {
+  if (value === undefined || value === null) return []
+  return Array.isArray(value) ? value : [value]
+}
+
+function positiveInt(value: string | undefined): number | undefined {
+  if (!value) return undefined
+  const number = Number.parseInt(value, 10)
+  return Number.isFinite(number) && number >= 0 ? number : undefined
+}
+
+function parseDate(value: string | undefined): Date | undefined {
+  if (!value) return undefined
+  const date = new Date(value)
+  return Number.isNaN(date.getTime()) ? undefined : date
+}
+
+/**
+ * Parses an `itunes:duration`, given either in seconds or as [[H:]M:]S.
+ */
+export function parseDuration(value: string | undefined): number | undefined {
+  if (!value) return undefined
+  const parts = value.split(':').map((part) => Number(part))
+  if (parts.length > 3 || parts.some((p) => !Number.isFinite(p) || p < 0)) {
+    return undefined
+  }
+  const seconds = parts.reduce((total, part) => total * 60 + part, 0)
+  return Math.round(seconds)
+}
+
+function parseExplicit(value: string | undefined): boolean | undefined {
+  switch (value?.toLowerCase()) {
+    case 'yes':
+    case 'true':
+    case 'explicit':
+      return true
+    case 'no':
+    case 'false':
+    case 'clean':
+      return false
+    default:
+      return undefined
   }
-  const xml = await response.text()
+}
+
+function parsePersons(value: unknown): FeedPerson[] {
+  const persons: FeedPerson[] = []
+  for (const person of listOf(value)) {
+    const name = textOf(person)
+    if (!name) continue
+    persons.push({
+      name,
+      role: attrOf(person, 'role')?.toLowerCase(),
+      group: attrOf(person, 'group')?.toLowerCase(),
+      href: attrOf(person, 'href'),
+      imageUrl: attrOf(person, 'img'),
+    })
+  }
+  return persons
+}
+
+function parseTranscripts(value: unknown): FeedTranscript[] {
+  const transcripts: FeedTranscript[] = []
+  for (const transcript of listOf(value)) {
+    const url = attrOf(transcript, 'url')
+    const type = attrOf(transcript, 'type')
+    if (!url || !type) continue
+    transcripts.push({
+      url,
+      type: type.toLowerCase(),
+      language: attrOf(transcript, 'language'),
+      rel: attrOf(transcript, 'rel'),
+    })
+  }
+  return transcripts
+}
+
+// iTunes categories nest one level of subcategory, kept as "Parent > Child"
+function parseCategories(channel: any): string[] {
+  const categories = new Set<string>()
+  for (const category of listOf(channel['itunes:category'])) {
+    const name = attrOf(category, 'text')
+    if (!name) continue
+    categories.add(name)
+    for (const sub of listOf(category['itunes:category'])) {
+      const subName = attrOf(sub, 'text')
+      if (subName) categories.add(`${name} > ${subName}`)
+    }
+  }
+  for (const category of listOf(channel.category)) {
+    // RSS categories are text, Atom ones a `term` attribute
+    const name = textOf(category) ?? attrOf(category, 'term')
+    if (name) categories.add(name)
+  }
+  return [...categories]
+}
 
+// Atom's author is an element with a name; RSS's is usually an email address
+function authorOf(node: any): string | undefined {
+  return (
+    textOf(node['itunes:author']) ??
+    textOf(node['dc:creator']) ??
+    textOf(listOf(node.author)[0]?.name) ??
+    textOf(node.author)
+  )
+}
+
+function atomLink(node: any, rel: string): any {
+  return listOf(node.link).find(
+    (link) => (attrOf(link, 'rel') ?? 'alternate') === rel,
+  )
+}
+
+/**
+ * Reads the fields RSS items and Atom entries share through the iTunes and
+ * Podcasting 2.0 namespaces, plus the enclosure and identity that differ.
+ */
+function parseItem(item: any, atom: boolean): FeedItem | null {
+  const enclosure = atom ? atomLink(item, 'enclosure') : listOf(item.enclosure)[0]
+  const audioUrl = attrOf(enclosure, atom ? 'href' : 'url')
+  if (!audioUrl) return null // Skip items without audio
+
+  const guid = atom ? textOf(item.id) : textOf(item.guid)
+  const publishedAt = parseDate(
+    atom
+      ? (textOf(item.published) ?? textOf(item.updated))
+      : (textOf(item.pubDate) ?? textOf(item['dc:date'])),
+  )
+
+  return {
+    title: textOf(item.title) ?? textOf(item['itunes:title']) ?? 'Untitled',
+    guid: guid ?? audioUrl,
+    audioUrl,
+    audioType: attrOf(enclosure, 'type'),
+    audioLength: positiveInt(attrOf(enclosure, 'length')) || undefined,
+    publishedAt: publishedAt ?? new Date(),
+    description: atom
+      ? (textOf(item.summary) ?? textOf(item.content))
+      : (textOf(item.description) ?? textOf(item['itunes:summary'])),
+    durationSeconds: parseDuration(textOf(item['itunes:duration'])),
+    episodeNumber: positiveInt(textOf(item['itunes:episode'])),
+    seasonNumber: positiveInt(textOf(item['itunes:season'])),
+    episodeType: textOf(item['itunes:episodeType'])?.toLowerCase(),
+    imageUrl: attrOf(item['itunes:image'], 'href'),
+    explicit: parseExplicit(textOf(item['itunes:explicit'])),
+    author: authorOf(item),
+    transcripts: parseTranscripts(item['podcast:transcript']),
+    chaptersUrl: attrOf(item['podcast:chapters'], 'url'),
+    persons: parsePersons(item['podcast:person']),
+  }
+}
+
+/**
+ * Parses an RSS 2.0 or Atom podcast feed, including the iTunes and
+ * Podcasting 2.0 extensions.
+ */
+export function parseFeedXml(xml: string): FeedMeta {
   const parser = new XMLParser({
     ignoreAttributes: false,
     attributeNamePrefix: '@_',
+    // Keep values as text, so titles like "1984" and guids stay strings
+    parseTagValue: false,
+    isArray: (name, _path, _leaf, isAttribute) =>
+      !isAttribute && REPEATED_ELEMENTS.has(name),
   })
   const result = parser.parse(xml)
 
-  const channel = result.rss?.channel || result.feed
+  const atom = !result.rss?.channel && !!result.feed
+  const channel = result.rss?.channel ?? result.feed
   if (!channel) {
-    throw new Error('Invalid RSS feed: no channel found')
+    throw new Error('Invalid feed: no RSS channel or Atom feed found')
   }
 
   const items: FeedItem[] = []
-  const rawItems = Array.isArray(channel.item)
-    ? channel.item
-    : channel.item
-      ? [channel.item]
-      : []
-
-  for (const item of rawItems) {
-    const enclosure = item.enclosure
-    const audioUrl = enclosure?.['@_url']
-    if (!audioUrl) continue // Skip items without audio
-
-    const guid =
-      typeof item.guid === 'object' ? item.guid['#text'] : item.guid || audioUrl
-    const pubDate = item.pubDate || item.published
-
-    items.push({
-      title: item.title || 'Untitled',
-      guid: String(guid),
-      audioUrl,
-      publishedAt: pubDate ? new Date(pubDate) : new Date(),
-      description: item.description || item.summary,
-    })
+  for (const raw of listOf(atom ? channel.entry : channel.item)) {
+    const item = parseItem(raw, atom)
+    if (item) items.push(item)
   }
 
-  // Extract podcast image
-  const itunesImage = channel['itunes:image']?.['@_href']
-  const channelImage = channel.image?.url
-
   return {
-    title: channel.title || 'Unknown Podcast',
-    description: channel.description || channel.subtitle,
-    imageUrl: itunesImage || channelImage,
+    title: textOf(channel.title) ?? 'Unknown Podcast',
+    guid: textOf(channel['podcast:guid']),
+    description: atom
+      ? textOf(channel.subtitle)
+      : (textOf(channel.description) ?? textOf(channel['itunes:summary'])),
+    imageUrl:
+      attrOf(channel['itunes:image'], 'href') ??
+      (atom ? textOf(channel.logo) : textOf(channel.image?.url)),
+    websiteUrl: atom
+      ? attrOf(atomLink(channel, 'alternate'), 'href')
+      : textOf(channel.link),
+    author: authorOf(channel),
+    language: textOf(channel.language) ?? attrOf(channel, 'xml:lang'),
+    explicit: parseExplicit(textOf(channel['itunes:explicit'])),
+    categories: parseCategories(channel),
+    persons: parsePersons(channel['podcast:person']),
     items,
   }
 }
 
-export async function pollAllFeeds(env: Env): Promise<void> {
-  if (String((env as any).IS_STASIS) === 'true') {
-    console.log('Skipping feed poll: stasis mode enabled')
-    return
+function jsonOrNull(list: unknown[]): string | null {
+  return list.length > 0 ? JSON.stringify(list) : null
+}
+
+/**
+ * The podcast columns taken from a feed's channel, other than the title,
+ * artwork and description, which are only read when the podcast is added.
+ */
+export function podcastFeedColumns(feed: FeedMeta) {
+  return {
+    podcastGuid: feed.guid ?? null,
+    websiteUrl: feed.websiteUrl ?? null,
+    author: feed.author ?? null,
+    language: feed.language ?? null,
+    explicit: feed.explicit ?? null,
+    categories: jsonOrNull(feed.categories),
+    persons: jsonOrNull(feed.persons),
+  }
+}
+
+/**
+ * The episode columns taken from a feed item, for inserting a new episode.
+ */
+export function episodeFeedColumns(item: FeedItem) {
+  return {
+    title: item.title,
+    guid: item.guid,
+    audioUrl: item.audioUrl,
+    audioType: item.audioType ?? null,
+    audioLength: item.audioLength ?? null,
+    publishedAt: item.publishedAt,
+    durationSeconds: item.durationSeconds ?? null,
+    description: item.description ?? null,
+    imageUrl: item.imageUrl ?? null,
+    episodeNumber: item.episodeNumber ?? null,
+    seasonNumber: item.seasonNumber ?? null,
+    episodeType: item.episodeType ?? null,
+    explicit: item.explicit ?? null,
+    author: item.author ?? null,
+    feedTranscripts: jsonOrNull(item.transcripts),
+    chaptersUrl: item.chaptersUrl ?? null,
+    persons: jsonOrNull(item.persons),
   }
+}
+
+export type FetchFeedResult =
+  | { status: 'not-modified' }
+  | {
+      status: 'ok'
+      feed: FeedMeta
+      etag: string | null
+      lastModified: string | null
+    }
 
+/**
+ * Fetches and parses a feed. With validators from an earlier response, the
+ * request is conditional and an unchanged feed comes back as 'not-modified'.
+ */
+export async function fetchFeed(
+  feedUrl: string,
+  validators: { etag?: string | null; lastModified?: string | null } = {},
+): Promise<FetchFeedResult> {
+  const headers: Record<string, string> = {}
+  if (validators.etag) headers['If-None-Match'] = validators.etag
+  if (validators.lastModified) {
+    headers['If-Modified-Since'] = validators.lastModified
+  }
+
+  const response = await fetch(feedUrl, {
+    headers,
+    signal: AbortSignal.timeout(FEED_TIMEOUT_MS),
+  })
+  if (response.status === 304) return { status: 'not-modified' }
+  if (!response.ok) {
+    throw new Error(`Failed to fetch feed: ${response.status} ${response.statusText}`)
+  }
+
+  return {
+    status: 'ok',
+    feed: parseFeedXml(await response.text()),
+    etag: response.headers.get('ETag'),
+    lastModified: response.headers.get('Last-Modified'),
+  }
+}
+
+export async function parseFeed(feedUrl: string): Promise<FeedMeta> {
+  const result = await fetchFeed(feedUrl)
+  if (result.status !== 'ok') throw new Error('Feed unexpectedly not modified')
+  return result.feed
+}
+
+/**
+ * Minutes until a feed should next be polled: its interval, doubled for each
+ * consecutive failure up to MAX_BACKOFF_MINUTES. A backoff never shortens a
+ * feed's own interval.
+ */
+export function nextPollDelayMinutes(
+  intervalMinutes: number,
+  consecutiveFailures: number,
+): number {
+  if (consecutiveFailures <= 0) return intervalMinutes
+  return Math.max(
+    intervalMinutes,
+    Math.min(
+      intervalMinutes * 2 ** consecutiveFailures,
+      MAX_BACKOFF_MINUTES,
+    ),
+  )
+}
+
+/**
+ * Adds the feed's new episodes and starts processing each one. Returns how
+ * many were added.
+ */
+async function storeNewEpisodes(
+  env: Env,
+  podcast: Podcast,
+  feed: FeedMeta,
+): Promise<number> {
+  const db = getDb(env.DB)
+  let added = 0
+
+  for (const item of feed.items) {
+    // Skip episodes published before the podcast was added
+    if (item.publishedAt < podcast.addedAt) continue
+
+    // Check if episode already exists (by guid)
+    const existing = await db
+      .select({ id: episodes.id })
+      .from(episodes)
+      .where(
+        and(
+          eq(episodes.podcastId, podcast.id),
+          eq(episodes.guid, item.guid),
+        ),
+      )
+      .limit(1)
+
+    if (existing.length > 0) continue
+
+    // Insert new episode record
+    const episodeId = nanoid()
+    await db.insert(episodes).values({
+      id: episodeId,
+      podcastId: podcast.id,
+      ...episodeFeedColumns(item),
+      status: 'pending',
+      createdAt: new Date(),
+    })
+
+    // Trigger the processing workflow
+    const instance = await env.EPISODE_WORKFLOW.create({
+      params: {
+        episodeId,
+        podcastId: podcast.id,
+        audioUrl: item.audioUrl,
+      },
+    })
+
+    // Store workflow instance ID
+    await db
+      .update(episodes)
+      .set({ workflowId: instance.id, status: 'downloading' })
+      .where(eq(episodes.id, episodeId))
+    added++
+  }
+
+  return added
+}
+
+export interface PollResult {
+  status: 'updated' | 'unchanged' | 'error'
+  newEpisodes: number
+  error?: string
+}
+
+/**
+ * Polls one feed with a conditional request, adds any new episodes, and
+ * records the outcome and next poll time on the podcast. Never throws:
+ * failures are recorded as feed health, unless `recordFailure` is false
+ * because the caller will try again shortly.
+ */
+export async function pollPodcast(
+  env: Env,
+  podcast: Podcast,
+  options: { recordFailure?: boolean } = {},
+): Promise<PollResult> {
   const db = getDb(env.DB)
+  const now = new Date()
+
+  try {
+    const result = await fetchFeed(podcast.feedUrl, {
+      etag: podcast.etag,
+      lastModified: podcast.lastModified,
+    })
+    const newEpisodes =
+      result.status === 'ok' ? await storeNewEpisodes(env, podcast, result.feed) : 0
+    const status = result.status === 'ok' ? 'updated' : 'unchanged'
 
-  const activePodcasts = await db
-    .select()
-    .from(podcasts)
-    .where(eq(podcasts.active, true))
-
-  for (const podcast of activePodcasts) {
-    try {
-      const feed = await parseFeed(podcast.feedUrl)
-
-      for (const item of feed.items) {
-        // Skip episodes published before the podcast was added
-        if (item.publishedAt < podcast.addedAt) continue
-
-        // Check if episode already exists (by guid)
-        const existing = await db
-          .select({ id: episodes.id })
-          .from(episodes)
-          .where(
-            and(
-              eq(episodes.podcastId, podcast.id),
-              eq(episodes.guid, item.guid),
-            ),
-          )
-          .limit(1)
-
-        if (existing.length > 0) continue
-
-        // Insert new episode record
-        const episodeId = nanoid()
-        await db.insert(episodes).values({
-          id: episodeId,
-          podcastId: podcast.id,
-          title: item.title,
-          guid: item.guid,
-          audioUrl: item.audioUrl,
-          publishedAt: item.publishedAt,
-          status: 'pending',
-          createdAt: new Date(),
-        })
-
-        // Trigger the processing workflow
-        const instance = await env.EPISODE_WORKFLOW.create({
-          params: {
-            episodeId,
-            podcastId: podcast.id,
-            audioUrl: item.audioUrl,
-          },
-        })
-
-        // Store workflow instance ID
-        await db
-          .update(episodes)
-          .set({ workflowId: instance.id, status: 'downloading' })
-          .where(eq(episodes.id, episodeId))
-      }
-
-      // Update last polled timestamp
-      await db
-        .update(podcasts)
-        .set({ lastPolledAt: new Date() })
-        .where(eq(podcasts.id, podcast.id))
-    } catch (error) {
-      console.error(`Error polling feed ${podcast.feedUrl}:`, error)
+    await db
+      .update(podcasts)
+      .set({
+        lastPolledAt: now,
+        nextPollAt: new Date(now.getTime() + podcast.pollIntervalMinutes * MINUTE_MS),
+        lastPollStatus: status,
+        lastPollError: null,
+        consecutiveFailures: 0,
+        ...(result.status === 'ok'
+          ? {
+              ...podcastFeedColumns(result.feed),
+              etag: result.etag,
+              lastModified: result.lastModified,
+            }
+          : {}),
+      })
+      .where(eq(podcasts.id, podcast.id))
+
+    return { status, newEpisodes }
+  } catch (error) {
+    const message = (
+      error instanceof Error ? error.message : String(error)
+    ).slice(0, MAX_ERROR_LENGTH)
+    console.error(`Error polling feed ${podcast.feedUrl}:`, error)
+    if (options.recordFailure === false) {
+      return { status: 'error', newEpisodes: 0, error: message }
     }
+
+    const failures = podcast.consecutiveFailures + 1
+    const delay = nextPollDelayMinutes(podcast.pollIntervalMinutes, failures)
+    await db
+      .update(podcasts)
+      .set({
+        lastPolledAt: now,
+        nextPollAt: new Date(now.getTime() + delay * MINUTE_MS),
+        lastPollStatus: 'error',
+        lastPollError: message,
+        consecutiveFailures: failures,
+      })
+      .where(eq(podcasts.id, podcast.id))
+
+    return { status: 'error', newEpisodes: 0, error: message }
   }
 }
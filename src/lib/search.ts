@@ -0,0 +1,67 @@
+// Control characters used to delimit highlighted terms in FTS5 snippets.
+// They never appear in transcripts, so the client can split on them safely
+// instead of rendering snippet HTML.
+export const SNIPPET_MATCH_START = '\u0002'
+export const SNIPPET_MATCH_END = '\u0003'
+
+export interface SnippetPart {
+  text: string
+  match: boolean
+}
+
+/**
+ * Turns free-form user input into a safe FTS5 MATCH expression.
+ * Each whitespace-separated term becomes a quoted string (so operators and
+ * punctuation are treated literally) and terms are implicitly ANDed.
+ * The final term gets a prefix wildcard so results appear while typing.
+ * Returns null when there is nothing searchable.
+ */
+export function buildFtsQuery(input: string): string | null {
+  const terms = input
+    .split(/\s+/)
+    .map((term) => term.replace(/"/g, '').trim())
+    .filter((term) => /[\p{L}\p{N}]/u.test(term))
+
+  if (terms.length === 0) return null
+
+  return terms
+    .map((term, i) => (i === terms.length - 1 ? `"${term}"*` : `"${term}"`))
+    .join(' ')
+}
+
+/**
+ * Splits a snippet produced with the SNIPPET_MATCH_* delimiters into plain
+ * and highlighted parts for rendering.
+ */
+export function parseSnippet(snippet: string): SnippetPart[] {
+  const parts: SnippetPart[] = []
+  const pattern = new RegExp(
+    `${SNIPPET_MATCH_START}(.*?)${SNIPPET_MATCH_END}`,
+    'gs',
+  )
+
+  let lastIndex = 0
+  for (const match of snippet.matchAll(pattern)) {
+    if (match.index > lastIndex) {
+      parts.push({ text: snippet.slice(lastIndex, match.index), match: false })
+    }
+    parts.push({ text: match[1], match: true })
+    lastIndex = match.index + match[0].length
+  }
+  if (lastIndex < snippet.length) {
+    parts.push({ text: snippet.slice(lastIndex), match: false })
+  }
+
+  return parts
+}
+
+/**
+ * Tags and key quotes are indexed as raw JSON arrays. Strips the JSON
+ * punctuation from a snippet of those columns so it reads as a list.
+ */
+export function cleanJsonSnippet(snippet: string): string {
+  return snippet
+    .replace(/"\s*,\s*"/g, ', ')
+    .replace(/[[\]"]/g, '')
+    .trim()
+}
@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest'
+import {
+  buildTranscriptWindows,
+  windowStartIndex,
+  type WindowSegment,
+} from './semantic-search'
+
+function segment(segmentIndex: number): WindowSegment {
+  return {
+    segmentIndex,
+    text: `s${segmentIndex}`,
+    startTime: segmentIndex * 10,
+    endTime: segmentIndex * 10 + 8,
+  }
+}
+
+describe('windowStartIndex', () => {
+  it('rounds down to a multiple of the window size', () => {
+    expect([0, 1, 2, 3, 5, 6, 299].map(windowStartIndex)).toEqual([
+      0, 0, 0, 3, 3, 6, 297,
+    ])
+  })
+})
+
+describe('buildTranscriptWindows', () => {
+  it('groups consecutive segments into windows of three', () => {
+    expect(buildTranscriptWindows([0, 1, 2, 3, 4].map(segment))).toEqual([
+      {
+        firstSegmentIndex: 0,
+        lastSegmentIndex: 2,
+        startTime: 0,
+        endTime: 28,
+        text: 's0 s1 s2',
+      },
+      {
+        firstSegmentIndex: 3,
+        lastSegmentIndex: 4,
+        startTime: 30,
+        endTime: 48,
+        text: 's3 s4',
+      },
+    ])
+  })
+
+  it('keeps window boundaries fixed when segment indexes have gaps', () => {
+    // Segments 2, 3 and 7 were deleted
+    const windows = buildTranscriptWindows([0, 1, 4, 5, 6, 8].map(segment))
+
+    expect(
+      windows.map((w) => [w.firstSegmentIndex, w.lastSegmentIndex, w.text]),
+    ).toEqual([
+      [0, 1, 's0 s1'],
+      [3, 5, 's4 s5'],
+      [6, 8, 's6 s8'],
+    ])
+    // Times come from the segments present, not the missing first one
+    expect(windows[1]).toMatchObject({ startTime: 40, endTime: 58 })
+    for (const window of windows) {
+      expect(window.firstSegmentIndex).toBe(
+        windowStartIndex(window.lastSegmentIndex),
+      )
+    }
+  })
+
+  it('returns no windows for no segments', () => {
+    expect(buildTranscriptWindows([])).toEqual([])
+  })
+})
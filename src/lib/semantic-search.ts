@@ -0,0 +1,350 @@
+import { and, asc, between, eq, inArray } from 'drizzle-orm'
+import { getDb } from '~/db'
+import {
+  episodes,
+  podcasts,
+  transcriptSegments,
+  transcriptWindows,
+} from '~/db/schema'
+import { createEmbedder, type Embedder } from '~/lib/embeddings'
+import { createVectorIndex, type VectorIndex } from '~/lib/vector-index'
+
+// Segments per window: about 45 seconds of speech, well inside the
+// embedding model's 512-token limit
+export const WINDOW_SEGMENTS = 3
+// IDs per query, to stay under D1's bound parameter limit
+const BATCH_SIZE = 50
+
+export interface WindowSegment {
+  segmentIndex: number
+  text: string
+  startTime: number
+  endTime: number
+}
+
+export interface TranscriptWindow {
+  firstSegmentIndex: number
+  lastSegmentIndex: number
+  startTime: number
+  endTime: number
+  text: string
+}
+
+/**
+ * Splits an episode's segments, in order, into consecutive non-overlapping
+ * windows of WINDOW_SEGMENTS. Window boundaries depend only on segment
+ * indexes, so a segment's window can be found without looking it up.
+ */
+export function buildTranscriptWindows(
+  segments: WindowSegment[],
+): TranscriptWindow[] {
+  const windows: TranscriptWindow[] = []
+  for (const segment of segments) {
+    const first = windowStartIndex(segment.segmentIndex)
+    const current = windows[windows.length - 1]
+    if (current && current.firstSegmentIndex === first) {
+      current.lastSegmentIndex = segment.segmentIndex
+      current.endTime = segment.endTime
+      current.text += ` ${segment.text}`
+    } else {
+      windows.push({
+        firstSegmentIndex: first,
+        lastSegmentIndex: segment.segmentIndex,
+        startTime: segment.startTime,
+        endTime: segment.endTime,
+        text: segment.text,
+      })
+    }
+  }
+  return windows
+}
+
+export function windowStartIndex(segmentIndex: number): number {
+  return segmentIndex - (segmentIndex % WINDOW_SEGMENTS)
+}
+
+// Stable, so re-embedding a window replaces its vector
+function windowId(episodeId: string, firstSegmentIndex: number): string {
+  return `${episodeId}:${firstSegmentIndex}`
+}
+
+/**
+ * Deletes the episodes' windows from D1 and their vectors from the index.
+ */
+export async function removeEpisodeWindows(
+  env: Env,
+  episodeIds: string[],
+  index: VectorIndex = createVectorIndex(env),
+): Promise<void> {
+  const db = getDb(env.DB)
+
+  for (let i = 0; i < episodeIds.length; i += BATCH_SIZE) {
+    const batch = episodeIds.slice(i, i + BATCH_SIZE)
+    const rows = await db
+      .select({ id: transcriptWindows.id })
+      .from(transcriptWindows)
+      .where(inArray(transcriptWindows.episodeId, batch))
+    if (rows.length === 0) continue
+
+    await index.deleteByIds(rows.map((r) => r.id))
+    await db
+      .delete(transcriptWindows)
+      .where(inArray(transcriptWindows.episodeId, batch))
+  }
+}
+
+/**
+ * Embeds an episode's transcript in windows and replaces its vectors in the
+ * index. Returns the number of windows indexed.
+ */
+export async function indexEpisodeTranscript(
+  env: Env,
+  episodeId: string,
+  embedder: Embedder = createEmbedder(env),
+  index: VectorIndex = createVectorIndex(env),
+): Promise<number> {
+  const db = getDb(env.DB)
+
+  await removeEpisodeWindows(env, [episodeId], index)
+
+  const [episode] = await db
+    .select({ podcastId: episodes.podcastId })
+    .from(episodes)
+    .where(eq(episodes.id, episodeId))
+    .limit(1)
+  if (!episode) throw new Error('Episode not found')
+
+  const segments = await db
+    .select({
+      segmentIndex: transcriptSegments.segmentIndex,
+      text: transcriptSegments.text,
+      startTime: transcriptSegments.startTime,
+      endTime: transcriptSegments.endTime,
+    })
+    .from(transcriptSegments)
+    .where(eq(transcriptSegments.episodeId, episodeId))
+    .orderBy(asc(transcriptSegments.segmentIndex))
+
+  const windows = buildTranscriptWindows(segments).filter((w) => w.text.trim())
+  if (windows.length === 0) return 0
+
+  const vectors = await embedder.embed(windows.map((w) => w.text))
+
+  const now = new Date()
+  for (const window of windows) {
+    await db.insert(transcriptWindows).values({
+      id: windowId(episodeId, window.firstSegmentIndex),
+      episodeId,
+      firstSegmentIndex: window.firstSegmentIndex,
+      lastSegmentIndex: window.lastSegmentIndex,
+      startTime: window.startTime,
+      endTime: window.endTime,
+      embedder: embedder.name,
+      createdAt: now,
+    })
+  }
+
+  await index.upsert(
+    windows.map((window, i) => ({
+      id: windowId(episodeId, window.firstSegmentIndex),
+      values: vectors[i],
+      metadata: { episodeId, podcastId: episode.podcastId },
+    })),
+  )
+
+  return windows.length
+}
+
+/**
+ * The text of the window containing a segment, read from the current
+ * transcript, or null if the segment doesn't exist.
+ */
+export async function segmentWindowText(
+  env: Env,
+  segmentId: string,
+): Promise<{
+  episodeId: string
+  windowId: string
+  text: string
+} | null> {
+  const db = getDb(env.DB)
+
+  const [segment] = await db
+    .select({
+      episodeId: transcriptSegments.episodeId,
+      segmentIndex: transcriptSegments.segmentIndex,
+    })
+    .from(transcriptSegments)
+    .where(eq(transcriptSegments.id, segmentId))
+    .limit(1)
+  if (!segment) return null
+
+  const first = windowStartIndex(segment.segmentIndex)
+  const rows = await db
+    .select({ text: transcriptSegments.text })
+    .from(transcriptSegments)
+    .where(
+      and(
+        eq(transcriptSegments.episodeId, segment.episodeId),
+        between(
+          transcriptSegments.segmentIndex,
+          first,
+          first + WINDOW_SEGMENTS - 1,
+        ),
+      ),
+    )
+    .orderBy(asc(transcriptSegments.segmentIndex))
+
+  return {
+    episodeId: segment.episodeId,
+    windowId: windowId(segment.episodeId, first),
+    text: rows.map((r) => r.text).join(' '),
+  }
+}
+
+/**
+ * Re-embeds the window containing a segment after its text changes. Does
+ * nothing if the episode hasn't been indexed.
+ */
+export async function reindexSegmentWindow(
+  env: Env,
+  segmentId: string,
+  embedder: Embedder = createEmbedder(env),
+  index: VectorIndex = createVectorIndex(env),
+): Promise<void> {
+  const db = getDb(env.DB)
+
+  const window = await segmentWindowText(env, segmentId)
+  if (!window || !window.text.trim()) return
+
+  const [row] = await db
+    .select({
+      id: transcriptWindows.id,
+      podcastId: episodes.podcastId,
+    })
+    .from(transcriptWindows)
+    .innerJoin(episodes, eq(episodes.id, transcriptWindows.episodeId))
+    .where(eq(transcriptWindows.id, window.windowId))
+    .limit(1)
+  if (!row) return
+
+  const [vector] = await embedder.embed([window.text])
+  await index.upsert([
+    {
+      id: row.id,
+      values: vector,
+      metadata: { episodeId: window.episodeId, podcastId: row.podcastId },
+    },
+  ])
+  await db
+    .update(transcriptWindows)
+    .set({ embedder: embedder.name, createdAt: new Date() })
+    .where(eq(transcriptWindows.id, row.id))
+}
+
+export interface SemanticMatch {
+  windowId: string
+  score: number
+  episodeId: string
+  episodeTitle: string
+  publishedAt: Date
+  podcastId: string
+  podcastTitle: string
+  // First segment of the window, for linking into the transcript
+  segmentId: string
+  startTime: number
+  endTime: number
+  text: string
+}
+
+/**
+ * Finds the transcript windows closest in meaning to `text`, best first,
+ * with their episode and the current transcript text.
+ */
+export async function searchTranscripts(
+  env: Env,
+  text: string,
+  options: { limit: number; podcastId?: string; excludeIds?: string[] },
+  embedder: Embedder = createEmbedder(env),
+  index: VectorIndex = createVectorIndex(env),
+): Promise<SemanticMatch[]> {
+  const db = getDb(env.DB)
+  const exclude = new Set(options.excludeIds ?? [])
+
+  const [vector] = await embedder.embed([text])
+  const matches = (
+    await index.query(vector, {
+      topK: options.limit + exclude.size,
+      podcastId: options.podcastId,
+    })
+  ).filter((m) => !exclude.has(m.id))
+  if (matches.length === 0) return []
+
+  // Vectors can outlive their windows briefly, and vectors made by another
+  // embedder aren't comparable, so only current windows are returned
+  const rows = await db
+    .select({
+      windowId: transcriptWindows.id,
+      firstSegmentIndex: transcriptWindows.firstSegmentIndex,
+      lastSegmentIndex: transcriptWindows.lastSegmentIndex,
+      startTime: transcriptWindows.startTime,
+      endTime: transcriptWindows.endTime,
+      episodeId: episodes.id,
+      episodeTitle: episodes.title,
+      publishedAt: episodes.publishedAt,
+      podcastId: podcasts.id,
+      podcastTitle: podcasts.title,
+    })
+    .from(transcriptWindows)
+    .innerJoin(episodes, eq(episodes.id, transcriptWindows.episodeId))
+    .innerJoin(podcasts, eq(podcasts.id, episodes.podcastId))
+    .where(
+      and(
+        inArray(
+          transcriptWindows.id,
+          matches.slice(0, BATCH_SIZE).map((m) => m.id),
+        ),
+        eq(transcriptWindows.embedder, embedder.name),
+      ),
+    )
+  const byId = new Map(rows.map((row) => [row.windowId, row]))
+
+  const results: SemanticMatch[] = []
+  for (const match of matches) {
+    const row = byId.get(match.id)
+    if (!row) continue
+
+    const segments = await db
+      .select({ id: transcriptSegments.id, text: transcriptSegments.text })
+      .from(transcriptSegments)
+      .where(
+        and(
+          eq(transcriptSegments.episodeId, row.episodeId),
+          between(
+            transcriptSegments.segmentIndex,
+            row.firstSegmentIndex,
+            row.lastSegmentIndex,
+          ),
+        ),
+      )
+      .orderBy(asc(transcriptSegments.segmentIndex))
+    if (segments.length === 0) continue
+
+    results.push({
+      windowId: row.windowId,
+      score: match.score,
+      episodeId: row.episodeId,
+      episodeTitle: row.episodeTitle,
+      publishedAt: row.publishedAt,
+      podcastId: row.podcastId,
+      podcastTitle: row.podcastTitle,
+      segmentId: segments[0].id,
+      startTime: row.startTime,
+      endTime: row.endTime,
+      text: segments.map((s) => s.text).join(' '),
+    })
+    if (results.length >= options.limit) break
+  }
+
+  return results
+}
@@ -1,24 +1,116 @@
-import { createServerFn } from '@tanstack/react-start'
+import { createMiddleware, createServerFn } from '@tanstack/react-start'
+import {
+  deleteCookie,
+  getCookie,
+  getRequest,
+  setCookie,
+} from '@tanstack/react-start/server'
 import { env } from 'cloudflare:workers'
-import { eq, desc, and, gte, lte, lt, sql, count, isNotNull } from 'drizzle-orm'
+import {
+  eq,
+  desc,
+  and,
+  gt,
+  gte,
+  lte,
+  lt,
+  sql,
+  count,
+  inArray,
+  isNotNull,
+} from 'drizzle-orm'
 import { nanoid } from 'nanoid'
 import { getDb } from '~/db'
 import {
   podcasts,
   episodes,
+  speakers,
   transcriptSegments,
+  transcriptRevisions,
   episodeAnalyses,
   weeklyAnalyses,
+  digests,
+  users,
+  sessions,
+  episodeEvents,
+  clips,
+  audioSeekIndexes,
+  glossaryTerms,
+  entities,
+  episodeEntities,
+  tags,
+  tagAliases,
+  episodeTags,
+  narratives,
+  narrativeClaims,
+  feedPollJobs,
+  episodeChapters,
 } from '~/db/schema'
-import { parseFeed, pollAllFeeds, resolveToFeedUrl } from '~/lib/rss'
 import {
-  WEEKLY_ANALYSIS_SYSTEM_PROMPT,
-  buildWeeklyAnalysisPrompt,
-  parseWeeklyAnalysis,
-  type WeeklyAnalysisInput,
-} from '~/lib/analysis'
-
-// ==================== Demo Mode ====================
+  POLL_INTERVAL_OPTIONS,
+  nextPollDelayMinutes,
+  episodeFeedColumns,
+  parseFeed,
+  podcastFeedColumns,
+  pollPodcast,
+  resolveToFeedUrl,
+} from '~/lib/rss'
+import { enqueueDueFeeds, retryFeedPollJob } from '~/lib/feed-queue'
+import { WEEK_MS, generateWeeklyReport } from '~/lib/weekly'
+import { recordEpisodeRetry, resumeStageForStep } from '~/lib/episode-events'
+import { attributeQuote } from '~/lib/diarization'
+import { deleteAudioClips, deleteSavedClipAudio } from '~/lib/audio-clips'
+import { deleteCachedChunks } from '~/lib/transcription-cache'
+import { realignWords, type Word } from '~/lib/timestamp'
+import { parseVariants } from '~/lib/glossary'
+import { isEntityType, type EntityMention } from '~/lib/entities'
+import { mergeTags, normalizeTag } from '~/lib/tags'
+import {
+  TREND_INTERVALS,
+  TREND_KINDS,
+  getTopicTrends as computeTopicTrends,
+  type TrendInterval,
+  type TrendKind,
+} from '~/lib/trends'
+import { buildNarrativeTimeline, removeEpisodeClaims } from '~/lib/narratives'
+import {
+  reindexSegmentWindow,
+  removeEpisodeWindows,
+  searchTranscripts,
+  segmentWindowText,
+} from '~/lib/semantic-search'
+import {
+  SESSION_COOKIE,
+  createSession,
+  deleteSession,
+  hashPassword,
+  hasRole,
+  isDemo,
+  isRole,
+  resolvePrincipal,
+  verifyPassword,
+  verifySetupToken,
+  type Principal,
+  type Role,
+} from '~/lib/auth'
+import {
+  createDigest,
+  deliverDigest,
+  getDigestRecipients,
+} from '~/lib/digest'
+import {
+  SNIPPET_MATCH_END,
+  SNIPPET_MATCH_START,
+  buildFtsQuery,
+  cleanJsonSnippet,
+} from '~/lib/search'
+
+// ==================== Auth ====================
+// Every data function runs behind one of the role middlewares below, which
+// resolve the caller from their session cookie or Cloudflare Access identity.
+// Demo mode is a special case of an anonymous viewer: signed-out visitors can
+// read everything, and a mutation they attempt raises DemoModeError so the UI
+// shows the demo notice rather than a sign-in prompt.
 
 export class DemoModeError extends Error {
   constructor() {
@@ -27,16 +119,154 @@ export class DemoModeError extends Error {
   }
 }
 
-function assertNotDemo() {
-  if (String(env.IS_DEMO) === 'true') {
-    throw new DemoModeError()
+export class UnauthorizedError extends Error {
+  constructor() {
+    super('UNAUTHORIZED')
+    this.name = 'UnauthorizedError'
+  }
+}
+
+export class ForbiddenError extends Error {
+  constructor(required: Role) {
+    super(`This action requires the ${required} role`)
+    this.name = 'ForbiddenError'
   }
 }
 
+async function authorize(required: Role): Promise<Principal> {
+  const principal = await resolvePrincipal(env as any, getRequest())
+  if (hasRole(principal, required)) return principal
+
+  if (principal.source === 'anonymous') {
+    if (isDemo(env as any)) throw new DemoModeError()
+    throw new UnauthorizedError()
+  }
+  throw new ForbiddenError(required)
+}
+
+const requireViewer = createMiddleware({ type: 'function' }).server(
+  async ({ next }) => next({ context: { principal: await authorize('viewer') } }),
+)
+
+const requireEditor = createMiddleware({ type: 'function' }).server(
+  async ({ next }) => next({ context: { principal: await authorize('editor') } }),
+)
+
+const requireAdmin = createMiddleware({ type: 'function' }).server(
+  async ({ next }) => next({ context: { principal: await authorize('admin') } }),
+)
+
 export const getIsDemo = createServerFn({ method: 'GET' }).handler(async () => {
-  return { isDemo: String(env.IS_DEMO) === 'true' }
+  return { isDemo: isDemo(env as any) }
 })
 
+export const getCurrentUser = createServerFn({ method: 'GET' }).handler(
+  async () => {
+    const principal = await resolvePrincipal(env as any, getRequest())
+    const db = getDb(env.DB)
+    const [userCount] = await db.select({ count: count() }).from(users)
+
+    return {
+      ...principal,
+      isDemo: isDemo(env as any),
+      // No accounts yet: the login page offers to create the first admin
+      needsSetup: (userCount?.count ?? 0) === 0,
+    }
+  },
+)
+
+function setSessionCookie(token: string, expiresAt: Date) {
+  setCookie(SESSION_COOKIE, token, {
+    httpOnly: true,
+    secure: true,
+    sameSite: 'lax',
+    path: '/',
+    expires: expiresAt,
+  })
+}
+
+export const login = createServerFn({ method: 'POST' })
+  .inputValidator((input: { email: string; password: string }) => input)
+  .handler(async ({ data }) => {
+    const db = getDb(env.DB)
+
+    const [user] = await db
+      .select()
+      .from(users)
+      .where(eq(users.email, data.email.trim().toLowerCase()))
+      .limit(1)
+
+    const valid =
+      !!user?.passwordHash &&
+      (await verifyPassword(data.password, user.passwordHash))
+    if (!user || !valid) throw new Error('Invalid email or password')
+
+    const session = await createSession(env as any, user.id)
+    setSessionCookie(session.token, session.expiresAt)
+
+    await db
+      .update(users)
+      .set({ lastLoginAt: new Date() })
+      .where(eq(users.id, user.id))
+
+    return { success: true }
+  })
+
+export const logout = createServerFn({ method: 'POST' }).handler(async () => {
+  const token = getCookie(SESSION_COOKIE)
+  if (token) await deleteSession(env as any, token)
+  deleteCookie(SESSION_COOKIE, { path: '/' })
+  return { success: true }
+})
+
+// Creates the first admin account. Only allowed while there are no users,
+// and only for callers who know the SETUP_TOKEN secret.
+export const setupAdmin = createServerFn({ method: 'POST' })
+  .inputValidator(
+    (input: {
+      email: string
+      name?: string
+      password: string
+      setupToken: string
+    }) => input,
+  )
+  .handler(async ({ data }) => {
+    const db = getDb(env.DB)
+
+    if (!(env as any).SETUP_TOKEN) {
+      throw new Error(
+        'Set the SETUP_TOKEN secret to create the first admin account',
+      )
+    }
+    if (!(await verifySetupToken(env as any, data.setupToken))) {
+      throw new Error('Invalid setup token')
+    }
+    if (data.password.length < MIN_PASSWORD_LENGTH) {
+      throw new Error(
+        `Password must be at least ${MIN_PASSWORD_LENGTH} characters`,
+      )
+    }
+
+    // Checks for existing users and inserts in one statement, so concurrent
+    // calls can't both create an admin
+    const id = nanoid()
+    const now = Math.floor(Date.now() / 1000)
+    const result = await db.run(sql`
+      INSERT INTO ${users} (id, email, name, password_hash, role, created_at, last_login_at)
+      SELECT ${id}, ${data.email.trim().toLowerCase()}, ${data.name?.trim() || null},
+        ${await hashPassword(data.password)}, 'admin', ${now}, ${now}
+      WHERE NOT EXISTS (SELECT 1 FROM ${users})
+    `)
+    if (!result.meta.changes) {
+      throw new Error('An admin account already exists')
+    }
+
+    const session = await createSession(env as any, id)
+    setSessionCookie(session.token, session.expiresAt)
+
+    return { success: true }
+  })
+
 // ==================== Stasis Mode ====================
 // In stasis mode, no new audio is downloaded and no transcription runs.
 // Used to freeze a demo deployment so it stops accruing usage costs.
@@ -62,8 +292,9 @@ export const getIsStasis = createServerFn({ method: 'GET' }).handler(
 
 // ==================== Podcast Functions ====================
 
-export const getHomepageData = createServerFn({ method: 'GET' }).handler(
-  async () => {
+export const getHomepageData = createServerFn({ method: 'GET' })
+  .middleware([requireViewer])
+  .handler(async () => {
     const db = getDb(env.DB)
 
     const allPodcasts = await db
@@ -106,10 +337,10 @@ export const getHomepageData = createServerFn({ method: 'GET' }).handler(
       podcasts: podcastsWithCounts,
       weeklyAnalysis: latestAnalysis || null,
     }
-  },
-)
+  })
 
 export const getPodcastDetail = createServerFn({ method: 'GET' })
+  .middleware([requireViewer])
   .inputValidator((input: { podcastId: string }) => input)
   .handler(async ({ data }) => {
     const db = getDb(env.DB)
@@ -132,6 +363,7 @@ export const getPodcastDetail = createServerFn({ method: 'GET' })
   })
 
 export const getEpisodeDetail = createServerFn({ method: 'GET' })
+  .middleware([requireViewer])
   .inputValidator((input: { episodeId: string }) => input)
   .handler(async ({ data }) => {
     const db = getDb(env.DB)
@@ -156,21 +388,1019 @@ export const getEpisodeDetail = createServerFn({ method: 'GET' })
       .where(eq(transcriptSegments.episodeId, data.episodeId))
       .orderBy(transcriptSegments.segmentIndex)
 
+    const chapters = await db
+      .select()
+      .from(episodeChapters)
+      .where(eq(episodeChapters.episodeId, data.episodeId))
+      .orderBy(episodeChapters.chapterIndex)
+
     const [analysis] = await db
       .select()
       .from(episodeAnalyses)
       .where(eq(episodeAnalyses.episodeId, data.episodeId))
       .limit(1)
 
-    return { episode, podcast, segments, analysis: analysis || null }
+    const episodeSpeakers = await db
+      .select()
+      .from(speakers)
+      .where(eq(speakers.episodeId, data.episodeId))
+      .orderBy(speakers.label)
+
+    // Speaker of each key quote, in the same order as the analysis
+    let quoteSpeakerIds: (string | null)[] = []
+    if (analysis && episodeSpeakers.length > 0) {
+      try {
+        const keyQuotes: string[] = JSON.parse(analysis.keyQuotes || '[]')
+        quoteSpeakerIds = keyQuotes.map((quote) =>
+          attributeQuote(quote, segments),
+        )
+      } catch {
+        // Malformed quotes just go unattributed
+      }
+    }
+
+    const edited = await db
+      .selectDistinct({ segmentId: transcriptRevisions.segmentId })
+      .from(transcriptRevisions)
+      .where(eq(transcriptRevisions.episodeId, data.episodeId))
+
+    const episodeEntityRows = await db
+      .select({
+        id: entities.id,
+        name: entities.name,
+        type: entities.type,
+        mentionCount: episodeEntities.mentionCount,
+      })
+      .from(episodeEntities)
+      .innerJoin(entities, eq(entities.id, episodeEntities.entityId))
+      .where(eq(episodeEntities.episodeId, data.episodeId))
+      .orderBy(desc(episodeEntities.mentionCount), entities.name)
+
+    const episodeTagRows = await db
+      .select({ name: tags.name })
+      .from(episodeTags)
+      .innerJoin(tags, eq(tags.id, episodeTags.tagId))
+      .where(eq(episodeTags.episodeId, data.episodeId))
+      .orderBy(episodeTags.position)
+
+    const episodeNarratives = await db
+      .selectDistinct({
+        id: narratives.id,
+        label: narratives.label,
+        podcastCount: narratives.podcastCount,
+        firstEpisodeId: narratives.firstEpisodeId,
+      })
+      .from(narrativeClaims)
+      .innerJoin(narratives, eq(narratives.id, narrativeClaims.narrativeId))
+      .where(eq(narrativeClaims.episodeId, data.episodeId))
+      .orderBy(desc(narratives.podcastCount), narratives.label)
+
+    return {
+      episode,
+      podcast,
+      segments,
+      chapters,
+      analysis: analysis || null,
+      speakers: episodeSpeakers,
+      quoteSpeakerIds,
+      editedSegmentIds: edited.map((e) => e.segmentId),
+      entities: episodeEntityRows,
+      tags: episodeTagRows.map((t) => t.name),
+      narratives: episodeNarratives.map(({ firstEpisodeId, ...n }) => ({
+        ...n,
+        isOrigin: firstEpisodeId === data.episodeId,
+      })),
+    }
+  })
+
+export const renameSpeaker = createServerFn({ method: 'POST' })
+  .middleware([requireEditor])
+  .inputValidator((input: { speakerId: string; displayName: string }) => input)
+  .handler(async ({ data }) => {
+    const db = getDb(env.DB)
+    const displayName = data.displayName.trim()
+
+    const [speaker] = await db
+      .update(speakers)
+      .set({ displayName: displayName || null })
+      .where(eq(speakers.id, data.speakerId))
+      .returning()
+
+    if (!speaker) throw new Error('Speaker not found')
+
+    return speaker
+  })
+
+// ==================== Transcript Corrections ====================
+// Editors can correct segment text. Corrections update the segment in place,
+// so search, exports and re-analysis all see them, and each one is recorded
+// in transcript_revisions with the text it replaced. The segment's window is
+// re-embedded so semantic search sees them too.
+
+const MAX_SEGMENT_TEXT_LENGTH = 2000
+
+async function setSegmentText(
+  segment: typeof transcriptSegments.$inferSelect,
+  text: string,
+  words: string,
+  createdBy: string | null,
+) {
+  const db = getDb(env.DB)
+  await db.insert(transcriptRevisions).values({
+    id: nanoid(),
+    segmentId: segment.id,
+    episodeId: segment.episodeId,
+    previousText: segment.text,
+    previousWords: segment.words,
+    text,
+    createdBy,
+    createdAt: new Date(),
+  })
+  const [updated] = await db
+    .update(transcriptSegments)
+    .set({ text, words })
+    .where(eq(transcriptSegments.id, segment.id))
+    .returning()
+
+  // Best-effort: a stale vector only affects semantic search ranking
+  try {
+    await reindexSegmentWindow(env as any, segment.id)
+  } catch (error) {
+    console.error(`Re-embedding segment ${segment.id} failed:`, error)
+  }
+
+  return updated
+}
+
+export const updateSegmentText = createServerFn({ method: 'POST' })
+  .middleware([requireEditor])
+  .inputValidator((input: { segmentId: string; text: string }) => input)
+  .handler(async ({ data, context }) => {
+    const text = data.text.replace(/\s+/g, ' ').trim()
+    if (!text) throw new Error('Segment text cannot be empty')
+    if (text.length > MAX_SEGMENT_TEXT_LENGTH) {
+      throw new Error(
+        `Segment text can be at most ${MAX_SEGMENT_TEXT_LENGTH} characters`,
+      )
+    }
+
+    const db = getDb(env.DB)
+    const [segment] = await db
+      .select()
+      .from(transcriptSegments)
+      .where(eq(transcriptSegments.id, data.segmentId))
+      .limit(1)
+
+    if (!segment) throw new Error('Segment not found')
+    if (segment.text === text) return segment
+
+    let words: Word[] = []
+    try {
+      words = JSON.parse(segment.words)
+    } catch {
+      // Retime from the segment bounds alone
+    }
+    const realigned = realignWords(words, text, {
+      start: segment.startTime,
+      end: segment.endTime,
+    })
+
+    return setSegmentText(
+      segment,
+      text,
+      JSON.stringify(realigned),
+      context.principal.userId,
+    )
+  })
+
+export const getSegmentRevisions = createServerFn({ method: 'GET' })
+  .middleware([requireViewer])
+  .inputValidator((input: { segmentId: string }) => input)
+  .handler(async ({ data }) => {
+    const db = getDb(env.DB)
+    return db
+      .select({
+        id: transcriptRevisions.id,
+        previousText: transcriptRevisions.previousText,
+        text: transcriptRevisions.text,
+        createdAt: transcriptRevisions.createdAt,
+        authorEmail: users.email,
+      })
+      .from(transcriptRevisions)
+      .leftJoin(users, eq(users.id, transcriptRevisions.createdBy))
+      .where(eq(transcriptRevisions.segmentId, data.segmentId))
+      .orderBy(desc(transcriptRevisions.createdAt))
+  })
+
+// Restores the text a revision replaced. The restore is itself recorded as a
+// revision, so it can be undone too.
+export const revertSegmentRevision = createServerFn({ method: 'POST' })
+  .middleware([requireEditor])
+  .inputValidator((input: { revisionId: string }) => input)
+  .handler(async ({ data, context }) => {
+    const db = getDb(env.DB)
+    const [revision] = await db
+      .select()
+      .from(transcriptRevisions)
+      .where(eq(transcriptRevisions.id, data.revisionId))
+      .limit(1)
+
+    if (!revision) throw new Error('Revision not found')
+
+    const [segment] = await db
+      .select()
+      .from(transcriptSegments)
+      .where(eq(transcriptSegments.id, revision.segmentId))
+      .limit(1)
+
+    if (!segment) throw new Error('Segment not found')
+    if (segment.text === revision.previousText) return segment
+
+    return setSegmentText(
+      segment,
+      revision.previousText,
+      revision.previousWords,
+      context.principal.userId,
+    )
+  })
+
+// ==================== Glossary ====================
+// Canonical spellings of names and jargon. New transcripts pick them up in
+// the workflow; reapplyGlossary runs them over existing ones.
+
+type GlossaryTermInput = {
+  term: string
+  variants: string[]
+  podcastId: string | null
+}
+
+function normalizeGlossaryTerm(input: GlossaryTermInput) {
+  const term = input.term.replace(/\s+/g, ' ').trim()
+  if (!term) throw new Error('Term is required')
+
+  const seen = new Set([term.toLowerCase()])
+  const variants: string[] = []
+  for (const raw of input.variants) {
+    const variant = raw.replace(/\s+/g, ' ').trim()
+    if (!variant || seen.has(variant.toLowerCase())) continue
+    seen.add(variant.toLowerCase())
+    variants.push(variant)
+  }
+
+  return {
+    term,
+    variants: JSON.stringify(variants),
+    podcastId: input.podcastId || null,
+  }
+}
+
+export const getGlossaryTerms = createServerFn({ method: 'GET' })
+  .middleware([requireViewer])
+  .handler(async () => {
+    const db = getDb(env.DB)
+
+    const rows = await db
+      .select({
+        id: glossaryTerms.id,
+        term: glossaryTerms.term,
+        variants: glossaryTerms.variants,
+        podcastId: glossaryTerms.podcastId,
+        podcastTitle: podcasts.title,
+        updatedAt: glossaryTerms.updatedAt,
+      })
+      .from(glossaryTerms)
+      .leftJoin(podcasts, eq(podcasts.id, glossaryTerms.podcastId))
+      .orderBy(glossaryTerms.term)
+
+    return rows.map((row) => ({
+      ...row,
+      variants: parseVariants(row.variants),
+    }))
+  })
+
+export const createGlossaryTerm = createServerFn({ method: 'POST' })
+  .middleware([requireEditor])
+  .inputValidator((input: GlossaryTermInput) => input)
+  .handler(async ({ data }) => {
+    const db = getDb(env.DB)
+    const now = new Date()
+
+    const term = {
+      id: nanoid(),
+      ...normalizeGlossaryTerm(data),
+      createdAt: now,
+      updatedAt: now,
+    }
+    await db.insert(glossaryTerms).values(term)
+
+    return { id: term.id }
+  })
+
+export const updateGlossaryTerm = createServerFn({ method: 'POST' })
+  .middleware([requireEditor])
+  .inputValidator((input: GlossaryTermInput & { termId: string }) => input)
+  .handler(async ({ data }) => {
+    const db = getDb(env.DB)
+
+    const updated = await db
+      .update(glossaryTerms)
+      .set({ ...normalizeGlossaryTerm(data), updatedAt: new Date() })
+      .where(eq(glossaryTerms.id, data.termId))
+      .returning({ id: glossaryTerms.id })
+
+    if (updated.length === 0) throw new Error('Glossary term not found')
+
+    return { success: true }
+  })
+
+export const deleteGlossaryTerm = createServerFn({ method: 'POST' })
+  .middleware([requireEditor])
+  .inputValidator((input: { termId: string }) => input)
+  .handler(async ({ data }) => {
+    const db = getDb(env.DB)
+    await db.delete(glossaryTerms).where(eq(glossaryTerms.id, data.termId))
+    return { success: true }
+  })
+
+export const reapplyGlossary = createServerFn({ method: 'POST' })
+  .middleware([requireEditor])
+  .inputValidator((input: { podcastId?: string | null } | undefined) => input ?? {})
+  .handler(async ({ data, context }) => {
+    assertNotStasis()
+
+    const instance = await (env as any).GLOSSARY_WORKFLOW.create({
+      params: {
+        podcastId: data.podcastId || null,
+        requestedBy: context.principal.userId,
+      },
+    })
+
+    return { jobId: instance.id as string }
+  })
+
+export const getGlossaryJob = createServerFn({ method: 'GET' })
+  .middleware([requireEditor])
+  .inputValidator((input: { jobId: string }) => input)
+  .handler(async ({ data }) => {
+    const instance = await (env as any).GLOSSARY_WORKFLOW.get(data.jobId)
+    const status = await instance.status()
+
+    return {
+      status: status.status as string,
+      output: (status.output ?? null) as {
+        episodes: number
+        updatedSegments: number
+      } | null,
+      error: status.error ? String(status.error.message ?? status.error) : null,
+    }
+  })
+
+// ==================== Clips ====================
+// Saved ranges of an episode. The quote is copied from the transcript when
+// the clip is made, so a clip reads the same after the episode is reprocessed.
+
+const MAX_CLIP_SECONDS = 10 * 60
+const MAX_CLIP_NOTE_LENGTH = 1000
+
+export const getClips = createServerFn({ method: 'GET' })
+  .middleware([requireViewer])
+  .inputValidator((input: { episodeId?: string } | undefined) => input ?? {})
+  .handler(async ({ data }) => {
+    const db = getDb(env.DB)
+
+    return db
+      .select({
+        id: clips.id,
+        episodeId: clips.episodeId,
+        startTime: clips.startTime,
+        endTime: clips.endTime,
+        quote: clips.quote,
+        note: clips.note,
+        createdBy: clips.createdBy,
+        createdAt: clips.createdAt,
+        creatorEmail: users.email,
+        episodeTitle: episodes.title,
+        podcastId: podcasts.id,
+        podcastTitle: podcasts.title,
+      })
+      .from(clips)
+      .innerJoin(episodes, eq(episodes.id, clips.episodeId))
+      .innerJoin(podcasts, eq(podcasts.id, episodes.podcastId))
+      .leftJoin(users, eq(users.id, clips.createdBy))
+      .where(data.episodeId ? eq(clips.episodeId, data.episodeId) : undefined)
+      .orderBy(desc(clips.createdAt))
+      .limit(200)
+  })
+
+export const createClip = createServerFn({ method: 'POST' })
+  .middleware([requireEditor])
+  .inputValidator(
+    (input: {
+      episodeId: string
+      startTime: number
+      endTime: number
+      note?: string
+    }) => input,
+  )
+  .handler(async ({ data, context }) => {
+    const { startTime, endTime } = data
+    if (
+      !Number.isFinite(startTime) ||
+      !Number.isFinite(endTime) ||
+      startTime < 0 ||
+      endTime <= startTime
+    ) {
+      throw new Error('Clip must end after it starts')
+    }
+    if (endTime - startTime > MAX_CLIP_SECONDS) {
+      throw new Error(`Clips can be at most ${MAX_CLIP_SECONDS / 60} minutes long`)
+    }
+
+    const note = data.note?.trim() || null
+    if (note && note.length > MAX_CLIP_NOTE_LENGTH) {
+      throw new Error(`Notes can be at most ${MAX_CLIP_NOTE_LENGTH} characters`)
+    }
+
+    const db = getDb(env.DB)
+    const segments = await db
+      .select({ text: transcriptSegments.text })
+      .from(transcriptSegments)
+      .where(
+        and(
+          eq(transcriptSegments.episodeId, data.episodeId),
+          lt(transcriptSegments.startTime, endTime),
+          gt(transcriptSegments.endTime, startTime),
+        ),
+      )
+      .orderBy(transcriptSegments.segmentIndex)
+
+    if (segments.length === 0) {
+      throw new Error('No transcript in the selected range')
+    }
+
+    const clip = {
+      id: nanoid(),
+      episodeId: data.episodeId,
+      startTime,
+      endTime,
+      quote: segments.map((s) => s.text).join(' '),
+      note,
+      createdBy: context.principal.userId,
+      createdAt: new Date(),
+    }
+    await db.insert(clips).values(clip)
+
+    return clip
+  })
+
+export const deleteClip = createServerFn({ method: 'POST' })
+  .middleware([requireEditor])
+  .inputValidator((input: { clipId: string }) => input)
+  .handler(async ({ data, context }) => {
+    const db = getDb(env.DB)
+
+    const [clip] = await db
+      .select({ episodeId: clips.episodeId, createdBy: clips.createdBy })
+      .from(clips)
+      .where(eq(clips.id, data.clipId))
+      .limit(1)
+
+    if (!clip) throw new Error('Clip not found')
+
+    // Editors can delete their own clips; admins can delete any
+    if (
+      clip.createdBy !== context.principal.userId &&
+      !hasRole(context.principal, 'admin')
+    ) {
+      throw new ForbiddenError('admin')
+    }
+
+    await db.delete(clips).where(eq(clips.id, data.clipId))
+    await deleteSavedClipAudio(env as any, clip.episodeId, data.clipId)
+
+    return { success: true }
+  })
+
+// ==================== Entities ====================
+// People, organisations, products and places extracted during analysis and
+// linked to the transcript segments that mention them.
+
+const ENTITY_LIST_LIMIT = 200
+// Moments listed per episode on an entity's page
+const ENTITY_MOMENTS_PER_EPISODE = 20
+
+export const getEntities = createServerFn({ method: 'GET' })
+  .middleware([requireViewer])
+  .inputValidator(
+    (input: { type?: string; query?: string } | undefined) => input ?? {},
+  )
+  .handler(async ({ data }) => {
+    const db = getDb(env.DB)
+    const query = data.query?.trim().toLowerCase()
+
+    const conditions = [
+      data.type && isEntityType(data.type)
+        ? eq(entities.type, data.type)
+        : undefined,
+      query
+        ? sql`${entities.normalizedName} LIKE ${`%${query.replace(/[%_]/g, '')}%`}`
+        : undefined,
+    ].filter((c) => c !== undefined)
+
+    const episodeCount = sql<number>`count(distinct ${episodeEntities.episodeId})`
+
+    return db
+      .select({
+        id: entities.id,
+        name: entities.name,
+        type: entities.type,
+        episodeCount,
+        podcastCount: sql<number>`count(distinct ${episodes.podcastId})`,
+        mentionCount: sql<number>`sum(${episodeEntities.mentionCount})`,
+        lastMentionedAt: sql`max(${episodes.publishedAt})`.mapWith(
+          episodes.publishedAt,
+        ),
+      })
+      .from(entities)
+      .innerJoin(episodeEntities, eq(episodeEntities.entityId, entities.id))
+      .innerJoin(episodes, eq(episodes.id, episodeEntities.episodeId))
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .groupBy(entities.id)
+      .orderBy(desc(episodeCount), entities.name)
+      .limit(ENTITY_LIST_LIMIT)
+  })
+
+export const getEntityDetail = createServerFn({ method: 'GET' })
+  .middleware([requireViewer])
+  .inputValidator((input: { entityId: string }) => input)
+  .handler(async ({ data }) => {
+    const db = getDb(env.DB)
+
+    const [entity] = await db
+      .select()
+      .from(entities)
+      .where(eq(entities.id, data.entityId))
+      .limit(1)
+
+    if (!entity) throw new Error('Entity not found')
+
+    const appearances = await db
+      .select({
+        episodeId: episodes.id,
+        episodeTitle: episodes.title,
+        publishedAt: episodes.publishedAt,
+        podcastId: podcasts.id,
+        podcastTitle: podcasts.title,
+        mentionCount: episodeEntities.mentionCount,
+        mentions: episodeEntities.mentions,
+      })
+      .from(episodeEntities)
+      .innerJoin(episodes, eq(episodes.id, episodeEntities.episodeId))
+      .innerJoin(podcasts, eq(podcasts.id, episodes.podcastId))
+      .where(eq(episodeEntities.entityId, data.entityId))
+      .orderBy(desc(episodes.publishedAt))
+
+    const mentionsByEpisode = appearances.map((appearance) => {
+      try {
+        const mentions: EntityMention[] = JSON.parse(appearance.mentions)
+        return mentions.slice(0, ENTITY_MOMENTS_PER_EPISODE)
+      } catch {
+        return []
+      }
+    })
+
+    // Fetch the text of every linked segment, in batches to stay under D1's
+    // bound parameter limit
+    const segmentIds = mentionsByEpisode.flat().map((m) => m.segmentId)
+    const segmentText = new Map<string, string>()
+    for (let i = 0; i < segmentIds.length; i += 50) {
+      const rows = await db
+        .select({ id: transcriptSegments.id, text: transcriptSegments.text })
+        .from(transcriptSegments)
+        .where(inArray(transcriptSegments.id, segmentIds.slice(i, i + 50)))
+      for (const row of rows) segmentText.set(row.id, row.text)
+    }
+
+    return {
+      entity,
+      appearances: appearances.map(({ mentions: _, ...appearance }, i) => ({
+        ...appearance,
+        moments: mentionsByEpisode[i]
+          .filter((m) => segmentText.has(m.segmentId))
+          .map((m) => ({
+            segmentId: m.segmentId,
+            startTime: m.startTime,
+            text: segmentText.get(m.segmentId)!,
+          })),
+      })),
+    }
+  })
+
+// ==================== Tags ====================
+// Canonical topic tags. Editors fold variants together by merging tags or
+// adding aliases; the workflow resolves the model's tags through both.
+
+const TAG_LIST_LIMIT = 500
+const TAG_EPISODE_LIMIT = 200
+
+export const getTags = createServerFn({ method: 'GET' })
+  .middleware([requireViewer])
+  .handler(async () => {
+    const db = getDb(env.DB)
+    const episodeCount = sql<number>`count(${episodeTags.id})`
+
+    const rows = await db
+      .select({
+        id: tags.id,
+        name: tags.name,
+        episodeCount,
+        aliases: sql<string>`(
+          SELECT json_group_array(alias) FROM tag_aliases
+          WHERE tag_aliases.tag_id = ${tags.id}
+        )`,
+      })
+      .from(tags)
+      .leftJoin(episodeTags, eq(episodeTags.tagId, tags.id))
+      .groupBy(tags.id)
+      .orderBy(desc(episodeCount), tags.name)
+      .limit(TAG_LIST_LIMIT)
+
+    return rows.map((row) => ({
+      ...row,
+      aliases: JSON.parse(row.aliases) as string[],
+    }))
+  })
+
+export const getTagDetail = createServerFn({ method: 'GET' })
+  .middleware([requireViewer])
+  .inputValidator((input: { tag: string }) => input)
+  .handler(async ({ data }) => {
+    const db = getDb(env.DB)
+    const name = normalizeTag(data.tag)
+
+    const [byName] = await db
+      .select({ id: tags.id, name: tags.name })
+      .from(tags)
+      .where(eq(tags.name, name))
+      .limit(1)
+    // Aliases resolve to their canonical tag, so old links keep working
+    // after a merge
+    const [byAlias] = byName
+      ? []
+      : await db
+          .select({ id: tags.id, name: tags.name })
+          .from(tagAliases)
+          .innerJoin(tags, eq(tags.id, tagAliases.tagId))
+          .where(eq(tagAliases.alias, name))
+          .limit(1)
+    const tag = byName ?? byAlias
+    if (!tag) throw new Error('Tag not found')
+
+    const aliases = await db
+      .select({ alias: tagAliases.alias })
+      .from(tagAliases)
+      .where(eq(tagAliases.tagId, tag.id))
+      .orderBy(tagAliases.alias)
+
+    const tagEpisodes = await db
+      .select({
+        id: episodes.id,
+        title: episodes.title,
+        publishedAt: episodes.publishedAt,
+        podcastId: podcasts.id,
+        podcastTitle: podcasts.title,
+        summary: episodeAnalyses.summary,
+      })
+      .from(episodeTags)
+      .innerJoin(episodes, eq(episodes.id, episodeTags.episodeId))
+      .innerJoin(podcasts, eq(podcasts.id, episodes.podcastId))
+      .leftJoin(episodeAnalyses, eq(episodeAnalyses.episodeId, episodes.id))
+      .where(eq(episodeTags.tagId, tag.id))
+      .orderBy(desc(episodes.publishedAt))
+      .limit(TAG_EPISODE_LIMIT)
+
+    return {
+      tag,
+      aliases: aliases.map((a) => a.alias),
+      episodes: tagEpisodes,
+    }
+  })
+
+export const mergeTag = createServerFn({ method: 'POST' })
+  .middleware([requireEditor])
+  .inputValidator((input: { sourceTagId: string; targetTagId: string }) => input)
+  .handler(async ({ data }) => {
+    await mergeTags(env as any, data.sourceTagId, data.targetTagId)
+    return { success: true }
+  })
+
+export const addTagAlias = createServerFn({ method: 'POST' })
+  .middleware([requireEditor])
+  .inputValidator((input: { tagId: string; alias: string }) => input)
+  .handler(async ({ data }) => {
+    const db = getDb(env.DB)
+    const alias = normalizeTag(data.alias)
+    if (!alias) throw new Error('Alias is required')
+
+    const [existing] = await db
+      .select({ id: tags.id })
+      .from(tags)
+      .where(eq(tags.name, alias))
+      .limit(1)
+    if (existing) {
+      throw new Error(
+        existing.id === data.tagId
+          ? 'A tag cannot be an alias of itself'
+          : `"${alias}" is already a tag. Merge it instead`,
+      )
+    }
+
+    await db
+      .insert(tagAliases)
+      .values({ alias, tagId: data.tagId, createdAt: new Date() })
+      .onConflictDoUpdate({
+        target: tagAliases.alias,
+        set: { tagId: data.tagId },
+      })
+
+    return { alias }
+  })
+
+export const removeTagAlias = createServerFn({ method: 'POST' })
+  .middleware([requireEditor])
+  .inputValidator((input: { alias: string }) => input)
+  .handler(async ({ data }) => {
+    const db = getDb(env.DB)
+    await db.delete(tagAliases).where(eq(tagAliases.alias, data.alias))
+    return { success: true }
+  })
+
+// ==================== Trends ====================
+
+export const getTopicTrends = createServerFn({ method: 'GET' })
+  .middleware([requireViewer])
+  .inputValidator(
+    (input: { kind?: string; interval?: string; podcastId?: string }) => input,
+  )
+  .handler(async ({ data }) => {
+    const kind: TrendKind = (TREND_KINDS as readonly string[]).includes(
+      data.kind ?? '',
+    )
+      ? (data.kind as TrendKind)
+      : 'tag'
+    const interval: TrendInterval = (
+      TREND_INTERVALS as readonly string[]
+    ).includes(data.interval ?? '')
+      ? (data.interval as TrendInterval)
+      : 'week'
+
+    const db = getDb(env.DB)
+    const [trends, podcastList] = await Promise.all([
+      computeTopicTrends(env as any, {
+        kind,
+        interval,
+        podcastId: data.podcastId,
+      }),
+      db
+        .select({ id: podcasts.id, title: podcasts.title })
+        .from(podcasts)
+        .orderBy(podcasts.title),
+    ])
+
+    return { ...trends, podcasts: podcastList }
+  })
+
+// ==================== Narratives ====================
+// Claims from episode analyses clustered by embedding similarity, to show
+// where a talking point started and which shows picked it up.
+
+const NARRATIVE_LIST_LIMIT = 200
+
+export const getNarratives = createServerFn({ method: 'GET' })
+  .middleware([requireViewer])
+  .inputValidator((input: { all?: boolean } | undefined) => input ?? {})
+  .handler(async ({ data }) => {
+    const db = getDb(env.DB)
+
+    return db
+      .select({
+        id: narratives.id,
+        label: narratives.label,
+        firstSeenAt: narratives.firstSeenAt,
+        lastSeenAt: narratives.lastSeenAt,
+        claimCount: narratives.claimCount,
+        episodeCount: narratives.episodeCount,
+        podcastCount: narratives.podcastCount,
+        originEpisodeId: episodes.id,
+        originEpisodeTitle: episodes.title,
+        originPodcastTitle: podcasts.title,
+      })
+      .from(narratives)
+      .innerJoin(episodes, eq(episodes.id, narratives.firstEpisodeId))
+      .innerJoin(podcasts, eq(podcasts.id, episodes.podcastId))
+      // Unless asked for everything, only claims that spread beyond one show
+      .where(data.all ? undefined : gte(narratives.podcastCount, 2))
+      .orderBy(desc(narratives.podcastCount), desc(narratives.lastSeenAt))
+      .limit(NARRATIVE_LIST_LIMIT)
+  })
+
+export const getNarrativeDetail = createServerFn({ method: 'GET' })
+  .middleware([requireViewer])
+  .inputValidator((input: { narrativeId: string }) => input)
+  .handler(async ({ data }) => {
+    const db = getDb(env.DB)
+
+    const [narrative] = await db
+      .select({
+        id: narratives.id,
+        label: narratives.label,
+        firstSeenAt: narratives.firstSeenAt,
+        lastSeenAt: narratives.lastSeenAt,
+        claimCount: narratives.claimCount,
+        episodeCount: narratives.episodeCount,
+        podcastCount: narratives.podcastCount,
+      })
+      .from(narratives)
+      .where(eq(narratives.id, data.narrativeId))
+      .limit(1)
+
+    if (!narrative) throw new Error('Narrative not found')
+
+    const claims = await db
+      .select({
+        text: narrativeClaims.text,
+        episodeId: episodes.id,
+        episodeTitle: episodes.title,
+        publishedAt: episodes.publishedAt,
+        podcastId: podcasts.id,
+        podcastTitle: podcasts.title,
+      })
+      .from(narrativeClaims)
+      .innerJoin(episodes, eq(episodes.id, narrativeClaims.episodeId))
+      .innerJoin(podcasts, eq(podcasts.id, episodes.podcastId))
+      .where(eq(narrativeClaims.narrativeId, data.narrativeId))
+      .orderBy(episodes.publishedAt, narrativeClaims.createdAt)
+
+    return { narrative, ...buildNarrativeTimeline(claims) }
+  })
+
+// ==================== Search ====================
+// Backed by the transcript_segments_fts and episode_analyses_fts FTS5 tables,
+// which are kept in sync by triggers (see migrations/0001_search_index.sql).
+
+const SEARCH_RESULT_LIMIT = 50
+const SNIPPET_TOKENS = 16
+
+function ftsSnippet(table: string, column: number) {
+  return sql.raw(
+    `snippet(${table}, ${column}, '${SNIPPET_MATCH_START}', '${SNIPPET_MATCH_END}', '…', ${SNIPPET_TOKENS})`,
+  )
+}
+
+export const searchCorpus = createServerFn({ method: 'GET' })
+  .middleware([requireViewer])
+  .inputValidator((input: { query: string }) => input)
+  .handler(async ({ data }) => {
+    const match = buildFtsQuery(data.query)
+    if (!match) return { query: data.query, segments: [], analyses: [] }
+
+    const db = getDb(env.DB)
+
+    const segmentRows = await db.all<{
+      segmentId: string
+      episodeId: string
+      startTime: number
+      snippet: string
+      episodeTitle: string
+      publishedAt: number
+      podcastId: string
+      podcastTitle: string
+    }>(sql`
+      SELECT
+        ts.id AS segmentId,
+        ts.episode_id AS episodeId,
+        ts.start_time AS startTime,
+        ${ftsSnippet('transcript_segments_fts', 0)} AS snippet,
+        e.title AS episodeTitle,
+        e.published_at AS publishedAt,
+        p.id AS podcastId,
+        p.title AS podcastTitle
+      FROM transcript_segments_fts
+      JOIN transcript_segments ts ON ts.rowid = transcript_segments_fts.rowid
+      JOIN episodes e ON e.id = ts.episode_id
+      JOIN podcasts p ON p.id = e.podcast_id
+      WHERE transcript_segments_fts MATCH ${match}
+      ORDER BY transcript_segments_fts.rank
+      LIMIT ${SEARCH_RESULT_LIMIT}
+    `)
+
+    const analysisRows = await db.all<{
+      episodeId: string
+      summarySnippet: string
+      tagsSnippet: string
+      quotesSnippet: string
+      episodeTitle: string
+      publishedAt: number
+      podcastId: string
+      podcastTitle: string
+    }>(sql`
+      SELECT
+        ea.episode_id AS episodeId,
+        ${ftsSnippet('episode_analyses_fts', 0)} AS summarySnippet,
+        ${ftsSnippet('episode_analyses_fts', 1)} AS tagsSnippet,
+        ${ftsSnippet('episode_analyses_fts', 2)} AS quotesSnippet,
+        e.title AS episodeTitle,
+        e.published_at AS publishedAt,
+        p.id AS podcastId,
+        p.title AS podcastTitle
+      FROM episode_analyses_fts
+      JOIN episode_analyses ea ON ea.rowid = episode_analyses_fts.rowid
+      JOIN episodes e ON e.id = ea.episode_id
+      JOIN podcasts p ON p.id = e.podcast_id
+      WHERE episode_analyses_fts MATCH ${match}
+      ORDER BY episode_analyses_fts.rank
+      LIMIT ${SEARCH_RESULT_LIMIT}
+    `)
+
+    const analyses = analysisRows.map((row) => {
+      // Report whichever column actually contains a highlighted match
+      const hasMatch = (s: string | null) => !!s?.includes(SNIPPET_MATCH_START)
+      const [source, snippet] = hasMatch(row.summarySnippet)
+        ? (['summary', row.summarySnippet] as const)
+        : hasMatch(row.tagsSnippet)
+          ? (['tags', cleanJsonSnippet(row.tagsSnippet)] as const)
+          : (['quote', cleanJsonSnippet(row.quotesSnippet)] as const)
+
+      return {
+        episodeId: row.episodeId,
+        source,
+        snippet,
+        episodeTitle: row.episodeTitle,
+        // Raw SQL bypasses Drizzle's timestamp mapping (stored as seconds)
+        publishedAt: new Date(row.publishedAt * 1000),
+        podcastId: row.podcastId,
+        podcastTitle: row.podcastTitle,
+      }
+    })
+
+    const segments = segmentRows.map((row) => ({
+      ...row,
+      publishedAt: new Date(row.publishedAt * 1000),
+    }))
+
+    return { query: data.query, segments, analyses }
+  })
+
+// Semantic search finds transcript windows close in meaning to the query, so
+// it catches paraphrases that share no keywords. Windows are embedded by the
+// episode workflow and stored in the vector index (see ~/lib/vector-index).
+
+const SEMANTIC_RESULT_LIMIT = 20
+const MAX_SEMANTIC_QUERY_LENGTH = 1000
+
+export const semanticSearch = createServerFn({ method: 'GET' })
+  .middleware([requireViewer])
+  .inputValidator(
+    (input: { query?: string; segmentId?: string; podcastId?: string }) =>
+      input,
+  )
+  .handler(async ({ data }) => {
+    // Either free text, or "moments like this one": the text of the window
+    // containing a segment, excluding that window from the results
+    let text = data.query?.trim().slice(0, MAX_SEMANTIC_QUERY_LENGTH) ?? ''
+    let source: { segmentId: string; episodeId: string; text: string } | null =
+      null
+    const excludeIds: string[] = []
+
+    if (data.segmentId) {
+      const window = await segmentWindowText(env as any, data.segmentId)
+      if (!window) throw new Error('Segment not found')
+      text = window.text
+      source = {
+        segmentId: data.segmentId,
+        episodeId: window.episodeId,
+        text: window.text,
+      }
+      excludeIds.push(window.windowId)
+    }
+
+    if (!text) return { query: data.query ?? '', source, results: [] }
+
+    const results = await searchTranscripts(env as any, text, {
+      limit: SEMANTIC_RESULT_LIMIT,
+      podcastId: data.podcastId,
+      excludeIds,
+    })
+
+    return { query: data.query ?? '', source, results }
   })
 
 // ==================== Admin Functions ====================
 
 export const addPodcast = createServerFn({ method: 'POST' })
+  .middleware([requireEditor])
   .inputValidator((input: { feedUrl: string }) => input)
   .handler(async ({ data }) => {
-    assertNotDemo()
     // Resolve Apple Podcasts / iTunes links to RSS feed URLs
     const feedUrl = await resolveToFeedUrl(data.feedUrl)
     const feed = await parseFeed(feedUrl)
@@ -184,6 +1414,7 @@ export const addPodcast = createServerFn({ method: 'POST' })
       feedUrl,
       imageUrl: feed.imageUrl || null,
       description: feed.description || null,
+      ...podcastFeedColumns(feed),
       addedAt: new Date(),
       active: true,
     })
@@ -192,9 +1423,9 @@ export const addPodcast = createServerFn({ method: 'POST' })
   })
 
 export const removePodcast = createServerFn({ method: 'POST' })
+  .middleware([requireAdmin])
   .inputValidator((input: { podcastId: string }) => input)
   .handler(async ({ data }) => {
-    assertNotDemo()
     const db = getDb(env.DB)
 
     // Get all episodes for this podcast
@@ -218,20 +1449,66 @@ export const removePodcast = createServerFn({ method: 'POST' })
     const episodeIds = podcastEpisodes.map((e) => e.id)
 
     if (episodeIds.length > 0) {
+      // Delete transcript revisions
+      await db
+        .delete(transcriptRevisions)
+        .where(sql`${transcriptRevisions.episodeId} IN (${sql.join(episodeIds.map(id => sql`${id}`), sql`, `)})`)
+
       // Delete transcript segments
       await db
         .delete(transcriptSegments)
         .where(sql`${transcriptSegments.episodeId} IN (${sql.join(episodeIds.map(id => sql`${id}`), sql`, `)})`)
 
-      // Delete episode analyses
+      // Delete speakers
+      await db
+        .delete(speakers)
+        .where(sql`${speakers.episodeId} IN (${sql.join(episodeIds.map(id => sql`${id}`), sql`, `)})`)
+
+      // Delete episode analyses, entity links and chapters
+      await db
+        .delete(episodeAnalyses)
+        .where(sql`${episodeAnalyses.episodeId} IN (${sql.join(episodeIds.map(id => sql`${id}`), sql`, `)})`)
+      await db
+        .delete(episodeEntities)
+        .where(sql`${episodeEntities.episodeId} IN (${sql.join(episodeIds.map(id => sql`${id}`), sql`, `)})`)
+      await db
+        .delete(episodeTags)
+        .where(sql`${episodeTags.episodeId} IN (${sql.join(episodeIds.map(id => sql`${id}`), sql`, `)})`)
+      await db
+        .delete(episodeChapters)
+        .where(sql`${episodeChapters.episodeId} IN (${sql.join(episodeIds.map(id => sql`${id}`), sql`, `)})`)
+      await removeEpisodeClaims(env as any, episodeIds)
+      await removeEpisodeWindows(env as any, episodeIds)
+
+      // Delete processing history
+      await db
+        .delete(episodeEvents)
+        .where(sql`${episodeEvents.episodeId} IN (${sql.join(episodeIds.map(id => sql`${id}`), sql`, `)})`)
+
+      // Delete clips
+      await db
+        .delete(clips)
+        .where(sql`${clips.episodeId} IN (${sql.join(episodeIds.map(id => sql`${id}`), sql`, `)})`)
+
+      // Delete audio seek indexes and cut audio clips
       await db
-        .delete(episodeAnalyses)
-        .where(sql`${episodeAnalyses.episodeId} IN (${sql.join(episodeIds.map(id => sql`${id}`), sql`, `)})`)
+        .delete(audioSeekIndexes)
+        .where(sql`${audioSeekIndexes.episodeId} IN (${sql.join(episodeIds.map(id => sql`${id}`), sql`, `)})`)
+      await deleteAudioClips(env as any, episodeIds)
+      await deleteCachedChunks(env as any, episodeIds)
 
       // Delete episodes
       await db.delete(episodes).where(eq(episodes.podcastId, data.podcastId))
     }
 
+    // Delete the podcast's glossary terms and feed poll jobs
+    await db
+      .delete(glossaryTerms)
+      .where(eq(glossaryTerms.podcastId, data.podcastId))
+    await db
+      .delete(feedPollJobs)
+      .where(eq(feedPollJobs.podcastId, data.podcastId))
+
     // Delete the podcast
     await db.delete(podcasts).where(eq(podcasts.id, data.podcastId))
 
@@ -239,9 +1516,9 @@ export const removePodcast = createServerFn({ method: 'POST' })
   })
 
 export const togglePodcast = createServerFn({ method: 'POST' })
+  .middleware([requireEditor])
   .inputValidator((input: { podcastId: string; active: boolean }) => input)
   .handler(async ({ data }) => {
-    assertNotDemo()
     const db = getDb(env.DB)
     await db
       .update(podcasts)
@@ -250,18 +1527,88 @@ export const togglePodcast = createServerFn({ method: 'POST' })
     return { success: true }
   })
 
-export const triggerPoll = createServerFn({ method: 'POST' }).handler(
-  async () => {
-    assertNotDemo()
+// Queues every active feed for polling now, whatever its schedule
+export const triggerPoll = createServerFn({ method: 'POST' })
+  .middleware([requireEditor])
+  .handler(async () => {
+    assertNotStasis()
+    return enqueueDueFeeds(env as any, { force: true })
+  })
+
+export const retryFeedPoll = createServerFn({ method: 'POST' })
+  .middleware([requireEditor])
+  .inputValidator((input: { jobId: string }) => input)
+  .handler(async ({ data }) => {
     assertNotStasis()
-    await pollAllFeeds(env as any)
+    await retryFeedPollJob(env as any, data.jobId)
     return { success: true }
-  },
-)
+  })
 
-export const cancelAllJobs = createServerFn({ method: 'POST' }).handler(
-  async () => {
-    assertNotDemo()
+export const dismissFeedPoll = createServerFn({ method: 'POST' })
+  .middleware([requireEditor])
+  .inputValidator((input: { jobId: string }) => input)
+  .handler(async ({ data }) => {
+    const db = getDb(env.DB)
+    await db
+      .delete(feedPollJobs)
+      .where(
+        and(eq(feedPollJobs.id, data.jobId), eq(feedPollJobs.status, 'dead')),
+      )
+    return { success: true }
+  })
+
+export const pollPodcastNow = createServerFn({ method: 'POST' })
+  .middleware([requireEditor])
+  .inputValidator((input: { podcastId: string }) => input)
+  .handler(async ({ data }) => {
+    assertNotStasis()
+    const db = getDb(env.DB)
+    const [podcast] = await db
+      .select()
+      .from(podcasts)
+      .where(eq(podcasts.id, data.podcastId))
+      .limit(1)
+    if (!podcast) throw new Error('Podcast not found')
+
+    return pollPodcast(env as any, podcast)
+  })
+
+export const setPollInterval = createServerFn({ method: 'POST' })
+  .middleware([requireEditor])
+  .inputValidator((input: { podcastId: string; minutes: number }) => input)
+  .handler(async ({ data }) => {
+    if (!(POLL_INTERVAL_OPTIONS as readonly number[]).includes(data.minutes)) {
+      throw new Error(
+        `Poll interval must be one of ${POLL_INTERVAL_OPTIONS.join(', ')} minutes`,
+      )
+    }
+
+    const db = getDb(env.DB)
+    const [podcast] = await db
+      .select()
+      .from(podcasts)
+      .where(eq(podcasts.id, data.podcastId))
+      .limit(1)
+    if (!podcast) throw new Error('Podcast not found')
+
+    // Reschedule from the last poll, keeping any backoff
+    const delay = nextPollDelayMinutes(data.minutes, podcast.consecutiveFailures)
+    await db
+      .update(podcasts)
+      .set({
+        pollIntervalMinutes: data.minutes,
+        nextPollAt: podcast.lastPolledAt
+          ? new Date(podcast.lastPolledAt.getTime() + delay * 60 * 1000)
+          : null,
+      })
+      .where(eq(podcasts.id, data.podcastId))
+
+    return { success: true }
+  })
+
+export const cancelAllJobs = createServerFn({ method: 'POST' })
+  .middleware([requireAdmin])
+  .handler(async () => {
     const db = getDb(env.DB)
 
     // Find all episodes that are currently processing
@@ -287,15 +1634,20 @@ export const cancelAllJobs = createServerFn({ method: 'POST' }).handler(
       // Reset to pending
       await db
         .update(episodes)
-        .set({ status: 'pending', workflowId: null, errorMessage: null })
+        .set({
+          status: 'pending',
+          workflowId: null,
+          errorMessage: null,
+          failedStep: null,
+          failedAttempts: null,
+        })
         .where(eq(episodes.id, episode.id))
 
       cancelledCount++
     }
 
     return { cancelledCount }
-  },
-)
+  })
 
 // Parses retention strings like "30m", "12h", "2d", "2w" into milliseconds.
 // Returns null if the input is missing or malformed.
@@ -330,9 +1682,9 @@ export const getRetentionPeriod = createServerFn({ method: 'GET' }).handler(
 // recently downloaded episode (audio in R2, transcript segments, analyses, and
 // the episode row). Anchors on the latest downloaded episode (not the current
 // date) so it works correctly while in stasis mode.
-export const cleanupOldAudio = createServerFn({ method: 'POST' }).handler(
-  async () => {
-    assertNotDemo()
+export const cleanupOldAudio = createServerFn({ method: 'POST' })
+  .middleware([requireAdmin])
+  .handler(async () => {
     const db = getDb(env.DB)
 
     const retention =
@@ -386,14 +1738,49 @@ export const cleanupOldAudio = createServerFn({ method: 'POST' }).handler(
       sql`, `,
     )
 
+    await db
+      .delete(transcriptRevisions)
+      .where(sql`${transcriptRevisions.episodeId} IN (${idList})`)
+
     await db
       .delete(transcriptSegments)
       .where(sql`${transcriptSegments.episodeId} IN (${idList})`)
 
+    await db
+      .delete(speakers)
+      .where(sql`${speakers.episodeId} IN (${idList})`)
+
     await db
       .delete(episodeAnalyses)
       .where(sql`${episodeAnalyses.episodeId} IN (${idList})`)
 
+    await db
+      .delete(episodeEntities)
+      .where(sql`${episodeEntities.episodeId} IN (${idList})`)
+
+    await db
+      .delete(episodeTags)
+      .where(sql`${episodeTags.episodeId} IN (${idList})`)
+
+    await db
+      .delete(episodeChapters)
+      .where(sql`${episodeChapters.episodeId} IN (${idList})`)
+
+    await removeEpisodeClaims(env as any, oldEpisodeIds)
+    await removeEpisodeWindows(env as any, oldEpisodeIds)
+
+    await db
+      .delete(episodeEvents)
+      .where(sql`${episodeEvents.episodeId} IN (${idList})`)
+
+    await db.delete(clips).where(sql`${clips.episodeId} IN (${idList})`)
+
+    await db
+      .delete(audioSeekIndexes)
+      .where(sql`${audioSeekIndexes.episodeId} IN (${idList})`)
+    await deleteAudioClips(env as any, oldEpisodeIds)
+    await deleteCachedChunks(env as any, oldEpisodeIds)
+
     await db.delete(episodes).where(sql`${episodes.id} IN (${idList})`)
 
     return {
@@ -402,41 +1789,63 @@ export const cleanupOldAudio = createServerFn({ method: 'POST' }).handler(
       cutoffDate: cutoffDate.toISOString(),
       retention: retention.label,
     }
-  },
-)
+  })
 
 export const resetEpisode = createServerFn({ method: 'POST' })
+  .middleware([requireEditor])
   .inputValidator((input: { episodeId: string }) => input)
   .handler(async ({ data }) => {
-    assertNotDemo()
     const db = getDb(env.DB)
 
-    // Delete existing transcript segments
+    // Delete existing transcript segments, their corrections and vectors,
+    // and any Whisper results kept from a failed run
+    await db
+      .delete(transcriptRevisions)
+      .where(eq(transcriptRevisions.episodeId, data.episodeId))
     await db
       .delete(transcriptSegments)
       .where(eq(transcriptSegments.episodeId, data.episodeId))
+    await db.delete(speakers).where(eq(speakers.episodeId, data.episodeId))
+    await removeEpisodeWindows(env as any, [data.episodeId])
+    await deleteCachedChunks(env as any, [data.episodeId])
 
-    // Delete existing analysis
+    // Delete existing analysis, entity links, tags, chapters and claims
     await db
       .delete(episodeAnalyses)
       .where(eq(episodeAnalyses.episodeId, data.episodeId))
+    await db
+      .delete(episodeEntities)
+      .where(eq(episodeEntities.episodeId, data.episodeId))
+    await db
+      .delete(episodeTags)
+      .where(eq(episodeTags.episodeId, data.episodeId))
+    await db
+      .delete(episodeChapters)
+      .where(eq(episodeChapters.episodeId, data.episodeId))
+    await removeEpisodeClaims(env as any, [data.episodeId])
 
     // Reset episode status
     await db
       .update(episodes)
-      .set({ status: 'pending', workflowId: null, errorMessage: null })
+      .set({
+        status: 'pending',
+        workflowId: null,
+        errorMessage: null,
+        failedStep: null,
+        failedAttempts: null,
+      })
       .where(eq(episodes.id, data.episodeId))
 
     return { success: true }
   })
 
 export const processEpisode = createServerFn({ method: 'POST' })
+  .middleware([requireEditor])
   .inputValidator(
     (input: { episodeId: string; podcastId: string; audioUrl: string }) =>
       input,
   )
   .handler(async ({ data }) => {
-    assertNotDemo()
     assertNotStasis()
     const instance = await (env as any).EPISODE_WORKFLOW.create({
       params: {
@@ -455,10 +1864,149 @@ export const processEpisode = createServerFn({ method: 'POST' })
     return { workflowId: instance.id }
   })
 
+// Restarts a failed episode from the stage its failed step belongs to. A
+// failure during analysis keeps the stored transcript and only re-analyses.
+export const retryEpisode = createServerFn({ method: 'POST' })
+  .middleware([requireEditor])
+  .inputValidator((input: { episodeId: string }) => input)
+  .handler(async ({ data }) => {
+    assertNotStasis()
+    const db = getDb(env.DB)
+
+    const [episode] = await db
+      .select()
+      .from(episodes)
+      .where(eq(episodes.id, data.episodeId))
+      .limit(1)
+
+    if (!episode) throw new Error('Episode not found')
+    if (episode.status !== 'error') {
+      throw new Error('Only failed episodes can be retried')
+    }
+
+    let resumeFrom = resumeStageForStep(episode.failedStep)
+    if (resumeFrom === 'analyze') {
+      const [segment] = await db
+        .select({ id: transcriptSegments.id })
+        .from(transcriptSegments)
+        .where(eq(transcriptSegments.episodeId, data.episodeId))
+        .limit(1)
+      if (!segment) resumeFrom = 'transcribe'
+    }
+
+    // Clear partial output from the failed run
+    if (resumeFrom !== 'analyze') {
+      await db
+        .delete(transcriptRevisions)
+        .where(eq(transcriptRevisions.episodeId, data.episodeId))
+      await db
+        .delete(transcriptSegments)
+        .where(eq(transcriptSegments.episodeId, data.episodeId))
+      await db.delete(speakers).where(eq(speakers.episodeId, data.episodeId))
+      await removeEpisodeWindows(env as any, [data.episodeId])
+    }
+    await db
+      .delete(episodeAnalyses)
+      .where(eq(episodeAnalyses.episodeId, data.episodeId))
+    await db
+      .delete(episodeEntities)
+      .where(eq(episodeEntities.episodeId, data.episodeId))
+    await db
+      .delete(episodeTags)
+      .where(eq(episodeTags.episodeId, data.episodeId))
+    await removeEpisodeClaims(env as any, [data.episodeId])
+
+    const instance = await (env as any).EPISODE_WORKFLOW.create({
+      params: {
+        episodeId: episode.id,
+        podcastId: episode.podcastId,
+        audioUrl: episode.audioUrl,
+        resumeFrom,
+      },
+    })
+
+    const statusByStage = {
+      download: 'downloading',
+      transcribe: 'transcribing',
+      analyze: 'analyzing',
+    } as const
+
+    await db
+      .update(episodes)
+      .set({
+        workflowId: instance.id,
+        status: statusByStage[resumeFrom],
+        errorMessage: null,
+        failedStep: null,
+        failedAttempts: null,
+      })
+      .where(eq(episodes.id, episode.id))
+
+    await recordEpisodeRetry(env as any, episode.id, instance.id, resumeFrom)
+
+    return { workflowId: instance.id, resumeFrom }
+  })
+
+// Re-runs analysis on the stored transcript, e.g. after it has been corrected
+export const reanalyzeEpisode = createServerFn({ method: 'POST' })
+  .middleware([requireEditor])
+  .inputValidator((input: { episodeId: string }) => input)
+  .handler(async ({ data }) => {
+    assertNotStasis()
+    const db = getDb(env.DB)
+
+    const [episode] = await db
+      .select()
+      .from(episodes)
+      .where(eq(episodes.id, data.episodeId))
+      .limit(1)
+
+    if (!episode) throw new Error('Episode not found')
+    if (episode.status !== 'complete') {
+      throw new Error('Only completed episodes can be re-analysed')
+    }
+
+    await db
+      .delete(episodeAnalyses)
+      .where(eq(episodeAnalyses.episodeId, data.episodeId))
+
+    const instance = await (env as any).EPISODE_WORKFLOW.create({
+      params: {
+        episodeId: episode.id,
+        podcastId: episode.podcastId,
+        audioUrl: episode.audioUrl,
+        resumeFrom: 'analyze',
+      },
+    })
+
+    await db
+      .update(episodes)
+      .set({ workflowId: instance.id, status: 'analyzing' })
+      .where(eq(episodes.id, episode.id))
+
+    return { workflowId: instance.id }
+  })
+
+export const getEpisodeEvents = createServerFn({ method: 'GET' })
+  .middleware([requireViewer])
+  .inputValidator((input: { episodeId: string }) => input)
+  .handler(async ({ data }) => {
+    const db = getDb(env.DB)
+
+    const events = await db
+      .select()
+      .from(episodeEvents)
+      .where(eq(episodeEvents.episodeId, data.episodeId))
+      .orderBy(desc(episodeEvents.createdAt))
+      .limit(50)
+
+    return { events }
+  })
+
 export const importPastEpisodes = createServerFn({ method: 'POST' })
+  .middleware([requireEditor])
   .inputValidator((input: { podcastId: string }) => input)
   .handler(async ({ data }) => {
-    assertNotDemo()
     const db = getDb(env.DB)
 
     const [podcast] = await db
@@ -499,10 +2047,7 @@ export const importPastEpisodes = createServerFn({ method: 'POST' })
       await db.insert(episodes).values({
         id: episodeId,
         podcastId: podcast.id,
-        title: item.title,
-        guid: item.guid,
-        audioUrl: item.audioUrl,
-        publishedAt: item.publishedAt,
+        ...episodeFeedColumns(item),
         status: 'pending',
         createdAt: new Date(),
       })
@@ -512,8 +2057,9 @@ export const importPastEpisodes = createServerFn({ method: 'POST' })
     return { importedCount }
   })
 
-export const getAdminData = createServerFn({ method: 'GET' }).handler(
-  async () => {
+export const getAdminData = createServerFn({ method: 'GET' })
+  .middleware([requireViewer])
+  .handler(async () => {
     const db = getDb(env.DB)
 
     const allPodcasts = await db
@@ -533,23 +2079,35 @@ export const getAdminData = createServerFn({ method: 'GET' }).handler(
       }),
     )
 
-    return { podcasts: podcastsWithEpisodes }
-  },
-)
+    // Feed polls that ran out of attempts
+    const feedPollFailures = await db
+      .select({
+        id: feedPollJobs.id,
+        podcastId: feedPollJobs.podcastId,
+        podcastTitle: podcasts.title,
+        attempts: feedPollJobs.attempts,
+        lastError: feedPollJobs.lastError,
+        updatedAt: feedPollJobs.updatedAt,
+      })
+      .from(feedPollJobs)
+      .innerJoin(podcasts, eq(podcasts.id, feedPollJobs.podcastId))
+      .where(eq(feedPollJobs.status, 'dead'))
+      .orderBy(desc(feedPollJobs.updatedAt))
+
+    return { podcasts: podcastsWithEpisodes, feedPollFailures }
+  })
 
 // ==================== Weekly Analysis ====================
 
 export const generateWeeklyAnalysis = createServerFn({
   method: 'POST',
 })
+  .middleware([requireEditor])
   .inputValidator((input?: { force?: boolean }) => input || {})
   .handler(async ({ data }) => {
-    assertNotDemo()
     const db = getDb(env.DB)
     const now = new Date()
     const twentyFourHoursAgo = new Date(now.getTime() - 24 * 60 * 60 * 1000)
-    const weekEnd = now
-    const weekStart = new Date(weekEnd.getTime() - 7 * 24 * 60 * 60 * 1000)
 
     // Check for existing analysis created within 24 hours (unless force refresh)
     if (!data?.force) {
@@ -571,84 +2129,248 @@ export const generateWeeklyAnalysis = createServerFn({
       }
     }
 
-    // Get the latest completed episode (with analysis) from each podcast
-    const allCompleted = await db
+    const weekEnd = now
+    const weekStart = new Date(weekEnd.getTime() - WEEK_MS)
+    const report = await generateWeeklyReport(env as any, {
+      weekStart,
+      weekEnd,
+    })
+    if (!report) throw new Error('A report for this week was just generated')
+
+    return { ...report, cached: false }
+  })
+
+export const getWeeklyReports = createServerFn({ method: 'GET' })
+  .middleware([requireViewer])
+  .handler(async () => {
+    const db = getDb(env.DB)
+
+    const reports = await db
       .select({
-        episodeId: episodes.id,
-        episodeTitle: episodes.title,
-        podcastId: episodes.podcastId,
-        publishedAt: episodes.publishedAt,
-        summary: episodeAnalyses.summary,
-        tags: episodeAnalyses.tags,
-        themes: episodeAnalyses.themes,
+        id: weeklyAnalyses.id,
+        weekStart: weeklyAnalyses.weekStart,
+        weekEnd: weeklyAnalyses.weekEnd,
+        trendingTopics: weeklyAnalyses.trendingTopics,
+        episodeIds: weeklyAnalyses.episodeIds,
+        createdAt: weeklyAnalyses.createdAt,
       })
-      .from(episodeAnalyses)
-      .innerJoin(episodes, eq(episodes.id, episodeAnalyses.episodeId))
-      .where(eq(episodes.status, 'complete'))
-      .orderBy(desc(episodes.publishedAt))
+      .from(weeklyAnalyses)
+      .orderBy(desc(weeklyAnalyses.weekEnd), desc(weeklyAnalyses.createdAt))
 
-    // Take the most recent episode per podcast
-    const seen = new Set<string>()
-    const recentAnalyses = allCompleted.filter((row) => {
-      if (seen.has(row.podcastId)) return false
-      seen.add(row.podcastId)
-      return true
-    })
+    return {
+      reports: reports.map(({ episodeIds, trendingTopics, ...report }) => ({
+        ...report,
+        trendingTopics: JSON.parse(trendingTopics) as string[],
+        episodeCount: (JSON.parse(episodeIds) as string[]).length,
+      })),
+    }
+  })
+
+export const getWeeklyReport = createServerFn({ method: 'GET' })
+  .middleware([requireViewer])
+  .inputValidator((input: { reportId: string }) => input)
+  .handler(async ({ data }) => {
+    const db = getDb(env.DB)
+
+    const [report] = await db
+      .select()
+      .from(weeklyAnalyses)
+      .where(eq(weeklyAnalyses.id, data.reportId))
+      .limit(1)
+
+    if (!report) throw new Error('Report not found')
+
+    // Episodes may have been removed by retention cleanup since the report
+    // was generated; list whichever still exist.
+    const episodeIds = JSON.parse(report.episodeIds) as string[]
+    const coveredEpisodes =
+      episodeIds.length > 0
+        ? await db
+            .select({
+              id: episodes.id,
+              title: episodes.title,
+              publishedAt: episodes.publishedAt,
+              podcastId: podcasts.id,
+              podcastTitle: podcasts.title,
+            })
+            .from(episodes)
+            .innerJoin(podcasts, eq(podcasts.id, episodes.podcastId))
+            .where(inArray(episodes.id, episodeIds))
+            .orderBy(podcasts.title, desc(episodes.publishedAt))
+        : []
+
+    // Neighbouring reports for navigating through the archive
+    const [previous] = await db
+      .select({ id: weeklyAnalyses.id, weekEnd: weeklyAnalyses.weekEnd })
+      .from(weeklyAnalyses)
+      .where(lt(weeklyAnalyses.weekEnd, report.weekEnd))
+      .orderBy(desc(weeklyAnalyses.weekEnd))
+      .limit(1)
+
+    const [next] = await db
+      .select({ id: weeklyAnalyses.id, weekEnd: weeklyAnalyses.weekEnd })
+      .from(weeklyAnalyses)
+      .where(gt(weeklyAnalyses.weekEnd, report.weekEnd))
+      .orderBy(weeklyAnalyses.weekEnd)
+      .limit(1)
+
+    return {
+      report,
+      episodes: coveredEpisodes,
+      previous: previous || null,
+      next: next || null,
+    }
+  })
+
+// ==================== Daily Digest ====================
+
+export const getDigests = createServerFn({ method: 'GET' })
+  .middleware([requireViewer])
+  .handler(async () => {
+    const db = getDb(env.DB)
 
-    if (recentAnalyses.length === 0) {
-      throw new Error('No completed episodes with analyses found')
+    const rows = await db
+      .select({
+        id: digests.id,
+        periodStart: digests.periodStart,
+        periodEnd: digests.periodEnd,
+        subject: digests.subject,
+        episodeIds: digests.episodeIds,
+        recipients: digests.recipients,
+        status: digests.status,
+        error: digests.error,
+        sentAt: digests.sentAt,
+        createdAt: digests.createdAt,
+      })
+      .from(digests)
+      .orderBy(desc(digests.periodEnd))
+      .limit(30)
+
+    return {
+      digests: rows.map(({ episodeIds, recipients, ...digest }) => ({
+        ...digest,
+        episodeCount: (JSON.parse(episodeIds) as string[]).length,
+        recipientCount: (JSON.parse(recipients) as string[]).length,
+      })),
+      subscriberCount: getDigestRecipients(env as any).length,
     }
+  })
+
+export const sendDigestNow = createServerFn({ method: 'POST' })
+  .middleware([requireEditor])
+  .handler(async () => {
+    const periodEnd = new Date()
+    const periodStart = new Date(periodEnd.getTime() - 24 * 60 * 60 * 1000)
 
-    // Get podcast titles
-    const podcastMap = new Map<string, string>()
-    const allPodcasts = await db.select().from(podcasts)
-    for (const p of allPodcasts) {
-      podcastMap.set(p.id, p.title)
+    const digest = await createDigest(env as any, { periodStart, periodEnd })
+    if (digest.status === 'empty') {
+      throw new Error('No episodes completed in the last 24 hours')
+    }
+    if (digest.status === 'duplicate') {
+      throw new Error('A digest was just sent')
     }
 
-    const inputs: WeeklyAnalysisInput[] = recentAnalyses.map((r) => ({
-      podcastTitle: podcastMap.get(r.podcastId) || 'Unknown',
-      episodeTitle: r.episodeTitle,
-      summary: r.summary,
-      tags: JSON.parse(r.tags),
-      themes: JSON.parse(r.themes),
-    }))
+    const result = await deliverDigest(env as any, digest.id)
+    return { id: digest.id, episodeCount: digest.episodeCount, ...result }
+  })
+
+export const resendDigest = createServerFn({ method: 'POST' })
+  .middleware([requireEditor])
+  .inputValidator((input: { digestId: string }) => input)
+  .handler(async ({ data }) => {
+    return deliverDigest(env as any, data.digestId)
+  })
 
-    const prompt = buildWeeklyAnalysisPrompt(inputs)
+// ==================== Users ====================
 
-    const result = (await (env as any).AI.run('@cf/zai-org/glm-4.7-flash', {
-      messages: [
-        { role: 'system', content: WEEKLY_ANALYSIS_SYSTEM_PROMPT },
-        { role: 'user', content: prompt },
-      ],
-      max_completion_tokens: 4096,
-    })) as any
+const MIN_PASSWORD_LENGTH = 10
 
-    // Handle GLM response format
-    const responseText =
-      result?.choices?.[0]?.message?.content || result?.response || ''
+export const getUsers = createServerFn({ method: 'GET' })
+  .middleware([requireAdmin])
+  .handler(async () => {
+    const db = getDb(env.DB)
+
+    const userList = await db
+      .select({
+        id: users.id,
+        email: users.email,
+        name: users.name,
+        role: users.role,
+        hasPassword: sql<boolean>`${users.passwordHash} IS NOT NULL`,
+        createdAt: users.createdAt,
+        lastLoginAt: users.lastLoginAt,
+      })
+      .from(users)
+      .orderBy(users.email)
 
-    const { analysis, trendingTopics } = parseWeeklyAnalysis(responseText)
+    return { users: userList }
+  })
 
-    // Delete old analyses and insert new one
-    await db.delete(weeklyAnalyses)
+export const createUser = createServerFn({ method: 'POST' })
+  .middleware([requireAdmin])
+  .inputValidator(
+    (input: { email: string; name?: string; password: string; role: Role }) =>
+      input,
+  )
+  .handler(async ({ data }) => {
+    if (!isRole(data.role)) throw new Error(`Unknown role "${data.role}"`)
+    if (data.password.length < MIN_PASSWORD_LENGTH) {
+      throw new Error(
+        `Password must be at least ${MIN_PASSWORD_LENGTH} characters`,
+      )
+    }
 
+    const db = getDb(env.DB)
     const id = nanoid()
-    await db.insert(weeklyAnalyses).values({
+    await db.insert(users).values({
       id,
-      weekStart,
-      weekEnd,
-      analysis,
-      trendingTopics: JSON.stringify(trendingTopics),
-      episodeIds: JSON.stringify(recentAnalyses.map((r) => r.episodeId)),
-      createdAt: now,
+      email: data.email.trim().toLowerCase(),
+      name: data.name?.trim() || null,
+      passwordHash: await hashPassword(data.password),
+      role: data.role,
+      createdAt: new Date(),
     })
 
-    return {
-      id,
-      analysis,
-      trendingTopics,
-      episodeCount: recentAnalyses.length,
-      cached: false,
-  }
-})
+    return { id }
+  })
+
+export const updateUserRole = createServerFn({ method: 'POST' })
+  .middleware([requireAdmin])
+  .inputValidator((input: { userId: string; role: Role }) => input)
+  .handler(async ({ data, context }) => {
+    if (!isRole(data.role)) throw new Error(`Unknown role "${data.role}"`)
+    if (data.userId === context.principal.userId && data.role !== 'admin') {
+      throw new Error('You cannot remove your own admin role')
+    }
+
+    const db = getDb(env.DB)
+    await db
+      .update(users)
+      .set({ role: data.role })
+      .where(eq(users.id, data.userId))
+
+    return { success: true }
+  })
+
+export const deleteUser = createServerFn({ method: 'POST' })
+  .middleware([requireAdmin])
+  .inputValidator((input: { userId: string }) => input)
+  .handler(async ({ data, context }) => {
+    if (data.userId === context.principal.userId) {
+      throw new Error('You cannot delete your own account')
+    }
+
+    const db = getDb(env.DB)
+    await db.delete(sessions).where(eq(sessions.userId, data.userId))
+    await db
+      .update(clips)
+      .set({ createdBy: null })
+      .where(eq(clips.createdBy, data.userId))
+    await db
+      .update(transcriptRevisions)
+      .set({ createdBy: null })
+      .where(eq(transcriptRevisions.createdBy, data.userId))
+    await db.delete(users).where(eq(users.id, data.userId))
+
+    return { success: true }
+  })
@@ -0,0 +1,169 @@
+import { nanoid } from 'nanoid'
+import {
+  and,
+  eq,
+  getTableName,
+  notInArray,
+  sql,
+  type Column,
+} from 'drizzle-orm'
+import { getDb } from '~/db'
+import { episodeTags, tagAliases, tags } from '~/db/schema'
+
+/**
+ * Canonical form of a tag: lowercased and single-spaced, without a leading
+ * "#". migrations/0012_tag_backfill.sql applies the same rules in SQL.
+ */
+export function normalizeTag(raw: string): string {
+  return raw
+    .toLowerCase()
+    .replace(/\s+/g, ' ')
+    .trim()
+    .replace(/^#+\s*/, '')
+}
+
+/**
+ * Resolves tag names to canonical tag IDs: through an alias if there is one,
+ * otherwise to the tag of that name, which is created if it doesn't exist.
+ */
+export async function resolveTagIds(
+  env: Env,
+  names: string[],
+): Promise<Map<string, string>> {
+  const db = getDb(env.DB)
+  const resolved = new Map<string, string>()
+
+  for (const name of names) {
+    if (!name || resolved.has(name)) continue
+
+    const [alias] = await db
+      .select({ tagId: tagAliases.tagId })
+      .from(tagAliases)
+      .where(eq(tagAliases.alias, name))
+      .limit(1)
+    if (alias) {
+      resolved.set(name, alias.tagId)
+      continue
+    }
+
+    await db
+      .insert(tags)
+      .values({ id: nanoid(), name, createdAt: new Date() })
+      .onConflictDoNothing({ target: tags.name })
+    const [tag] = await db
+      .select({ id: tags.id })
+      .from(tags)
+      .where(eq(tags.name, name))
+      .limit(1)
+    if (tag) resolved.set(name, tag.id)
+  }
+
+  return resolved
+}
+
+/**
+ * Replaces an episode's tags with the model's tags, normalised to canonical
+ * tags. Tags that resolve to the same canonical tag are linked once, at the
+ * position of the first.
+ */
+export async function storeEpisodeTags(
+  env: Env,
+  episodeId: string,
+  rawTags: unknown[],
+): Promise<void> {
+  const db = getDb(env.DB)
+
+  await db.delete(episodeTags).where(eq(episodeTags.episodeId, episodeId))
+
+  const names = rawTags
+    .filter((t): t is string => typeof t === 'string')
+    .map(normalizeTag)
+    .filter(Boolean)
+  const tagIds = await resolveTagIds(env, names)
+
+  const linked = new Set<string>()
+  for (const name of names) {
+    const tagId = tagIds.get(name)
+    if (!tagId || linked.has(tagId)) continue
+    linked.add(tagId)
+    await db.insert(episodeTags).values({
+      id: nanoid(),
+      episodeId,
+      tagId,
+      position: linked.size - 1,
+    })
+  }
+}
+
+/**
+ * An episode's canonical tag names as a JSON array in the model's order, for
+ * selecting alongside other episode columns.
+ */
+export function episodeTagNames(episodeId: Column) {
+  // Drizzle leaves columns unqualified in single-table queries, which would
+  // bind them to the subquery's tables, so every name is spelled out here
+  const outer = sql`${sql.identifier(getTableName(episodeId.table))}.${sql.identifier(episodeId.name)}`
+  return sql<string>`(
+    SELECT json_group_array(name) FROM (
+      SELECT t.name AS name FROM episode_tags et
+      INNER JOIN tags t ON t.id = et.tag_id
+      WHERE et.episode_id = ${outer}
+      ORDER BY et.position
+    )
+  )`
+}
+
+/**
+ * Merges one tag into another: the source's episodes and aliases move to the
+ * target, and the source's name becomes an alias so the model's future uses
+ * of it resolve to the target.
+ */
+export async function mergeTags(
+  env: Env,
+  sourceId: string,
+  targetId: string,
+): Promise<void> {
+  if (sourceId === targetId) throw new Error('Cannot merge a tag into itself')
+
+  const db = getDb(env.DB)
+  const [source] = await db
+    .select()
+    .from(tags)
+    .where(eq(tags.id, sourceId))
+    .limit(1)
+  const [target] = await db
+    .select({ id: tags.id })
+    .from(tags)
+    .where(eq(tags.id, targetId))
+    .limit(1)
+  if (!source || !target) throw new Error('Tag not found')
+
+  // Episodes tagged with both keep only the target
+  await db
+    .update(episodeTags)
+    .set({ tagId: targetId })
+    .where(
+      and(
+        eq(episodeTags.tagId, sourceId),
+        notInArray(
+          episodeTags.episodeId,
+          db
+            .select({ episodeId: episodeTags.episodeId })
+            .from(episodeTags)
+            .where(eq(episodeTags.tagId, targetId)),
+        ),
+      ),
+    )
+  await db.delete(episodeTags).where(eq(episodeTags.tagId, sourceId))
+
+  await db
+    .update(tagAliases)
+    .set({ tagId: targetId })
+    .where(eq(tagAliases.tagId, sourceId))
+  await db
+    .insert(tagAliases)
+    .values({ alias: source.name, tagId: targetId, createdAt: new Date() })
+    .onConflictDoUpdate({ target: tagAliases.alias, set: { tagId: targetId } })
+
+  await db.delete(tags).where(eq(tags.id, sourceId))
+}
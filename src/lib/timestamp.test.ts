@@ -0,0 +1,168 @@
+import { describe, expect, it } from 'vitest'
+import { realignWords, stitchWords, type Word } from './timestamp'
+
+// One word per second from `start`, each half a second long
+function timed(text: string, start = 0): Word[] {
+  return text
+    .split(' ')
+    .map((word, i) => ({ word, start: start + i, end: start + i + 0.5 }))
+}
+
+// Word and start time, to show which chunk each stitched word came from
+function stamps(words: Word[]): string[] {
+  return words.map((w) => `${w.word}@${w.start}`)
+}
+
+const bounds = { start: 0, end: 4 }
+
+describe('realignWords', () => {
+  it('keeps the timings of unchanged words', () => {
+    expect(realignWords(timed('a b c d'), 'A b, c d.', bounds)).toEqual([
+      { word: 'A', start: 0, end: 0.5 },
+      { word: 'b,', start: 1, end: 1.5 },
+      { word: 'c', start: 2, end: 2.5 },
+      { word: 'd.', start: 3, end: 3.5 },
+    ])
+  })
+
+  it('drops deleted words', () => {
+    expect(realignWords(timed('a b c d'), 'a c d', bounds)).toEqual([
+      { word: 'a', start: 0, end: 0.5 },
+      { word: 'c', start: 2, end: 2.5 },
+      { word: 'd', start: 3, end: 3.5 },
+    ])
+  })
+
+  it('places inserted words between their neighbours', () => {
+    expect(realignWords(timed('a b c d'), 'a b X c d', bounds)).toEqual([
+      { word: 'a', start: 0, end: 0.5 },
+      { word: 'b', start: 1, end: 1.5 },
+      { word: 'X', start: 1.5, end: 2 },
+      { word: 'c', start: 2, end: 2.5 },
+      { word: 'd', start: 3, end: 3.5 },
+    ])
+  })
+
+  it('gives replacement words the time of the words they replace', () => {
+    expect(realignWords(timed('a b c d'), 'a X c d', bounds)).toEqual([
+      { word: 'a', start: 0, end: 0.5 },
+      { word: 'X', start: 1, end: 1.5 },
+      { word: 'c', start: 2, end: 2.5 },
+      { word: 'd', start: 3, end: 3.5 },
+    ])
+    // A run of replaced words is shared evenly
+    expect(realignWords(timed('a b c d'), 'a X Y Z d', bounds)).toEqual([
+      { word: 'a', start: 0, end: 0.5 },
+      { word: 'X', start: 1, end: 1.5 },
+      { word: 'Y', start: 1.5, end: 2 },
+      { word: 'Z', start: 2, end: 2.5 },
+      { word: 'd', start: 3, end: 3.5 },
+    ])
+  })
+
+  it('gives a replacement the time of words deleted next to it', () => {
+    expect(realignWords(timed('a b c d'), 'a X d', bounds)).toEqual([
+      { word: 'a', start: 0, end: 0.5 },
+      { word: 'X', start: 1, end: 2.5 },
+      { word: 'd', start: 3, end: 3.5 },
+    ])
+  })
+
+  it('does not carry a deletion past a match into a later replacement', () => {
+    expect(realignWords(timed('a b c d'), 'a c X', bounds)).toEqual([
+      { word: 'a', start: 0, end: 0.5 },
+      { word: 'c', start: 2, end: 2.5 },
+      { word: 'X', start: 3, end: 3.5 },
+    ])
+  })
+
+  it('spreads the text over the bounds when there are no old words', () => {
+    expect(realignWords([], 'a b', bounds)).toEqual([
+      { word: 'a', start: 0, end: 2 },
+      { word: 'b', start: 2, end: 4 },
+    ])
+  })
+})
+
+describe('stitchWords', () => {
+  it('cuts in the middle of the matching run', () => {
+    const previous = timed('a b c d e f')
+    const next = timed('D, e f g h', 3.2)
+    expect(stamps(stitchWords(previous, next, { start: 3, end: 6 }))).toEqual([
+      'a@0',
+      'b@1',
+      'c@2',
+      'd@3',
+      'e@4.2',
+      'f@5.2',
+      'g@6.2',
+      'h@7.2',
+    ])
+  })
+
+  it('trusts a single matching word when one side has only one word', () => {
+    const previous = timed('a b c')
+    const next = timed('c', 2.2)
+    expect(stamps(stitchWords(previous, next, { start: 2, end: 3 }))).toEqual([
+      'a@0',
+      'b@1',
+      'c@2.2',
+    ])
+  })
+
+  it('ignores a single matching word otherwise', () => {
+    const previous = timed('a b c d')
+    const next = timed('c y z', 2.2)
+    expect(stamps(stitchWords(previous, next, { start: 2, end: 4 }))).toEqual([
+      'a@0',
+      'b@1',
+      'c@2',
+      'y@3.2',
+      'z@4.2',
+    ])
+  })
+
+  it('cuts at the midpoint when nothing matches', () => {
+    const previous = timed('a b c d')
+    const next = timed('w x y z', 2)
+    expect(stamps(stitchWords(previous, next, { start: 2, end: 4 }))).toEqual([
+      'a@0',
+      'b@1',
+      'c@2',
+      'x@3',
+      'y@4',
+      'z@5',
+    ])
+  })
+
+  it('does not match words timed too far apart', () => {
+    const previous = timed('a b c d')
+    const next = timed('c d e', 3.5)
+    expect(stamps(stitchWords(previous, next, { start: 2, end: 4 }))).toEqual([
+      'a@0',
+      'b@1',
+      'c@2',
+      'c@3.5',
+      'd@4.5',
+      'e@5.5',
+    ])
+  })
+
+  it('appends the words after an empty overlap', () => {
+    const previous = timed('a b c')
+    const next = timed('c d e', 2)
+    expect(stamps(stitchWords(previous, next, { start: 3, end: 3 }))).toEqual([
+      'a@0',
+      'b@1',
+      'c@2',
+      'd@3',
+      'e@4',
+    ])
+  })
+
+  it('returns the other side when one is empty', () => {
+    const words = timed('a b')
+    expect(stitchWords([], words, { start: 0, end: 1 })).toBe(words)
+    expect(stitchWords(words, [], { start: 0, end: 1 })).toEqual(words)
+  })
+})
@@ -9,16 +9,20 @@ export interface Segment {
   startTime: number
   endTime: number
   words: Word[]
+  speaker: string | null
 }
 
 /**
  * Groups words into readable sentence-like segments.
  * Prefers breaking at sentence-ending punctuation (.!?)
  * Falls back to breaking at target word count.
+ * When per-word speaker labels are given, always breaks where the speaker
+ * changes so each segment has a single speaker.
  */
 export function groupWordsIntoSegments(
   words: Word[],
   targetWordsPerSegment: number = 15,
+  speakers?: (string | null)[],
 ): Segment[] {
   if (words.length === 0) return []
 
@@ -32,13 +36,21 @@ export function groupWordsIntoSegments(
     const endsWithPunctuation = /[.!?]$/.test(wordText)
     const atTarget = currentWords.length >= targetWordsPerSegment
     const isLast = i === words.length - 1
+    const speakerChanges =
+      !!speakers && !isLast && speakers[i + 1] !== speakers[i]
 
-    if ((endsWithPunctuation && currentWords.length >= 5) || atTarget || isLast) {
+    if (
+      (endsWithPunctuation && currentWords.length >= 5) ||
+      atTarget ||
+      isLast ||
+      speakerChanges
+    ) {
       segments.push({
         text: currentWords.map((w) => w.word).join(' ').trim(),
         startTime: currentWords[0].start,
         endTime: currentWords[currentWords.length - 1].end,
         words: [...currentWords],
+        speaker: speakers?.[i] ?? null,
       })
       currentWords = []
     }
@@ -46,3 +58,189 @@ export function groupWordsIntoSegments(
 
   return segments
 }
+
+// How far apart (in seconds) the same word may be timed by two chunks
+const STITCH_TIME_TOLERANCE = 1.0
+
+function normalizeWord(word: string): string {
+  return word.toLowerCase().replace(/[^\p{L}\p{N}']/gu, '')
+}
+
+/**
+ * Joins the words of two consecutive transcription chunks whose audio
+ * overlaps between `overlap.start` and `overlap.end` (absolute seconds).
+ *
+ * Words near a chunk's edges are the least reliable, so the two streams are
+ * aligned on the longest run of matching words (same text, similar timing)
+ * inside the overlap and cut in the middle of that run. Without a match, the
+ * cut falls at the midpoint of the overlap.
+ */
+export function stitchWords(
+  previous: Word[],
+  next: Word[],
+  overlap: { start: number; end: number },
+): Word[] {
+  if (previous.length === 0) return next
+  if (next.length === 0 || overlap.end <= overlap.start) {
+    return previous.concat(next.filter((w) => w.start >= overlap.end))
+  }
+
+  // Candidate words from each side that fall inside the overlap
+  let tailStart = previous.length
+  while (
+    tailStart > 0 &&
+    previous[tailStart - 1].end > overlap.start - STITCH_TIME_TOLERANCE
+  ) {
+    tailStart--
+  }
+  let headEnd = 0
+  while (
+    headEnd < next.length &&
+    next[headEnd].start < overlap.end + STITCH_TIME_TOLERANCE
+  ) {
+    headEnd++
+  }
+
+  const tail = previous.slice(tailStart).map((w) => normalizeWord(w.word))
+  const head = next.slice(0, headEnd).map((w) => normalizeWord(w.word))
+
+  // Longest run of consecutive matching words
+  let best = { length: 0, tailIndex: 0, headIndex: 0 }
+  for (let i = 0; i < tail.length; i++) {
+    for (let j = 0; j < head.length; j++) {
+      let length = 0
+      while (
+        i + length < tail.length &&
+        j + length < head.length &&
+        tail[i + length] !== '' &&
+        tail[i + length] === head[j + length] &&
+        Math.abs(
+          previous[tailStart + i + length].start - next[j + length].start,
+        ) <= STITCH_TIME_TOLERANCE
+      ) {
+        length++
+      }
+      if (length > best.length) best = { length, tailIndex: i, headIndex: j }
+    }
+  }
+
+  // A single matching word is only trusted when one side has just one word
+  const minRun = Math.min(2, tail.length, head.length)
+  if (best.length >= minRun && best.length > 0) {
+    const middle = Math.floor(best.length / 2)
+    return previous
+      .slice(0, tailStart + best.tailIndex + middle)
+      .concat(next.slice(best.headIndex + middle))
+  }
+
+  const midpoint = (overlap.start + overlap.end) / 2
+  return previous
+    .filter((w) => w.start < midpoint)
+    .concat(next.filter((w) => w.start >= midpoint))
+}
+
+/**
+ * Re-times a corrected segment. The new text is split into words and aligned
+ * against the old words (minimum edit distance on normalised text); words
+ * that survive the edit keep their timings, and replaced or inserted words
+ * share the time span of the old words they stand in for.
+ */
+export function realignWords(
+  words: Word[],
+  text: string,
+  bounds: { start: number; end: number },
+): Word[] {
+  const tokens = text.split(/\s+/).filter(Boolean)
+  if (tokens.length === 0) return []
+  if (words.length === 0) {
+    return spreadWords(tokens, bounds.start, bounds.end)
+  }
+
+  const oldNorm = words.map((w) => normalizeWord(w.word))
+  const newNorm = tokens.map(normalizeWord)
+  const n = oldNorm.length
+  const m = newNorm.length
+
+  // cost[i][j]: edits to turn old words i.. into new words j..
+  const cost: number[][] = Array.from({ length: n + 1 }, () =>
+    new Array<number>(m + 1).fill(0),
+  )
+  for (let i = n; i >= 0; i--) {
+    for (let j = m; j >= 0; j--) {
+      if (i === n) cost[i][j] = m - j
+      else if (j === m) cost[i][j] = n - i
+      else {
+        cost[i][j] = Math.min(
+          cost[i + 1][j + 1] + (oldNorm[i] === newNorm[j] ? 0 : 1),
+          cost[i + 1][j] + 1,
+          cost[i][j + 1] + 1,
+        )
+      }
+    }
+  }
+
+  // Walk the alignment, collecting runs of unmatched words between matches
+  const result: Word[] = []
+  let pendingTokens: string[] = []
+  let pendingStart: number | null = null
+  let pendingEnd: number | null = null
+
+  // Runs at every matched word, so time from deleted words never carries
+  // past a match into a later replacement
+  const flush = (nextStart: number) => {
+    if (pendingTokens.length > 0) {
+      const previousEnd =
+        result.length > 0 ? result[result.length - 1].end : bounds.start
+      const start = pendingStart ?? previousEnd
+      const end = pendingEnd ?? Math.max(start, nextStart)
+      result.push(...spreadWords(pendingTokens, start, end))
+    }
+    pendingTokens = []
+    pendingStart = null
+    pendingEnd = null
+  }
+
+  let i = 0
+  let j = 0
+  while (i < n || j < m) {
+    if (
+      i < n &&
+      j < m &&
+      oldNorm[i] === newNorm[j] &&
+      cost[i][j] === cost[i + 1][j + 1]
+    ) {
+      flush(words[i].start)
+      result.push({ ...words[i], word: tokens[j] })
+      i++
+      j++
+    } else if (i < n && j < m && cost[i][j] === cost[i + 1][j + 1] + 1) {
+      // Substitution: the new word takes the old word's time
+      pendingTokens.push(tokens[j])
+      pendingStart ??= words[i].start
+      pendingEnd = words[i].end
+      i++
+      j++
+    } else if (i < n && cost[i][j] === cost[i + 1][j] + 1) {
+      // Deletion: the old word's time goes to any replacement around it
+      pendingStart ??= words[i].start
+      pendingEnd = words[i].end
+      i++
+    } else {
+      pendingTokens.push(tokens[j])
+      j++
+    }
+  }
+  flush(bounds.end)
+
+  return result
+}
+
+// Evenly divides a time span between words
+function spreadWords(tokens: string[], start: number, end: number): Word[] {
+  const step = (end - start) / tokens.length
+  return tokens.map((word, i) => ({
+    word,
+    start: start + i * step,
+    end: start + (i + 1) * step,
+  }))
+}
@@ -0,0 +1,87 @@
+/**
+ * Whisper results per audio chunk, kept in R2 while an episode is being
+ * transcribed. A retried run reuses the chunks an earlier run finished and
+ * only sends the rest to Whisper. The cache is cleared once the transcript
+ * is stored.
+ */
+
+export interface CachedChunk {
+  text: string
+  words: { word: string; start: number; end: number }[]
+  duration: number
+}
+
+interface StoredChunk extends CachedChunk {
+  // Whisper's initial prompt: a chunk transcribed with other glossary terms
+  // is transcribed again
+  prompt: string
+}
+
+function chunkPrefix(episodeId: string): string {
+  return `transcription-chunks/${episodeId}/`
+}
+
+// Keyed by the byte range, so a different chunk plan never reuses a result
+function chunkKey(
+  episodeId: string,
+  chunk: { offset: number; length: number },
+): string {
+  return `${chunkPrefix(episodeId)}${chunk.offset}-${chunk.length}.json`
+}
+
+/**
+ * The stored result for a chunk, or null if it hasn't been transcribed with
+ * this prompt.
+ */
+export async function loadCachedChunk(
+  env: Env,
+  episodeId: string,
+  chunk: { offset: number; length: number },
+  prompt: string,
+): Promise<CachedChunk | null> {
+  const object = await env.AUDIO_BUCKET.get(chunkKey(episodeId, chunk))
+  if (!object) return null
+  try {
+    const stored = (await object.json()) as StoredChunk
+    if (stored.prompt !== prompt) return null
+    return { text: stored.text, words: stored.words, duration: stored.duration }
+  } catch {
+    // A partial or corrupt write is transcribed again
+    return null
+  }
+}
+
+export async function saveCachedChunk(
+  env: Env,
+  episodeId: string,
+  chunk: { offset: number; length: number },
+  prompt: string,
+  result: CachedChunk,
+): Promise<void> {
+  const stored: StoredChunk = { ...result, prompt }
+  await env.AUDIO_BUCKET.put(chunkKey(episodeId, chunk), JSON.stringify(stored), {
+    httpMetadata: { contentType: 'application/json' },
+  })
+}
+
+/**
+ * Removes the cached chunk results of the given episodes from R2.
+ */
+export async function deleteCachedChunks(
+  env: Env,
+  episodeIds: string[],
+): Promise<void> {
+  for (const episodeId of episodeIds) {
+    let cursor: string | undefined
+    do {
+      const listing = await env.AUDIO_BUCKET.list({
+        prefix: chunkPrefix(episodeId),
+        cursor,
+      })
+      if (listing.objects.length > 0) {
+        await env.AUDIO_BUCKET.delete(listing.objects.map((o) => o.key))
+      }
+      cursor = listing.truncated ? listing.cursor : undefined
+    } while (cursor)
+  }
+}
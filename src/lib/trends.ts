@@ -0,0 +1,208 @@
+import { sql } from 'drizzle-orm'
+import { getDb } from '~/db'
+
+export const TREND_KINDS = ['tag', 'theme'] as const
+export type TrendKind = (typeof TREND_KINDS)[number]
+
+export const TREND_INTERVALS = ['day', 'week'] as const
+export type TrendInterval = (typeof TREND_INTERVALS)[number]
+
+// Buckets shown per chart: a month of days or a quarter of weeks
+export const TREND_BUCKETS: Record<TrendInterval, number> = {
+  day: 30,
+  week: 12,
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+// Topics returned per query, ranked by how often they came up
+const MAX_TOPICS = 60
+// Biggest movers listed each way
+const MAX_MOVERS = 10
+
+export interface TopicTrend {
+  topic: string
+  // Episodes mentioning the topic in each bucket, oldest first
+  counts: number[]
+  // Episodes in this window and the window of equal length before it
+  current: number
+  previous: number
+  // Podcasts that mentioned the topic in this window
+  podcastCount: number
+}
+
+export interface TopicTrends {
+  kind: TrendKind
+  interval: TrendInterval
+  // Start of each bucket as YYYY-MM-DD (UTC), oldest first
+  buckets: string[]
+  topics: TopicTrend[]
+  // Largest increases and decreases against the previous window
+  rising: TopicTrend[]
+  falling: TopicTrend[]
+}
+
+function bucketLength(interval: TrendInterval): number {
+  return interval === 'day' ? DAY_MS : 7 * DAY_MS
+}
+
+function isoDate(date: Date): string {
+  return date.toISOString().slice(0, 10)
+}
+
+/**
+ * Start (UTC midnight) of the bucket containing `date`. Weeks start on
+ * Monday, matching the SQL in bucketSql.
+ */
+export function bucketStart(date: Date, interval: TrendInterval): Date {
+  const day = new Date(
+    Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()),
+  )
+  if (interval === 'day') return day
+  const sinceMonday = (day.getUTCDay() + 6) % 7
+  return new Date(day.getTime() - sinceMonday * DAY_MS)
+}
+
+/**
+ * The `count` bucket start dates ending with the bucket that contains `end`.
+ */
+export function trendBuckets(
+  end: Date,
+  interval: TrendInterval,
+  count: number,
+): Date[] {
+  const step = bucketLength(interval)
+  const last = bucketStart(end, interval).getTime()
+  return Array.from(
+    { length: count },
+    (_, i) => new Date(last - (count - 1 - i) * step),
+  )
+}
+
+// Bucket key of an episode's publish date, as YYYY-MM-DD
+function bucketSql(interval: TrendInterval) {
+  return interval === 'day'
+    ? sql.raw(`date(e.published_at, 'unixepoch')`)
+    : sql.raw(`date(e.published_at, 'unixepoch', '-6 days', 'weekday 1')`)
+}
+
+interface TrendRow {
+  topic: string
+  bucket: string
+  episodes: number
+  podcasts: string
+}
+
+/**
+ * Counts, per topic and bucket, the episodes that mention it: canonical tags
+ * from episode_tags, or themes from the analyses' JSON. Covers the window
+ * ending at `end` and the window of equal length before it, so each topic
+ * can be compared with the previous period.
+ */
+export async function getTopicTrends(
+  env: Env,
+  options: {
+    kind: TrendKind
+    interval: TrendInterval
+    podcastId?: string
+    end?: Date
+  },
+): Promise<TopicTrends> {
+  const db = getDb(env.DB)
+  const { kind, interval, podcastId } = options
+  const count = TREND_BUCKETS[interval]
+
+  const buckets = trendBuckets(options.end ?? new Date(), interval, count)
+  const step = bucketLength(interval)
+  const windowStart = buckets[0]
+  const windowEnd = new Date(buckets[buckets.length - 1].getTime() + step)
+  const previousStart = new Date(windowStart.getTime() - count * step)
+
+  // Timestamps are stored as seconds
+  const range = sql`e.published_at >= ${Math.floor(previousStart.getTime() / 1000)}
+    AND e.published_at < ${Math.floor(windowEnd.getTime() / 1000)}
+    AND e.status = 'complete'
+    ${podcastId ? sql`AND e.podcast_id = ${podcastId}` : sql``}`
+  const bucket = bucketSql(interval)
+
+  const rows =
+    kind === 'tag'
+      ? await db.all<TrendRow>(sql`
+          SELECT
+            t.name AS topic,
+            ${bucket} AS bucket,
+            count(*) AS episodes,
+            group_concat(DISTINCT e.podcast_id) AS podcasts
+          FROM episode_tags et
+          JOIN tags t ON t.id = et.tag_id
+          JOIN episodes e ON e.id = et.episode_id
+          WHERE ${range}
+          GROUP BY t.id, bucket
+        `)
+      : await db.all<TrendRow>(sql`
+          SELECT
+            lower(trim(CASE WHEN j.type = 'object' THEN json_extract(j.value, '$.theme') END)) AS topic,
+            ${bucket} AS bucket,
+            count(DISTINCT e.id) AS episodes,
+            group_concat(DISTINCT e.podcast_id) AS podcasts
+          FROM episode_analyses ea
+          JOIN episodes e ON e.id = ea.episode_id,
+            json_each(CASE WHEN json_valid(ea.themes) THEN ea.themes ELSE '[]' END) j
+          WHERE ${range}
+            AND topic <> ''
+          GROUP BY topic, bucket
+        `)
+
+  const keys = buckets.map(isoDate)
+  const bucketIndex = new Map(keys.map((key, i) => [key, i]))
+  const byTopic = new Map<
+    string,
+    { counts: number[]; previous: number; podcasts: Set<string> }
+  >()
+
+  for (const row of rows) {
+    let trend = byTopic.get(row.topic)
+    if (!trend) {
+      trend = { counts: keys.map(() => 0), previous: 0, podcasts: new Set() }
+      byTopic.set(row.topic, trend)
+    }
+    const i = bucketIndex.get(row.bucket)
+    if (i === undefined) {
+      trend.previous += row.episodes
+    } else {
+      trend.counts[i] += row.episodes
+      for (const id of row.podcasts.split(',')) trend.podcasts.add(id)
+    }
+  }
+
+  const all: TopicTrend[] = [...byTopic.entries()].map(([topic, trend]) => ({
+    topic,
+    counts: trend.counts,
+    current: trend.counts.reduce((sum, n) => sum + n, 0),
+    previous: trend.previous,
+    podcastCount: trend.podcasts.size,
+  }))
+  const change = (t: TopicTrend) => t.current - t.previous
+
+  return {
+    kind,
+    interval,
+    buckets: keys,
+    topics: all
+      .filter((t) => t.current > 0)
+      .sort(
+        (a, b) =>
+          b.current - a.current ||
+          b.podcastCount - a.podcastCount ||
+          a.topic.localeCompare(b.topic),
+      )
+      .slice(0, MAX_TOPICS),
+    rising: all
+      .filter((t) => change(t) > 0)
+      .sort((a, b) => change(b) - change(a) || b.current - a.current)
+      .slice(0, MAX_MOVERS),
+    falling: all
+      .filter((t) => change(t) < 0)
+      .sort((a, b) => change(a) - change(b) || b.previous - a.previous)
+      .slice(0, MAX_MOVERS),
+  }
+}
@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest'
+import { readLimitedText } from './utils'
+
+// A body streamed in pieces, with no Content-Length
+function streamed(pieces: string[]) {
+  const encoder = new TextEncoder()
+  let cancelled = false
+  const body = new ReadableStream<Uint8Array>({
+    pull(controller) {
+      const piece = pieces.shift()
+      if (piece === undefined) controller.close()
+      else controller.enqueue(encoder.encode(piece))
+    },
+    cancel() {
+      cancelled = true
+    },
+  })
+  return { response: new Response(body), cancelled: () => cancelled }
+}
+
+describe('readLimitedText', () => {
+  it('decodes a body within the limit', async () => {
+    // "é" is split across two pieces
+    const bytes = new TextEncoder().encode('café')
+    const body = new ReadableStream<Uint8Array>({
+      start(controller) {
+        controller.enqueue(bytes.subarray(0, 4))
+        controller.enqueue(bytes.subarray(4))
+        controller.close()
+      },
+    })
+    expect(await readLimitedText(new Response(body), 5)).toBe('café')
+  })
+
+  it('stops reading once the body passes the limit', async () => {
+    const { response, cancelled } = streamed(['12345', '67890', 'abcde'])
+    expect(await readLimitedText(response, 8)).toBeNull()
+    expect(cancelled()).toBe(true)
+  })
+
+  it('returns an empty string for a response without a body', async () => {
+    expect(await readLimitedText(new Response(null), 10)).toBe('')
+  })
+})
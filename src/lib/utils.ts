@@ -15,3 +15,52 @@ export function formatTime(seconds: number): string {
   }
   return `${m}:${String(s).padStart(2, '0')}`
 }
+
+// Speakers without a display name are shown by their diarization label
+export function speakerName(speaker: {
+  label: string
+  displayName: string | null
+}): string {
+  return speaker.displayName || `Speaker ${speaker.label.replace(/^S/, '')}`
+}
+
+// How long after a narrative's origin something appeared, e.g. "+5h" or "+3 days"
+export function formatLag(ms: number): string {
+  const hours = Math.round(ms / (60 * 60 * 1000))
+  if (hours < 1) return 'same hour'
+  if (hours < 48) return `+${hours}h`
+  return `+${Math.round(hours / 24)} days`
+}
+
+/**
+ * Reads a response body as text, or returns null once it passes `maxBytes`.
+ * Counts the bytes as they arrive, so a missing or wrong Content-Length
+ * can't make it buffer more than the limit.
+ */
+export async function readLimitedText(
+  response: Response,
+  maxBytes: number,
+): Promise<string | null> {
+  if (!response.body) return ''
+  const reader = response.body.getReader()
+  const parts: Uint8Array[] = []
+  let total = 0
+  while (true) {
+    const { done, value } = await reader.read()
+    if (done) break
+    total += value.length
+    if (total > maxBytes) {
+      await reader.cancel()
+      return null
+    }
+    parts.push(value)
+  }
+
+  const bytes = new Uint8Array(total)
+  let offset = 0
+  for (const part of parts) {
+    bytes.set(part, offset)
+    offset += part.length
+  }
+  return new TextDecoder().decode(bytes)
+}
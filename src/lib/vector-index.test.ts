@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest'
+import {
+  createVectorIndex,
+  MemoryVectorIndex,
+  type VectorRecord,
+} from './vector-index'
+
+function record(
+  id: string,
+  values: number[],
+  podcastId = 'show-a',
+): VectorRecord {
+  return { id, values, metadata: { episodeId: `episode-${id}`, podcastId } }
+}
+
+describe('MemoryVectorIndex', () => {
+  it('returns the closest vectors first, up to topK', async () => {
+    const index = new MemoryVectorIndex()
+    await index.upsert([
+      record('far', [0, 1]),
+      record('near', [1, 0.1]),
+      record('nearest', [1, 0]),
+      record('opposite', [-1, 0]),
+    ])
+
+    const matches = await index.query([1, 0], { topK: 3 })
+
+    expect(matches.map((m) => m.id)).toEqual(['nearest', 'near', 'far'])
+    expect(matches[0].score).toBeCloseTo(1)
+    expect(matches[2].score).toBeCloseTo(0)
+  })
+
+  it('only returns vectors of the given podcast', async () => {
+    const index = new MemoryVectorIndex()
+    await index.upsert([
+      record('a1', [1, 0], 'show-a'),
+      record('b1', [1, 0], 'show-b'),
+      record('a2', [0.5, 0.5], 'show-a'),
+    ])
+
+    const matches = await index.query([1, 0], { topK: 10, podcastId: 'show-a' })
+
+    expect(matches.map((m) => m.id)).toEqual(['a1', 'a2'])
+  })
+
+  it('replaces vectors by ID and deletes them', async () => {
+    const index = new MemoryVectorIndex()
+    await index.upsert([record('a', [1, 0]), record('b', [0, 1])])
+    await index.upsert([record('a', [0, 1])])
+    await index.deleteByIds(['b', 'missing'])
+
+    const matches = await index.query([0, 1], { topK: 10 })
+
+    expect(matches).toEqual([{ id: 'a', score: 1 }])
+  })
+})
+
+describe('createVectorIndex', () => {
+  it('uses the in-memory index without a Vectorize binding', () => {
+    expect(createVectorIndex({} as Env).name).toBe('memory')
+    expect(
+      createVectorIndex({ VECTOR_INDEX: 'memory', TRANSCRIPT_INDEX: {} } as any)
+        .name,
+    ).toBe('memory')
+  })
+
+  it('uses Vectorize when the binding exists', () => {
+    expect(createVectorIndex({ TRANSCRIPT_INDEX: {} } as any).name).toBe(
+      'vectorize',
+    )
+  })
+
+  it('rejects unusable settings', () => {
+    expect(() => createVectorIndex({ VECTOR_INDEX: 'vectorize' } as any)).toThrow(
+      'no TRANSCRIPT_INDEX binding',
+    )
+    expect(() => createVectorIndex({ VECTOR_INDEX: 'pinecone' } as any)).toThrow(
+      'Unknown VECTOR_INDEX "pinecone"',
+    )
+  })
+})
@@ -0,0 +1,132 @@
+import { cosineSimilarity } from '~/lib/embeddings'
+
+export interface VectorRecord {
+  id: string
+  values: number[]
+  // Filterable fields. Vectorize needs a metadata index on each one.
+  metadata: { episodeId: string; podcastId: string }
+}
+
+export interface VectorMatch {
+  id: string
+  score: number
+}
+
+export interface VectorQueryOptions {
+  topK: number
+  podcastId?: string
+}
+
+/**
+ * Anything that can store vectors and find the nearest ones to a query by
+ * cosine similarity.
+ */
+export interface VectorIndex {
+  readonly name: string
+  upsert(records: VectorRecord[]): Promise<void>
+  query(vector: number[], options: VectorQueryOptions): Promise<VectorMatch[]>
+  deleteByIds(ids: string[]): Promise<void>
+}
+
+// Vectorize accepts up to 1000 vectors or IDs per call
+const VECTORIZE_BATCH = 1000
+// and returns at most 100 matches when values and metadata are left out
+const VECTORIZE_MAX_TOP_K = 100
+
+/**
+ * A Cloudflare Vectorize index. Mutations are applied asynchronously, so
+ * new vectors take a few seconds to show up in queries.
+ */
+export class VectorizeVectorIndex implements VectorIndex {
+  readonly name = 'vectorize'
+
+  constructor(private readonly binding: Vectorize) {}
+
+  async upsert(records: VectorRecord[]): Promise<void> {
+    for (let i = 0; i < records.length; i += VECTORIZE_BATCH) {
+      await this.binding.upsert(records.slice(i, i + VECTORIZE_BATCH))
+    }
+  }
+
+  async query(
+    vector: number[],
+    options: VectorQueryOptions,
+  ): Promise<VectorMatch[]> {
+    const result = await this.binding.query(vector, {
+      topK: Math.min(options.topK, VECTORIZE_MAX_TOP_K),
+      ...(options.podcastId
+        ? { filter: { podcastId: options.podcastId } }
+        : {}),
+    })
+    return result.matches.map((m) => ({ id: m.id, score: m.score }))
+  }
+
+  async deleteByIds(ids: string[]): Promise<void> {
+    for (let i = 0; i < ids.length; i += VECTORIZE_BATCH) {
+      await this.binding.deleteByIds(ids.slice(i, i + VECTORIZE_BATCH))
+    }
+  }
+}
+
+/**
+ * Holds vectors in memory and searches them exhaustively. Contents last as
+ * long as the isolate, so this is for local development and tests only.
+ */
+export class MemoryVectorIndex implements VectorIndex {
+  readonly name = 'memory'
+  private readonly records = new Map<string, VectorRecord>()
+
+  async upsert(records: VectorRecord[]): Promise<void> {
+    for (const record of records) this.records.set(record.id, record)
+  }
+
+  async query(
+    vector: number[],
+    options: VectorQueryOptions,
+  ): Promise<VectorMatch[]> {
+    const matches: VectorMatch[] = []
+    for (const record of this.records.values()) {
+      if (options.podcastId && record.metadata.podcastId !== options.podcastId) {
+        continue
+      }
+      matches.push({
+        id: record.id,
+        score: cosineSimilarity(vector, record.values),
+      })
+    }
+    return matches.sort((a, b) => b.score - a.score).slice(0, options.topK)
+  }
+
+  async deleteByIds(ids: string[]): Promise<void> {
+    for (const id of ids) this.records.delete(id)
+  }
+}
+
+// Shared by every request in the isolate, so indexed vectors can be searched
+const memoryIndex = new MemoryVectorIndex()
+
+/**
+ * Picks the index named by VECTOR_INDEX ("vectorize" or "memory"). When
+ * unset, uses Vectorize if the TRANSCRIPT_INDEX binding exists and the
+ * in-memory index otherwise.
+ */
+export function createVectorIndex(env: Env): VectorIndex {
+  const kind = String(
+    (env as any).VECTOR_INDEX || (env.TRANSCRIPT_INDEX ? 'vectorize' : 'memory'),
+  ).toLowerCase()
+
+  switch (kind) {
+    case 'vectorize': {
+      if (!env.TRANSCRIPT_INDEX) {
+        throw new Error(
+          'VECTOR_INDEX is "vectorize" but no TRANSCRIPT_INDEX binding is configured',
+        )
+      }
+      return new VectorizeVectorIndex(env.TRANSCRIPT_INDEX)
+    }
+    case 'memory':
+      return memoryIndex
+    default:
+      throw new Error(`Unknown VECTOR_INDEX "${kind}"`)
+  }
+}
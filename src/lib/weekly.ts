@@ -0,0 +1,219 @@
+import { nanoid } from 'nanoid'
+import { eq, desc, and, gte, lte } from 'drizzle-orm'
+import { getDb } from '~/db'
+import {
+  podcasts,
+  episodes,
+  episodeAnalyses,
+  weeklyAnalyses,
+} from '~/db/schema'
+import {
+  PODCAST_DIGEST_SYSTEM_PROMPT,
+  WEEKLY_ANALYSIS_SYSTEM_PROMPT,
+  buildPodcastDigestPrompt,
+  buildWeeklyAnalysisPrompt,
+  digestToWeeklyInput,
+  fitsPodcastDigestPrompt,
+  fitsWeeklyPrompt,
+  groupWeeklyInputsByPodcast,
+  parseAnalysisResult,
+  parseWeeklyAnalysis,
+  type WeeklyAnalysisInput,
+} from '~/lib/analysis'
+import { runGlm } from '~/lib/ai'
+import { episodeTagNames } from '~/lib/tags'
+
+export const WEEK_MS = 7 * 24 * 60 * 60 * 1000
+const DAY_MS = 24 * 60 * 60 * 1000
+
+/**
+ * Generates and stores a cross-podcast trend report covering every completed
+ * episode published between weekStart and weekEnd. Returns null if a report
+ * for the same window was stored while this one was being generated.
+ */
+export async function generateWeeklyReport(
+  env: Env,
+  window: { weekStart: Date; weekEnd: Date },
+) {
+  const db = getDb(env.DB)
+  const { weekStart, weekEnd } = window
+
+  // Every completed episode published inside the window
+  const weekAnalyses = await db
+    .select({
+      episodeId: episodes.id,
+      episodeTitle: episodes.title,
+      podcastTitle: podcasts.title,
+      publishedAt: episodes.publishedAt,
+      summary: episodeAnalyses.summary,
+      tags: episodeTagNames(episodes.id),
+      themes: episodeAnalyses.themes,
+    })
+    .from(episodeAnalyses)
+    .innerJoin(episodes, eq(episodes.id, episodeAnalyses.episodeId))
+    .innerJoin(podcasts, eq(podcasts.id, episodes.podcastId))
+    .where(
+      and(
+        eq(episodes.status, 'complete'),
+        gte(episodes.publishedAt, weekStart),
+        lte(episodes.publishedAt, weekEnd),
+      ),
+    )
+    .orderBy(podcasts.title, desc(episodes.publishedAt))
+
+  if (weekAnalyses.length === 0) {
+    throw new Error('No completed episodes with analyses found for this week')
+  }
+
+  let inputs: WeeklyAnalysisInput[] = weekAnalyses.map((r) => ({
+    podcastTitle: r.podcastTitle,
+    episodeTitle: r.episodeTitle,
+    summary: r.summary,
+    tags: JSON.parse(r.tags),
+    themes: JSON.parse(r.themes),
+    episodeIds: [r.episodeId],
+  }))
+
+  // Map-reduce: when the week doesn't fit in one prompt, condense each
+  // podcast's episodes into digests first, as few as fit a digest prompt
+  if (!fitsWeeklyPrompt(inputs)) {
+    const reduced: WeeklyAnalysisInput[] = []
+    for (const group of groupWeeklyInputsByPodcast(inputs)) {
+      if (group.length === 1) {
+        reduced.push(group[0])
+        continue
+      }
+      for (const part of splitToFit(group, fitsPodcastDigestPrompt)) {
+        const digestText = await runGlm(
+          env,
+          PODCAST_DIGEST_SYSTEM_PROMPT,
+          buildPodcastDigestPrompt(part),
+          { json: true },
+        )
+        reduced.push(digestToWeeklyInput(part, parseAnalysisResult(digestText)))
+      }
+    }
+    inputs = reduced
+  }
+
+  // With enough shows even the digests can overflow. Leave out the inputs
+  // covering the fewest episodes until the rest fit, so the report never
+  // lists episodes the model didn't see.
+  if (!fitsWeeklyPrompt(inputs)) {
+    const bySize = [...inputs].sort(
+      (a, b) => b.episodeIds.length - a.episodeIds.length,
+    )
+    while (bySize.length > 1 && !fitsWeeklyPrompt(bySize)) bySize.pop()
+    const kept = new Set(bySize)
+    inputs = inputs.filter((input) => kept.has(input))
+  }
+  const episodeIds = inputs.flatMap((input) => input.episodeIds)
+  if (episodeIds.length < weekAnalyses.length) {
+    console.warn(
+      `Weekly report leaves out ${weekAnalyses.length - episodeIds.length} of ${weekAnalyses.length} episodes to fit the prompt`,
+    )
+  }
+
+  const responseText = await runGlm(
+    env,
+    WEEKLY_ANALYSIS_SYSTEM_PROMPT,
+    buildWeeklyAnalysisPrompt(inputs),
+  )
+
+  const { analysis, trendingTopics } = parseWeeklyAnalysis(responseText)
+
+  // Earlier reports are kept as an archive (see /reports)
+  const id = nanoid()
+  const inserted = await db
+    .insert(weeklyAnalyses)
+    .values({
+      id,
+      weekStart,
+      weekEnd,
+      analysis,
+      trendingTopics: JSON.stringify(trendingTopics),
+      episodeIds: JSON.stringify(episodeIds),
+      createdAt: new Date(),
+    })
+    .onConflictDoNothing()
+    .returning({ id: weeklyAnalyses.id })
+  if (inserted.length === 0) return null
+
+  return {
+    id,
+    analysis,
+    trendingTopics,
+    episodeCount: episodeIds.length,
+  }
+}
+
+/**
+ * Splits inputs, in order, into as few consecutive runs as `fits` accepts.
+ * An input that doesn't fit on its own gets a run to itself.
+ */
+function splitToFit(
+  inputs: WeeklyAnalysisInput[],
+  fits: (inputs: WeeklyAnalysisInput[]) => boolean,
+): WeeklyAnalysisInput[][] {
+  const parts: WeeklyAnalysisInput[][] = []
+  for (const input of inputs) {
+    const current = parts[parts.length - 1]
+    if (current && fits([...current, input])) current.push(input)
+    else parts.push([input])
+  }
+  return parts
+}
+
+/**
+ * Cron entry point. The window is the 7 days ending at midnight UTC on the
+ * day the trigger fired, so a retried or duplicated invocation maps to the
+ * same window and is skipped once a report for it exists. Runs that overlap
+ * are settled by the unique index on the window: only the first report is
+ * stored.
+ */
+export async function runScheduledWeeklyReport(
+  env: Env,
+  scheduledTime: number,
+): Promise<void> {
+  if (String((env as any).IS_STASIS) === 'true') {
+    console.log('Skipping weekly report: stasis mode enabled')
+    return
+  }
+
+  const weekEnd = new Date(Math.floor(scheduledTime / DAY_MS) * DAY_MS)
+  const weekStart = new Date(weekEnd.getTime() - WEEK_MS)
+
+  const db = getDb(env.DB)
+  const [existing] = await db
+    .select({ id: weeklyAnalyses.id })
+    .from(weeklyAnalyses)
+    .where(
+      and(
+        eq(weeklyAnalyses.weekStart, weekStart),
+        eq(weeklyAnalyses.weekEnd, weekEnd),
+      ),
+    )
+    .limit(1)
+
+  if (existing) {
+    console.log(
+      `Skipping weekly report: ${weekStart.toISOString()} – ${weekEnd.toISOString()} already generated`,
+    )
+    return
+  }
+
+  try {
+    const report = await generateWeeklyReport(env, { weekStart, weekEnd })
+    if (!report) {
+      console.log(
+        `Discarding weekly report: ${weekStart.toISOString()} – ${weekEnd.toISOString()} was generated by another run`,
+      )
+      return
+    }
+    console.log(
+      `Generated weekly report ${report.id} covering ${report.episodeCount} episodes`,
+    )
+  } catch (error) {
+    console.error('Error generating scheduled weekly report:', error)
+  }
+}
@@ -9,94 +9,310 @@
 // Additionally, you should also exclude this file from your linter and/or formatter to prevent it from being checked or modified.
 
 import { Route as rootRouteImport } from './routes/__root'
+import { Route as TrendsRouteImport } from './routes/trends'
+import { Route as SearchRouteImport } from './routes/search'
+import { Route as LoginRouteImport } from './routes/login'
 import { Route as IndexRouteImport } from './routes/index'
+import { Route as ReportsIndexRouteImport } from './routes/reports/index'
+import { Route as NarrativesIndexRouteImport } from './routes/narratives/index'
+import { Route as EntitiesIndexRouteImport } from './routes/entities/index'
+import { Route as ClipsIndexRouteImport } from './routes/clips/index'
 import { Route as AdminIndexRouteImport } from './routes/admin/index'
+import { Route as TagsTagRouteImport } from './routes/tags/$tag'
+import { Route as ReportsReportIdRouteImport } from './routes/reports/$reportId'
 import { Route as PodcastsPodcastIdRouteImport } from './routes/podcasts/$podcastId'
+import { Route as NarrativesNarrativeIdRouteImport } from './routes/narratives/$narrativeId'
 import { Route as EpisodesEpisodeIdRouteImport } from './routes/episodes/$episodeId'
+import { Route as EntitiesEntityIdRouteImport } from './routes/entities/$entityId'
+import { Route as ApiTranscriptFilenameRouteImport } from './routes/api/transcript.$filename'
+import { Route as ApiDigestDigestIdRouteImport } from './routes/api/digest.$digestId'
 import { Route as ApiAudioEpisodeIdRouteImport } from './routes/api/audio.$episodeId'
+import { Route as ApiClipsClipIdCardRouteImport } from './routes/api/clips.$clipId.card'
+import { Route as ApiAudioEpisodeIdClipRouteImport } from './routes/api/audio.$episodeId_.clip'
 
+const TrendsRoute = TrendsRouteImport.update({
+  id: '/trends',
+  path: '/trends',
+  getParentRoute: () => rootRouteImport,
+} as any)
+const SearchRoute = SearchRouteImport.update({
+  id: '/search',
+  path: '/search',
+  getParentRoute: () => rootRouteImport,
+} as any)
+const LoginRoute = LoginRouteImport.update({
+  id: '/login',
+  path: '/login',
+  getParentRoute: () => rootRouteImport,
+} as any)
 const IndexRoute = IndexRouteImport.update({
   id: '/',
   path: '/',
   getParentRoute: () => rootRouteImport,
 } as any)
+const ReportsIndexRoute = ReportsIndexRouteImport.update({
+  id: '/reports/',
+  path: '/reports/',
+  getParentRoute: () => rootRouteImport,
+} as any)
+const NarrativesIndexRoute = NarrativesIndexRouteImport.update({
+  id: '/narratives/',
+  path: '/narratives/',
+  getParentRoute: () => rootRouteImport,
+} as any)
+const EntitiesIndexRoute = EntitiesIndexRouteImport.update({
+  id: '/entities/',
+  path: '/entities/',
+  getParentRoute: () => rootRouteImport,
+} as any)
+const ClipsIndexRoute = ClipsIndexRouteImport.update({
+  id: '/clips/',
+  path: '/clips/',
+  getParentRoute: () => rootRouteImport,
+} as any)
 const AdminIndexRoute = AdminIndexRouteImport.update({
   id: '/admin/',
   path: '/admin/',
   getParentRoute: () => rootRouteImport,
 } as any)
+const TagsTagRoute = TagsTagRouteImport.update({
+  id: '/tags/$tag',
+  path: '/tags/$tag',
+  getParentRoute: () => rootRouteImport,
+} as any)
+const ReportsReportIdRoute = ReportsReportIdRouteImport.update({
+  id: '/reports/$reportId',
+  path: '/reports/$reportId',
+  getParentRoute: () => rootRouteImport,
+} as any)
 const PodcastsPodcastIdRoute = PodcastsPodcastIdRouteImport.update({
   id: '/podcasts/$podcastId',
   path: '/podcasts/$podcastId',
   getParentRoute: () => rootRouteImport,
 } as any)
+const NarrativesNarrativeIdRoute = NarrativesNarrativeIdRouteImport.update({
+  id: '/narratives/$narrativeId',
+  path: '/narratives/$narrativeId',
+  getParentRoute: () => rootRouteImport,
+} as any)
 const EpisodesEpisodeIdRoute = EpisodesEpisodeIdRouteImport.update({
   id: '/episodes/$episodeId',
   path: '/episodes/$episodeId',
   getParentRoute: () => rootRouteImport,
 } as any)
+const EntitiesEntityIdRoute = EntitiesEntityIdRouteImport.update({
+  id: '/entities/$entityId',
+  path: '/entities/$entityId',
+  getParentRoute: () => rootRouteImport,
+} as any)
+const ApiTranscriptFilenameRoute = ApiTranscriptFilenameRouteImport.update({
+  id: '/api/transcript/$filename',
+  path: '/api/transcript/$filename',
+  getParentRoute: () => rootRouteImport,
+} as any)
+const ApiDigestDigestIdRoute = ApiDigestDigestIdRouteImport.update({
+  id: '/api/digest/$digestId',
+  path: '/api/digest/$digestId',
+  getParentRoute: () => rootRouteImport,
+} as any)
 const ApiAudioEpisodeIdRoute = ApiAudioEpisodeIdRouteImport.update({
   id: '/api/audio/$episodeId',
   path: '/api/audio/$episodeId',
   getParentRoute: () => rootRouteImport,
 } as any)
+const ApiClipsClipIdCardRoute = ApiClipsClipIdCardRouteImport.update({
+  id: '/api/clips/$clipId/card',
+  path: '/api/clips/$clipId/card',
+  getParentRoute: () => rootRouteImport,
+} as any)
+const ApiAudioEpisodeIdClipRoute = ApiAudioEpisodeIdClipRouteImport.update({
+  id: '/api/audio/$episodeId_/clip',
+  path: '/api/audio/$episodeId/clip',
+  getParentRoute: () => rootRouteImport,
+} as any)
 
 export interface FileRoutesByFullPath {
   '/': typeof IndexRoute
+  '/login': typeof LoginRoute
+  '/search': typeof SearchRoute
+  '/trends': typeof TrendsRoute
+  '/entities/$entityId': typeof EntitiesEntityIdRoute
   '/episodes/$episodeId': typeof EpisodesEpisodeIdRoute
+  '/narratives/$narrativeId': typeof NarrativesNarrativeIdRoute
   '/podcasts/$podcastId': typeof PodcastsPodcastIdRoute
+  '/reports/$reportId': typeof ReportsReportIdRoute
+  '/tags/$tag': typeof TagsTagRoute
   '/admin/': typeof AdminIndexRoute
+  '/clips/': typeof ClipsIndexRoute
+  '/entities/': typeof EntitiesIndexRoute
+  '/narratives/': typeof NarrativesIndexRoute
+  '/reports/': typeof ReportsIndexRoute
   '/api/audio/$episodeId': typeof ApiAudioEpisodeIdRoute
+  '/api/digest/$digestId': typeof ApiDigestDigestIdRoute
+  '/api/transcript/$filename': typeof ApiTranscriptFilenameRoute
+  '/api/audio/$episodeId/clip': typeof ApiAudioEpisodeIdClipRoute
+  '/api/clips/$clipId/card': typeof ApiClipsClipIdCardRoute
 }
 export interface FileRoutesByTo {
   '/': typeof IndexRoute
+  '/login': typeof LoginRoute
+  '/search': typeof SearchRoute
+  '/trends': typeof TrendsRoute
+  '/entities/$entityId': typeof EntitiesEntityIdRoute
   '/episodes/$episodeId': typeof EpisodesEpisodeIdRoute
+  '/narratives/$narrativeId': typeof NarrativesNarrativeIdRoute
   '/podcasts/$podcastId': typeof PodcastsPodcastIdRoute
+  '/reports/$reportId': typeof ReportsReportIdRoute
+  '/tags/$tag': typeof TagsTagRoute
   '/admin': typeof AdminIndexRoute
+  '/clips': typeof ClipsIndexRoute
+  '/entities': typeof EntitiesIndexRoute
+  '/narratives': typeof NarrativesIndexRoute
+  '/reports': typeof ReportsIndexRoute
   '/api/audio/$episodeId': typeof ApiAudioEpisodeIdRoute
+  '/api/digest/$digestId': typeof ApiDigestDigestIdRoute
+  '/api/transcript/$filename': typeof ApiTranscriptFilenameRoute
+  '/api/audio/$episodeId/clip': typeof ApiAudioEpisodeIdClipRoute
+  '/api/clips/$clipId/card': typeof ApiClipsClipIdCardRoute
 }
 export interface FileRoutesById {
   __root__: typeof rootRouteImport
   '/': typeof IndexRoute
+  '/login': typeof LoginRoute
+  '/search': typeof SearchRoute
+  '/trends': typeof TrendsRoute
+  '/entities/$entityId': typeof EntitiesEntityIdRoute
   '/episodes/$episodeId': typeof EpisodesEpisodeIdRoute
+  '/narratives/$narrativeId': typeof NarrativesNarrativeIdRoute
   '/podcasts/$podcastId': typeof PodcastsPodcastIdRoute
+  '/reports/$reportId': typeof ReportsReportIdRoute
+  '/tags/$tag': typeof TagsTagRoute
   '/admin/': typeof AdminIndexRoute
+  '/clips/': typeof ClipsIndexRoute
+  '/entities/': typeof EntitiesIndexRoute
+  '/narratives/': typeof NarrativesIndexRoute
+  '/reports/': typeof ReportsIndexRoute
   '/api/audio/$episodeId': typeof ApiAudioEpisodeIdRoute
+  '/api/digest/$digestId': typeof ApiDigestDigestIdRoute
+  '/api/transcript/$filename': typeof ApiTranscriptFilenameRoute
+  '/api/audio/$episodeId_/clip': typeof ApiAudioEpisodeIdClipRoute
+  '/api/clips/$clipId/card': typeof ApiClipsClipIdCardRoute
 }
 export interface FileRouteTypes {
   fileRoutesByFullPath: FileRoutesByFullPath
   fullPaths:
     | '/'
+    | '/login'
+    | '/search'
+    | '/trends'
+    | '/entities/$entityId'
     | '/episodes/$episodeId'
+    | '/narratives/$narrativeId'
     | '/podcasts/$podcastId'
+    | '/reports/$reportId'
+    | '/tags/$tag'
     | '/admin/'
+    | '/clips/'
+    | '/entities/'
+    | '/narratives/'
+    | '/reports/'
     | '/api/audio/$episodeId'
+    | '/api/digest/$digestId'
+    | '/api/transcript/$filename'
+    | '/api/audio/$episodeId/clip'
+    | '/api/clips/$clipId/card'
   fileRoutesByTo: FileRoutesByTo
   to:
     | '/'
+    | '/login'
+    | '/search'
+    | '/trends'
+    | '/entities/$entityId'
     | '/episodes/$episodeId'
+    | '/narratives/$narrativeId'
     | '/podcasts/$podcastId'
+    | '/reports/$reportId'
+    | '/tags/$tag'
     | '/admin'
+    | '/clips'
+    | '/entities'
+    | '/narratives'
+    | '/reports'
     | '/api/audio/$episodeId'
+    | '/api/digest/$digestId'
+    | '/api/transcript/$filename'
+    | '/api/audio/$episodeId/clip'
+    | '/api/clips/$clipId/card'
   id:
     | '__root__'
     | '/'
+    | '/login'
+    | '/search'
+    | '/trends'
+    | '/entities/$entityId'
     | '/episodes/$episodeId'
+    | '/narratives/$narrativeId'
     | '/podcasts/$podcastId'
+    | '/reports/$reportId'
+    | '/tags/$tag'
     | '/admin/'
+    | '/clips/'
+    | '/entities/'
+    | '/narratives/'
+    | '/reports/'
     | '/api/audio/$episodeId'
+    | '/api/digest/$digestId'
+    | '/api/transcript/$filename'
+    | '/api/audio/$episodeId_/clip'
+    | '/api/clips/$clipId/card'
   fileRoutesById: FileRoutesById
 }
 export interface RootRouteChildren {
   IndexRoute: typeof IndexRoute
+  LoginRoute: typeof LoginRoute
+  SearchRoute: typeof SearchRoute
+  TrendsRoute: typeof TrendsRoute
+  EntitiesEntityIdRoute: typeof EntitiesEntityIdRoute
   EpisodesEpisodeIdRoute: typeof EpisodesEpisodeIdRoute
+  NarrativesNarrativeIdRoute: typeof NarrativesNarrativeIdRoute
   PodcastsPodcastIdRoute: typeof PodcastsPodcastIdRoute
+  ReportsReportIdRoute: typeof ReportsReportIdRoute
+  TagsTagRoute: typeof TagsTagRoute
   AdminIndexRoute: typeof AdminIndexRoute
+  ClipsIndexRoute: typeof ClipsIndexRoute
+  EntitiesIndexRoute: typeof EntitiesIndexRoute
+  NarrativesIndexRoute: typeof NarrativesIndexRoute
+  ReportsIndexRoute: typeof ReportsIndexRoute
   ApiAudioEpisodeIdRoute: typeof ApiAudioEpisodeIdRoute
+  ApiDigestDigestIdRoute: typeof ApiDigestDigestIdRoute
+  ApiTranscriptFilenameRoute: typeof ApiTranscriptFilenameRoute
+  ApiAudioEpisodeIdClipRoute: typeof ApiAudioEpisodeIdClipRoute
+  ApiClipsClipIdCardRoute: typeof ApiClipsClipIdCardRoute
 }
 
 declare module '@tanstack/react-router' {
   interface FileRoutesByPath {
+    '/trends': {
+      id: '/trends'
+      path: '/trends'
+      fullPath: '/trends'
+      preLoaderRoute: typeof TrendsRouteImport
+      parentRoute: typeof rootRouteImport
+    }
+    '/search': {
+      id: '/search'
+      path: '/search'
+      fullPath: '/search'
+      preLoaderRoute: typeof SearchRouteImport
+      parentRoute: typeof rootRouteImport
+    }
+    '/login': {
+      id: '/login'
+      path: '/login'
+      fullPath: '/login'
+      preLoaderRoute: typeof LoginRouteImport
+      parentRoute: typeof rootRouteImport
+    }
     '/': {
       id: '/'
       path: '/'
@@ -104,6 +320,34 @@ declare module '@tanstack/react-router' {
       preLoaderRoute: typeof IndexRouteImport
       parentRoute: typeof rootRouteImport
     }
+    '/reports/': {
+      id: '/reports/'
+      path: '/reports'
+      fullPath: '/reports/'
+      preLoaderRoute: typeof ReportsIndexRouteImport
+      parentRoute: typeof rootRouteImport
+    }
+    '/narratives/': {
+      id: '/narratives/'
+      path: '/narratives'
+      fullPath: '/narratives/'
+      preLoaderRoute: typeof NarrativesIndexRouteImport
+      parentRoute: typeof rootRouteImport
+    }
+    '/entities/': {
+      id: '/entities/'
+      path: '/entities'
+      fullPath: '/entities/'
+      preLoaderRoute: typeof EntitiesIndexRouteImport
+      parentRoute: typeof rootRouteImport
+    }
+    '/clips/': {
+      id: '/clips/'
+      path: '/clips'
+      fullPath: '/clips/'
+      preLoaderRoute: typeof ClipsIndexRouteImport
+      parentRoute: typeof rootRouteImport
+    }
     '/admin/': {
       id: '/admin/'
       path: '/admin'
@@ -111,6 +355,20 @@ declare module '@tanstack/react-router' {
       preLoaderRoute: typeof AdminIndexRouteImport
       parentRoute: typeof rootRouteImport
     }
+    '/tags/$tag': {
+      id: '/tags/$tag'
+      path: '/tags/$tag'
+      fullPath: '/tags/$tag'
+      preLoaderRoute: typeof TagsTagRouteImport
+      parentRoute: typeof rootRouteImport
+    }
+    '/reports/$reportId': {
+      id: '/reports/$reportId'
+      path: '/reports/$reportId'
+      fullPath: '/reports/$reportId'
+      preLoaderRoute: typeof ReportsReportIdRouteImport
+      parentRoute: typeof rootRouteImport
+    }
     '/podcasts/$podcastId': {
       id: '/podcasts/$podcastId'
       path: '/podcasts/$podcastId'
@@ -118,6 +376,13 @@ declare module '@tanstack/react-router' {
       preLoaderRoute: typeof PodcastsPodcastIdRouteImport
       parentRoute: typeof rootRouteImport
     }
+    '/narratives/$narrativeId': {
+      id: '/narratives/$narrativeId'
+      path: '/narratives/$narrativeId'
+      fullPath: '/narratives/$narrativeId'
+      preLoaderRoute: typeof NarrativesNarrativeIdRouteImport
+      parentRoute: typeof rootRouteImport
+    }
     '/episodes/$episodeId': {
       id: '/episodes/$episodeId'
       path: '/episodes/$episodeId'
@@ -125,6 +390,27 @@ declare module '@tanstack/react-router' {
       preLoaderRoute: typeof EpisodesEpisodeIdRouteImport
       parentRoute: typeof rootRouteImport
     }
+    '/entities/$entityId': {
+      id: '/entities/$entityId'
+      path: '/entities/$entityId'
+      fullPath: '/entities/$entityId'
+      preLoaderRoute: typeof EntitiesEntityIdRouteImport
+      parentRoute: typeof rootRouteImport
+    }
+    '/api/transcript/$filename': {
+      id: '/api/transcript/$filename'
+      path: '/api/transcript/$filename'
+      fullPath: '/api/transcript/$filename'
+      preLoaderRoute: typeof ApiTranscriptFilenameRouteImport
+      parentRoute: typeof rootRouteImport
+    }
+    '/api/digest/$digestId': {
+      id: '/api/digest/$digestId'
+      path: '/api/digest/$digestId'
+      fullPath: '/api/digest/$digestId'
+      preLoaderRoute: typeof ApiDigestDigestIdRouteImport
+      parentRoute: typeof rootRouteImport
+    }
     '/api/audio/$episodeId': {
       id: '/api/audio/$episodeId'
       path: '/api/audio/$episodeId'
@@ -132,15 +418,44 @@ declare module '@tanstack/react-router' {
       preLoaderRoute: typeof ApiAudioEpisodeIdRouteImport
       parentRoute: typeof rootRouteImport
     }
+    '/api/clips/$clipId/card': {
+      id: '/api/clips/$clipId/card'
+      path: '/api/clips/$clipId/card'
+      fullPath: '/api/clips/$clipId/card'
+      preLoaderRoute: typeof ApiClipsClipIdCardRouteImport
+      parentRoute: typeof rootRouteImport
+    }
+    '/api/audio/$episodeId_/clip': {
+      id: '/api/audio/$episodeId_/clip'
+      path: '/api/audio/$episodeId/clip'
+      fullPath: '/api/audio/$episodeId/clip'
+      preLoaderRoute: typeof ApiAudioEpisodeIdClipRouteImport
+      parentRoute: typeof rootRouteImport
+    }
   }
 }
 
 const rootRouteChildren: RootRouteChildren = {
   IndexRoute: IndexRoute,
+  LoginRoute: LoginRoute,
+  SearchRoute: SearchRoute,
+  TrendsRoute: TrendsRoute,
+  EntitiesEntityIdRoute: EntitiesEntityIdRoute,
   EpisodesEpisodeIdRoute: EpisodesEpisodeIdRoute,
+  NarrativesNarrativeIdRoute: NarrativesNarrativeIdRoute,
   PodcastsPodcastIdRoute: PodcastsPodcastIdRoute,
+  ReportsReportIdRoute: ReportsReportIdRoute,
+  TagsTagRoute: TagsTagRoute,
   AdminIndexRoute: AdminIndexRoute,
+  ClipsIndexRoute: ClipsIndexRoute,
+  EntitiesIndexRoute: EntitiesIndexRoute,
+  NarrativesIndexRoute: NarrativesIndexRoute,
+  ReportsIndexRoute: ReportsIndexRoute,
   ApiAudioEpisodeIdRoute: ApiAudioEpisodeIdRoute,
+  ApiDigestDigestIdRoute: ApiDigestDigestIdRoute,
+  ApiTranscriptFilenameRoute: ApiTranscriptFilenameRoute,
+  ApiAudioEpisodeIdClipRoute: ApiAudioEpisodeIdClipRoute,
+  ApiClipsClipIdCardRoute: ApiClipsClipIdCardRoute,
 }
 export const routeTree = rootRouteImport
   ._addFileChildren(rootRouteChildren)
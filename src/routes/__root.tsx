@@ -5,13 +5,24 @@ import {
   Outlet,
   Scripts,
   createRootRoute,
+  redirect,
+  useRouter,
 } from '@tanstack/react-router'
 import * as React from 'react'
 import { DefaultCatchBoundary } from '~/components/DefaultCatchBoundary'
 import { NotFound } from '~/components/NotFound'
+import { getCurrentUser, logout } from '~/lib/server-fns'
 import appCss from '~/styles/app.css?url'
 
 export const Route = createRootRoute({
+  beforeLoad: async ({ location }) => {
+    const user = await getCurrentUser()
+    // Private deployments (ANONYMOUS_ROLE=none) send visitors to sign in
+    if (!user.role && location.pathname !== '/login') {
+      throw redirect({ to: '/login', search: { redirect: location.href } })
+    }
+    return { user }
+  },
   head: () => ({
     meta: [
       { charSet: 'utf-8' },
@@ -46,6 +57,14 @@ function RootDocument({ children }: { children: React.ReactNode }) {
 }
 
 function RootComponent() {
+  const { user } = Route.useRouteContext()
+  const router = useRouter()
+
+  const handleLogout = async () => {
+    await logout()
+    await router.invalidate()
+  }
+
   return (
     <div className="min-h-screen flex flex-col">
       <header className="border-b border-b-gray-200 dark:border-b-gray-800 bg-white dark:bg-gray-900 sticky top-0 z-10">
@@ -63,6 +82,48 @@ function RootComponent() {
               >
                 Home
               </Link>
+              <Link
+                to="/search"
+                activeProps={{ className: 'text-ink-600 dark:text-ink-300' }}
+                className="hover:text-ink-500 dark:hover:text-ink-300 transition-colors"
+              >
+                Search
+              </Link>
+              <Link
+                to="/reports"
+                activeProps={{ className: 'text-ink-600 dark:text-ink-300' }}
+                className="hover:text-ink-500 dark:hover:text-ink-300 transition-colors"
+              >
+                Reports
+              </Link>
+              <Link
+                to="/trends"
+                activeProps={{ className: 'text-ink-600 dark:text-ink-300' }}
+                className="hover:text-ink-500 dark:hover:text-ink-300 transition-colors"
+              >
+                Trends
+              </Link>
+              <Link
+                to="/narratives"
+                activeProps={{ className: 'text-ink-600 dark:text-ink-300' }}
+                className="hover:text-ink-500 dark:hover:text-ink-300 transition-colors"
+              >
+                Narratives
+              </Link>
+              <Link
+                to="/entities"
+                activeProps={{ className: 'text-ink-600 dark:text-ink-300' }}
+                className="hover:text-ink-500 dark:hover:text-ink-300 transition-colors"
+              >
+                Entities
+              </Link>
+              <Link
+                to="/clips"
+                activeProps={{ className: 'text-ink-600 dark:text-ink-300' }}
+                className="hover:text-ink-500 dark:hover:text-ink-300 transition-colors"
+              >
+                Clips
+              </Link>
               <Link
                 to="/admin"
                 activeProps={{ className: 'text-ink-600 dark:text-ink-300' }}
@@ -70,6 +131,32 @@ function RootComponent() {
               >
                 Admin
               </Link>
+              {user.userId ? (
+                <span className="flex items-center gap-3 pl-6 border-l border-gray-200 dark:border-gray-700">
+                  <span
+                    className="font-mono text-xs text-gray-500 dark:text-gray-400"
+                    title={`Role: ${user.role}`}
+                  >
+                    {user.email}
+                  </span>
+                  {user.source === 'session' && (
+                    <button
+                      onClick={handleLogout}
+                      className="hover:text-ink-500 dark:hover:text-ink-300 transition-colors"
+                    >
+                      Sign out
+                    </button>
+                  )}
+                </span>
+              ) : (
+                <Link
+                  to="/login"
+                  activeProps={{ className: 'text-ink-600 dark:text-ink-300' }}
+                  className="pl-6 border-l border-gray-200 dark:border-gray-700 hover:text-ink-500 dark:hover:text-ink-300 transition-colors"
+                >
+                  Sign in
+                </Link>
+              )}
             </div>
           </div>
         </nav>
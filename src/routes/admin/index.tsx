@@ -1,4 +1,11 @@
-import { createFileRoute, Link, useRouter } from '@tanstack/react-router'
+import {
+  createFileRoute,
+  Link,
+  redirect,
+  useNavigate,
+  useRouter,
+} from '@tanstack/react-router'
+import * as React from 'react'
 import { useState } from 'react'
 import {
   getAdminData,
@@ -9,13 +16,38 @@ import {
   togglePodcast,
   removePodcast,
   triggerPoll,
+  pollPodcastNow,
+  setPollInterval,
+  retryFeedPoll,
+  dismissFeedPoll,
   processEpisode,
   resetEpisode,
+  retryEpisode,
+  getEpisodeEvents,
   importPastEpisodes,
   generateWeeklyAnalysis,
   cancelAllJobs,
   cleanupOldAudio,
+  getDigests,
+  sendDigestNow,
+  resendDigest,
+  getUsers,
+  createUser,
+  updateUserRole,
+  deleteUser,
+  getGlossaryTerms,
+  createGlossaryTerm,
+  updateGlossaryTerm,
+  deleteGlossaryTerm,
+  reapplyGlossary,
+  getGlossaryJob,
+  getTags,
+  mergeTag,
+  addTagAlias,
+  removeTagAlias,
 } from '~/lib/server-fns'
+import { ROLES, hasRole, type Role } from '~/lib/auth'
+import { POLL_INTERVAL_OPTIONS } from '~/lib/rss'
 
 const DEMO_MESSAGE =
   'This is a demo instance. To add your own podcasts, deploy this tool to your own Cloudflare account.'
@@ -24,42 +56,125 @@ function isDemoError(err: unknown): boolean {
   return err instanceof Error && err.message.includes('DEMO_MODE')
 }
 
+function isUnauthorizedError(err: unknown): boolean {
+  return err instanceof Error && err.message.includes('UNAUTHORIZED')
+}
+
+function formatInterval(minutes: number): string {
+  if (minutes < 60) return `${minutes} min`
+  if (minutes < 1440) return `${minutes / 60}h`
+  return `${minutes / 1440}d`
+}
+
 export const Route = createFileRoute('/admin/')({
-  loader: async () => {
-    const [adminData, demoData, stasisData, retentionData] = await Promise.all([
+  // Demo visitors can look around; otherwise the panel is for editors
+  beforeLoad: ({ context, location }) => {
+    if (!context.user.isDemo && !hasRole(context.user, 'editor')) {
+      throw redirect({ to: '/login', search: { redirect: location.href } })
+    }
+  },
+  loader: async ({ context }) => {
+    const [
+      adminData,
+      demoData,
+      stasisData,
+      retentionData,
+      digestData,
+      glossaryTerms,
+      tags,
+      userData,
+    ] = await Promise.all([
       getAdminData(),
       getIsDemo(),
       getIsStasis(),
       getRetentionPeriod(),
+      getDigests(),
+      getGlossaryTerms(),
+      getTags(),
+      context.user.role === 'admin' ? getUsers() : Promise.resolve(null),
     ])
     return {
       ...adminData,
       isDemo: demoData.isDemo,
       isStasis: stasisData.isStasis,
       retention: retentionData.retention,
+      digests: digestData.digests,
+      subscriberCount: digestData.subscriberCount,
+      glossaryTerms,
+      tags,
+      users: userData?.users ?? null,
     }
   },
   component: AdminPage,
 })
 
 function AdminPage() {
-  const { podcasts, isDemo, isStasis, retention } = Route.useLoaderData()
+  const {
+    podcasts,
+    feedPollFailures,
+    isDemo,
+    isStasis,
+    retention,
+    digests,
+    subscriberCount,
+    glossaryTerms,
+    tags,
+    users,
+  } = Route.useLoaderData()
+  const { user: currentUser } = Route.useRouteContext()
   const router = useRouter()
+  const navigate = useNavigate()
   const [feedUrl, setFeedUrl] = useState('')
   const [adding, setAdding] = useState(false)
   const [polling, setPolling] = useState(false)
   const [generatingAnalysis, setGeneratingAnalysis] = useState(false)
   const [cancelling, setCancelling] = useState(false)
   const [cleaningAudio, setCleaningAudio] = useState(false)
+  const [sendingDigest, setSendingDigest] = useState(false)
   const [error, setError] = useState<string | null>(null)
   const [message, setMessage] = useState<string | null>(null)
   const [demoToast, setDemoToast] = useState(false)
+  const [newUser, setNewUser] = useState<{
+    email: string
+    password: string
+    role: Role
+  }>({ email: '', password: '', role: 'viewer' })
+  const [creatingUser, setCreatingUser] = useState(false)
+  const [glossaryForm, setGlossaryForm] = useState<{
+    termId: string | null
+    term: string
+    variants: string
+    podcastId: string
+  }>({ termId: null, term: '', variants: '', podcastId: '' })
+  const [savingTerm, setSavingTerm] = useState(false)
+  const [tagMerge, setTagMerge] = useState({ sourceTagId: '', targetTagId: '' })
+  const [tagAlias, setTagAlias] = useState({ alias: '', tagId: '' })
+  const [glossaryJob, setGlossaryJob] = useState<{
+    id: string
+    status: string
+    output: { episodes: number; updatedSegments: number } | null
+    error: string | null
+  } | null>(null)
+  const [historyEpisodeId, setHistoryEpisodeId] = useState<string | null>(null)
+  const [history, setHistory] = useState<
+    Awaited<ReturnType<typeof getEpisodeEvents>>['events']
+  >([])
+
+  const failedEpisodes = podcasts.flatMap((podcast) =>
+    podcast.episodes
+      .filter((episode) => episode.status === 'error')
+      .map((episode) => ({ ...episode, podcastTitle: podcast.title })),
+  )
 
   const handleDemoError = () => {
     setDemoToast(true)
     setTimeout(() => setDemoToast(false), 5000)
   }
 
+  const handleUnauthorizedError = () => {
+    navigate({ to: '/login', search: { redirect: '/admin' } })
+  }
+
   const handleAddPodcast = async (e: React.FormEvent) => {
     e.preventDefault()
     if (!feedUrl.trim()) return
@@ -77,6 +192,8 @@ function AdminPage() {
     } catch (err) {
       if (isDemoError(err)) {
         handleDemoError()
+      } else if (isUnauthorizedError(err)) {
+        handleUnauthorizedError()
       } else {
         setError(err instanceof Error ? err.message : 'Failed to add podcast')
       }
@@ -90,12 +207,18 @@ function AdminPage() {
     setError(null)
     setMessage(null)
     try {
-      await triggerPoll()
-      setMessage('Poll triggered successfully. New episodes will appear shortly.')
+      const result = await triggerPoll()
+      setMessage(
+        result.queued > 0
+          ? `Queued ${result.queued} feed(s) for polling. New episodes will appear shortly.`
+          : 'Every active feed is already queued for polling.',
+      )
       router.invalidate()
     } catch (err) {
       if (isDemoError(err)) {
         handleDemoError()
+      } else if (isUnauthorizedError(err)) {
+        handleUnauthorizedError()
       } else {
         setError(err instanceof Error ? err.message : 'Failed to trigger poll')
       }
@@ -104,6 +227,49 @@ function AdminPage() {
     }
   }
 
+  const handlePollPodcast = async (podcastId: string, title: string) => {
+    setError(null)
+    setMessage(null)
+    try {
+      const result = await pollPodcastNow({ data: { podcastId } })
+      if (result.status === 'error') {
+        setError(`Polling "${title}" failed: ${result.error}`)
+      } else {
+        setMessage(
+          result.status === 'unchanged'
+            ? `"${title}" has not changed since it was last polled.`
+            : `Polled "${title}": ${result.newEpisodes} new episode(s).`,
+        )
+      }
+      router.invalidate()
+    } catch (err) {
+      if (isDemoError(err)) {
+        handleDemoError()
+      } else if (isUnauthorizedError(err)) {
+        handleUnauthorizedError()
+      } else {
+        setError(err instanceof Error ? err.message : 'Failed to poll feed')
+      }
+    }
+  }
+
+  const handleSetInterval = async (podcastId: string, minutes: number) => {
+    try {
+      await setPollInterval({ data: { podcastId, minutes } })
+      router.invalidate()
+    } catch (err) {
+      if (isDemoError(err)) {
+        handleDemoError()
+      } else if (isUnauthorizedError(err)) {
+        handleUnauthorizedError()
+      } else {
+        setError(
+          err instanceof Error ? err.message : 'Failed to change poll interval',
+        )
+      }
+    }
+  }
+
   const handleToggle = async (podcastId: string, active: boolean) => {
     try {
       await togglePodcast({ data: { podcastId, active: !active } })
@@ -111,6 +277,8 @@ function AdminPage() {
     } catch (err) {
       if (isDemoError(err)) {
         handleDemoError()
+      } else if (isUnauthorizedError(err)) {
+        handleUnauthorizedError()
       } else {
         setError(err instanceof Error ? err.message : 'Failed to toggle podcast')
       }
@@ -126,6 +294,8 @@ function AdminPage() {
     } catch (err) {
       if (isDemoError(err)) {
         handleDemoError()
+      } else if (isUnauthorizedError(err)) {
+        handleUnauthorizedError()
       } else {
         setError(err instanceof Error ? err.message : 'Failed to remove podcast')
       }
@@ -143,6 +313,8 @@ function AdminPage() {
     } catch (err) {
       if (isDemoError(err)) {
         handleDemoError()
+      } else if (isUnauthorizedError(err)) {
+        handleUnauthorizedError()
       } else {
         setError(err instanceof Error ? err.message : 'Failed to trigger processing')
       }
@@ -156,12 +328,79 @@ function AdminPage() {
     } catch (err) {
       if (isDemoError(err)) {
         handleDemoError()
+      } else if (isUnauthorizedError(err)) {
+        handleUnauthorizedError()
       } else {
         setError(err instanceof Error ? err.message : 'Failed to reset episode')
       }
     }
   }
 
+  const handleRetryEpisode = async (episodeId: string) => {
+    setError(null)
+    setMessage(null)
+    try {
+      const result = await retryEpisode({ data: { episodeId } })
+      setMessage(`Retrying from the ${result.resumeFrom} stage.`)
+      router.invalidate()
+    } catch (err) {
+      if (isDemoError(err)) {
+        handleDemoError()
+      } else if (isUnauthorizedError(err)) {
+        handleUnauthorizedError()
+      } else {
+        setError(err instanceof Error ? err.message : 'Failed to retry episode')
+      }
+    }
+  }
+
+  const handleRetryFeedPoll = async (jobId: string) => {
+    setError(null)
+    setMessage(null)
+    try {
+      await retryFeedPoll({ data: { jobId } })
+      setMessage('Feed queued for polling again.')
+      router.invalidate()
+    } catch (err) {
+      if (isDemoError(err)) {
+        handleDemoError()
+      } else if (isUnauthorizedError(err)) {
+        handleUnauthorizedError()
+      } else {
+        setError(err instanceof Error ? err.message : 'Failed to retry feed poll')
+      }
+    }
+  }
+
+  const handleDismissFeedPoll = async (jobId: string) => {
+    try {
+      await dismissFeedPoll({ data: { jobId } })
+      router.invalidate()
+    } catch (err) {
+      if (isDemoError(err)) {
+        handleDemoError()
+      } else if (isUnauthorizedError(err)) {
+        handleUnauthorizedError()
+      } else {
+        setError(err instanceof Error ? err.message : 'Failed to dismiss feed poll')
+      }
+    }
+  }
+
+  const handleToggleHistory = async (episodeId: string) => {
+    if (historyEpisodeId === episodeId) {
+      setHistoryEpisodeId(null)
+      return
+    }
+    try {
+      const result = await getEpisodeEvents({ data: { episodeId } })
+      setHistory(result.events)
+      setHistoryEpisodeId(episodeId)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load history')
+    }
+  }
+
   const handleImportPast = async (podcastId: string) => {
     try {
       const result = await importPastEpisodes({ data: { podcastId } })
@@ -170,6 +409,8 @@ function AdminPage() {
     } catch (err) {
       if (isDemoError(err)) {
         handleDemoError()
+      } else if (isUnauthorizedError(err)) {
+        handleUnauthorizedError()
       } else {
         setError(err instanceof Error ? err.message : 'Failed to import past episodes')
       }
@@ -194,6 +435,8 @@ function AdminPage() {
     } catch (err) {
       if (isDemoError(err)) {
         handleDemoError()
+      } else if (isUnauthorizedError(err)) {
+        handleUnauthorizedError()
       } else {
         setError(
           err instanceof Error ? err.message : 'Failed to generate weekly analysis',
@@ -230,6 +473,8 @@ function AdminPage() {
     } catch (err) {
       if (isDemoError(err)) {
         handleDemoError()
+      } else if (isUnauthorizedError(err)) {
+        handleUnauthorizedError()
       } else {
         setError(err instanceof Error ? err.message : 'Failed to clean up episodes')
       }
@@ -250,6 +495,8 @@ function AdminPage() {
     } catch (err) {
       if (isDemoError(err)) {
         handleDemoError()
+      } else if (isUnauthorizedError(err)) {
+        handleUnauthorizedError()
       } else {
         setError(err instanceof Error ? err.message : 'Failed to cancel jobs')
       }
@@ -258,6 +505,259 @@ function AdminPage() {
     }
   }
 
+  const handleSendDigest = async () => {
+    setSendingDigest(true)
+    setError(null)
+    setMessage(null)
+    try {
+      const result = await sendDigestNow()
+      setMessage(
+        `Sent digest covering ${result.episodeCount} episode(s) to ${result.recipientCount} subscriber(s).`,
+      )
+      router.invalidate()
+    } catch (err) {
+      if (isDemoError(err)) {
+        handleDemoError()
+      } else if (isUnauthorizedError(err)) {
+        handleUnauthorizedError()
+      } else {
+        setError(err instanceof Error ? err.message : 'Failed to send digest')
+      }
+      router.invalidate()
+    } finally {
+      setSendingDigest(false)
+    }
+  }
+
+  const handleResendDigest = async (digestId: string) => {
+    setError(null)
+    setMessage(null)
+    try {
+      const result = await resendDigest({ data: { digestId } })
+      setMessage(`Resent digest to ${result.recipientCount} subscriber(s).`)
+      router.invalidate()
+    } catch (err) {
+      if (isDemoError(err)) {
+        handleDemoError()
+      } else if (isUnauthorizedError(err)) {
+        handleUnauthorizedError()
+      } else {
+        setError(err instanceof Error ? err.message : 'Failed to resend digest')
+      }
+      router.invalidate()
+    }
+  }
+
+  const handleSaveGlossaryTerm = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setSavingTerm(true)
+    setError(null)
+    setMessage(null)
+    const input = {
+      term: glossaryForm.term,
+      variants: glossaryForm.variants.split(','),
+      podcastId: glossaryForm.podcastId || null,
+    }
+    try {
+      if (glossaryForm.termId) {
+        await updateGlossaryTerm({
+          data: { ...input, termId: glossaryForm.termId },
+        })
+        setMessage(`Updated "${input.term.trim()}".`)
+      } else {
+        await createGlossaryTerm({ data: input })
+        setMessage(`Added "${input.term.trim()}" to the glossary.`)
+      }
+      setGlossaryForm({ termId: null, term: '', variants: '', podcastId: '' })
+      router.invalidate()
+    } catch (err) {
+      if (isDemoError(err)) {
+        handleDemoError()
+      } else if (isUnauthorizedError(err)) {
+        handleUnauthorizedError()
+      } else {
+        setError(err instanceof Error ? err.message : 'Failed to save term')
+      }
+    } finally {
+      setSavingTerm(false)
+    }
+  }
+
+  const handleDeleteGlossaryTerm = async (termId: string, term: string) => {
+    if (!confirm(`Remove "${term}" from the glossary?`)) return
+    try {
+      await deleteGlossaryTerm({ data: { termId } })
+      if (glossaryForm.termId === termId) {
+        setGlossaryForm({ termId: null, term: '', variants: '', podcastId: '' })
+      }
+      router.invalidate()
+    } catch (err) {
+      if (isDemoError(err)) {
+        handleDemoError()
+      } else if (isUnauthorizedError(err)) {
+        handleUnauthorizedError()
+      } else {
+        setError(err instanceof Error ? err.message : 'Failed to delete term')
+      }
+    }
+  }
+
+  const handleReapplyGlossary = async () => {
+    if (
+      !confirm(
+        'Re-apply the glossary to every completed Whisper transcript? Publisher transcripts are left as published. Changed segments are recorded in their revision history.',
+      )
+    )
+      return
+    setError(null)
+    setMessage(null)
+    try {
+      const { jobId } = await reapplyGlossary({ data: {} })
+      setGlossaryJob({ id: jobId, status: 'queued', output: null, error: null })
+    } catch (err) {
+      if (isDemoError(err)) {
+        handleDemoError()
+      } else if (isUnauthorizedError(err)) {
+        handleUnauthorizedError()
+      } else {
+        setError(
+          err instanceof Error ? err.message : 'Failed to start glossary job',
+        )
+      }
+    }
+  }
+
+  const handleRefreshGlossaryJob = async () => {
+    if (!glossaryJob) return
+    try {
+      const job = await getGlossaryJob({ data: { jobId: glossaryJob.id } })
+      setGlossaryJob({ id: glossaryJob.id, ...job })
+    } catch (err) {
+      if (isUnauthorizedError(err)) {
+        handleUnauthorizedError()
+      } else {
+        setError(
+          err instanceof Error ? err.message : 'Failed to check glossary job',
+        )
+      }
+    }
+  }
+
+  const handleMergeTags = async (e: React.FormEvent) => {
+    e.preventDefault()
+    const source = tags.find((t) => t.id === tagMerge.sourceTagId)
+    const target = tags.find((t) => t.id === tagMerge.targetTagId)
+    if (!source || !target) return
+    if (
+      !confirm(
+        `Merge "${source.name}" into "${target.name}"? Its ${source.episodeCount} episode(s) move to "${target.name}", and "${source.name}" becomes an alias.`,
+      )
+    )
+      return
+    setError(null)
+    setMessage(null)
+    try {
+      await mergeTag({ data: tagMerge })
+      setMessage(`Merged "${source.name}" into "${target.name}".`)
+      setTagMerge({ sourceTagId: '', targetTagId: '' })
+      router.invalidate()
+    } catch (err) {
+      if (isDemoError(err)) {
+        handleDemoError()
+      } else if (isUnauthorizedError(err)) {
+        handleUnauthorizedError()
+      } else {
+        setError(err instanceof Error ? err.message : 'Failed to merge tags')
+      }
+    }
+  }
+
+  const handleAddTagAlias = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!tagAlias.alias.trim() || !tagAlias.tagId) return
+    setError(null)
+    setMessage(null)
+    try {
+      const { alias } = await addTagAlias({ data: tagAlias })
+      const target = tags.find((t) => t.id === tagAlias.tagId)
+      setMessage(`"${alias}" now resolves to "${target?.name}".`)
+      setTagAlias({ alias: '', tagId: '' })
+      router.invalidate()
+    } catch (err) {
+      if (isDemoError(err)) {
+        handleDemoError()
+      } else if (isUnauthorizedError(err)) {
+        handleUnauthorizedError()
+      } else {
+        setError(err instanceof Error ? err.message : 'Failed to add alias')
+      }
+    }
+  }
+
+  const handleRemoveTagAlias = async (alias: string) => {
+    try {
+      await removeTagAlias({ data: { alias } })
+      router.invalidate()
+    } catch (err) {
+      if (isDemoError(err)) {
+        handleDemoError()
+      } else if (isUnauthorizedError(err)) {
+        handleUnauthorizedError()
+      } else {
+        setError(err instanceof Error ? err.message : 'Failed to remove alias')
+      }
+    }
+  }
+
+  const handleCreateUser = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setCreatingUser(true)
+    setError(null)
+    setMessage(null)
+    try {
+      await createUser({ data: newUser })
+      setMessage(`Created ${newUser.role} account for ${newUser.email}.`)
+      setNewUser({ email: '', password: '', role: 'viewer' })
+      router.invalidate()
+    } catch (err) {
+      if (isUnauthorizedError(err)) {
+        handleUnauthorizedError()
+      } else {
+        setError(err instanceof Error ? err.message : 'Failed to create user')
+      }
+    } finally {
+      setCreatingUser(false)
+    }
+  }
+
+  const handleUpdateRole = async (userId: string, role: Role) => {
+    try {
+      await updateUserRole({ data: { userId, role } })
+      router.invalidate()
+    } catch (err) {
+      if (isUnauthorizedError(err)) {
+        handleUnauthorizedError()
+      } else {
+        setError(err instanceof Error ? err.message : 'Failed to update role')
+      }
+    }
+  }
+
+  const handleDeleteUser = async (userId: string, email: string) => {
+    if (!confirm(`Delete the account for ${email}?`)) return
+    try {
+      await deleteUser({ data: { userId } })
+      setMessage(`Deleted the account for ${email}.`)
+      router.invalidate()
+    } catch (err) {
+      if (isUnauthorizedError(err)) {
+        handleUnauthorizedError()
+      } else {
+        setError(err instanceof Error ? err.message : 'Failed to delete user')
+      }
+    }
+  }
+
   return (
     <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
       {/* Demo Mode Toast */}
@@ -393,6 +893,189 @@ function AdminPage() {
         </div>
       </section>
 
+      {/* Failed Episodes Section */}
+      {failedEpisodes.length > 0 && (
+        <section className="mb-10">
+          <div className="flex items-center gap-3 mb-5">
+            <span className="font-mono text-xs uppercase tracking-widest text-danger-600 dark:text-danger-400">
+              Failed Episodes
+            </span>
+            <span className="inline-flex items-center justify-center min-w-[1.5rem] h-5 rounded-full bg-danger-100 dark:bg-danger-900 text-danger-700 dark:text-danger-200 text-xs font-mono font-medium px-1.5">
+              {failedEpisodes.length}
+            </span>
+            <div className="flex-1 border-t border-gray-200 dark:border-gray-700" />
+          </div>
+
+          <div className="border rounded overflow-hidden">
+            <table className="w-full text-sm">
+              <thead className="bg-gray-50 dark:bg-gray-800">
+                <tr>
+                  <th className="text-left px-3 py-2 font-mono text-xs uppercase tracking-wider text-gray-500 dark:text-gray-400 font-medium">
+                    Episode
+                  </th>
+                  <th className="text-left px-3 py-2 font-mono text-xs uppercase tracking-wider text-gray-500 dark:text-gray-400 font-medium w-48">
+                    Failed Step
+                  </th>
+                  <th className="px-3 py-2 font-mono text-xs uppercase tracking-wider text-gray-500 dark:text-gray-400 font-medium w-40">
+                    Actions
+                  </th>
+                </tr>
+              </thead>
+              <tbody className="divide-y">
+                {failedEpisodes.map((episode) => (
+                  <React.Fragment key={episode.id}>
+                    <tr className="episode-row">
+                      <td className="px-3 py-2">
+                        <Link
+                          to="/episodes/$episodeId"
+                          params={{ episodeId: episode.id }}
+                          className="hover:text-ink-500 dark:hover:text-ink-300 truncate block max-w-md transition-colors"
+                        >
+                          {episode.title}
+                        </Link>
+                        <span className="block text-xs text-gray-500 dark:text-gray-400">
+                          {episode.podcastTitle}
+                        </span>
+                        {episode.errorMessage && (
+                          <span className="block text-xs text-danger-600 dark:text-danger-400 truncate max-w-md">
+                            {episode.errorMessage}
+                          </span>
+                        )}
+                      </td>
+                      <td className="px-3 py-2 font-mono text-xs text-gray-500">
+                        {episode.failedStep ?? 'unknown'}
+                        {episode.failedAttempts != null && (
+                          <span className="block text-gray-400">
+                            after {episode.failedAttempts} attempt
+                            {episode.failedAttempts !== 1 ? 's' : ''}
+                          </span>
+                        )}
+                      </td>
+                      <td className="px-3 py-2 text-center space-x-1">
+                        <button
+                          onClick={() => handleRetryEpisode(episode.id)}
+                          className="btn btn-sm btn-primary"
+                        >
+                          Retry
+                        </button>
+                        <button
+                          onClick={() => handleToggleHistory(episode.id)}
+                          className="btn btn-sm btn-ghost"
+                        >
+                          History
+                        </button>
+                      </td>
+                    </tr>
+                    {historyEpisodeId === episode.id && (
+                      <tr>
+                        <td colSpan={3} className="px-3 py-2 bg-gray-50 dark:bg-gray-800">
+                          {history.length === 0 ? (
+                            <p className="text-xs text-gray-500">No events recorded.</p>
+                          ) : (
+                            <ul className="space-y-1 font-mono text-xs">
+                              {history.map((event) => (
+                                <li key={event.id} className="flex gap-3">
+                                  <span className="text-gray-400 shrink-0">
+                                    {new Date(event.createdAt).toLocaleString()}
+                                  </span>
+                                  <span className="shrink-0">
+                                    {event.type}
+                                    {event.step ? ` ${event.step}` : ''}
+                                    {event.attempt ? ` #${event.attempt}` : ''}
+                                  </span>
+                                  {event.message && (
+                                    <span className="text-gray-500 truncate">
+                                      {event.message}
+                                    </span>
+                                  )}
+                                </li>
+                              ))}
+                            </ul>
+                          )}
+                        </td>
+                      </tr>
+                    )}
+                  </React.Fragment>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </section>
+      )}
+
+      {/* Failed Feed Polls Section */}
+      {feedPollFailures.length > 0 && (
+        <section className="mb-10">
+          <div className="flex items-center gap-3 mb-5">
+            <span className="font-mono text-xs uppercase tracking-widest text-danger-600 dark:text-danger-400">
+              Failed Feed Polls
+            </span>
+            <span className="inline-flex items-center justify-center min-w-[1.5rem] h-5 rounded-full bg-danger-100 dark:bg-danger-900 text-danger-700 dark:text-danger-200 text-xs font-mono font-medium px-1.5">
+              {feedPollFailures.length}
+            </span>
+            <div className="flex-1 border-t border-gray-200 dark:border-gray-700" />
+          </div>
+
+          <div className="border rounded overflow-hidden">
+            <table className="w-full text-sm">
+              <thead className="bg-gray-50 dark:bg-gray-800">
+                <tr>
+                  <th className="text-left px-3 py-2 font-mono text-xs uppercase tracking-wider text-gray-500 dark:text-gray-400 font-medium">
+                    Feed
+                  </th>
+                  <th className="text-left px-3 py-2 font-mono text-xs uppercase tracking-wider text-gray-500 dark:text-gray-400 font-medium w-48">
+                    Gave Up
+                  </th>
+                  <th className="px-3 py-2 font-mono text-xs uppercase tracking-wider text-gray-500 dark:text-gray-400 font-medium w-40">
+                    Actions
+                  </th>
+                </tr>
+              </thead>
+              <tbody className="divide-y">
+                {feedPollFailures.map((job) => (
+                  <tr key={job.id} className="episode-row">
+                    <td className="px-3 py-2">
+                      <Link
+                        to="/podcasts/$podcastId"
+                        params={{ podcastId: job.podcastId }}
+                        className="hover:text-ink-500 dark:hover:text-ink-300 truncate block max-w-md transition-colors"
+                      >
+                        {job.podcastTitle}
+                      </Link>
+                      {job.lastError && (
+                        <span className="block text-xs text-danger-600 dark:text-danger-400 truncate max-w-md">
+                          {job.lastError}
+                        </span>
+                      )}
+                    </td>
+                    <td className="px-3 py-2 font-mono text-xs text-gray-500">
+                      {new Date(job.updatedAt).toLocaleString()}
+                      <span className="block text-gray-400">
+                        after {job.attempts} attempt{job.attempts !== 1 ? 's' : ''}
+                      </span>
+                    </td>
+                    <td className="px-3 py-2 text-center space-x-1">
+                      <button
+                        onClick={() => handleRetryFeedPoll(job.id)}
+                        className="btn btn-sm btn-primary"
+                      >
+                        Retry
+                      </button>
+                      <button
+                        onClick={() => handleDismissFeedPoll(job.id)}
+                        className="btn btn-sm btn-ghost"
+                      >
+                        Dismiss
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </section>
+      )}
+
       {/* Podcasts Section */}
       <section>
         {/* Section Header */}
@@ -440,9 +1123,63 @@ function AdminPage() {
                       <p className="text-xs font-mono text-gray-400 dark:text-gray-500 truncate max-w-md">
                         {podcast.feedUrl}
                       </p>
+                      {/* Feed health */}
+                      <p className="text-xs font-mono text-gray-500 dark:text-gray-400 mt-1">
+                        {podcast.lastPollStatus === 'error' ? (
+                          <span className="text-danger-600 dark:text-danger-400">
+                            Failing ({podcast.consecutiveFailures} in a row)
+                          </span>
+                        ) : podcast.lastPollStatus ? (
+                          <span className="text-green-700 dark:text-green-400">
+                            OK{podcast.lastPollStatus === 'unchanged' ? ', unchanged' : ''}
+                          </span>
+                        ) : (
+                          'Not polled yet'
+                        )}
+                        {podcast.lastPolledAt && (
+                          <>
+                            {' '}&middot; last{' '}
+                            {new Date(podcast.lastPolledAt).toLocaleString()}
+                          </>
+                        )}
+                        {podcast.active && podcast.nextPollAt && (
+                          <>
+                            {' '}&middot; next{' '}
+                            {new Date(podcast.nextPollAt).toLocaleString()}
+                          </>
+                        )}
+                      </p>
+                      {podcast.lastPollStatus === 'error' && podcast.lastPollError && (
+                        <p
+                          className="text-xs text-danger-600 dark:text-danger-400 truncate max-w-md"
+                          title={podcast.lastPollError}
+                        >
+                          {podcast.lastPollError}
+                        </p>
+                      )}
                     </div>
                   </div>
                   <div className="flex gap-2">
+                    <select
+                      value={podcast.pollIntervalMinutes}
+                      onChange={(e) =>
+                        handleSetInterval(podcast.id, Number(e.target.value))
+                      }
+                      title="How often to check this feed"
+                      className="px-2 py-1 border rounded-md bg-white dark:bg-gray-800 text-xs font-mono"
+                    >
+                      {POLL_INTERVAL_OPTIONS.map((minutes) => (
+                        <option key={minutes} value={minutes}>
+                          Every {formatInterval(minutes)}
+                        </option>
+                      ))}
+                    </select>
+                    <button
+                      onClick={() => handlePollPodcast(podcast.id, podcast.title)}
+                      className="btn btn-sm btn-secondary"
+                    >
+                      Poll Now
+                    </button>
                     <button
                       onClick={() => handleImportPast(podcast.id)}
                       className="btn btn-sm btn-secondary"
@@ -561,6 +1298,554 @@ function AdminPage() {
           </div>
         )}
       </section>
+
+      {/* Daily Digests Section */}
+      <section className="mt-10">
+        <div className="flex items-center gap-3 mb-5">
+          <span className="font-mono text-xs uppercase tracking-widest text-gray-500 dark:text-gray-400">
+            Daily Digests
+          </span>
+          <span className="inline-flex items-center justify-center min-w-[1.5rem] h-5 rounded-full bg-ink-100 dark:bg-ink-800 text-ink-700 dark:text-ink-200 text-xs font-mono font-medium px-1.5">
+            {digests.length}
+          </span>
+          <div className="flex-1 border-t border-gray-200 dark:border-gray-700" />
+          <span className="text-xs font-mono text-gray-500 dark:text-gray-400">
+            {subscriberCount} subscriber{subscriberCount !== 1 ? 's' : ''}
+          </span>
+          <button
+            onClick={handleSendDigest}
+            disabled={sendingDigest}
+            className="btn btn-sm btn-secondary"
+          >
+            {sendingDigest ? 'Sending\u2026' : 'Send Digest Now'}
+          </button>
+        </div>
+
+        {digests.length === 0 ? (
+          <p className="text-gray-500 dark:text-gray-400">
+            No digests have been sent yet.
+          </p>
+        ) : (
+          <div className="border rounded overflow-hidden">
+            <table className="w-full text-sm">
+              <thead className="bg-gray-50 dark:bg-gray-800">
+                <tr>
+                  <th className="text-left px-3 py-2 font-mono text-xs uppercase tracking-wider text-gray-500 dark:text-gray-400 font-medium">
+                    Digest
+                  </th>
+                  <th className="text-left px-3 py-2 font-mono text-xs uppercase tracking-wider text-gray-500 dark:text-gray-400 font-medium w-24">
+                    Episodes
+                  </th>
+                  <th className="text-left px-3 py-2 font-mono text-xs uppercase tracking-wider text-gray-500 dark:text-gray-400 font-medium w-32">
+                    Status
+                  </th>
+                  <th className="px-3 py-2 font-mono text-xs uppercase tracking-wider text-gray-500 dark:text-gray-400 font-medium w-40">
+                    Actions
+                  </th>
+                </tr>
+              </thead>
+              <tbody className="divide-y">
+                {digests.map((digest) => (
+                  <tr key={digest.id} className="episode-row">
+                    <td className="px-3 py-2">
+                      <span className="block truncate max-w-md">
+                        {digest.subject}
+                      </span>
+                      {digest.error && (
+                        <span className="block text-xs text-danger-600 dark:text-danger-400 truncate max-w-md">
+                          {digest.error}
+                        </span>
+                      )}
+                    </td>
+                    <td className="px-3 py-2 text-gray-500 font-mono text-xs">
+                      {digest.episodeCount}
+                    </td>
+                    <td className="px-3 py-2">
+                      <span
+                        className={`status-badge status-${digest.status === 'sent' ? 'complete' : digest.status === 'failed' ? 'error' : 'pending'}`}
+                      >
+                        {digest.status}
+                      </span>
+                    </td>
+                    <td className="px-3 py-2 text-center space-x-1">
+                      <a
+                        href={`/api/digest/${digest.id}`}
+                        target="_blank"
+                        rel="noreferrer"
+                        className="btn btn-sm btn-ghost"
+                      >
+                        Preview
+                      </a>
+                      <button
+                        onClick={() => handleResendDigest(digest.id)}
+                        className="btn btn-sm btn-secondary"
+                      >
+                        Resend
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </section>
+
+      {/* Glossary Section */}
+      <section className="mt-10">
+        <div className="flex items-center gap-3 mb-5">
+          <span className="font-mono text-xs uppercase tracking-widest text-gray-500 dark:text-gray-400">
+            Glossary
+          </span>
+          <span className="inline-flex items-center justify-center min-w-[1.5rem] h-5 rounded-full bg-ink-100 dark:bg-ink-800 text-ink-700 dark:text-ink-200 text-xs font-mono font-medium px-1.5">
+            {glossaryTerms.length}
+          </span>
+          <div className="flex-1 border-t border-gray-200 dark:border-gray-700" />
+          <button
+            onClick={handleReapplyGlossary}
+            disabled={glossaryTerms.length === 0}
+            className="btn btn-sm btn-secondary"
+          >
+            Re-apply to Transcripts
+          </button>
+        </div>
+
+        <p className="text-sm text-gray-500 dark:text-gray-400 mb-4">
+          Correct spellings of names and jargon. New Whisper transcripts are
+          primed with them and corrected as they are stored; re-apply to fix
+          existing ones.
+        </p>
+
+        {glossaryJob && (
+          <div className="mb-4 flex items-center gap-3 text-sm">
+            <span
+              className={`status-badge status-${glossaryJob.status === 'complete' ? 'complete' : glossaryJob.status === 'errored' || glossaryJob.status === 'terminated' ? 'error' : 'pending'}`}
+            >
+              {glossaryJob.status}
+            </span>
+            <span className="text-gray-500 dark:text-gray-400">
+              {glossaryJob.output
+                ? `${glossaryJob.output.updatedSegments} segment${glossaryJob.output.updatedSegments !== 1 ? 's' : ''} corrected across ${glossaryJob.output.episodes} episode${glossaryJob.output.episodes !== 1 ? 's' : ''}`
+                : (glossaryJob.error ?? 'Re-applying the glossary\u2026')}
+            </span>
+            <button
+              onClick={handleRefreshGlossaryJob}
+              className="btn btn-sm btn-ghost"
+            >
+              Refresh
+            </button>
+          </div>
+        )}
+
+        <form
+          onSubmit={handleSaveGlossaryTerm}
+          className="flex flex-wrap gap-2 mb-4"
+        >
+          <input
+            type="text"
+            value={glossaryForm.term}
+            onChange={(e) =>
+              setGlossaryForm({ ...glossaryForm, term: e.target.value })
+            }
+            placeholder="Correct spelling"
+            required
+            className="flex-1 min-w-[10rem] px-3 py-1.5 border rounded-md bg-white dark:bg-gray-800 text-sm focus:outline-none focus:ring-2 focus:ring-ink-400"
+          />
+          <input
+            type="text"
+            value={glossaryForm.variants}
+            onChange={(e) =>
+              setGlossaryForm({ ...glossaryForm, variants: e.target.value })
+            }
+            placeholder="Mis-transcriptions, comma separated"
+            className="flex-[2] min-w-[14rem] px-3 py-1.5 border rounded-md bg-white dark:bg-gray-800 text-sm focus:outline-none focus:ring-2 focus:ring-ink-400"
+          />
+          <select
+            value={glossaryForm.podcastId}
+            onChange={(e) =>
+              setGlossaryForm({ ...glossaryForm, podcastId: e.target.value })
+            }
+            className="px-3 py-1.5 border rounded-md bg-white dark:bg-gray-800 text-sm max-w-[14rem]"
+          >
+            <option value="">All podcasts</option>
+            {podcasts.map((podcast) => (
+              <option key={podcast.id} value={podcast.id}>
+                {podcast.title}
+              </option>
+            ))}
+          </select>
+          <button
+            type="submit"
+            disabled={savingTerm}
+            className="btn btn-sm btn-primary"
+          >
+            {savingTerm
+              ? 'Saving\u2026'
+              : glossaryForm.termId
+                ? 'Save Term'
+                : 'Add Term'}
+          </button>
+          {glossaryForm.termId && (
+            <button
+              type="button"
+              onClick={() =>
+                setGlossaryForm({
+                  termId: null,
+                  term: '',
+                  variants: '',
+                  podcastId: '',
+                })
+              }
+              className="btn btn-sm btn-ghost"
+            >
+              Cancel
+            </button>
+          )}
+        </form>
+
+        {glossaryTerms.length === 0 ? (
+          <p className="text-gray-500 dark:text-gray-400">
+            No glossary terms yet.
+          </p>
+        ) : (
+          <div className="border rounded overflow-hidden">
+            <table className="w-full text-sm">
+              <thead className="bg-gray-50 dark:bg-gray-800">
+                <tr>
+                  <th className="text-left px-3 py-2 font-mono text-xs uppercase tracking-wider text-gray-500 dark:text-gray-400 font-medium w-48">
+                    Term
+                  </th>
+                  <th className="text-left px-3 py-2 font-mono text-xs uppercase tracking-wider text-gray-500 dark:text-gray-400 font-medium">
+                    Mis-transcriptions
+                  </th>
+                  <th className="text-left px-3 py-2 font-mono text-xs uppercase tracking-wider text-gray-500 dark:text-gray-400 font-medium w-48">
+                    Scope
+                  </th>
+                  <th className="px-3 py-2 font-mono text-xs uppercase tracking-wider text-gray-500 dark:text-gray-400 font-medium w-40">
+                    Actions
+                  </th>
+                </tr>
+              </thead>
+              <tbody className="divide-y">
+                {glossaryTerms.map((term) => (
+                  <tr key={term.id} className="episode-row">
+                    <td className="px-3 py-2 font-medium">{term.term}</td>
+                    <td className="px-3 py-2 text-gray-500 dark:text-gray-400">
+                      <span className="block truncate max-w-md">
+                        {term.variants.join(', ') || '\u2014'}
+                      </span>
+                    </td>
+                    <td className="px-3 py-2 text-gray-500 text-xs">
+                      <span className="block truncate max-w-[12rem]">
+                        {term.podcastTitle ?? 'All podcasts'}
+                      </span>
+                    </td>
+                    <td className="px-3 py-2 text-center space-x-1">
+                      <button
+                        onClick={() =>
+                          setGlossaryForm({
+                            termId: term.id,
+                            term: term.term,
+                            variants: term.variants.join(', '),
+                            podcastId: term.podcastId ?? '',
+                          })
+                        }
+                        className="btn btn-sm btn-secondary"
+                      >
+                        Edit
+                      </button>
+                      <button
+                        onClick={() =>
+                          handleDeleteGlossaryTerm(term.id, term.term)
+                        }
+                        className="btn btn-sm btn-danger"
+                      >
+                        Delete
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </section>
+
+      {/* Tags Section */}
+      <section className="mt-10">
+        <div className="flex items-center gap-3 mb-5">
+          <span className="font-mono text-xs uppercase tracking-widest text-gray-500 dark:text-gray-400">
+            Tags
+          </span>
+          <span className="inline-flex items-center justify-center min-w-[1.5rem] h-5 rounded-full bg-ink-100 dark:bg-ink-800 text-ink-700 dark:text-ink-200 text-xs font-mono font-medium px-1.5">
+            {tags.length}
+          </span>
+          <div className="flex-1 border-t border-gray-200 dark:border-gray-700" />
+        </div>
+
+        <p className="text-sm text-gray-500 dark:text-gray-400 mb-4">
+          Merge tags that mean the same thing, or add an alias so future
+          analyses use the canonical tag.
+        </p>
+
+        <div className="flex flex-wrap gap-x-6 gap-y-2 mb-4">
+          <form onSubmit={handleMergeTags} className="flex flex-wrap gap-2">
+            <select
+              value={tagMerge.sourceTagId}
+              onChange={(e) =>
+                setTagMerge({ ...tagMerge, sourceTagId: e.target.value })
+              }
+              required
+              className="px-3 py-1.5 border rounded-md bg-white dark:bg-gray-800 text-sm max-w-[14rem]"
+            >
+              <option value="">Merge tag&hellip;</option>
+              {tags.map((tag) => (
+                <option key={tag.id} value={tag.id}>
+                  {tag.name} ({tag.episodeCount})
+                </option>
+              ))}
+            </select>
+            <select
+              value={tagMerge.targetTagId}
+              onChange={(e) =>
+                setTagMerge({ ...tagMerge, targetTagId: e.target.value })
+              }
+              required
+              className="px-3 py-1.5 border rounded-md bg-white dark:bg-gray-800 text-sm max-w-[14rem]"
+            >
+              <option value="">into&hellip;</option>
+              {tags
+                .filter((tag) => tag.id !== tagMerge.sourceTagId)
+                .map((tag) => (
+                  <option key={tag.id} value={tag.id}>
+                    {tag.name} ({tag.episodeCount})
+                  </option>
+                ))}
+            </select>
+            <button type="submit" className="btn btn-sm btn-primary">
+              Merge
+            </button>
+          </form>
+
+          <form onSubmit={handleAddTagAlias} className="flex flex-wrap gap-2">
+            <input
+              type="text"
+              value={tagAlias.alias}
+              onChange={(e) =>
+                setTagAlias({ ...tagAlias, alias: e.target.value })
+              }
+              placeholder="Alias"
+              required
+              className="w-40 px-3 py-1.5 border rounded-md bg-white dark:bg-gray-800 text-sm focus:outline-none focus:ring-2 focus:ring-ink-400"
+            />
+            <select
+              value={tagAlias.tagId}
+              onChange={(e) =>
+                setTagAlias({ ...tagAlias, tagId: e.target.value })
+              }
+              required
+              className="px-3 py-1.5 border rounded-md bg-white dark:bg-gray-800 text-sm max-w-[14rem]"
+            >
+              <option value="">resolves to&hellip;</option>
+              {tags.map((tag) => (
+                <option key={tag.id} value={tag.id}>
+                  {tag.name}
+                </option>
+              ))}
+            </select>
+            <button type="submit" className="btn btn-sm btn-secondary">
+              Add Alias
+            </button>
+          </form>
+        </div>
+
+        {tags.length === 0 ? (
+          <p className="text-gray-500 dark:text-gray-400">
+            No tags yet. They are created as episodes are analysed.
+          </p>
+        ) : (
+          <div className="border rounded overflow-hidden max-h-[32rem] overflow-y-auto">
+            <table className="w-full text-sm">
+              <thead className="bg-gray-50 dark:bg-gray-800">
+                <tr>
+                  <th className="text-left px-3 py-2 font-mono text-xs uppercase tracking-wider text-gray-500 dark:text-gray-400 font-medium w-64">
+                    Tag
+                  </th>
+                  <th className="text-left px-3 py-2 font-mono text-xs uppercase tracking-wider text-gray-500 dark:text-gray-400 font-medium w-24">
+                    Episodes
+                  </th>
+                  <th className="text-left px-3 py-2 font-mono text-xs uppercase tracking-wider text-gray-500 dark:text-gray-400 font-medium">
+                    Aliases
+                  </th>
+                </tr>
+              </thead>
+              <tbody className="divide-y">
+                {tags.map((tag) => (
+                  <tr key={tag.id} className="episode-row">
+                    <td className="px-3 py-2">
+                      <Link
+                        to="/tags/$tag"
+                        params={{ tag: tag.name }}
+                        className="hover:text-ink-600 dark:hover:text-ink-300"
+                      >
+                        {tag.name}
+                      </Link>
+                    </td>
+                    <td className="px-3 py-2 text-gray-500 font-mono text-xs">
+                      {tag.episodeCount}
+                    </td>
+                    <td className="px-3 py-2">
+                      <div className="flex flex-wrap gap-1.5">
+                        {tag.aliases.map((alias) => (
+                          <span
+                            key={alias}
+                            className="inline-flex items-center gap-1 px-2 py-0.5 rounded bg-gray-100 dark:bg-gray-800 text-xs font-mono text-gray-600 dark:text-gray-300"
+                          >
+                            {alias}
+                            <button
+                              onClick={() => handleRemoveTagAlias(alias)}
+                              title={`Remove alias "${alias}"`}
+                              className="text-gray-400 hover:text-danger-600"
+                            >
+                              &times;
+                            </button>
+                          </span>
+                        ))}
+                      </div>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </section>
+
+      {/* Users Section (admins only) */}
+      {users && (
+        <section className="mt-10">
+          <div className="flex items-center gap-3 mb-5">
+            <span className="font-mono text-xs uppercase tracking-widest text-gray-500 dark:text-gray-400">
+              Users
+            </span>
+            <span className="inline-flex items-center justify-center min-w-[1.5rem] h-5 rounded-full bg-ink-100 dark:bg-ink-800 text-ink-700 dark:text-ink-200 text-xs font-mono font-medium px-1.5">
+              {users.length}
+            </span>
+            <div className="flex-1 border-t border-gray-200 dark:border-gray-700" />
+          </div>
+
+          <form
+            onSubmit={handleCreateUser}
+            className="flex flex-wrap gap-2 mb-4"
+          >
+            <input
+              type="email"
+              value={newUser.email}
+              onChange={(e) => setNewUser({ ...newUser, email: e.target.value })}
+              placeholder="Email"
+              required
+              className="flex-1 min-w-[12rem] px-3 py-1.5 border rounded-md bg-white dark:bg-gray-800 text-sm focus:outline-none focus:ring-2 focus:ring-ink-400"
+            />
+            <input
+              type="password"
+              value={newUser.password}
+              onChange={(e) =>
+                setNewUser({ ...newUser, password: e.target.value })
+              }
+              placeholder="Initial password"
+              autoComplete="new-password"
+              required
+              className="flex-1 min-w-[12rem] px-3 py-1.5 border rounded-md bg-white dark:bg-gray-800 text-sm focus:outline-none focus:ring-2 focus:ring-ink-400"
+            />
+            <select
+              value={newUser.role}
+              onChange={(e) =>
+                setNewUser({ ...newUser, role: e.target.value as Role })
+              }
+              className="px-3 py-1.5 border rounded-md bg-white dark:bg-gray-800 text-sm"
+            >
+              {ROLES.map((role) => (
+                <option key={role} value={role}>
+                  {role}
+                </option>
+              ))}
+            </select>
+            <button
+              type="submit"
+              disabled={creatingUser}
+              className="btn btn-sm btn-primary"
+            >
+              {creatingUser ? 'Creating\u2026' : 'Add User'}
+            </button>
+          </form>
+
+          <div className="border rounded overflow-hidden">
+            <table className="w-full text-sm">
+              <thead className="bg-gray-50 dark:bg-gray-800">
+                <tr>
+                  <th className="text-left px-3 py-2 font-mono text-xs uppercase tracking-wider text-gray-500 dark:text-gray-400 font-medium">
+                    User
+                  </th>
+                  <th className="text-left px-3 py-2 font-mono text-xs uppercase tracking-wider text-gray-500 dark:text-gray-400 font-medium w-32">
+                    Role
+                  </th>
+                  <th className="text-left px-3 py-2 font-mono text-xs uppercase tracking-wider text-gray-500 dark:text-gray-400 font-medium w-40">
+                    Last Sign-in
+                  </th>
+                  <th className="px-3 py-2 font-mono text-xs uppercase tracking-wider text-gray-500 dark:text-gray-400 font-medium w-24">
+                    Actions
+                  </th>
+                </tr>
+              </thead>
+              <tbody className="divide-y">
+                {users.map((u) => (
+                  <tr key={u.id} className="episode-row">
+                    <td className="px-3 py-2">
+                      <span className="block truncate max-w-md">{u.email}</span>
+                      {!u.hasPassword && (
+                        <span className="block text-xs text-gray-500 dark:text-gray-400">
+                          Cloudflare Access only
+                        </span>
+                      )}
+                    </td>
+                    <td className="px-3 py-2">
+                      <select
+                        value={u.role}
+                        onChange={(e) =>
+                          handleUpdateRole(u.id, e.target.value as Role)
+                        }
+                        disabled={u.id === currentUser.userId}
+                        className="px-2 py-1 border rounded bg-white dark:bg-gray-800 text-xs font-mono"
+                      >
+                        {ROLES.map((role) => (
+                          <option key={role} value={role}>
+                            {role}
+                          </option>
+                        ))}
+                      </select>
+                    </td>
+                    <td className="px-3 py-2 text-gray-500 font-mono text-xs">
+                      {u.lastLoginAt
+                        ? new Date(u.lastLoginAt).toLocaleString()
+                        : 'Never'}
+                    </td>
+                    <td className="px-3 py-2 text-center">
+                      {u.id !== currentUser.userId && (
+                        <button
+                          onClick={() => handleDeleteUser(u.id, u.email)}
+                          className="btn btn-sm btn-danger"
+                        >
+                          Delete
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </section>
+      )}
     </div>
   )
 }
@@ -3,11 +3,17 @@ import { env } from 'cloudflare:workers'
 import { eq } from 'drizzle-orm'
 import { getDb } from '~/db'
 import { episodes } from '~/db/schema'
+import { anonymousRole, hasRole, resolvePrincipal } from '~/lib/auth'
 
 export const Route = createFileRoute('/api/audio/$episodeId')({
   server: {
     handlers: {
       GET: async ({ params, request }) => {
+        const principal = await resolvePrincipal(env as any, request)
+        if (!hasRole(principal, 'viewer')) {
+          return new Response('Unauthorized', { status: 401 })
+        }
+
         const db = getDb(env.DB)
 
         const [episode] = await db
@@ -45,7 +51,15 @@ export const Route = createFileRoute('/api/audio/$episodeId')({
         object.writeHttpMetadata(headers)
         headers.set('Accept-Ranges', 'bytes')
         headers.set('Content-Type', 'audio/mpeg')
-        headers.set('Cache-Control', 'public, max-age=86400')
+        // Signed-out visitors must not get audio a shared cache kept from a
+        // signed-in request
+        headers.set(
+          'Cache-Control',
+          anonymousRole(env as any)
+            ? 'public, max-age=86400'
+            : 'private, max-age=86400',
+        )
+        headers.set('Vary', 'Cookie')
 
         if (rangeHeader && r2Options?.range) {
           const range = r2Options.range as { offset: number; length?: number }
@@ -0,0 +1,110 @@
+import { createFileRoute } from '@tanstack/react-router'
+import { env } from 'cloudflare:workers'
+import { eq } from 'drizzle-orm'
+import { getDb } from '~/db'
+import { episodes } from '~/db/schema'
+import { anonymousRole, hasRole, resolvePrincipal } from '~/lib/auth'
+import {
+  AudioClipError,
+  MAX_AUDIO_CLIP_SECONDS,
+  getAudioClip,
+  type AudioClip,
+} from '~/lib/audio-clips'
+
+// Cuts `start`–`end` seconds out of the episode audio on MP3 frame
+// boundaries. `?download=1` serves it as an attachment.
+export const Route = createFileRoute('/api/audio/$episodeId_/clip')({
+  server: {
+    handlers: {
+      GET: async ({ params, request }) => {
+        const principal = await resolvePrincipal(env as any, request)
+        if (!hasRole(principal, 'viewer')) {
+          return new Response('Unauthorized', { status: 401 })
+        }
+
+        const url = new URL(request.url)
+        const start = Number(url.searchParams.get('start'))
+        const end = Number(url.searchParams.get('end'))
+        if (
+          !url.searchParams.has('start') ||
+          !url.searchParams.has('end') ||
+          !Number.isFinite(start) ||
+          !Number.isFinite(end) ||
+          start < 0 ||
+          end <= start
+        ) {
+          return new Response('start and end must be seconds, with end after start', {
+            status: 400,
+          })
+        }
+        if (end - start > MAX_AUDIO_CLIP_SECONDS) {
+          return new Response(
+            `Clips can be at most ${MAX_AUDIO_CLIP_SECONDS / 60} minutes long`,
+            { status: 400 },
+          )
+        }
+
+        const db = getDb(env.DB)
+
+        const [episode] = await db
+          .select({ id: episodes.id, title: episodes.title, r2Key: episodes.r2Key })
+          .from(episodes)
+          .where(eq(episodes.id, params.episodeId))
+          .limit(1)
+
+        if (!episode?.r2Key) {
+          return new Response('Not found', { status: 404 })
+        }
+
+        let clip: AudioClip
+        try {
+          clip = await getAudioClip(
+            env,
+            { id: episode.id, r2Key: episode.r2Key },
+            start,
+            end,
+          )
+        } catch (err) {
+          if (err instanceof AudioClipError) {
+            return new Response(err.message, { status: err.status })
+          }
+          throw err
+        }
+
+        const headers = new Headers()
+        headers.set('Content-Type', 'audio/mpeg')
+        headers.set('Content-Length', String(clip.size))
+        headers.set('ETag', clip.etag)
+        // A clip's content never changes for a given range. Shared caches
+        // may only keep it when anyone could fetch it without signing in.
+        headers.set(
+          'Cache-Control',
+          anonymousRole(env as any)
+            ? 'public, max-age=86400'
+            : 'private, max-age=86400',
+        )
+        headers.set('Vary', 'Cookie')
+
+        if (url.searchParams.get('download') === '1') {
+          const slug =
+            episode.title
+              .toLowerCase()
+              .replace(/[^a-z0-9]+/g, '-')
+              .replace(/^-+|-+$/g, '')
+              .slice(0, 60) || 'clip'
+          headers.set(
+            'Content-Disposition',
+            `attachment; filename="${slug}-${Math.floor(start)}-${Math.ceil(end)}.mp3"`,
+          )
+        }
+
+        if (request.headers.get('If-None-Match') === clip.etag) {
+          if (clip.body instanceof ReadableStream) await clip.body.cancel()
+          return new Response(null, { status: 304, headers })
+        }
+
+        return new Response(clip.body, { status: 200, headers })
+      },
+    },
+  },
+})
@@ -0,0 +1,88 @@
+import { createFileRoute } from '@tanstack/react-router'
+import { env } from 'cloudflare:workers'
+import { and, eq, gt } from 'drizzle-orm'
+import { getDb } from '~/db'
+import {
+  clips,
+  episodes,
+  podcasts,
+  speakers,
+  transcriptSegments,
+} from '~/db/schema'
+import { anonymousRole, hasRole, resolvePrincipal } from '~/lib/auth'
+import { renderQuoteCard } from '~/lib/quote-card'
+import { speakerName } from '~/lib/utils'
+
+// Renders a saved clip as an SVG quote card, for embedding with <img>
+export const Route = createFileRoute('/api/clips/$clipId/card')({
+  server: {
+    handlers: {
+      GET: async ({ params, request }) => {
+        const principal = await resolvePrincipal(env as any, request)
+        if (!hasRole(principal, 'viewer')) {
+          return new Response('Unauthorized', { status: 401 })
+        }
+
+        const db = getDb(env.DB)
+
+        const [clip] = await db
+          .select({
+            episodeId: clips.episodeId,
+            startTime: clips.startTime,
+            endTime: clips.endTime,
+            quote: clips.quote,
+            episodeTitle: episodes.title,
+            podcastTitle: podcasts.title,
+          })
+          .from(clips)
+          .innerJoin(episodes, eq(episodes.id, clips.episodeId))
+          .innerJoin(podcasts, eq(podcasts.id, episodes.podcastId))
+          .where(eq(clips.id, params.clipId))
+          .limit(1)
+
+        if (!clip) {
+          return new Response('Not found', { status: 404 })
+        }
+
+        // Attribute the card to whoever is speaking where the clip starts
+        const [firstSegment] = await db
+          .select({ label: speakers.label, displayName: speakers.displayName })
+          .from(transcriptSegments)
+          .leftJoin(speakers, eq(speakers.id, transcriptSegments.speakerId))
+          .where(
+            and(
+              eq(transcriptSegments.episodeId, clip.episodeId),
+              gt(transcriptSegments.endTime, clip.startTime),
+            ),
+          )
+          .orderBy(transcriptSegments.segmentIndex)
+          .limit(1)
+
+        const svg = renderQuoteCard({
+          quote: clip.quote,
+          speaker: firstSegment?.label
+            ? speakerName({
+                label: firstSegment.label,
+                displayName: firstSegment.displayName,
+              })
+            : null,
+          podcast: clip.podcastTitle,
+          episode: clip.episodeTitle,
+          startTime: clip.startTime,
+          endTime: clip.endTime,
+        })
+
+        return new Response(svg, {
+          headers: {
+            'Content-Type': 'image/svg+xml; charset=utf-8',
+            // Only shareable through caches when anyone may view cards
+            'Cache-Control': anonymousRole(env as any)
+              ? 'public, max-age=3600'
+              : 'private, max-age=3600',
+            Vary: 'Cookie',
+          },
+        })
+      },
+    },
+  },
+})
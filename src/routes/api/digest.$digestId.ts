@@ -0,0 +1,37 @@
+import { createFileRoute } from '@tanstack/react-router'
+import { env } from 'cloudflare:workers'
+import { eq } from 'drizzle-orm'
+import { getDb } from '~/db'
+import { digests } from '~/db/schema'
+import { hasRole, resolvePrincipal } from '~/lib/auth'
+
+// Serves the stored HTML of a digest so it can be previewed in the browser
+export const Route = createFileRoute('/api/digest/$digestId')({
+  server: {
+    handlers: {
+      GET: async ({ params, request }) => {
+        const principal = await resolvePrincipal(env as any, request)
+        if (!hasRole(principal, 'viewer')) {
+          return new Response('Unauthorized', { status: 401 })
+        }
+
+        const db = getDb(env.DB)
+
+        const [digest] = await db
+          .select({ html: digests.html })
+          .from(digests)
+          .where(eq(digests.id, params.digestId))
+          .limit(1)
+
+        if (!digest) {
+          return new Response('Not found', { status: 404 })
+        }
+
+        return new Response(digest.html, {
+          status: 200,
+          headers: { 'Content-Type': 'text/html; charset=utf-8' },
+        })
+      },
+    },
+  },
+})
@@ -0,0 +1,139 @@
+import { createFileRoute } from '@tanstack/react-router'
+import { env } from 'cloudflare:workers'
+import { eq } from 'drizzle-orm'
+import { getDb } from '~/db'
+import {
+  episodes,
+  podcasts,
+  speakers,
+  transcriptSegments,
+} from '~/db/schema'
+import { hasRole, resolvePrincipal } from '~/lib/auth'
+import {
+  TRANSCRIPT_CONTENT_TYPES,
+  formatJson,
+  formatPlainText,
+  formatSrt,
+  formatVtt,
+  isTranscriptFormat,
+  type CaptionSegment,
+  type TranscriptDocument,
+} from '~/lib/captions'
+import { speakerName } from '~/lib/utils'
+import type { Word } from '~/lib/timestamp'
+
+function slugify(text: string): string {
+  return (
+    text
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, '-')
+      .replace(/^-+|-+$/g, '')
+      .slice(0, 80) || 'transcript'
+  )
+}
+
+// Exports an episode transcript as /api/transcript/<episodeId>.<format>,
+// where format is srt, vtt, txt or json. `?words=1` adds word timings to vtt.
+export const Route = createFileRoute('/api/transcript/$filename')({
+  server: {
+    handlers: {
+      GET: async ({ params, request }) => {
+        const principal = await resolvePrincipal(env as any, request)
+        if (!hasRole(principal, 'viewer')) {
+          return new Response('Unauthorized', { status: 401 })
+        }
+
+        const dot = params.filename.lastIndexOf('.')
+        const episodeId = dot > 0 ? params.filename.slice(0, dot) : ''
+        const format = dot > 0 ? params.filename.slice(dot + 1).toLowerCase() : ''
+        if (!episodeId || !isTranscriptFormat(format)) {
+          return new Response('Unsupported transcript format', { status: 404 })
+        }
+
+        const db = getDb(env.DB)
+
+        const [episode] = await db
+          .select({
+            id: episodes.id,
+            title: episodes.title,
+            publishedAt: episodes.publishedAt,
+            durationSeconds: episodes.durationSeconds,
+            podcast: podcasts.title,
+          })
+          .from(episodes)
+          .leftJoin(podcasts, eq(podcasts.id, episodes.podcastId))
+          .where(eq(episodes.id, episodeId))
+          .limit(1)
+
+        if (!episode) {
+          return new Response('Not found', { status: 404 })
+        }
+
+        const segmentRows = await db
+          .select()
+          .from(transcriptSegments)
+          .where(eq(transcriptSegments.episodeId, episodeId))
+          .orderBy(transcriptSegments.segmentIndex)
+
+        if (segmentRows.length === 0) {
+          return new Response('No transcript available', { status: 404 })
+        }
+
+        const speakerRows = await db
+          .select()
+          .from(speakers)
+          .where(eq(speakers.episodeId, episodeId))
+          .orderBy(speakers.label)
+        const namesById = new Map(
+          speakerRows.map((speaker) => [speaker.id, speakerName(speaker)]),
+        )
+
+        const segments: CaptionSegment[] = segmentRows.map((segment) => {
+          let words: Word[] = []
+          try {
+            words = segment.words ? JSON.parse(segment.words) : []
+          } catch {
+            // Fall back to segment-level timing
+          }
+          return {
+            text: segment.text,
+            startTime: segment.startTime,
+            endTime: segment.endTime,
+            words,
+            speaker: segment.speakerId
+              ? (namesById.get(segment.speakerId) ?? null)
+              : null,
+          }
+        })
+
+        const document: TranscriptDocument = {
+          episode,
+          speakers: speakerRows.map((speaker) => ({
+            label: speaker.label,
+            name: speaker.displayName,
+          })),
+          segments,
+        }
+
+        const wordTimings = new URL(request.url).searchParams.get('words') === '1'
+        const body =
+          format === 'srt'
+            ? formatSrt(segments)
+            : format === 'vtt'
+              ? formatVtt(segments, { wordTimings })
+              : format === 'txt'
+                ? formatPlainText(document)
+                : formatJson(document)
+
+        const filename = `${slugify(episode.title)}.${format}`
+        return new Response(body, {
+          headers: {
+            'Content-Type': TRANSCRIPT_CONTENT_TYPES[format],
+            'Content-Disposition': `attachment; filename="${filename}"`,
+            'Cache-Control': 'private, max-age=300',
+          },
+        })
+      },
+    },
+  },
+})
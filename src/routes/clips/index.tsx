@@ -0,0 +1,119 @@
+import { createFileRoute, Link, useRouter } from '@tanstack/react-router'
+import { deleteClip, getClips } from '~/lib/server-fns'
+import { hasRole } from '~/lib/auth'
+import { formatTime } from '~/lib/utils'
+
+export const Route = createFileRoute('/clips/')({
+  loader: () => getClips(),
+  component: ClipsPage,
+})
+
+function ClipsPage() {
+  const clips = Route.useLoaderData()
+  const { user } = Route.useRouteContext()
+  const router = useRouter()
+
+  const canDelete = (createdBy: string | null) =>
+    !user.isDemo &&
+    (hasRole(user, 'admin') ||
+      (hasRole(user, 'editor') && !!user.userId && createdBy === user.userId))
+
+  const handleDelete = async (clipId: string) => {
+    if (!confirm('Delete this clip?')) return
+    try {
+      await deleteClip({ data: { clipId } })
+      router.invalidate()
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to delete clip')
+    }
+  }
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+      {/* Header */}
+      <div className="mb-10">
+        <h1 className="font-heading text-4xl mb-2">Clips</h1>
+        <p className="text-gray-500 dark:text-gray-400">
+          Saved moments from episodes, newest first. Make a clip from the
+          transcript on any episode page.
+        </p>
+      </div>
+
+      <div className="flex items-center gap-3 mb-5">
+        <span className="font-mono text-xs uppercase tracking-widest text-gray-500 dark:text-gray-400">
+          Saved
+        </span>
+        <span className="inline-flex items-center justify-center min-w-[1.5rem] h-5 rounded-full bg-ink-100 dark:bg-ink-800 text-ink-700 dark:text-ink-200 text-xs font-mono font-medium px-1.5">
+          {clips.length}
+        </span>
+        <div className="flex-1 border-t border-gray-200 dark:border-gray-700" />
+      </div>
+
+      {clips.length === 0 ? (
+        <div className="podcast-card p-8 text-center text-gray-500 dark:text-gray-400">
+          <p>No clips have been saved yet.</p>
+        </div>
+      ) : (
+        <div className="space-y-2">
+          {clips.map((clip) => (
+            <div
+              key={clip.id}
+              className="episode-row rounded-lg p-4 bg-white dark:bg-gray-900 border border-gray-200 dark:border-gray-800"
+            >
+              <div className="flex items-center justify-between gap-4 mb-2">
+                <Link
+                  to="/episodes/$episodeId"
+                  params={{ episodeId: clip.episodeId }}
+                  search={{ start: clip.startTime, end: clip.endTime }}
+                  className="font-medium hover:text-ink-500 dark:hover:text-ink-300 transition-colors"
+                >
+                  {clip.episodeTitle}
+                </Link>
+                <span className="text-xs font-mono text-gray-500 dark:text-gray-400 flex-shrink-0">
+                  {formatTime(clip.startTime)}&ndash;{formatTime(clip.endTime)}
+                </span>
+              </div>
+              <blockquote className="text-sm italic text-gray-600 dark:text-gray-400 border-l-2 border-ink-300 dark:border-ink-600 pl-3 line-clamp-4">
+                &ldquo;{clip.quote}&rdquo;
+              </blockquote>
+              {clip.note && <p className="text-sm mt-2">{clip.note}</p>}
+              <div className="flex items-center gap-3 mt-2 text-xs font-mono text-gray-500 dark:text-gray-400">
+                <Link
+                  to="/podcasts/$podcastId"
+                  params={{ podcastId: clip.podcastId }}
+                  className="hover:text-ink-500 dark:hover:text-ink-300"
+                >
+                  {clip.podcastTitle}
+                </Link>
+                <span>{new Date(clip.createdAt).toLocaleDateString()}</span>
+                {clip.creatorEmail && <span>{clip.creatorEmail}</span>}
+                <a
+                  href={`/api/clips/${clip.id}/card`}
+                  target="_blank"
+                  rel="noreferrer"
+                  className="hover:text-ink-500 dark:hover:text-ink-300"
+                >
+                  Quote card
+                </a>
+                <a
+                  href={`/api/audio/${clip.episodeId}/clip?start=${clip.startTime.toFixed(2)}&end=${clip.endTime.toFixed(2)}&download=1`}
+                  className="hover:text-ink-500 dark:hover:text-ink-300"
+                >
+                  Audio
+                </a>
+                {canDelete(clip.createdBy) && (
+                  <button
+                    onClick={() => handleDelete(clip.id)}
+                    className="ml-auto text-danger-600 hover:underline"
+                  >
+                    Delete
+                  </button>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
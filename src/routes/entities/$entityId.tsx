@@ -0,0 +1,119 @@
+import { createFileRoute, Link } from '@tanstack/react-router'
+import { getEntityDetail } from '~/lib/server-fns'
+import { formatTime } from '~/lib/utils'
+
+export const Route = createFileRoute('/entities/$entityId')({
+  loader: ({ params }) =>
+    getEntityDetail({ data: { entityId: params.entityId } }),
+  component: EntityDetailPage,
+})
+
+function EntityDetailPage() {
+  const { entity, appearances } = Route.useLoaderData()
+
+  const podcastCount = new Set(appearances.map((a) => a.podcastId)).size
+  const mentionCount = appearances.reduce((sum, a) => sum + a.mentionCount, 0)
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+      {/* Breadcrumb */}
+      <nav className="mb-6 text-sm font-mono">
+        <Link to="/" className="text-ink-500 dark:text-ink-300 hover:text-ink-700 dark:hover:text-ink-200 transition-colors">
+          Home
+        </Link>
+        <span className="mx-2 text-gray-400">/</span>
+        <Link to="/entities" className="text-ink-500 dark:text-ink-300 hover:text-ink-700 dark:hover:text-ink-200 transition-colors">
+          Entities
+        </Link>
+        <span className="mx-2 text-gray-400">/</span>
+        <span className="text-gray-600 dark:text-gray-400">{entity.name}</span>
+      </nav>
+
+      {/* Header */}
+      <div className="mb-10">
+        <h1 className="font-heading text-4xl mb-2">{entity.name}</h1>
+        <p className="text-xs font-mono text-gray-500 dark:text-gray-400">
+          {entity.type} &middot; {mentionCount} mention
+          {mentionCount !== 1 ? 's' : ''} in {appearances.length} episode
+          {appearances.length !== 1 ? 's' : ''} of {podcastCount} show
+          {podcastCount !== 1 ? 's' : ''}
+        </p>
+      </div>
+
+      <div className="flex items-center gap-3 mb-5">
+        <span className="font-mono text-xs uppercase tracking-widest text-gray-500 dark:text-gray-400">
+          Episodes
+        </span>
+        <span className="inline-flex items-center justify-center min-w-[1.5rem] h-5 rounded-full bg-ink-100 dark:bg-ink-800 text-ink-700 dark:text-ink-200 text-xs font-mono font-medium px-1.5">
+          {appearances.length}
+        </span>
+        <div className="flex-1 border-t border-gray-200 dark:border-gray-700" />
+      </div>
+
+      {appearances.length === 0 ? (
+        <div className="podcast-card p-8 text-center text-gray-500 dark:text-gray-400">
+          <p>No stored episodes mention {entity.name}.</p>
+        </div>
+      ) : (
+        <div className="space-y-4">
+          {appearances.map((appearance) => (
+            <div
+              key={appearance.episodeId}
+              className="rounded-lg p-4 bg-white dark:bg-gray-900 border border-gray-200 dark:border-gray-800"
+            >
+              <div className="flex items-baseline justify-between gap-4 mb-2">
+                <div className="min-w-0">
+                  <Link
+                    to="/episodes/$episodeId"
+                    params={{ episodeId: appearance.episodeId }}
+                    className="font-medium hover:text-ink-600 dark:hover:text-ink-300"
+                  >
+                    {appearance.episodeTitle}
+                  </Link>
+                  <p className="text-xs font-mono text-gray-500 dark:text-gray-400 truncate">
+                    <Link
+                      to="/podcasts/$podcastId"
+                      params={{ podcastId: appearance.podcastId }}
+                      className="hover:text-ink-600 dark:hover:text-ink-300"
+                    >
+                      {appearance.podcastTitle}
+                    </Link>{' '}
+                    &middot; {new Date(appearance.publishedAt).toLocaleDateString()}
+                  </p>
+                </div>
+                <span className="text-xs font-mono text-gray-500 dark:text-gray-400 flex-shrink-0">
+                  {appearance.mentionCount} mention
+                  {appearance.mentionCount !== 1 ? 's' : ''}
+                </span>
+              </div>
+
+              {appearance.moments.length > 0 ? (
+                <div className="space-y-1">
+                  {appearance.moments.map((moment) => (
+                    <Link
+                      key={moment.segmentId}
+                      to="/episodes/$episodeId"
+                      params={{ episodeId: appearance.episodeId }}
+                      search={{ start: moment.startTime }}
+                      className="episode-row block rounded px-2 py-1 text-sm leading-relaxed"
+                    >
+                      <span className="font-mono text-xs text-ink-500 dark:text-ink-300 mr-2">
+                        {formatTime(moment.startTime)}
+                      </span>
+                      {moment.text}
+                    </Link>
+                  ))}
+                </div>
+              ) : (
+                <p className="text-sm text-gray-500 dark:text-gray-400">
+                  Named in the analysis, but not found word for word in the
+                  transcript.
+                </p>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
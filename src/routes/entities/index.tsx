@@ -0,0 +1,162 @@
+import { createFileRoute, Link, useNavigate } from '@tanstack/react-router'
+import { useState } from 'react'
+import { getEntities } from '~/lib/server-fns'
+import {
+  ENTITY_TYPES,
+  ENTITY_TYPE_LABELS,
+  isEntityType,
+  type EntityType,
+} from '~/lib/entities'
+
+type EntitySearch = {
+  type?: EntityType
+  q?: string
+}
+
+export const Route = createFileRoute('/entities/')({
+  validateSearch: (search: Record<string, unknown>): EntitySearch => ({
+    type:
+      typeof search.type === 'string' && isEntityType(search.type)
+        ? search.type
+        : undefined,
+    q: typeof search.q === 'string' && search.q.trim() ? search.q : undefined,
+  }),
+  loaderDeps: ({ search }) => ({ type: search.type, q: search.q }),
+  loader: ({ deps }) =>
+    getEntities({ data: { type: deps.type, query: deps.q } }),
+  component: EntitiesPage,
+})
+
+function EntitiesPage() {
+  const entities = Route.useLoaderData()
+  const { type, q } = Route.useSearch()
+  const navigate = useNavigate({ from: '/entities/' })
+  const [query, setQuery] = useState(q ?? '')
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+    navigate({ search: { type, q: query.trim() || undefined } })
+  }
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+      {/* Header */}
+      <div className="mb-8">
+        <h1 className="font-heading text-4xl mb-2">Entities</h1>
+        <p className="text-gray-500 dark:text-gray-400">
+          People, organisations, products and places named across every
+          tracked show, most widely discussed first.
+        </p>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2 mb-8">
+        <Link
+          to="/entities"
+          search={{ q }}
+          className={`btn btn-sm ${type ? 'btn-ghost' : 'btn-secondary'}`}
+        >
+          All
+        </Link>
+        {ENTITY_TYPES.map((t) => (
+          <Link
+            key={t}
+            to="/entities"
+            search={{ type: t, q }}
+            className={`btn btn-sm ${type === t ? 'btn-secondary' : 'btn-ghost'}`}
+          >
+            {ENTITY_TYPE_LABELS[t]}
+          </Link>
+        ))}
+        <form onSubmit={handleSubmit} className="flex gap-2 ml-auto">
+          <input
+            type="search"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="Filter by name…"
+            className="px-3 py-1.5 border rounded-md bg-white dark:bg-gray-800 text-sm focus:outline-none focus:ring-2 focus:ring-ink-400 border-gray-200 dark:border-gray-700"
+          />
+          <button type="submit" className="btn btn-sm btn-primary">
+            Filter
+          </button>
+        </form>
+      </div>
+
+      <div className="flex items-center gap-3 mb-5">
+        <span className="font-mono text-xs uppercase tracking-widest text-gray-500 dark:text-gray-400">
+          {type ? ENTITY_TYPE_LABELS[type] : 'All Entities'}
+        </span>
+        <span className="inline-flex items-center justify-center min-w-[1.5rem] h-5 rounded-full bg-ink-100 dark:bg-ink-800 text-ink-700 dark:text-ink-200 text-xs font-mono font-medium px-1.5">
+          {entities.length}
+        </span>
+        <div className="flex-1 border-t border-gray-200 dark:border-gray-700" />
+      </div>
+
+      {entities.length === 0 ? (
+        <div className="podcast-card p-8 text-center text-gray-500 dark:text-gray-400">
+          <p>
+            {q
+              ? `No entities match “${q}”.`
+              : 'No entities have been extracted yet. They are added as episodes are analysed.'}
+          </p>
+        </div>
+      ) : (
+        <div className="border rounded overflow-hidden">
+          <table className="w-full text-sm">
+            <thead className="bg-gray-50 dark:bg-gray-800">
+              <tr>
+                <th className="text-left px-3 py-2 font-mono text-xs uppercase tracking-wider text-gray-500 dark:text-gray-400 font-medium">
+                  Name
+                </th>
+                <th className="text-left px-3 py-2 font-mono text-xs uppercase tracking-wider text-gray-500 dark:text-gray-400 font-medium w-32">
+                  Type
+                </th>
+                <th className="text-right px-3 py-2 font-mono text-xs uppercase tracking-wider text-gray-500 dark:text-gray-400 font-medium w-24">
+                  Shows
+                </th>
+                <th className="text-right px-3 py-2 font-mono text-xs uppercase tracking-wider text-gray-500 dark:text-gray-400 font-medium w-24">
+                  Episodes
+                </th>
+                <th className="text-right px-3 py-2 font-mono text-xs uppercase tracking-wider text-gray-500 dark:text-gray-400 font-medium w-24">
+                  Mentions
+                </th>
+                <th className="text-right px-3 py-2 font-mono text-xs uppercase tracking-wider text-gray-500 dark:text-gray-400 font-medium w-36">
+                  Last Discussed
+                </th>
+              </tr>
+            </thead>
+            <tbody className="divide-y">
+              {entities.map((entity) => (
+                <tr key={entity.id} className="episode-row">
+                  <td className="px-3 py-2">
+                    <Link
+                      to="/entities/$entityId"
+                      params={{ entityId: entity.id }}
+                      className="font-medium hover:text-ink-600 dark:hover:text-ink-300"
+                    >
+                      {entity.name}
+                    </Link>
+                  </td>
+                  <td className="px-3 py-2 text-gray-500 dark:text-gray-400 font-mono text-xs">
+                    {entity.type}
+                  </td>
+                  <td className="px-3 py-2 text-right text-gray-500 font-mono text-xs">
+                    {entity.podcastCount}
+                  </td>
+                  <td className="px-3 py-2 text-right text-gray-500 font-mono text-xs">
+                    {entity.episodeCount}
+                  </td>
+                  <td className="px-3 py-2 text-right text-gray-500 font-mono text-xs">
+                    {entity.mentionCount}
+                  </td>
+                  <td className="px-3 py-2 text-right text-gray-500 font-mono text-xs">
+                    {new Date(entity.lastMentionedAt).toLocaleDateString()}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  )
+}
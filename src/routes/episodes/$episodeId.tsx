@@ -1,15 +1,54 @@
-import { createFileRoute, Link } from '@tanstack/react-router'
-import { useRef, useState, useEffect, useCallback, useMemo } from 'react'
+import { createFileRoute, Link, useRouter } from '@tanstack/react-router'
+import {
+  Fragment,
+  useRef,
+  useState,
+  useEffect,
+  useCallback,
+  useMemo,
+} from 'react'
 import Markdown from 'react-markdown'
-import { getEpisodeDetail } from '~/lib/server-fns'
-import { formatTime } from '~/lib/utils'
+import {
+  createClip,
+  getEpisodeDetail,
+  getSegmentRevisions,
+  reanalyzeEpisode,
+  renameSpeaker,
+  revertSegmentRevision,
+  updateSegmentText,
+} from '~/lib/server-fns'
+import { hasRole } from '~/lib/auth'
+import { formatTime, speakerName } from '~/lib/utils'
+
+type EpisodeSearchParams = {
+  start?: number
+  // End of a linked clip; only kept when `start` is set
+  end?: number
+}
 
 export const Route = createFileRoute('/episodes/$episodeId')({
+  validateSearch: (search: Record<string, unknown>): EpisodeSearchParams => {
+    const start = Number(search.start)
+    const end = Number(search.end)
+    const validStart = Number.isFinite(start) && start >= 0
+    return {
+      start: validStart ? start : undefined,
+      end: validStart && Number.isFinite(end) && end > start ? end : undefined,
+    }
+  },
   loader: ({ params }) =>
     getEpisodeDetail({ data: { episodeId: params.episodeId } }),
   component: EpisodeDetailPage,
 })
 
+const TRANSCRIPT_DOWNLOADS = [
+  { label: 'SRT', format: 'srt', query: '' },
+  { label: 'VTT', format: 'vtt', query: '' },
+  { label: 'VTT (words)', format: 'vtt', query: '?words=1' },
+  { label: 'TXT', format: 'txt', query: '' },
+  { label: 'JSON', format: 'json', query: '' },
+]
+
 function highlightText(text: string, query: string): React.ReactNode {
   if (!query) return text
   const escaped = query.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
@@ -26,10 +65,26 @@ function highlightText(text: string, query: string): React.ReactNode {
 }
 
 function EpisodeDetailPage() {
-  const { episode, podcast, segments, analysis } = Route.useLoaderData()
+  const {
+    episode,
+    podcast,
+    segments,
+    chapters,
+    analysis,
+    speakers,
+    quoteSpeakerIds,
+    editedSegmentIds,
+    entities,
+    tags,
+    narratives,
+  } = Route.useLoaderData()
+  const { user } = Route.useRouteContext()
+  const router = useRouter()
+  const { start, end } = Route.useSearch()
   const audioRef = useRef<HTMLAudioElement>(null)
   const [currentTime, setCurrentTime] = useState(0)
   const [isPlaying, setIsPlaying] = useState(false)
+  const [duration, setDuration] = useState(episode.durationSeconds ?? 0)
   const transcriptRef = useRef<HTMLDivElement>(null)
   const searchInputRef = useRef<HTMLInputElement>(null)
 
@@ -54,22 +109,99 @@ function EpisodeDetailPage() {
     const handleTimeUpdate = () => setCurrentTime(audio.currentTime)
     const handlePlay = () => setIsPlaying(true)
     const handlePause = () => setIsPlaying(false)
+    const handleDurationChange = () => {
+      if (Number.isFinite(audio.duration)) setDuration(audio.duration)
+    }
 
+    handleDurationChange()
     audio.addEventListener('timeupdate', handleTimeUpdate)
     audio.addEventListener('play', handlePlay)
     audio.addEventListener('pause', handlePause)
+    audio.addEventListener('durationchange', handleDurationChange)
 
     return () => {
       audio.removeEventListener('timeupdate', handleTimeUpdate)
       audio.removeEventListener('play', handlePlay)
       audio.removeEventListener('pause', handlePause)
+      audio.removeEventListener('durationchange', handleDurationChange)
     }
   }, [])
 
+  // Seek to the requested timestamp (e.g. from a search result) on load
+  useEffect(() => {
+    if (start === undefined) return
+
+    const segmentIdx = segments.findIndex((s) => start < s.endTime)
+    const el = document.getElementById(`segment-${segmentIdx}`)
+    if (el) {
+      el.scrollIntoView({ block: 'center' })
+    }
+
+    const audio = audioRef.current
+    if (!audio) return
+    const seek = () => {
+      audio.currentTime = start
+      setCurrentTime(start)
+    }
+    if (audio.readyState >= HTMLMediaElement.HAVE_METADATA) {
+      seek()
+      return
+    }
+    audio.addEventListener('loadedmetadata', seek, { once: true })
+    return () => audio.removeEventListener('loadedmetadata', seek)
+  }, [start, segments])
+
   const activeSegmentIndex = segments.findIndex(
     (s) => currentTime >= s.startTime && currentTime < s.endTime,
   )
 
+  const seekTo = useCallback((time: number) => {
+    const audio = audioRef.current
+    if (!audio) return
+    audio.currentTime = time
+    setCurrentTime(time)
+    audio.play()
+  }, [])
+
+  // Chapters run until the next one starts unless they say otherwise
+  const chapterEnds = useMemo(
+    () =>
+      chapters.map(
+        (chapter, i) =>
+          chapter.endTime ?? chapters[i + 1]?.startTime ?? duration,
+      ),
+    [chapters, duration],
+  )
+  const activeChapterIndex = chapters.reduce(
+    (active, chapter, i) => (currentTime >= chapter.startTime ? i : active),
+    -1,
+  )
+
+  // Chapters to head each transcript segment with: every chapter that
+  // starts before the segment ends and after the previous one did
+  const chaptersBySegment = useMemo(() => {
+    const bySegment = new Map<number, typeof chapters>()
+    let next = 0
+    segments.forEach((segment, i) => {
+      const heading: typeof chapters = []
+      while (
+        next < chapters.length &&
+        chapters[next].startTime < segment.endTime
+      ) {
+        heading.push(chapters[next++])
+      }
+      if (heading.length > 0) bySegment.set(i, heading)
+    })
+    return bySegment
+  }, [chapters, segments])
+
+  const handleScrubberClick = (e: React.MouseEvent<HTMLDivElement>) => {
+    if (!duration) return
+    const rect = e.currentTarget.getBoundingClientRect()
+    const fraction = Math.min(Math.max((e.clientX - rect.left) / rect.width, 0), 1)
+    seekTo(fraction * duration)
+  }
+
   // Auto-scroll to active segment (suppressed during search)
   useEffect(() => {
     if (isSearchActive) return
@@ -140,14 +272,179 @@ function EpisodeDetailPage() {
     return () => document.removeEventListener('keydown', handleKeyDown)
   }, [navigateMatch, clearSearch])
 
-  const handleSegmentClick = useCallback((startTime: number) => {
-    const audio = audioRef.current
-    if (!audio) return
-    audio.currentTime = startTime
-    audio.play()
+  const speakersById = useMemo(
+    () => new Map(speakers.map((speaker) => [speaker.id, speaker])),
+    [speakers],
+  )
+  const canEdit = !user.isDemo && hasRole(user, 'editor')
+  const [editingSpeakerId, setEditingSpeakerId] = useState<string | null>(null)
+  const [speakerNameDraft, setSpeakerNameDraft] = useState('')
+
+  const handleRenameSpeaker = async (speakerId: string) => {
+    try {
+      await renameSpeaker({
+        data: { speakerId, displayName: speakerNameDraft },
+      })
+      setEditingSpeakerId(null)
+      router.invalidate()
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to rename speaker')
+    }
+  }
+
+  // Transcript corrections
+  const editedSegments = useMemo(
+    () => new Set(editedSegmentIds),
+    [editedSegmentIds],
+  )
+  const [editingSegmentId, setEditingSegmentId] = useState<string | null>(null)
+  const [segmentDraft, setSegmentDraft] = useState('')
+  const [isSavingSegment, setIsSavingSegment] = useState(false)
+  const [revisions, setRevisions] = useState<Awaited<
+    ReturnType<typeof getSegmentRevisions>
+  > | null>(null)
+
+  const startEditingSegment = (segment: { id: string; text: string }) => {
+    setEditingSegmentId(segment.id)
+    setSegmentDraft(segment.text)
+    setRevisions(null)
+  }
+
+  const handleSaveSegment = async () => {
+    if (!editingSegmentId) return
+    setIsSavingSegment(true)
+    try {
+      await updateSegmentText({
+        data: { segmentId: editingSegmentId, text: segmentDraft },
+      })
+      setEditingSegmentId(null)
+      router.invalidate()
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to save correction')
+    } finally {
+      setIsSavingSegment(false)
+    }
+  }
+
+  const handleShowRevisions = async (segmentId: string) => {
+    try {
+      setRevisions(await getSegmentRevisions({ data: { segmentId } }))
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to load history')
+    }
+  }
+
+  const handleRevert = async (revisionId: string) => {
+    try {
+      await revertSegmentRevision({ data: { revisionId } })
+      setEditingSegmentId(null)
+      router.invalidate()
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to restore text')
+    }
+  }
+
+  const handleReanalyze = async () => {
+    if (!confirm('Re-run the analysis on the current transcript?')) return
+    try {
+      await reanalyzeEpisode({ data: { episodeId: episode.id } })
+      router.invalidate()
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to start re-analysis')
+    }
+  }
+
+  // Clip mode: clicking segments selects a range instead of seeking
+  const [isClipping, setIsClipping] = useState(false)
+  const [clipAnchor, setClipAnchor] = useState<number | null>(null)
+  const [clipFocus, setClipFocus] = useState<number | null>(null)
+  const [clipNote, setClipNote] = useState('')
+  const [savedClipId, setSavedClipId] = useState<string | null>(null)
+  const [clipMessage, setClipMessage] = useState<string | null>(null)
+
+  const clipSelection = useMemo(() => {
+    if (clipAnchor === null) return null
+    const first = Math.min(clipAnchor, clipFocus ?? clipAnchor)
+    const last = Math.max(clipAnchor, clipFocus ?? clipAnchor)
+    return {
+      first,
+      last,
+      startTime: segments[first].startTime,
+      endTime: segments[last].endTime,
+    }
+  }, [clipAnchor, clipFocus, segments])
+
+  // The range to highlight: the selection while clipping, else a linked clip
+  const highlightRange = useMemo(() => {
+    if (isClipping && clipSelection) {
+      return { start: clipSelection.startTime, end: clipSelection.endTime }
+    }
+    if (start !== undefined && end !== undefined) return { start, end }
+    return null
+  }, [isClipping, clipSelection, start, end])
+
+  const resetClip = useCallback(() => {
+    setClipAnchor(null)
+    setClipFocus(null)
+    setClipNote('')
+    setSavedClipId(null)
+    setClipMessage(null)
   }, [])
 
-  const tags = analysis?.tags ? JSON.parse(analysis.tags) : []
+  const clipPermalink = clipSelection
+    ? `${typeof window === 'undefined' ? '' : window.location.origin}/episodes/${episode.id}?start=${clipSelection.startTime.toFixed(2)}&end=${clipSelection.endTime.toFixed(2)}`
+    : ''
+  const clipCardUrl = savedClipId
+    ? `${typeof window === 'undefined' ? '' : window.location.origin}/api/clips/${savedClipId}/card`
+    : ''
+
+  const copyToClipboard = async (text: string, label: string) => {
+    try {
+      await navigator.clipboard.writeText(text)
+      setClipMessage(`${label} copied`)
+    } catch {
+      setClipMessage(`Couldn't copy ${label.toLowerCase()}`)
+    }
+  }
+
+  const handleSaveClip = async () => {
+    if (!clipSelection) return
+    try {
+      const clip = await createClip({
+        data: {
+          episodeId: episode.id,
+          startTime: clipSelection.startTime,
+          endTime: clipSelection.endTime,
+          note: clipNote,
+        },
+      })
+      setSavedClipId(clip.id)
+      setClipMessage('Clip saved')
+    } catch (err) {
+      setClipMessage(err instanceof Error ? err.message : 'Failed to save clip')
+    }
+  }
+
+  const handleSegmentClick = useCallback(
+    (index: number) => {
+      if (isClipping) {
+        // First click starts a range, second click ends it, third starts over
+        setSavedClipId(null)
+        setClipMessage(null)
+        if (clipAnchor === null || clipFocus !== null) {
+          setClipAnchor(index)
+          setClipFocus(null)
+        } else {
+          setClipFocus(index)
+        }
+        return
+      }
+
+      seekTo(segments[index].startTime)
+    },
+    [isClipping, clipAnchor, clipFocus, segments, seekTo],
+  )
+
   const themes = analysis?.themes ? JSON.parse(analysis.themes) : []
   const keyQuotes = analysis?.keyQuotes ? JSON.parse(analysis.keyQuotes) : []
 
@@ -180,12 +477,22 @@ function EpisodeDetailPage() {
       <div className="mb-6">
         <h1 className="font-heading text-3xl mb-2">{episode.title}</h1>
         <div className="flex items-center gap-4 text-sm text-gray-500 dark:text-gray-400">
+          {(episode.seasonNumber != null || episode.episodeNumber != null) && (
+            <span className="font-mono text-xs">
+              {episode.seasonNumber != null && `Season ${episode.seasonNumber} `}
+              {episode.episodeNumber != null && `Episode ${episode.episodeNumber}`}
+            </span>
+          )}
           <span className="font-mono text-xs">
             {new Date(episode.publishedAt).toLocaleDateString()}
           </span>
           {episode.durationSeconds && (
             <span className="font-mono text-xs">{Math.round(episode.durationSeconds / 60)} min</span>
           )}
+          {episode.episodeType && episode.episodeType !== 'full' && (
+            <span className="font-mono text-xs">{episode.episodeType}</span>
+          )}
+          {episode.explicit && <span className="font-mono text-xs">explicit</span>}
           <span className={`status-badge status-${episode.status}`}>
             {episode.status}
           </span>
@@ -202,6 +509,41 @@ function EpisodeDetailPage() {
             preload="metadata"
             className="w-full"
           />
+          {chapters.length > 0 && duration > 0 && (
+            <div className="mt-3">
+              <div
+                onClick={handleScrubberClick}
+                className="relative h-2 rounded-full bg-gray-200 dark:bg-gray-800 cursor-pointer"
+                role="presentation"
+              >
+                <div
+                  className="absolute inset-y-0 left-0 rounded-full bg-ink-400 dark:bg-ink-600"
+                  style={{ width: `${Math.min(currentTime / duration, 1) * 100}%` }}
+                />
+                {chapters.map((chapter) =>
+                  chapter.startTime > 0 && chapter.startTime < duration ? (
+                    <button
+                      key={chapter.id}
+                      onClick={(e) => {
+                        e.stopPropagation()
+                        seekTo(chapter.startTime)
+                      }}
+                      title={`${formatTime(chapter.startTime)} ${chapter.title}`}
+                      aria-label={`Play from ${chapter.title}`}
+                      className="absolute -inset-y-1 w-0.5 -ml-px bg-gray-500 dark:bg-gray-400 hover:bg-ink-600 dark:hover:bg-ink-300"
+                      style={{ left: `${(chapter.startTime / duration) * 100}%` }}
+                    />
+                  ) : null,
+                )}
+              </div>
+              {activeChapterIndex >= 0 && (
+                <p className="mt-2 text-xs font-mono text-gray-500 dark:text-gray-400 truncate">
+                  Chapter {activeChapterIndex + 1}/{chapters.length} &middot;{' '}
+                  {chapters[activeChapterIndex].title}
+                </p>
+              )}
+            </div>
+          )}
         </div>
       )}
 
@@ -209,7 +551,66 @@ function EpisodeDetailPage() {
       <div className="flex gap-8">
         {/* Transcript */}
         <div className="flex-1 min-w-0">
-          <p className="sidebar-label mb-4">Transcript</p>
+          <div className="flex items-center justify-between gap-4 mb-4">
+            <p className="sidebar-label mb-0">
+              Transcript
+              {segments.length > 0 && episode.transcriptSource === 'publisher' && (
+                <span className="normal-case tracking-normal">
+                  {' '}
+                  &middot;{' '}
+                  {episode.transcriptSourceUrl ? (
+                    <a
+                      href={episode.transcriptSourceUrl}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="hover:text-ink-600 dark:hover:text-ink-300"
+                    >
+                      from the publisher
+                    </a>
+                  ) : (
+                    'from the publisher'
+                  )}
+                </span>
+              )}
+            </p>
+            {segments.length > 0 && (
+              <div className="flex items-center gap-1.5 text-xs font-mono">
+                {canEdit && episode.status === 'complete' && (
+                  <button
+                    onClick={handleReanalyze}
+                    title="Re-run the analysis on the corrected transcript"
+                    className="px-2 py-0.5 rounded border border-gray-200 dark:border-gray-700 text-gray-600 dark:text-gray-400 hover:text-ink-600 dark:hover:text-ink-300 hover:border-ink-300 transition-colors"
+                  >
+                    Re-analyse
+                  </button>
+                )}
+                <button
+                  onClick={() => {
+                    setIsClipping((clipping) => !clipping)
+                    resetClip()
+                  }}
+                  className={`px-2 py-0.5 mr-2 rounded border transition-colors ${
+                    isClipping
+                      ? 'border-emerald-400 text-emerald-700 dark:text-emerald-300'
+                      : 'border-gray-200 dark:border-gray-700 text-gray-600 dark:text-gray-400 hover:text-ink-600 dark:hover:text-ink-300 hover:border-ink-300'
+                  }`}
+                >
+                  {isClipping ? 'Done clipping' : 'Clip'}
+                </button>
+                <span className="text-gray-400 dark:text-gray-500">Download</span>
+                {TRANSCRIPT_DOWNLOADS.map((download) => (
+                  <a
+                    key={download.label}
+                    href={`/api/transcript/${episode.id}.${download.format}${download.query}`}
+                    download
+                    className="px-2 py-0.5 rounded border border-gray-200 dark:border-gray-700 text-gray-600 dark:text-gray-400 hover:text-ink-600 dark:hover:text-ink-300 hover:border-ink-300 transition-colors"
+                  >
+                    {download.label}
+                  </a>
+                ))}
+              </div>
+            )}
+          </div>
 
           {/* Search bar */}
           {segments.length > 0 && (
@@ -267,6 +668,104 @@ function EpisodeDetailPage() {
             </div>
           )}
 
+          {/* Clip panel */}
+          {isClipping && (
+            <div className="podcast-card p-3 mb-3 text-sm space-y-2">
+              {!clipSelection ? (
+                <p className="text-gray-500 dark:text-gray-400">
+                  Click the first and last segments of the clip.
+                </p>
+              ) : (
+                <>
+                  <div className="flex items-center justify-between gap-3">
+                    <span className="font-mono text-xs">
+                      {formatTime(clipSelection.startTime)}&ndash;
+                      {formatTime(clipSelection.endTime)}
+                      <span className="ml-2 text-gray-400">
+                        {clipSelection.last - clipSelection.first + 1} segment
+                        {clipSelection.last === clipSelection.first ? '' : 's'}
+                      </span>
+                    </span>
+                    <span className="flex items-center gap-3">
+                      {episode.r2Key && (
+                        <a
+                          href={`/api/audio/${episode.id}/clip?start=${clipSelection.startTime.toFixed(2)}&end=${clipSelection.endTime.toFixed(2)}&download=1`}
+                          className="text-xs font-mono text-ink-600 dark:text-ink-300 hover:underline"
+                        >
+                          Download audio
+                        </a>
+                      )}
+                      <button
+                        onClick={() => copyToClipboard(clipPermalink, 'Link')}
+                        className="text-xs font-mono text-ink-600 dark:text-ink-300 hover:underline"
+                      >
+                        Copy link
+                      </button>
+                    </span>
+                  </div>
+                  {canEdit && !savedClipId && (
+                    <div className="flex items-center gap-2">
+                      <input
+                        type="text"
+                        value={clipNote}
+                        onChange={(e) => setClipNote(e.target.value)}
+                        placeholder="Note (optional)"
+                        className="flex-1 min-w-0 px-2 py-1 border rounded bg-white dark:bg-gray-800 text-sm focus:outline-none focus:ring-2 focus:ring-ink-400 border-gray-200 dark:border-gray-700"
+                      />
+                      <button
+                        onClick={handleSaveClip}
+                        className="px-3 py-1 text-xs font-mono rounded bg-ink-600 text-white hover:bg-ink-700 transition-colors"
+                      >
+                        Save clip
+                      </button>
+                    </div>
+                  )}
+                  {savedClipId && (
+                    <div className="flex items-start gap-3">
+                      <img
+                        src={`/api/clips/${savedClipId}/card`}
+                        alt="Quote card"
+                        className="w-48 rounded border border-gray-200 dark:border-gray-700"
+                      />
+                      <div className="flex flex-col gap-1 text-xs font-mono">
+                        <a
+                          href={`/api/clips/${savedClipId}/card`}
+                          target="_blank"
+                          rel="noreferrer"
+                          className="text-ink-600 dark:text-ink-300 hover:underline"
+                        >
+                          Open quote card
+                        </a>
+                        <button
+                          onClick={() =>
+                            copyToClipboard(
+                              `<a href="${clipPermalink}"><img src="${clipCardUrl}" alt="Quote from ${episode.title.replace(/"/g, '&quot;')}" width="600" /></a>`,
+                              'Embed code',
+                            )
+                          }
+                          className="text-left text-ink-600 dark:text-ink-300 hover:underline"
+                        >
+                          Copy embed code
+                        </button>
+                        <Link
+                          to="/clips"
+                          className="text-ink-600 dark:text-ink-300 hover:underline"
+                        >
+                          All clips
+                        </Link>
+                      </div>
+                    </div>
+                  )}
+                </>
+              )}
+              {clipMessage && (
+                <p className="text-xs font-mono text-gray-500 dark:text-gray-400">
+                  {clipMessage}
+                </p>
+              )}
+            </div>
+          )}
+
           {segments.length === 0 ? (
             <div className="podcast-card p-8 text-center text-gray-500 dark:text-gray-400">
               {episode.status === 'complete'
@@ -279,27 +778,157 @@ function EpisodeDetailPage() {
                 const isMatch = isSearchActive && matchIndices.includes(i)
                 const isCurrentMatch =
                   isMatch && matchIndices[currentMatchIndex] === i
+                const inClip =
+                  !!highlightRange &&
+                  segment.startTime < highlightRange.end &&
+                  segment.endTime > highlightRange.start
+
+                const speaker = segment.speakerId
+                  ? speakersById.get(segment.speakerId)
+                  : undefined
+                const speakerChanged =
+                  !!speaker && segments[i - 1]?.speakerId !== segment.speakerId
 
                 return (
-                  <div
-                    key={segment.id}
-                    id={`segment-${i}`}
-                    onClick={() => handleSegmentClick(segment.startTime)}
-                    className={`transcript-segment ${
-                      i === activeSegmentIndex
-                        ? 'transcript-segment-active'
-                        : ''
-                    } ${isCurrentMatch ? 'transcript-segment-match-current' : isMatch ? 'transcript-segment-match' : ''}`}
-                  >
-                    <span className="text-xs text-gray-400 dark:text-gray-500 font-mono flex-shrink-0 pt-0.5 w-12 text-right">
-                      {formatTime(segment.startTime)}
-                    </span>
-                    <span className="text-sm leading-relaxed">
-                      {isMatch
-                        ? highlightText(segment.text, searchQuery)
-                        : segment.text}
-                    </span>
-                  </div>
+                  <Fragment key={segment.id}>
+                    {chaptersBySegment.get(i)?.map((chapter) => (
+                      <button
+                        key={chapter.id}
+                        onClick={() => seekTo(chapter.startTime)}
+                        className="flex items-baseline gap-3 w-full text-left pt-5 pb-1 border-b border-gray-200 dark:border-gray-800 hover:text-ink-600 dark:hover:text-ink-300"
+                      >
+                        <span className="text-xs text-gray-400 dark:text-gray-500 font-mono flex-shrink-0 w-12 text-right">
+                          {formatTime(chapter.startTime)}
+                        </span>
+                        <span className="font-heading text-lg">{chapter.title}</span>
+                      </button>
+                    ))}
+                    {speakerChanged && (
+                      <p className="text-xs font-mono text-ink-500 dark:text-ink-300 pt-3 pl-14">
+                        {speakerName(speaker)}
+                      </p>
+                    )}
+                    {editingSegmentId === segment.id ? (
+                      <div id={`segment-${i}`} className="transcript-segment transcript-segment-active cursor-default">
+                        <span className="text-xs text-gray-400 dark:text-gray-500 font-mono flex-shrink-0 pt-0.5 w-12 text-right">
+                          {formatTime(segment.startTime)}
+                        </span>
+                        <div className="flex-1 min-w-0 space-y-2">
+                          <textarea
+                            value={segmentDraft}
+                            onChange={(e) => setSegmentDraft(e.target.value)}
+                            onKeyDown={(e) => {
+                              if (e.key === 'Enter' && (e.metaKey || e.ctrlKey)) {
+                                e.preventDefault()
+                                handleSaveSegment()
+                              }
+                              if (e.key === 'Escape') setEditingSegmentId(null)
+                            }}
+                            rows={3}
+                            autoFocus
+                            className="w-full px-2 py-1 border rounded bg-white dark:bg-gray-800 text-sm leading-relaxed focus:outline-none focus:ring-2 focus:ring-ink-400 border-gray-200 dark:border-gray-700"
+                          />
+                          <div className="flex items-center gap-3 text-xs font-mono">
+                            <button
+                              onClick={handleSaveSegment}
+                              disabled={isSavingSegment}
+                              className="px-3 py-1 rounded bg-ink-600 text-white hover:bg-ink-700 transition-colors disabled:opacity-50"
+                            >
+                              {isSavingSegment ? 'Saving…' : 'Save'}
+                            </button>
+                            <button
+                              onClick={() => setEditingSegmentId(null)}
+                              className="text-gray-500 hover:underline"
+                            >
+                              Cancel
+                            </button>
+                            {editedSegments.has(segment.id) && (
+                              <button
+                                onClick={() => handleShowRevisions(segment.id)}
+                                className="text-ink-600 dark:text-ink-300 hover:underline"
+                              >
+                                History
+                              </button>
+                            )}
+                          </div>
+                          {revisions && (
+                            <ul className="space-y-2 text-xs">
+                              {revisions.map((revision) => (
+                                <li
+                                  key={revision.id}
+                                  className="border-l-2 border-gray-200 dark:border-gray-700 pl-2"
+                                >
+                                  <div className="flex items-center gap-2 font-mono text-gray-500 dark:text-gray-400">
+                                    <span>{new Date(revision.createdAt).toLocaleString()}</span>
+                                    {revision.authorEmail && <span>{revision.authorEmail}</span>}
+                                    <button
+                                      onClick={() => handleRevert(revision.id)}
+                                      className="ml-auto text-ink-600 dark:text-ink-300 hover:underline"
+                                    >
+                                      Restore previous
+                                    </button>
+                                  </div>
+                                  <p className="text-gray-500 dark:text-gray-400 line-through">
+                                    {revision.previousText}
+                                  </p>
+                                  <p>{revision.text}</p>
+                                </li>
+                              ))}
+                            </ul>
+                          )}
+                        </div>
+                      </div>
+                    ) : (
+                      <div
+                        id={`segment-${i}`}
+                        onClick={() => handleSegmentClick(i)}
+                        className={`transcript-segment group ${
+                          i === activeSegmentIndex
+                            ? 'transcript-segment-active'
+                            : ''
+                        } ${isCurrentMatch ? 'transcript-segment-match-current' : isMatch ? 'transcript-segment-match' : inClip ? 'transcript-segment-clip' : ''}`}
+                      >
+                        <span className="text-xs text-gray-400 dark:text-gray-500 font-mono flex-shrink-0 pt-0.5 w-12 text-right">
+                          {formatTime(segment.startTime)}
+                        </span>
+                        <span className="flex-1 text-sm leading-relaxed">
+                          {isMatch
+                            ? highlightText(segment.text, searchQuery)
+                            : segment.text}
+                          {editedSegments.has(segment.id) && (
+                            <span
+                              className="ml-1.5 text-[10px] font-mono text-gray-400 dark:text-gray-500"
+                              title="Corrected by hand"
+                            >
+                              edited
+                            </span>
+                          )}
+                        </span>
+                        {!isClipping && (
+                          <Link
+                            to="/search"
+                            search={{ similar: segment.id }}
+                            onClick={(e) => e.stopPropagation()}
+                            title="Find moments that say something similar"
+                            className="flex-shrink-0 self-start text-xs font-mono text-gray-400 hover:text-ink-600 dark:hover:text-ink-300 opacity-0 group-hover:opacity-100 transition-opacity"
+                          >
+                            Similar
+                          </Link>
+                        )}
+                        {canEdit && !isClipping && (
+                          <button
+                            onClick={(e) => {
+                              e.stopPropagation()
+                              startEditingSegment(segment)
+                            }}
+                            className="flex-shrink-0 self-start text-xs font-mono text-gray-400 hover:text-ink-600 dark:hover:text-ink-300 opacity-0 group-hover:opacity-100 transition-opacity"
+                          >
+                            Edit
+                          </button>
+                        )}
+                      </div>
+                    )}
+                  </Fragment>
                 )
               })}
             </div>
@@ -307,19 +936,125 @@ function EpisodeDetailPage() {
         </div>
 
         {/* Analysis Sidebar */}
-        {analysis && (
+        {(analysis || chapters.length > 0) && (
           <aside className="w-80 flex-shrink-0 hidden lg:block">
             <div className="sticky top-36 max-h-[calc(100dvh-10rem)] overflow-y-auto space-y-6">
+              {/* Chapters */}
+              {chapters.length > 0 && (
+                <div>
+                  <p className="sidebar-label">
+                    Chapters
+                    {chapters[0].source === 'generated' && (
+                      <span className="normal-case tracking-normal"> &middot; generated</span>
+                    )}
+                  </p>
+                  <ol className="space-y-0.5">
+                    {chapters.map((chapter, i) => (
+                      <li key={chapter.id} className="flex items-start gap-2">
+                        <button
+                          onClick={() => seekTo(chapter.startTime)}
+                          disabled={!episode.r2Key}
+                          title={`${formatTime(chapter.startTime)}–${formatTime(chapterEnds[i])}`}
+                          className={`flex-1 min-w-0 flex items-baseline gap-2 text-left text-sm px-1.5 py-0.5 rounded transition-colors hover:text-ink-600 dark:hover:text-ink-300 ${
+                            i === activeChapterIndex
+                              ? 'bg-ink-50 dark:bg-ink-900/40 text-ink-700 dark:text-ink-200'
+                              : ''
+                          }`}
+                        >
+                          <span className="text-xs font-mono text-gray-400 dark:text-gray-500 flex-shrink-0 w-12 text-right">
+                            {formatTime(chapter.startTime)}
+                          </span>
+                          <span className="min-w-0">{chapter.title}</span>
+                        </button>
+                        {chapter.url && (
+                          <a
+                            href={chapter.url}
+                            target="_blank"
+                            rel="noopener noreferrer"
+                            title="Chapter link"
+                            className="pt-0.5 text-xs font-mono text-gray-400 hover:text-ink-600 dark:hover:text-ink-300"
+                          >
+                            Link
+                          </a>
+                        )}
+                      </li>
+                    ))}
+                  </ol>
+                </div>
+              )}
+
+              {/* Speakers */}
+              {speakers.length > 0 && (
+                <div>
+                  <p className="sidebar-label">Speakers</p>
+                  <div className="space-y-1.5">
+                    {speakers.map((speaker) =>
+                      editingSpeakerId === speaker.id ? (
+                        <form
+                          key={speaker.id}
+                          onSubmit={(e) => {
+                            e.preventDefault()
+                            handleRenameSpeaker(speaker.id)
+                          }}
+                          className="flex items-center gap-2"
+                        >
+                          <input
+                            type="text"
+                            value={speakerNameDraft}
+                            onChange={(e) => setSpeakerNameDraft(e.target.value)}
+                            placeholder={`Speaker ${speaker.label.replace(/^S/, '')}`}
+                            autoFocus
+                            className="flex-1 min-w-0 px-2 py-1 border rounded bg-white dark:bg-gray-800 text-sm focus:outline-none focus:ring-2 focus:ring-ink-400 border-gray-200 dark:border-gray-700"
+                          />
+                          <button type="submit" className="text-xs font-mono text-ink-600 dark:text-ink-300 hover:underline">
+                            Save
+                          </button>
+                          <button
+                            type="button"
+                            onClick={() => setEditingSpeakerId(null)}
+                            className="text-xs font-mono text-gray-400 hover:underline"
+                          >
+                            Cancel
+                          </button>
+                        </form>
+                      ) : (
+                        <div key={speaker.id} className="flex items-center justify-between gap-2 text-sm">
+                          <span>
+                            {speakerName(speaker)}
+                            <span className="ml-2 text-xs font-mono text-gray-400">
+                              {speaker.label}
+                            </span>
+                          </span>
+                          {canEdit && (
+                            <button
+                              onClick={() => {
+                                setEditingSpeakerId(speaker.id)
+                                setSpeakerNameDraft(speaker.displayName ?? '')
+                              }}
+                              className="text-xs font-mono text-gray-400 hover:text-ink-600 dark:hover:text-ink-300"
+                            >
+                              Rename
+                            </button>
+                          )}
+                        </div>
+                      ),
+                    )}
+                  </div>
+                </div>
+              )}
+
               {/* Summary */}
-              <div>
-                <p className="sidebar-label">Summary</p>
-                <div className="prose prose-sm dark:prose-invert max-w-none text-gray-600 dark:text-gray-400">
-                  <Markdown>{analysis.summary}</Markdown>
+              {analysis && (
+                <div>
+                  <p className="sidebar-label">Summary</p>
+                  <div className="prose prose-sm dark:prose-invert max-w-none text-gray-600 dark:text-gray-400">
+                    <Markdown>{analysis.summary}</Markdown>
+                  </div>
                 </div>
-              </div>
+              )}
 
               {/* Sentiment */}
-              {analysis.sentiment && (
+              {analysis?.sentiment && (
                 <div>
                   <p className="sidebar-label">Tone</p>
                   <span className="inline-block px-2.5 py-1 bg-gray-100 dark:bg-gray-800 text-sm rounded font-mono">
@@ -333,10 +1068,35 @@ function EpisodeDetailPage() {
                 <div>
                   <p className="sidebar-label">Tags</p>
                   <div className="flex flex-wrap gap-1.5">
-                    {tags.map((tag: string, i: number) => (
-                      <span key={i} className="topic-tag">
+                    {tags.map((tag) => (
+                      <Link
+                        key={tag}
+                        to="/tags/$tag"
+                        params={{ tag }}
+                        className="topic-tag hover:text-ink-600 dark:hover:text-ink-300"
+                      >
                         {tag}
-                      </span>
+                      </Link>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              {/* Entities */}
+              {entities.length > 0 && (
+                <div>
+                  <p className="sidebar-label">Mentioned</p>
+                  <div className="flex flex-wrap gap-1.5">
+                    {entities.map((entity) => (
+                      <Link
+                        key={entity.id}
+                        to="/entities/$entityId"
+                        params={{ entityId: entity.id }}
+                        title={`${entity.type} · ${entity.mentionCount} mention${entity.mentionCount !== 1 ? 's' : ''}`}
+                        className="topic-tag hover:text-ink-600 dark:hover:text-ink-300"
+                      >
+                        {entity.name}
+                      </Link>
                     ))}
                   </div>
                 </div>
@@ -364,19 +1124,55 @@ function EpisodeDetailPage() {
                 </div>
               )}
 
+              {/* Narratives this episode shares with other shows */}
+              {narratives.some((n) => n.podcastCount > 1) && (
+                <div>
+                  <p className="sidebar-label">Shared Narratives</p>
+                  <div className="space-y-2">
+                    {narratives
+                      .filter((n) => n.podcastCount > 1)
+                      .map((narrative) => (
+                        <Link
+                          key={narrative.id}
+                          to="/narratives/$narrativeId"
+                          params={{ narrativeId: narrative.id }}
+                          className="block text-sm hover:text-ink-600 dark:hover:text-ink-300"
+                        >
+                          {narrative.label}
+                          <span className="block text-xs font-mono text-gray-500 dark:text-gray-400">
+                            {narrative.isOrigin ? 'Started here' : 'Picked up'}{' '}
+                            &middot; {narrative.podcastCount} shows
+                          </span>
+                        </Link>
+                      ))}
+                  </div>
+                </div>
+              )}
+
               {/* Key Quotes */}
               {keyQuotes.length > 0 && (
                 <div>
                   <p className="sidebar-label">Key Quotes</p>
                   <div className="space-y-2">
-                    {keyQuotes.map((quote: string, i: number) => (
-                      <blockquote
-                        key={i}
-                        className="text-sm italic text-gray-600 dark:text-gray-400 border-l-2 border-ink-300 dark:border-ink-600 pl-3"
-                      >
-                        &ldquo;{quote}&rdquo;
-                      </blockquote>
-                    ))}
+                    {keyQuotes.map((quote: string, i: number) => {
+                      const speakerId = quoteSpeakerIds[i]
+                      const speaker = speakerId
+                        ? speakersById.get(speakerId)
+                        : undefined
+                      return (
+                        <blockquote
+                          key={i}
+                          className="text-sm italic text-gray-600 dark:text-gray-400 border-l-2 border-ink-300 dark:border-ink-600 pl-3"
+                        >
+                          &ldquo;{quote}&rdquo;
+                          {speaker && (
+                            <span className="block mt-1 not-italic text-xs font-mono text-gray-500 dark:text-gray-400">
+                              &mdash; {speakerName(speaker)}
+                            </span>
+                          )}
+                        </blockquote>
+                      )
+                    })}
                   </div>
                 </div>
               )}
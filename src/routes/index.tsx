@@ -1,7 +1,7 @@
 import { createFileRoute, Link } from '@tanstack/react-router'
 import { getHomepageData, generateWeeklyAnalysis } from '~/lib/server-fns'
 import { useState } from 'react'
-import Markdown from 'react-markdown'
+import { WeeklyReport } from '~/components/WeeklyReport'
 
 export const Route = createFileRoute('/')({
   loader: () => getHomepageData(),
@@ -106,6 +106,12 @@ function HomePage() {
             Weekly Trend Analysis
           </span>
           <div className="flex-1 border-t border-gray-200 dark:border-gray-700" />
+          <Link
+            to="/reports"
+            className="text-xs font-mono uppercase tracking-wider text-ink-500 dark:text-ink-300 hover:text-ink-700 dark:hover:text-ink-200 transition-colors"
+          >
+            Archive
+          </Link>
           <button
             onClick={handleGenerateAnalysis}
             disabled={generatingAnalysis}
@@ -116,35 +122,12 @@ function HomePage() {
         </div>
 
         {weeklyAnalysis ? (
-          <div className="podcast-card p-6">
-            <div className="flex items-center gap-2 text-xs font-mono text-gray-500 dark:text-gray-400 mb-4">
-              <span>
-                {new Date(weeklyAnalysis.weekStart).toLocaleDateString()} &ndash;{' '}
-                {new Date(weeklyAnalysis.weekEnd).toLocaleDateString()}
-              </span>
-            </div>
-
-            {/* Trending Topics */}
-            {weeklyAnalysis.trendingTopics && (
-              <div className="mb-5">
-                <p className="sidebar-label">Trending Topics</p>
-                <div className="flex flex-wrap gap-2">
-                  {(
-                    JSON.parse(weeklyAnalysis.trendingTopics) as string[]
-                  ).map((topic: string, i: number) => (
-                    <span key={i} className="topic-tag">
-                      {topic}
-                    </span>
-                  ))}
-                </div>
-              </div>
-            )}
-
-            {/* Analysis Text */}
-            <div className="prose dark:prose-invert max-w-none text-sm">
-              <Markdown>{weeklyAnalysis.analysis}</Markdown>
-            </div>
-          </div>
+          <WeeklyReport
+            weekStart={weeklyAnalysis.weekStart}
+            weekEnd={weeklyAnalysis.weekEnd}
+            trendingTopics={JSON.parse(weeklyAnalysis.trendingTopics)}
+            analysis={weeklyAnalysis.analysis}
+          />
         ) : (
           <div className="podcast-card p-8 text-center text-gray-500 dark:text-gray-400">
             <p>
@@ -0,0 +1,160 @@
+import { createFileRoute, useNavigate, useRouter } from '@tanstack/react-router'
+import { useState } from 'react'
+import { login, setupAdmin } from '~/lib/server-fns'
+
+type LoginSearch = {
+  redirect?: string
+}
+
+export const Route = createFileRoute('/login')({
+  validateSearch: (search: Record<string, unknown>): LoginSearch => ({
+    // Only allow same-site paths so the form can't bounce users elsewhere
+    redirect:
+      typeof search.redirect === 'string' &&
+      search.redirect.startsWith('/') &&
+      !search.redirect.startsWith('//')
+        ? search.redirect
+        : undefined,
+  }),
+  component: LoginPage,
+})
+
+function LoginPage() {
+  const { redirect } = Route.useSearch()
+  const { user } = Route.useRouteContext()
+  const router = useRouter()
+  const navigate = useNavigate()
+  const [email, setEmail] = useState('')
+  const [name, setName] = useState('')
+  const [password, setPassword] = useState('')
+  const [setupToken, setSetupToken] = useState('')
+  const [submitting, setSubmitting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const isSetup = user.needsSetup
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setSubmitting(true)
+    setError(null)
+    try {
+      if (isSetup) {
+        await setupAdmin({ data: { email, name, password, setupToken } })
+      } else {
+        await login({ data: { email, password } })
+      }
+      await router.invalidate()
+      navigate({ to: redirect ?? '/' })
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to sign in')
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  const inputClass =
+    'w-full px-3 py-2 border rounded-md bg-white dark:bg-gray-800 text-sm focus:outline-none focus:ring-2 focus:ring-ink-400 border-gray-200 dark:border-gray-700'
+
+  return (
+    <div className="max-w-md mx-auto px-4 sm:px-6 lg:px-8 py-16">
+      <div className="mb-8">
+        <h1 className="font-heading text-4xl mb-2">
+          {isSetup ? 'Create Admin' : 'Sign In'}
+        </h1>
+        <p className="text-gray-500 dark:text-gray-400">
+          {isSetup
+            ? 'No accounts exist yet. Create the first admin account with the SETUP_TOKEN secret set on this deployment.'
+            : 'Sign in to manage podcasts and processing.'}
+        </p>
+      </div>
+
+      {user.userId && !isSetup && (
+        <div className="alert alert-success mb-4">
+          <span className="alert-label bg-emerald-200 dark:bg-emerald-800 text-emerald-700 dark:text-emerald-300">OK</span>
+          <span>
+            Signed in as {user.email} ({user.role}).
+          </span>
+        </div>
+      )}
+
+      {error && (
+        <div className="alert alert-error mb-4">
+          <span className="alert-label bg-danger-200 dark:bg-danger-800 text-danger-700 dark:text-danger-300">ERR</span>
+          <span>{error}</span>
+        </div>
+      )}
+
+      <form onSubmit={handleSubmit} className="podcast-card p-6 space-y-4">
+        <div>
+          <label className="block text-xs font-mono uppercase tracking-wider text-gray-500 dark:text-gray-400 mb-1.5">
+            Email
+          </label>
+          <input
+            type="email"
+            value={email}
+            onChange={(e) => setEmail(e.target.value)}
+            autoComplete="email"
+            required
+            autoFocus
+            className={inputClass}
+          />
+        </div>
+        {isSetup && (
+          <div>
+            <label className="block text-xs font-mono uppercase tracking-wider text-gray-500 dark:text-gray-400 mb-1.5">
+              Name
+            </label>
+            <input
+              type="text"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              autoComplete="name"
+              className={inputClass}
+            />
+          </div>
+        )}
+        <div>
+          <label className="block text-xs font-mono uppercase tracking-wider text-gray-500 dark:text-gray-400 mb-1.5">
+            Password
+          </label>
+          <input
+            type="password"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            autoComplete={isSetup ? 'new-password' : 'current-password'}
+            required
+            className={inputClass}
+          />
+        </div>
+        {isSetup && (
+          <div>
+            <label className="block text-xs font-mono uppercase tracking-wider text-gray-500 dark:text-gray-400 mb-1.5">
+              Setup Token
+            </label>
+            <input
+              type="password"
+              value={setupToken}
+              onChange={(e) => setSetupToken(e.target.value)}
+              autoComplete="off"
+              required
+              className={inputClass}
+            />
+          </div>
+        )}
+        <button
+          type="submit"
+          disabled={submitting}
+          className="btn btn-primary w-full"
+        >
+          {submitting
+            ? isSetup
+              ? 'Creating…'
+              : 'Signing in…'
+            : isSetup
+              ? 'Create Admin Account'
+              : 'Sign In'}
+        </button>
+      </form>
+    </div>
+  )
+}
@@ -0,0 +1,163 @@
+import { createFileRoute, Link } from '@tanstack/react-router'
+import { getNarrativeDetail } from '~/lib/server-fns'
+import { formatLag } from '~/lib/utils'
+
+export const Route = createFileRoute('/narratives/$narrativeId')({
+  loader: ({ params }) =>
+    getNarrativeDetail({ data: { narrativeId: params.narrativeId } }),
+  component: NarrativeDetailPage,
+})
+
+function NarrativeDetailPage() {
+  const { narrative, timeline, shows } = Route.useLoaderData()
+  const [origin, ...pickups] = shows
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+      {/* Breadcrumb */}
+      <nav className="mb-6 text-sm font-mono">
+        <Link to="/" className="text-ink-500 dark:text-ink-300 hover:text-ink-700 dark:hover:text-ink-200 transition-colors">
+          Home
+        </Link>
+        <span className="mx-2 text-gray-400">/</span>
+        <Link to="/narratives" className="text-ink-500 dark:text-ink-300 hover:text-ink-700 dark:hover:text-ink-200 transition-colors">
+          Narratives
+        </Link>
+      </nav>
+
+      {/* Header */}
+      <div className="mb-10">
+        <h1 className="font-heading text-3xl mb-2">{narrative.label}</h1>
+        <p className="text-xs font-mono text-gray-500 dark:text-gray-400">
+          {narrative.claimCount} claim{narrative.claimCount !== 1 ? 's' : ''}{' '}
+          in {narrative.episodeCount} episode
+          {narrative.episodeCount !== 1 ? 's' : ''} of {narrative.podcastCount}{' '}
+          show{narrative.podcastCount !== 1 ? 's' : ''} &middot;{' '}
+          {new Date(narrative.firstSeenAt).toLocaleDateString()}
+          {narrative.lastSeenAt !== narrative.firstSeenAt &&
+            ` – ${new Date(narrative.lastSeenAt).toLocaleDateString()}`}
+        </p>
+      </div>
+
+      <div className="flex gap-8">
+        {/* Timeline */}
+        <div className="flex-1 min-w-0">
+          <div className="flex items-center gap-3 mb-5">
+            <span className="font-mono text-xs uppercase tracking-widest text-gray-500 dark:text-gray-400">
+              Timeline
+            </span>
+            <span className="inline-flex items-center justify-center min-w-[1.5rem] h-5 rounded-full bg-ink-100 dark:bg-ink-800 text-ink-700 dark:text-ink-200 text-xs font-mono font-medium px-1.5">
+              {timeline.length}
+            </span>
+            <div className="flex-1 border-t border-gray-200 dark:border-gray-700" />
+          </div>
+
+          <ol className="relative border-l border-gray-200 dark:border-gray-700 ml-2 space-y-6">
+            {timeline.map((entry, i) => (
+              <li key={entry.episodeId} className="pl-6 relative">
+                <span
+                  className={`absolute -left-[5px] top-1.5 w-2.5 h-2.5 rounded-full ${
+                    i === 0
+                      ? 'bg-ink-500'
+                      : entry.firstForShow
+                        ? 'bg-ink-300 dark:bg-ink-400'
+                        : 'bg-gray-300 dark:bg-gray-600'
+                  }`}
+                />
+                <p className="text-xs font-mono text-gray-500 dark:text-gray-400 mb-1">
+                  {new Date(entry.publishedAt).toLocaleDateString()} &middot;{' '}
+                  {i === 0 ? (
+                    <span className="text-ink-600 dark:text-ink-300">Origin</span>
+                  ) : (
+                    <>
+                      {formatLag(entry.lag)}
+                      {entry.firstForShow && (
+                        <span className="text-ink-600 dark:text-ink-300">
+                          {' '}
+                          &middot; picked up
+                        </span>
+                      )}
+                    </>
+                  )}
+                </p>
+                <Link
+                  to="/episodes/$episodeId"
+                  params={{ episodeId: entry.episodeId }}
+                  className="font-medium hover:text-ink-600 dark:hover:text-ink-300"
+                >
+                  {entry.episodeTitle}
+                </Link>
+                <p className="text-xs font-mono text-gray-500 dark:text-gray-400 mb-2">
+                  <Link
+                    to="/podcasts/$podcastId"
+                    params={{ podcastId: entry.podcastId }}
+                    className="hover:text-ink-600 dark:hover:text-ink-300"
+                  >
+                    {entry.podcastTitle}
+                  </Link>
+                </p>
+                <div className="space-y-1">
+                  {entry.claims.map((claim, j) => (
+                    <p
+                      key={j}
+                      className="text-sm text-gray-600 dark:text-gray-400 border-l-2 border-gray-200 dark:border-gray-700 pl-3"
+                    >
+                      {claim}
+                    </p>
+                  ))}
+                </div>
+              </li>
+            ))}
+          </ol>
+        </div>
+
+        {/* Shows */}
+        <aside className="w-72 flex-shrink-0 hidden lg:block space-y-6">
+          {origin && (
+            <div>
+              <p className="sidebar-label">Started on</p>
+              <Link
+                to="/podcasts/$podcastId"
+                params={{ podcastId: origin.podcastId }}
+                className="text-sm font-medium hover:text-ink-600 dark:hover:text-ink-300"
+              >
+                {origin.podcastTitle}
+              </Link>
+              <p className="text-xs font-mono text-gray-500 dark:text-gray-400">
+                {new Date(origin.firstSeenAt).toLocaleDateString()} &middot;{' '}
+                {origin.episodeCount} episode
+                {origin.episodeCount !== 1 ? 's' : ''}
+              </p>
+            </div>
+          )}
+          <div>
+            <p className="sidebar-label">Picked up by</p>
+            {pickups.length === 0 ? (
+              <p className="text-sm text-gray-500 dark:text-gray-400">
+                No other show yet
+              </p>
+            ) : (
+              <div className="space-y-2">
+                {pickups.map((show) => (
+                  <div key={show.podcastId}>
+                    <Link
+                      to="/podcasts/$podcastId"
+                      params={{ podcastId: show.podcastId }}
+                      className="text-sm font-medium hover:text-ink-600 dark:hover:text-ink-300"
+                    >
+                      {show.podcastTitle}
+                    </Link>
+                    <p className="text-xs font-mono text-gray-500 dark:text-gray-400">
+                      {formatLag(show.lag)} &middot; {show.episodeCount} episode
+                      {show.episodeCount !== 1 ? 's' : ''}
+                    </p>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        </aside>
+      </div>
+    </div>
+  )
+}
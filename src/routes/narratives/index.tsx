@@ -0,0 +1,100 @@
+import { createFileRoute, Link } from '@tanstack/react-router'
+import { getNarratives } from '~/lib/server-fns'
+import { formatLag } from '~/lib/utils'
+
+type NarrativeSearch = {
+  // Include claims only one show has made
+  all?: boolean
+}
+
+export const Route = createFileRoute('/narratives/')({
+  validateSearch: (search: Record<string, unknown>): NarrativeSearch => ({
+    all: search.all === true || search.all === 'true' ? true : undefined,
+  }),
+  loaderDeps: ({ search }) => ({ all: search.all }),
+  loader: ({ deps }) => getNarratives({ data: { all: deps.all } }),
+  component: NarrativesPage,
+})
+
+function NarrativesPage() {
+  const narratives = Route.useLoaderData()
+  const { all } = Route.useSearch()
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+      {/* Header */}
+      <div className="mb-8">
+        <h1 className="font-heading text-4xl mb-2">Narratives</h1>
+        <p className="text-gray-500 dark:text-gray-400">
+          Claims and talking points made on more than one show, with where
+          each started and how it spread.
+        </p>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2 mb-8">
+        <Link
+          to="/narratives"
+          search={{}}
+          className={`btn btn-sm ${all ? 'btn-ghost' : 'btn-secondary'}`}
+        >
+          Spread across shows
+        </Link>
+        <Link
+          to="/narratives"
+          search={{ all: true }}
+          className={`btn btn-sm ${all ? 'btn-secondary' : 'btn-ghost'}`}
+        >
+          All
+        </Link>
+      </div>
+
+      <div className="flex items-center gap-3 mb-5">
+        <span className="font-mono text-xs uppercase tracking-widest text-gray-500 dark:text-gray-400">
+          {all ? 'All Narratives' : 'Spread Across Shows'}
+        </span>
+        <span className="inline-flex items-center justify-center min-w-[1.5rem] h-5 rounded-full bg-ink-100 dark:bg-ink-800 text-ink-700 dark:text-ink-200 text-xs font-mono font-medium px-1.5">
+          {narratives.length}
+        </span>
+        <div className="flex-1 border-t border-gray-200 dark:border-gray-700" />
+      </div>
+
+      {narratives.length === 0 ? (
+        <div className="podcast-card p-8 text-center text-gray-500 dark:text-gray-400">
+          <p>
+            {all
+              ? 'No claims have been collected yet. They are added as episodes are analysed.'
+              : 'No claim has been made on more than one show yet.'}
+          </p>
+        </div>
+      ) : (
+        <div className="space-y-2">
+          {narratives.map((narrative) => (
+            <Link
+              key={narrative.id}
+              to="/narratives/$narrativeId"
+              params={{ narrativeId: narrative.id }}
+              className="episode-row block rounded-lg p-4 bg-white dark:bg-gray-900 border border-gray-200 dark:border-gray-800"
+            >
+              <p className="font-medium mb-1">{narrative.label}</p>
+              <p className="text-xs font-mono text-gray-500 dark:text-gray-400 truncate">
+                Started on {narrative.originPodcastTitle} &middot;{' '}
+                {new Date(narrative.firstSeenAt).toLocaleDateString()}
+                {narrative.podcastCount > 1 && (
+                  <>
+                    {' '}
+                    &middot; {narrative.podcastCount} shows,{' '}
+                    {narrative.episodeCount} episodes &middot; latest{' '}
+                    {formatLag(
+                      new Date(narrative.lastSeenAt).getTime() -
+                        new Date(narrative.firstSeenAt).getTime(),
+                    )}
+                  </>
+                )}
+              </p>
+            </Link>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
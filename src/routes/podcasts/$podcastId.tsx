@@ -9,6 +9,10 @@ export const Route = createFileRoute('/podcasts/$podcastId')({
 
 function PodcastDetailPage() {
   const { podcast, episodes } = Route.useLoaderData()
+  // Subcategories are listed with their parent, so only show the most specific
+  const categories = (
+    podcast.categories ? (JSON.parse(podcast.categories) as string[]) : []
+  ).filter((c, _, all) => !all.some((other) => other.startsWith(`${c} > `)))
 
   return (
     <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
@@ -32,6 +36,11 @@ function PodcastDetailPage() {
         )}
         <div>
           <h1 className="font-heading text-3xl mb-2">{podcast.title}</h1>
+          {podcast.author && (
+            <p className="text-sm text-gray-500 dark:text-gray-400 -mt-1 mb-2">
+              by {podcast.author}
+            </p>
+          )}
           {podcast.description && (
             <p className="text-gray-600 dark:text-gray-400 text-sm mb-3 line-clamp-3">
               {podcast.description}
@@ -44,7 +53,13 @@ function PodcastDetailPage() {
             <p className="text-xs font-mono text-gray-400 dark:text-gray-500">
               Tracking since{' '}
               {new Date(podcast.addedAt).toLocaleDateString()}
+              {podcast.explicit && <> &middot; explicit</>}
             </p>
+            {categories.length > 0 && (
+              <p className="text-xs font-mono text-gray-400 dark:text-gray-500">
+                {categories.join(' · ')}
+              </p>
+            )}
           </div>
         </div>
       </div>
@@ -76,6 +91,8 @@ function PodcastDetailPage() {
               <div className="min-w-0 flex-1">
                 <h3 className="font-medium truncate">{episode.title}</h3>
                 <p className="text-xs font-mono text-gray-500 dark:text-gray-400 mt-1">
+                  {episode.seasonNumber != null && `S${episode.seasonNumber} `}
+                  {episode.episodeNumber != null && `E${episode.episodeNumber} · `}
                   {new Date(episode.publishedAt).toLocaleDateString()}
                   {episode.durationSeconds && (
                     <span className="ml-2">
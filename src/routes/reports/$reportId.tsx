@@ -0,0 +1,99 @@
+import { createFileRoute, Link } from '@tanstack/react-router'
+import { WeeklyReport } from '~/components/WeeklyReport'
+import { getWeeklyReport } from '~/lib/server-fns'
+
+export const Route = createFileRoute('/reports/$reportId')({
+  loader: ({ params }) =>
+    getWeeklyReport({ data: { reportId: params.reportId } }),
+  component: ReportDetailPage,
+})
+
+function ReportDetailPage() {
+  const { report, episodes, previous, next } = Route.useLoaderData()
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+      {/* Breadcrumb */}
+      <nav className="mb-6 text-sm font-mono">
+        <Link to="/" className="text-ink-500 dark:text-ink-300 hover:text-ink-700 dark:hover:text-ink-200 transition-colors">
+          Home
+        </Link>
+        <span className="mx-2 text-gray-400">/</span>
+        <Link to="/reports" className="text-ink-500 dark:text-ink-300 hover:text-ink-700 dark:hover:text-ink-200 transition-colors">
+          Reports
+        </Link>
+        <span className="mx-2 text-gray-400">/</span>
+        <span className="text-gray-600 dark:text-gray-400">
+          {new Date(report.weekEnd).toLocaleDateString()}
+        </span>
+      </nav>
+
+      {/* Header */}
+      <div className="flex items-end justify-between gap-4 mb-6">
+        <div>
+          <h1 className="font-heading text-3xl mb-2">Weekly Trend Report</h1>
+          <p className="text-xs font-mono text-gray-500 dark:text-gray-400">
+            Generated {new Date(report.createdAt).toLocaleString()}
+          </p>
+        </div>
+        <div className="flex gap-2">
+          {previous && (
+            <Link
+              to="/reports/$reportId"
+              params={{ reportId: previous.id }}
+              className="btn btn-sm btn-secondary"
+            >
+              &larr; Previous
+            </Link>
+          )}
+          {next && (
+            <Link
+              to="/reports/$reportId"
+              params={{ reportId: next.id }}
+              className="btn btn-sm btn-secondary"
+            >
+              Next &rarr;
+            </Link>
+          )}
+        </div>
+      </div>
+
+      <div className="flex gap-8">
+        <div className="flex-1 min-w-0">
+          <WeeklyReport
+            weekStart={report.weekStart}
+            weekEnd={report.weekEnd}
+            trendingTopics={JSON.parse(report.trendingTopics)}
+            analysis={report.analysis}
+          />
+        </div>
+
+        {/* Episodes covered */}
+        <aside className="w-80 flex-shrink-0 hidden lg:block">
+          <p className="sidebar-label">Episodes Analysed</p>
+          {episodes.length === 0 ? (
+            <p className="text-sm text-gray-500 dark:text-gray-400">
+              The episodes in this report are no longer stored.
+            </p>
+          ) : (
+            <div className="space-y-2">
+              {episodes.map((episode) => (
+                <Link
+                  key={episode.id}
+                  to="/episodes/$episodeId"
+                  params={{ episodeId: episode.id }}
+                  className="block text-sm hover:text-ink-500 dark:hover:text-ink-300 transition-colors"
+                >
+                  <span className="block text-xs font-mono text-gray-500 dark:text-gray-400">
+                    {episode.podcastTitle}
+                  </span>
+                  {episode.title}
+                </Link>
+              ))}
+            </div>
+          )}
+        </aside>
+      </div>
+    </div>
+  )
+}
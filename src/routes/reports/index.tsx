@@ -0,0 +1,70 @@
+import { createFileRoute, Link } from '@tanstack/react-router'
+import { getWeeklyReports } from '~/lib/server-fns'
+
+export const Route = createFileRoute('/reports/')({
+  loader: () => getWeeklyReports(),
+  component: ReportsPage,
+})
+
+function ReportsPage() {
+  const { reports } = Route.useLoaderData()
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+      {/* Header */}
+      <div className="mb-10">
+        <h1 className="font-heading text-4xl mb-2">Weekly Reports</h1>
+        <p className="text-gray-500 dark:text-gray-400">
+          Every cross-podcast trend report generated so far, newest first.
+        </p>
+      </div>
+
+      <div className="flex items-center gap-3 mb-5">
+        <span className="font-mono text-xs uppercase tracking-widest text-gray-500 dark:text-gray-400">
+          Archive
+        </span>
+        <span className="inline-flex items-center justify-center min-w-[1.5rem] h-5 rounded-full bg-ink-100 dark:bg-ink-800 text-ink-700 dark:text-ink-200 text-xs font-mono font-medium px-1.5">
+          {reports.length}
+        </span>
+        <div className="flex-1 border-t border-gray-200 dark:border-gray-700" />
+      </div>
+
+      {reports.length === 0 ? (
+        <div className="podcast-card p-8 text-center text-gray-500 dark:text-gray-400">
+          <p>No weekly reports have been generated yet.</p>
+        </div>
+      ) : (
+        <div className="space-y-2">
+          {reports.map((report) => (
+            <Link
+              key={report.id}
+              to="/reports/$reportId"
+              params={{ reportId: report.id }}
+              className="episode-row block rounded-lg p-4 bg-white dark:bg-gray-900 border border-gray-200 dark:border-gray-800"
+            >
+              <div className="flex items-center justify-between gap-4">
+                <h3 className="font-medium">
+                  {new Date(report.weekStart).toLocaleDateString()} &ndash;{' '}
+                  {new Date(report.weekEnd).toLocaleDateString()}
+                </h3>
+                <span className="text-xs font-mono text-gray-500 dark:text-gray-400 flex-shrink-0">
+                  {report.episodeCount} episode
+                  {report.episodeCount !== 1 ? 's' : ''}
+                </span>
+              </div>
+              {report.trendingTopics.length > 0 && (
+                <div className="flex flex-wrap gap-1.5 mt-2">
+                  {report.trendingTopics.slice(0, 8).map((topic, i) => (
+                    <span key={i} className="topic-tag">
+                      {topic}
+                    </span>
+                  ))}
+                </div>
+              )}
+            </Link>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
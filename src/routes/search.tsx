@@ -0,0 +1,275 @@
+import { createFileRoute, Link, useNavigate } from '@tanstack/react-router'
+import { useState } from 'react'
+import { searchCorpus, semanticSearch } from '~/lib/server-fns'
+import { parseSnippet } from '~/lib/search'
+import { formatTime } from '~/lib/utils'
+
+type SearchParams = {
+  q?: string
+  // Match by meaning rather than keywords
+  mode?: 'meaning'
+  // Find moments similar to this transcript segment
+  similar?: string
+}
+
+export const Route = createFileRoute('/search')({
+  validateSearch: (search: Record<string, unknown>): SearchParams => ({
+    q: typeof search.q === 'string' && search.q.trim() ? search.q : undefined,
+    mode: search.mode === 'meaning' ? 'meaning' : undefined,
+    similar:
+      typeof search.similar === 'string' && search.similar
+        ? search.similar
+        : undefined,
+  }),
+  loaderDeps: ({ search }) => ({
+    q: search.q,
+    mode: search.mode,
+    similar: search.similar,
+  }),
+  loader: async ({ deps }) => {
+    if (deps.similar) {
+      return {
+        keyword: null,
+        semantic: await semanticSearch({ data: { segmentId: deps.similar } }),
+      }
+    }
+    if (!deps.q) return { keyword: null, semantic: null }
+    return deps.mode === 'meaning'
+      ? {
+          keyword: null,
+          semantic: await semanticSearch({ data: { query: deps.q } }),
+        }
+      : {
+          keyword: await searchCorpus({ data: { query: deps.q } }),
+          semantic: null,
+        }
+  },
+  component: SearchPage,
+})
+
+const SOURCE_LABELS: Record<string, string> = {
+  summary: 'Summary',
+  tags: 'Tags',
+  quote: 'Key quote',
+}
+
+function Snippet({ snippet }: { snippet: string }) {
+  return (
+    <>
+      {parseSnippet(snippet).map((part, i) =>
+        part.match ? (
+          <mark key={i} className="transcript-match-text">
+            {part.text}
+          </mark>
+        ) : (
+          <span key={i}>{part.text}</span>
+        ),
+      )}
+    </>
+  )
+}
+
+function SearchPage() {
+  const { q, mode } = Route.useSearch()
+  const { keyword: results, semantic } = Route.useLoaderData()
+  const navigate = useNavigate({ from: '/search' })
+  const [query, setQuery] = useState(q ?? '')
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+    navigate({ search: { q: query.trim() || undefined, mode } })
+  }
+
+  const totalHits = results
+    ? results.segments.length + results.analyses.length
+    : 0
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+      {/* Header */}
+      <div className="mb-8">
+        <h1 className="font-heading text-4xl mb-2">Search</h1>
+        <p className="text-gray-500 dark:text-gray-400">
+          Search every transcript, summary, tag and key quote across all
+          tracked podcasts.
+        </p>
+      </div>
+
+      <form onSubmit={handleSubmit} className="flex gap-2 mb-10">
+        <input
+          type="search"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder="Search transcripts and analyses…"
+          autoFocus
+          className="flex-1 px-3 py-2 border rounded-md bg-white dark:bg-gray-800 text-sm focus:outline-none focus:ring-2 focus:ring-ink-400 border-gray-200 dark:border-gray-700"
+        />
+        <button type="submit" className="btn btn-primary">
+          Search
+        </button>
+      </form>
+
+      <div className="flex items-center gap-2 -mt-6 mb-10">
+        <Link
+          to="/search"
+          search={{ q }}
+          className={`btn btn-sm ${mode ? 'btn-ghost' : 'btn-secondary'}`}
+        >
+          Keywords
+        </Link>
+        <Link
+          to="/search"
+          search={{ q, mode: 'meaning' }}
+          className={`btn btn-sm ${mode ? 'btn-secondary' : 'btn-ghost'}`}
+          title="Find passages that say the same thing in other words"
+        >
+          Meaning
+        </Link>
+      </div>
+
+      {semantic?.source && (
+        <div className="podcast-card p-4 mb-8">
+          <p className="sidebar-label">Moments similar to</p>
+          <Link
+            to="/episodes/$episodeId"
+            params={{ episodeId: semantic.source.episodeId }}
+            className="text-sm leading-relaxed hover:text-ink-600 dark:hover:text-ink-300"
+          >
+            &ldquo;{semantic.source.text}&rdquo;
+          </Link>
+        </div>
+      )}
+
+      {semantic && semantic.results.length === 0 && (
+        <div className="podcast-card p-8 text-center text-gray-500 dark:text-gray-400">
+          <p>
+            {semantic.source
+              ? 'No similar moments found.'
+              : `No passages match the meaning of “${semantic.query}”.`}
+          </p>
+        </div>
+      )}
+
+      {semantic && semantic.results.length > 0 && (
+        <section className="mb-12">
+          <div className="flex items-center gap-3 mb-5">
+            <span className="font-mono text-xs uppercase tracking-widest text-gray-500 dark:text-gray-400">
+              {semantic.source ? 'Similar Moments' : 'Closest in Meaning'}
+            </span>
+            <span className="inline-flex items-center justify-center min-w-[1.5rem] h-5 rounded-full bg-ink-100 dark:bg-ink-800 text-ink-700 dark:text-ink-200 text-xs font-mono font-medium px-1.5">
+              {semantic.results.length}
+            </span>
+            <div className="flex-1 border-t border-gray-200 dark:border-gray-700" />
+          </div>
+
+          <div className="space-y-2">
+            {semantic.results.map((hit) => (
+              <Link
+                key={hit.windowId}
+                to="/episodes/$episodeId"
+                params={{ episodeId: hit.episodeId }}
+                search={{ start: hit.startTime, end: hit.endTime }}
+                className="episode-row block rounded-lg p-4 bg-white dark:bg-gray-900 border border-gray-200 dark:border-gray-800"
+              >
+                <p className="text-xs font-mono text-gray-500 dark:text-gray-400 mb-1 flex gap-2">
+                  <span className="truncate">
+                    {hit.podcastTitle} &middot; {hit.episodeTitle} &middot;{' '}
+                    {new Date(hit.publishedAt).toLocaleDateString()}
+                  </span>
+                  <span className="ml-auto flex-shrink-0" title="Similarity">
+                    {Math.round(hit.score * 100)}%
+                  </span>
+                </p>
+                <p className="text-sm leading-relaxed">
+                  <span className="font-mono text-xs text-ink-500 dark:text-ink-300 mr-2">
+                    {formatTime(hit.startTime)}
+                  </span>
+                  {hit.text}
+                </p>
+              </Link>
+            ))}
+          </div>
+        </section>
+      )}
+
+      {results && totalHits === 0 && (
+        <div className="podcast-card p-8 text-center text-gray-500 dark:text-gray-400">
+          <p>No results for &ldquo;{results.query}&rdquo;.</p>
+        </div>
+      )}
+
+      {results && results.segments.length > 0 && (
+        <section className="mb-12">
+          <div className="flex items-center gap-3 mb-5">
+            <span className="font-mono text-xs uppercase tracking-widest text-gray-500 dark:text-gray-400">
+              Transcript Matches
+            </span>
+            <span className="inline-flex items-center justify-center min-w-[1.5rem] h-5 rounded-full bg-ink-100 dark:bg-ink-800 text-ink-700 dark:text-ink-200 text-xs font-mono font-medium px-1.5">
+              {results.segments.length}
+            </span>
+            <div className="flex-1 border-t border-gray-200 dark:border-gray-700" />
+          </div>
+
+          <div className="space-y-2">
+            {results.segments.map((hit) => (
+              <Link
+                key={hit.segmentId}
+                to="/episodes/$episodeId"
+                params={{ episodeId: hit.episodeId }}
+                search={{ start: hit.startTime }}
+                className="episode-row block rounded-lg p-4 bg-white dark:bg-gray-900 border border-gray-200 dark:border-gray-800"
+              >
+                <p className="text-xs font-mono text-gray-500 dark:text-gray-400 mb-1 truncate">
+                  {hit.podcastTitle} &middot; {hit.episodeTitle} &middot;{' '}
+                  {new Date(hit.publishedAt).toLocaleDateString()}
+                </p>
+                <p className="text-sm leading-relaxed">
+                  <span className="font-mono text-xs text-ink-500 dark:text-ink-300 mr-2">
+                    {formatTime(hit.startTime)}
+                  </span>
+                  <Snippet snippet={hit.snippet} />
+                </p>
+              </Link>
+            ))}
+          </div>
+        </section>
+      )}
+
+      {results && results.analyses.length > 0 && (
+        <section>
+          <div className="flex items-center gap-3 mb-5">
+            <span className="font-mono text-xs uppercase tracking-widest text-gray-500 dark:text-gray-400">
+              Analysis Matches
+            </span>
+            <span className="inline-flex items-center justify-center min-w-[1.5rem] h-5 rounded-full bg-ink-100 dark:bg-ink-800 text-ink-700 dark:text-ink-200 text-xs font-mono font-medium px-1.5">
+              {results.analyses.length}
+            </span>
+            <div className="flex-1 border-t border-gray-200 dark:border-gray-700" />
+          </div>
+
+          <div className="space-y-2">
+            {results.analyses.map((hit) => (
+              <Link
+                key={hit.episodeId}
+                to="/episodes/$episodeId"
+                params={{ episodeId: hit.episodeId }}
+                className="episode-row block rounded-lg p-4 bg-white dark:bg-gray-900 border border-gray-200 dark:border-gray-800"
+              >
+                <p className="text-xs font-mono text-gray-500 dark:text-gray-400 mb-1 truncate">
+                  {hit.podcastTitle} &middot; {hit.episodeTitle} &middot;{' '}
+                  {new Date(hit.publishedAt).toLocaleDateString()}
+                </p>
+                <p className="text-sm leading-relaxed">
+                  <span className="sidebar-label mr-2">
+                    {SOURCE_LABELS[hit.source]}
+                  </span>
+                  <Snippet snippet={hit.snippet} />
+                </p>
+              </Link>
+            ))}
+          </div>
+        </section>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,82 @@
+import { createFileRoute, Link } from '@tanstack/react-router'
+import Markdown from 'react-markdown'
+import { getTagDetail } from '~/lib/server-fns'
+
+export const Route = createFileRoute('/tags/$tag')({
+  loader: ({ params }) => getTagDetail({ data: { tag: params.tag } }),
+  component: TagPage,
+})
+
+function TagPage() {
+  const { tag, aliases, episodes } = Route.useLoaderData()
+  const { tag: requested } = Route.useParams()
+  const viaAlias = requested.trim().toLowerCase() !== tag.name
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+      {/* Breadcrumb */}
+      <nav className="mb-6 text-sm font-mono">
+        <Link to="/" className="text-ink-500 dark:text-ink-300 hover:text-ink-700 dark:hover:text-ink-200 transition-colors">
+          Home
+        </Link>
+        <span className="mx-2 text-gray-400">/</span>
+        <span className="text-gray-600 dark:text-gray-400">Tags</span>
+        <span className="mx-2 text-gray-400">/</span>
+        <span className="text-gray-600 dark:text-gray-400">{tag.name}</span>
+      </nav>
+
+      {/* Header */}
+      <div className="mb-10">
+        <h1 className="font-heading text-4xl mb-2">{tag.name}</h1>
+        {viaAlias && (
+          <p className="text-sm text-gray-500 dark:text-gray-400 mb-1">
+            &ldquo;{requested}&rdquo; has been merged into this tag.
+          </p>
+        )}
+        {aliases.length > 0 && (
+          <p className="text-xs font-mono text-gray-500 dark:text-gray-400">
+            Also: {aliases.join(', ')}
+          </p>
+        )}
+      </div>
+
+      <div className="flex items-center gap-3 mb-5">
+        <span className="font-mono text-xs uppercase tracking-widest text-gray-500 dark:text-gray-400">
+          Episodes
+        </span>
+        <span className="inline-flex items-center justify-center min-w-[1.5rem] h-5 rounded-full bg-ink-100 dark:bg-ink-800 text-ink-700 dark:text-ink-200 text-xs font-mono font-medium px-1.5">
+          {episodes.length}
+        </span>
+        <div className="flex-1 border-t border-gray-200 dark:border-gray-700" />
+      </div>
+
+      {episodes.length === 0 ? (
+        <div className="podcast-card p-8 text-center text-gray-500 dark:text-gray-400">
+          <p>No stored episodes have this tag.</p>
+        </div>
+      ) : (
+        <div className="space-y-2">
+          {episodes.map((episode) => (
+            <Link
+              key={episode.id}
+              to="/episodes/$episodeId"
+              params={{ episodeId: episode.id }}
+              className="episode-row block rounded-lg p-4 bg-white dark:bg-gray-900 border border-gray-200 dark:border-gray-800"
+            >
+              <p className="text-xs font-mono text-gray-500 dark:text-gray-400 mb-1 truncate">
+                {episode.podcastTitle} &middot;{' '}
+                {new Date(episode.publishedAt).toLocaleDateString()}
+              </p>
+              <p className="font-medium mb-1">{episode.title}</p>
+              {episode.summary && (
+                <div className="prose prose-sm dark:prose-invert max-w-none text-gray-600 dark:text-gray-400 line-clamp-3">
+                  <Markdown>{episode.summary}</Markdown>
+                </div>
+              )}
+            </Link>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,315 @@
+import { createFileRoute, Link, useNavigate } from '@tanstack/react-router'
+import { getTopicTrends } from '~/lib/server-fns'
+import {
+  TREND_BUCKETS,
+  TREND_INTERVALS,
+  TREND_KINDS,
+  type TopicTrend,
+  type TrendInterval,
+  type TrendKind,
+} from '~/lib/trends'
+import { Sparkline, TREND_COLORS, TrendChart } from '~/components/TrendChart'
+
+type TrendSearch = {
+  kind?: TrendKind
+  interval?: TrendInterval
+  podcast?: string
+  // Topics charted, when not the default top few
+  topics?: string[]
+}
+
+const DEFAULT_CHARTED = 5
+
+const KIND_LABELS: Record<TrendKind, string> = {
+  tag: 'Tags',
+  theme: 'Themes',
+}
+
+const INTERVAL_LABELS: Record<TrendInterval, string> = {
+  day: 'Daily',
+  week: 'Weekly',
+}
+
+export const Route = createFileRoute('/trends')({
+  validateSearch: (search: Record<string, unknown>): TrendSearch => ({
+    kind: TREND_KINDS.find((k) => k === search.kind),
+    interval: TREND_INTERVALS.find((i) => i === search.interval),
+    podcast:
+      typeof search.podcast === 'string' && search.podcast
+        ? search.podcast
+        : undefined,
+    topics:
+      Array.isArray(search.topics) && search.topics.length > 0
+        ? search.topics.filter((t): t is string => typeof t === 'string')
+        : undefined,
+  }),
+  loaderDeps: ({ search }) => ({
+    kind: search.kind,
+    interval: search.interval,
+    podcast: search.podcast,
+  }),
+  loader: ({ deps }) =>
+    getTopicTrends({
+      data: {
+        kind: deps.kind,
+        interval: deps.interval,
+        podcastId: deps.podcast,
+      },
+    }),
+  component: TrendsPage,
+})
+
+function ChangeLabel({ trend }: { trend: TopicTrend }) {
+  const change = trend.current - trend.previous
+  if (trend.previous === 0 && trend.current > 0) {
+    return <span className="text-ink-500 dark:text-ink-300">new</span>
+  }
+  if (change === 0) return <span className="text-gray-400">&ndash;</span>
+  return (
+    <span
+      className={
+        change > 0
+          ? 'text-green-700 dark:text-green-400'
+          : 'text-danger-600 dark:text-danger-400'
+      }
+    >
+      {change > 0 ? `+${change}` : change}
+    </span>
+  )
+}
+
+function TrendsPage() {
+  const trends = Route.useLoaderData()
+  const search = Route.useSearch()
+  const navigate = useNavigate({ from: '/trends' })
+  const { kind, interval, buckets, topics, rising, falling, podcasts } = trends
+
+  const charted =
+    search.topics ?? topics.slice(0, DEFAULT_CHARTED).map((t) => t.topic)
+  const byTopic = new Map(
+    [...topics, ...rising, ...falling].map((t) => [t.topic, t]),
+  )
+  const series = charted
+    .map((topic) => byTopic.get(topic))
+    .filter((t): t is TopicTrend => !!t)
+    .map((t, i) => ({ ...t, color: TREND_COLORS[i % TREND_COLORS.length] }))
+  const colorOf = new Map(series.map((s) => [s.topic, s.color]))
+
+  const toggleTopic = (topic: string) => {
+    const next = charted.includes(topic)
+      ? charted.filter((t) => t !== topic)
+      : [...charted, topic].slice(-TREND_COLORS.length)
+    navigate({ search: (prev) => ({ ...prev, topics: next }) })
+  }
+
+  const periodLabel =
+    interval === 'day'
+      ? `last ${TREND_BUCKETS.day} days`
+      : `last ${TREND_BUCKETS.week} weeks`
+
+  const renderMovers = (title: string, list: TopicTrend[]) => (
+    <div>
+      <p className="sidebar-label">{title}</p>
+      {list.length === 0 ? (
+        <p className="text-sm text-gray-500 dark:text-gray-400">None</p>
+      ) : (
+        <div className="space-y-1">
+          {list.map((trend) => (
+            <button
+              key={trend.topic}
+              onClick={() => toggleTopic(trend.topic)}
+              className="episode-row w-full flex items-center justify-between gap-2 rounded px-2 py-1 text-sm text-left"
+            >
+              <span className="truncate">{trend.topic}</span>
+              <span className="font-mono text-xs flex-shrink-0">
+                {trend.previous} &rarr; {trend.current} (
+                <ChangeLabel trend={trend} />)
+              </span>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+      {/* Header */}
+      <div className="mb-8">
+        <h1 className="font-heading text-4xl mb-2">Trends</h1>
+        <p className="text-gray-500 dark:text-gray-400">
+          How many episodes discussed each topic over the {periodLabel},
+          compared with the {interval === 'day' ? 'month' : 'quarter'} before.
+        </p>
+      </div>
+
+      {/* Filters */}
+      <div className="flex flex-wrap items-center gap-2 mb-8">
+        {TREND_KINDS.map((k) => (
+          <Link
+            key={k}
+            to="/trends"
+            search={(prev) => ({ ...prev, kind: k, topics: undefined })}
+            className={`btn btn-sm ${kind === k ? 'btn-secondary' : 'btn-ghost'}`}
+          >
+            {KIND_LABELS[k]}
+          </Link>
+        ))}
+        <span className="mx-2 text-gray-300 dark:text-gray-700">|</span>
+        {TREND_INTERVALS.map((i) => (
+          <Link
+            key={i}
+            to="/trends"
+            search={(prev) => ({ ...prev, interval: i })}
+            className={`btn btn-sm ${interval === i ? 'btn-secondary' : 'btn-ghost'}`}
+          >
+            {INTERVAL_LABELS[i]}
+          </Link>
+        ))}
+        <select
+          value={search.podcast ?? ''}
+          onChange={(e) =>
+            navigate({
+              search: (prev) => ({
+                ...prev,
+                podcast: e.target.value || undefined,
+                topics: undefined,
+              }),
+            })
+          }
+          className="ml-auto px-3 py-1.5 border rounded-md bg-white dark:bg-gray-800 text-sm max-w-[16rem]"
+        >
+          <option value="">All podcasts</option>
+          {podcasts.map((podcast) => (
+            <option key={podcast.id} value={podcast.id}>
+              {podcast.title}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {topics.length === 0 && rising.length === 0 && falling.length === 0 ? (
+        <div className="podcast-card p-8 text-center text-gray-500 dark:text-gray-400">
+          <p>No analysed episodes in this period.</p>
+        </div>
+      ) : (
+        <div className="flex gap-8">
+          <div className="flex-1 min-w-0">
+            {/* Chart */}
+            <div className="podcast-card p-4 mb-8">
+              {series.length === 0 ? (
+                <p className="text-sm text-gray-500 dark:text-gray-400 text-center py-8">
+                  Select topics below to chart them.
+                </p>
+              ) : (
+                <>
+                  <TrendChart buckets={buckets} series={series} />
+                  <div className="flex flex-wrap gap-3 mt-3">
+                    {series.map((s) => (
+                      <button
+                        key={s.topic}
+                        onClick={() => toggleTopic(s.topic)}
+                        title="Remove from chart"
+                        className="inline-flex items-center gap-1.5 text-xs font-mono"
+                      >
+                        <span
+                          className="inline-block w-3 h-3 rounded-sm"
+                          style={{ backgroundColor: s.color }}
+                        />
+                        {s.topic} &times;
+                      </button>
+                    ))}
+                  </div>
+                </>
+              )}
+            </div>
+
+            {/* Table */}
+            <div className="flex items-center gap-3 mb-5">
+              <span className="font-mono text-xs uppercase tracking-widest text-gray-500 dark:text-gray-400">
+                Top {KIND_LABELS[kind]}
+              </span>
+              <span className="inline-flex items-center justify-center min-w-[1.5rem] h-5 rounded-full bg-ink-100 dark:bg-ink-800 text-ink-700 dark:text-ink-200 text-xs font-mono font-medium px-1.5">
+                {topics.length}
+              </span>
+              <div className="flex-1 border-t border-gray-200 dark:border-gray-700" />
+            </div>
+
+            <div className="border rounded overflow-hidden">
+              <table className="w-full text-sm">
+                <thead className="bg-gray-50 dark:bg-gray-800">
+                  <tr>
+                    <th className="w-8" />
+                    <th className="text-left px-3 py-2 font-mono text-xs uppercase tracking-wider text-gray-500 dark:text-gray-400 font-medium">
+                      Topic
+                    </th>
+                    <th className="px-3 py-2 font-mono text-xs uppercase tracking-wider text-gray-500 dark:text-gray-400 font-medium w-28">
+                      Trend
+                    </th>
+                    <th className="text-right px-3 py-2 font-mono text-xs uppercase tracking-wider text-gray-500 dark:text-gray-400 font-medium w-24">
+                      Episodes
+                    </th>
+                    <th className="text-right px-3 py-2 font-mono text-xs uppercase tracking-wider text-gray-500 dark:text-gray-400 font-medium w-24">
+                      Shows
+                    </th>
+                    <th className="text-right px-3 py-2 font-mono text-xs uppercase tracking-wider text-gray-500 dark:text-gray-400 font-medium w-24">
+                      Change
+                    </th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y">
+                  {topics.map((trend) => (
+                    <tr key={trend.topic} className="episode-row">
+                      <td className="pl-3 py-2">
+                        <input
+                          type="checkbox"
+                          checked={charted.includes(trend.topic)}
+                          onChange={() => toggleTopic(trend.topic)}
+                          aria-label={`Chart ${trend.topic}`}
+                        />
+                      </td>
+                      <td className="px-3 py-2">
+                        {kind === 'tag' ? (
+                          <Link
+                            to="/tags/$tag"
+                            params={{ tag: trend.topic }}
+                            className="hover:text-ink-600 dark:hover:text-ink-300"
+                          >
+                            {trend.topic}
+                          </Link>
+                        ) : (
+                          trend.topic
+                        )}
+                      </td>
+                      <td className="px-3 py-2 text-gray-400">
+                        <Sparkline
+                          counts={trend.counts}
+                          color={colorOf.get(trend.topic)}
+                        />
+                      </td>
+                      <td className="px-3 py-2 text-right text-gray-500 font-mono text-xs">
+                        {trend.current}
+                      </td>
+                      <td className="px-3 py-2 text-right text-gray-500 font-mono text-xs">
+                        {trend.podcastCount}
+                      </td>
+                      <td className="px-3 py-2 text-right font-mono text-xs">
+                        <ChangeLabel trend={trend} />
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+
+          {/* Movers */}
+          <aside className="w-72 flex-shrink-0 hidden lg:block space-y-6">
+            {renderMovers('Rising', rising)}
+            {renderMovers('Falling', falling)}
+          </aside>
+        </div>
+      )}
+    </div>
+  )
+}
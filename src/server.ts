@@ -1,7 +1,13 @@
 import handler from '@tanstack/react-start/server-entry'
 
-// Re-export the Workflow class so Cloudflare can discover it
+// Re-export the Workflow classes so Cloudflare can discover them
 export { EpisodeProcessingWorkflow } from './workflows/episode-processing'
+export { GlossaryReapplyWorkflow } from './workflows/glossary-reapply'
+
+// Each must match an entry in `triggers.crons` in wrangler.jsonc. Any other
+// trigger queues the feeds that are due.
+const DEFAULT_WEEKLY_REPORT_CRON = '0 6 * * 1'
+const DEFAULT_DIGEST_CRON = '0 7 * * *'
 
 export default {
   fetch: handler.fetch,
@@ -11,7 +17,31 @@ export default {
     env: Env,
     ctx: ExecutionContext,
   ) {
-    const { pollAllFeeds } = await import('./lib/rss')
-    ctx.waitUntil(pollAllFeeds(env))
+    const weeklyReportCron =
+      (env as any).WEEKLY_REPORT_CRON || DEFAULT_WEEKLY_REPORT_CRON
+    const digestCron = (env as any).DIGEST_CRON || DEFAULT_DIGEST_CRON
+
+    switch (event.cron) {
+      case weeklyReportCron: {
+        const { runScheduledWeeklyReport } = await import('./lib/weekly')
+        ctx.waitUntil(runScheduledWeeklyReport(env, event.scheduledTime))
+        return
+      }
+      case digestCron: {
+        const { runScheduledDigest } = await import('./lib/digest')
+        ctx.waitUntil(runScheduledDigest(env, event.scheduledTime))
+        return
+      }
+      default: {
+        const { enqueueDueFeeds } = await import('./lib/feed-queue')
+        ctx.waitUntil(enqueueDueFeeds(env))
+      }
+    }
+  },
+
+  // Polls one feed per message sent by enqueueDueFeeds
+  async queue(batch: MessageBatch<{ jobId: string }>, env: Env) {
+    const { handleFeedPollBatch } = await import('./lib/feed-queue')
+    await handleFeedPollBatch(batch, env)
   },
 }
@@ -0,0 +1,34 @@
+/// <reference types="node" />
+import { readdirSync, readFileSync } from 'node:fs'
+import { Miniflare } from 'miniflare'
+
+const MIGRATIONS_DIR = new URL('../../migrations/', import.meta.url)
+
+/**
+ * A local D1 database with every migration applied, run by the same workerd
+ * runtime as `wrangler dev`. Call `dispose` when done.
+ */
+export async function createTestDatabase(): Promise<{
+  db: D1Database
+  dispose: () => Promise<void>
+}> {
+  const miniflare = new Miniflare({
+    modules: true,
+    script: 'export default {}',
+    d1Databases: ['DB'],
+  })
+  const db = (await miniflare.getD1Database('DB')) as unknown as D1Database
+
+  const migrations = readdirSync(MIGRATIONS_DIR)
+    .filter((file) => file.endsWith('.sql'))
+    .sort()
+  for (const file of migrations) {
+    const statements = readFileSync(new URL(file, MIGRATIONS_DIR), 'utf8')
+      .split('--> statement-breakpoint')
+      .map((statement) => statement.trim())
+      .filter(Boolean)
+    await db.batch(statements.map((statement) => db.prepare(statement)))
+  }
+
+  return { db, dispose: () => miniflare.dispose() }
+}
@@ -6,18 +6,99 @@ import {
 import { eq } from 'drizzle-orm'
 import { nanoid } from 'nanoid'
 import { getDb } from '~/db'
-import { episodes, transcriptSegments, episodeAnalyses } from '~/db/schema'
-import { groupWordsIntoSegments, type Word } from '~/lib/timestamp'
+import {
+  podcasts,
+  episodes,
+  speakers,
+  transcriptSegments,
+  transcriptRevisions,
+  episodeAnalyses,
+  episodeEntities,
+} from '~/db/schema'
+import {
+  groupWordsIntoSegments,
+  stitchWords,
+  type Word,
+} from '~/lib/timestamp'
+import { Mp3ChunkPlanner } from '~/lib/mp3'
+import {
+  createSeekPlanner,
+  saveSeekIndex,
+  seekIndexFromPlan,
+} from '~/lib/audio-clips'
+import {
+  createDiarizer,
+  labelWords,
+  splitIntoUtterances,
+  type DiarizationResult,
+} from '~/lib/diarization'
+import {
+  applyGlossary,
+  buildWhisperPrompt,
+  loadGlossary,
+  type GlossaryTerm,
+} from '~/lib/glossary'
+import {
+  choosePublisherTranscript,
+  cuesToWords,
+  fetchPublisherTranscript,
+  labelNamedSpeakers,
+  type TranscriptCue,
+} from '~/lib/publisher-transcripts'
+import {
+  recordEpisodeFailure,
+  withAttemptLogging,
+  type ResumeStage,
+} from '~/lib/episode-events'
 import {
   ANALYSIS_SYSTEM_PROMPT,
   buildAnalysisPrompt,
   parseAnalysisResult,
 } from '~/lib/analysis'
+import { storeEpisodeEntities } from '~/lib/entities'
+import { storeEpisodeTags } from '~/lib/tags'
+import { storeEpisodeClaims } from '~/lib/narratives'
+import { indexEpisodeTranscript } from '~/lib/semantic-search'
+import {
+  deleteCachedChunks,
+  loadCachedChunk,
+  saveCachedChunk,
+} from '~/lib/transcription-cache'
+import {
+  generateEpisodeChapters,
+  loadPublisherChapters,
+} from '~/lib/chapters'
 
 type EpisodePayload = {
   episodeId: string
   podcastId: string
   audioUrl: string
+  // Set when retrying a failed run; earlier stages are skipped
+  resumeFrom?: ResumeStage
+}
+
+// Wraps a step callback so its failed attempts are logged against the episode
+type TrackStep = <T>(name: string, callback: () => Promise<T>) => () => Promise<T>
+
+// How the audio is split for transcription. Frame-aligned chunks know their
+// start time and overlap in seconds; byte-range chunks only in bytes.
+type ChunkPlan = {
+  duration: number | null
+  chunks: Array<{
+    offset: number
+    length: number
+    startTime: number | null
+    overlap: number | null
+    overlapBytes: number
+  }>
+}
+
+type Transcription = {
+  words: Word[]
+  text: string
+  duration: number
+  // Speaker name per word, when the publisher's transcript names them
+  speakers: (string | null)[] | null
 }
 
 export class EpisodeProcessingWorkflow extends WorkflowEntrypoint<
@@ -25,7 +106,63 @@ export class EpisodeProcessingWorkflow extends WorkflowEntrypoint<
   EpisodePayload
 > {
   async run(event: WorkflowEvent<EpisodePayload>, step: WorkflowStep) {
-    const { episodeId, podcastId, audioUrl } = event.payload
+    const { episodeId } = event.payload
+    const workflowId = event.instanceId
+
+    // Name of the step in progress, so a failure can be attributed to it
+    let currentStep = 'download-audio'
+    const tracked: TrackStep = (name, callback) => {
+      currentStep = name
+      return withAttemptLogging(
+        this.env,
+        { episodeId, workflowId, step: name },
+        callback,
+      )
+    }
+    const setCurrentStep = (name: string) => {
+      currentStep = name
+    }
+
+    try {
+      await this.process(event.payload, step, tracked, setCurrentStep)
+    } catch (error) {
+      await step.do('record-failure', async () => {
+        await recordEpisodeFailure(
+          this.env,
+          { episodeId, workflowId, step: currentStep },
+          error,
+        )
+      })
+      throw error
+    }
+  }
+
+  private async process(
+    payload: EpisodePayload,
+    step: WorkflowStep,
+    tracked: TrackStep,
+    setCurrentStep: (name: string) => void,
+  ) {
+    const { episodeId, podcastId, audioUrl } = payload
+    const resumeFrom = payload.resumeFrom ?? 'download'
+
+    // A retry from analysis reuses the transcript already stored in D1
+    if (resumeFrom === 'analyze') {
+      const storedTranscript = await step.do(
+        'load-transcript',
+        tracked('load-transcript', async () => {
+          const db = getDb(this.env.DB)
+          const segments = await db
+            .select({ text: transcriptSegments.text })
+            .from(transcriptSegments)
+            .where(eq(transcriptSegments.episodeId, episodeId))
+            .orderBy(transcriptSegments.segmentIndex)
+          return segments.map((s) => s.text).join(' ')
+        }),
+      )
+      await this.analyze(episodeId, storedTranscript, step, tracked)
+      return
+    }
 
     // Step 1: Download audio to R2 (skip if already exists)
     const r2Key = await step.do(
@@ -34,7 +171,7 @@ export class EpisodeProcessingWorkflow extends WorkflowEntrypoint<
         retries: { limit: 3, delay: '30 seconds', backoff: 'exponential' },
         timeout: '10 minutes',
       },
-      async () => {
+      tracked('download-audio', async () => {
         const db = getDb(this.env.DB)
         const key = `podcasts/${podcastId}/episodes/${episodeId}.mp3`
 
@@ -68,28 +205,332 @@ export class EpisodeProcessingWorkflow extends WorkflowEntrypoint<
           .where(eq(episodes.id, episodeId))
 
         return key
-      },
+      }),
     )
 
+    // Store the publisher's chapters, from the feed's chapters file or the
+    // audio's ID3 tag. Best-effort: without them, chapters are generated
+    // from the transcript during analysis.
+    try {
+      await step.do(
+        'load-chapters',
+        {
+          retries: { limit: 2, delay: '15 seconds', backoff: 'exponential' },
+          timeout: '2 minutes',
+        },
+        tracked('load-chapters', async () => {
+          await loadPublisherChapters(this.env, episodeId, r2Key)
+        }),
+      )
+    } catch (error) {
+      console.error(`Loading chapters failed for episode ${episodeId}:`, error)
+    }
+
     // Step 2: Get audio file size and calculate chunks
-    await step.do('update-status-transcribing', async () => {
-      const db = getDb(this.env.DB)
-      await db
-        .update(episodes)
-        .set({ status: 'transcribing' })
-        .where(eq(episodes.id, episodeId))
-    })
-
-    const audioMeta = await step.do('get-audio-metadata', async () => {
-      const audioObj = await this.env.AUDIO_BUCKET.head(r2Key)
-      if (!audioObj) throw new Error('Audio not found in R2')
-      return { size: audioObj.size }
-    })
+    await step.do(
+      'update-status-transcribing',
+      tracked('update-status-transcribing', async () => {
+        const db = getDb(this.env.DB)
+        await db
+          .update(episodes)
+          .set({ status: 'transcribing' })
+          .where(eq(episodes.id, episodeId))
+      }),
+    )
+
+    // Use the publisher's own transcript when the feed links a timed one.
+    // Best-effort: if it can't be fetched or parsed, the audio is
+    // transcribed as usual.
+    let publisherTranscript: { url: string; cues: TranscriptCue[] } | null =
+      null
+    try {
+      publisherTranscript = await step.do(
+        'fetch-publisher-transcript',
+        {
+          retries: { limit: 2, delay: '15 seconds', backoff: 'exponential' },
+          timeout: '2 minutes',
+        },
+        tracked('fetch-publisher-transcript', async () => {
+          const db = getDb(this.env.DB)
+          const [episode] = await db
+            .select({ feedTranscripts: episodes.feedTranscripts })
+            .from(episodes)
+            .where(eq(episodes.id, episodeId))
+            .limit(1)
+          const transcript = choosePublisherTranscript(
+            episode?.feedTranscripts ? JSON.parse(episode.feedTranscripts) : [],
+          )
+          if (!transcript) return null
+          return {
+            url: transcript.url,
+            cues: await fetchPublisherTranscript(transcript),
+          }
+        }),
+      )
+    } catch (error) {
+      console.error(
+        `Publisher transcript failed for episode ${episodeId}, transcribing instead:`,
+        error,
+      )
+    }
 
     // Process in 5MB chunks sequentially to stay well within 128MB memory limit
     // 5MB raw + ~7MB base64 + overhead = ~15-20MB per chunk
     const CHUNK_SIZE = 5 * 1024 * 1024
-    const numChunks = Math.ceil(audioMeta.size / CHUNK_SIZE)
+    // Consecutive chunks share a few seconds of audio so words cut by a
+    // chunk boundary are heard whole in one of them
+    const CHUNK_OVERLAP_SECONDS = 5
+    // Byte-range fallback: ~5 seconds at 128kbps
+    const CHUNK_OVERLAP_BYTES = 80 * 1024
+
+    // Plan chunks on MP3 frame boundaries so each chunk decodes cleanly and
+    // its start time is exact. Anything that isn't MP3 falls back to fixed
+    // byte ranges timed by Whisper's reported durations.
+    const chunkPlan: ChunkPlan = await step.do(
+      'plan-chunks',
+      { timeout: '5 minutes' },
+      tracked('plan-chunks', async () => {
+        const audioObj = await this.env.AUDIO_BUCKET.get(r2Key)
+        if (!audioObj) throw new Error('Audio not found in R2')
+
+        const planner = new Mp3ChunkPlanner({
+          targetChunkBytes: CHUNK_SIZE,
+          overlapSeconds: CHUNK_OVERLAP_SECONDS,
+        })
+        // Fine-grained seek points for cutting audio clips, from the same pass
+        const seekPlanner = createSeekPlanner()
+        const reader = audioObj.body.getReader()
+        while (true) {
+          const { done, value } = await reader.read()
+          if (done) break
+          planner.push(value)
+          seekPlanner.push(value)
+          if (planner.failed) {
+            await reader.cancel()
+            break
+          }
+        }
+
+        const plan = planner.finish()
+        if (plan) {
+          const seekPlan = seekPlanner.finish()
+          const seekIndex = seekPlan && seekIndexFromPlan(seekPlan, audioObj.size)
+          if (seekIndex) await saveSeekIndex(this.env, episodeId, seekIndex)
+
+          return {
+            duration: plan.duration,
+            chunks: plan.chunks.map((c) => ({
+              offset: c.offset,
+              length: c.length,
+              startTime: c.startTime as number | null,
+              overlap: c.overlap as number | null,
+              overlapBytes: 0,
+            })),
+          }
+        }
+
+        console.warn(`No MP3 frames found for episode ${episodeId}, using byte ranges`)
+        const numChunks = Math.ceil(audioObj.size / CHUNK_SIZE)
+        return {
+          duration: null as number | null,
+          chunks: Array.from({ length: numChunks }, (_, i) => {
+            const overlapBytes = i > 0 ? CHUNK_OVERLAP_BYTES : 0
+            const offset = i * CHUNK_SIZE - overlapBytes
+            return {
+              offset,
+              length: Math.min(CHUNK_SIZE + overlapBytes, audioObj.size - offset),
+              startTime: null as number | null,
+              overlap: null as number | null,
+              overlapBytes,
+            }
+          }),
+        }
+      }),
+    )
+
+    // Names and jargon to steer Whisper towards, and to correct afterwards
+    const glossary = await step.do(
+      'load-glossary',
+      tracked('load-glossary', () => loadGlossary(this.env, podcastId)),
+    )
+
+    let transcription: Transcription
+    if (publisherTranscript) {
+      // Used as published: the glossary is for Whisper's mishearings
+      const { words, speakers } = cuesToWords(publisherTranscript.cues)
+      transcription = {
+        words,
+        text: words.map((w) => w.word).join(' '),
+        duration: chunkPlan.duration ?? words[words.length - 1]?.end ?? 0,
+        speakers: speakers.some(Boolean) ? speakers : null,
+      }
+    } else {
+      transcription = await this.transcribe(
+        episodeId,
+        r2Key,
+        chunkPlan,
+        glossary,
+        step,
+        tracked,
+      )
+    }
+    const { words: allWords, text: fullText, duration: totalDuration } =
+      transcription
+
+    setCurrentStep('merge-transcript')
+    if (!fullText.trim()) {
+      throw new Error('Transcription returned empty result')
+    }
+
+    // Work out who is speaking. A publisher transcript that names its
+    // speakers needs no diarization. Diarization is best-effort: if it keeps
+    // failing, the transcript is stored without speakers.
+    let speakerList: DiarizationResult['speakers'] = []
+    let wordSpeakers: (string | null)[] | undefined
+    if (transcription.speakers) {
+      const named = labelNamedSpeakers(transcription.speakers)
+      speakerList = named.speakers
+      wordSpeakers = named.labels
+    } else {
+      const utterances = splitIntoUtterances(allWords)
+      let diarization: DiarizationResult | null = null
+      try {
+        diarization = await step.do(
+          'diarize-speakers',
+          {
+            retries: { limit: 2, delay: '15 seconds', backoff: 'exponential' },
+            timeout: '10 minutes',
+          },
+          tracked('diarize-speakers', async () => {
+            const db = getDb(this.env.DB)
+            const [details] = await db
+              .select({
+                episodeTitle: episodes.title,
+                podcastTitle: podcasts.title,
+                description: podcasts.description,
+              })
+              .from(episodes)
+              .innerJoin(podcasts, eq(podcasts.id, episodes.podcastId))
+              .where(eq(episodes.id, episodeId))
+              .limit(1)
+
+            const diarizer = createDiarizer(this.env)
+            return diarizer.diarize(utterances, {
+              podcastTitle: details?.podcastTitle ?? '',
+              episodeTitle: details?.episodeTitle ?? '',
+              description: details?.description,
+            })
+          }),
+        )
+      } catch (error) {
+        console.error(`Diarization failed for episode ${episodeId}:`, error)
+      }
+      if (diarization) {
+        speakerList = diarization.speakers
+        wordSpeakers = labelWords(allWords.length, utterances, diarization.labels)
+      }
+    }
+
+    // Step 3: Store transcript segments in D1
+    const fullTranscript = await step.do(
+      'store-transcript',
+      { timeout: '2 minutes' },
+      tracked('store-transcript', async () => {
+        const segments = groupWordsIntoSegments(allWords, 15, wordSpeakers)
+
+        const db = getDb(this.env.DB)
+
+        // Clear rows from an earlier attempt of this step, and entity links
+        // that point at the segments being replaced
+        await db
+          .delete(episodeEntities)
+          .where(eq(episodeEntities.episodeId, episodeId))
+        await db
+          .delete(transcriptRevisions)
+          .where(eq(transcriptRevisions.episodeId, episodeId))
+        await db
+          .delete(transcriptSegments)
+          .where(eq(transcriptSegments.episodeId, episodeId))
+        await db.delete(speakers).where(eq(speakers.episodeId, episodeId))
+
+        const speakerIds = new Map<string, string>()
+        for (const speaker of speakerList) {
+          const id = nanoid()
+          speakerIds.set(speaker.label, id)
+          await db.insert(speakers).values({
+            id,
+            episodeId,
+            label: speaker.label,
+            displayName: speaker.name,
+            createdAt: new Date(),
+          })
+        }
+
+        // Batch insert segments
+        for (let i = 0; i < segments.length; i++) {
+          const speaker = segments[i].speaker
+          await db.insert(transcriptSegments).values({
+            id: nanoid(),
+            episodeId,
+            segmentIndex: i,
+            text: segments[i].text,
+            startTime: segments[i].startTime,
+            endTime: segments[i].endTime,
+            words: JSON.stringify(segments[i].words),
+            speakerId: speaker ? (speakerIds.get(speaker) ?? null) : null,
+          })
+        }
+
+        // Update episode duration and where the transcript came from
+        await db
+          .update(episodes)
+          .set({
+            durationSeconds: Math.round(totalDuration),
+            transcriptSource: publisherTranscript ? 'publisher' : 'whisper',
+            transcriptSourceUrl: publisherTranscript?.url ?? null,
+          })
+          .where(eq(episodes.id, episodeId))
+
+        // The transcript is stored, so retries no longer need the chunks
+        await deleteCachedChunks(this.env, [episodeId])
+
+        return fullText
+      }),
+    )
+
+    // Embed the transcript for semantic search. Best-effort: if it keeps
+    // failing, the episode is only findable by keyword.
+    try {
+      await step.do(
+        'index-transcript',
+        {
+          retries: { limit: 2, delay: '15 seconds', backoff: 'exponential' },
+          timeout: '5 minutes',
+        },
+        tracked('index-transcript', async () => {
+          await indexEpisodeTranscript(this.env, episodeId)
+        }),
+      )
+    } catch (error) {
+      console.error(`Transcript indexing failed for episode ${episodeId}:`, error)
+    }
+
+    await this.analyze(episodeId, fullTranscript, step, tracked)
+  }
+
+  /**
+   * Transcribes the audio in R2 with Whisper, chunk by chunk, and joins the
+   * chunks into one word stream with the glossary applied.
+   */
+  private async transcribe(
+    episodeId: string,
+    r2Key: string,
+    chunkPlan: ChunkPlan,
+    glossary: GlossaryTerm[],
+    step: WorkflowStep,
+    tracked: TrackStep,
+  ): Promise<Transcription> {
+    const whisperPrompt = buildWhisperPrompt(glossary)
 
     const chunkResults: Array<{
       index: number
@@ -99,19 +540,26 @@ export class EpisodeProcessingWorkflow extends WorkflowEntrypoint<
     }> = []
 
     // Process sequentially to avoid memory issues
-    for (let i = 0; i < numChunks; i++) {
+    for (let i = 0; i < chunkPlan.chunks.length; i++) {
+      const chunk = chunkPlan.chunks[i]
       const result = await step.do(
         `transcribe-chunk-${i}`,
         {
           retries: { limit: 2, delay: '30 seconds', backoff: 'exponential' },
           timeout: '5 minutes',
         },
-        async () => {
-          const start = i * CHUNK_SIZE
-          const end = Math.min(start + CHUNK_SIZE - 1, audioMeta.size - 1)
+        tracked(`transcribe-chunk-${i}`, async () => {
+          // Finished by an earlier run of this episode that failed later on
+          const cached = await loadCachedChunk(
+            this.env,
+            episodeId,
+            chunk,
+            whisperPrompt ?? '',
+          )
+          if (cached) return { index: i, ...cached }
 
           const audioObj = await this.env.AUDIO_BUCKET.get(r2Key, {
-            range: { offset: start, length: end - start + 1 },
+            range: { offset: chunk.offset, length: chunk.length },
           })
           if (!audioObj) throw new Error(`Chunk ${i} not found in R2`)
 
@@ -132,99 +580,106 @@ export class EpisodeProcessingWorkflow extends WorkflowEntrypoint<
             {
               audio: base64,
               language: 'en',
+              ...(whisperPrompt && { initial_prompt: whisperPrompt }),
             },
           )
 
-          return {
-            index: i,
+          const transcribed = {
             text: whisperResult.text || '',
-            words: (whisperResult.segments || []).flatMap(seg => seg.words || []),
+            words: (whisperResult.segments || []).flatMap(seg => seg.words || []) as any[],
             duration: (whisperResult as any).transcription_info?.duration || 0,
           }
-        },
+          await saveCachedChunk(
+            this.env,
+            episodeId,
+            chunk,
+            whisperPrompt ?? '',
+            transcribed,
+          )
+          return { index: i, ...transcribed }
+        }),
       )
 
       chunkResults.push(result)
     }
 
-    const transcriptions: Array<{ text: string; words: Word[]; duration: number }> = []
+    // Merge chunks into one word stream, reconciling the overlapping words
+    let allWords: Word[] = []
     let cumulativeOffset = 0
 
     for (const chunk of chunkResults) {
+      const planned = chunkPlan.chunks[chunk.index]
+      // Byte-range chunks only know their overlap in bytes; estimate its
+      // duration from the share of the chunk it covers
+      const overlap =
+        planned.overlap ??
+        (planned.length > 0
+          ? (chunk.duration * planned.overlapBytes) / planned.length
+          : 0)
+      // Frame-aligned chunks know their exact start time
+      const chunkStart = planned.startTime ?? cumulativeOffset - overlap
+
       const offsetWords: Word[] = chunk.words.map((w: any) => ({
         word: w.word,
-        start: w.start + cumulativeOffset,
-        end: w.end + cumulativeOffset,
+        start: Math.max(0, w.start + chunkStart),
+        end: Math.max(0, w.end + chunkStart),
       }))
 
-      transcriptions.push({
-        text: chunk.text,
-        words: offsetWords,
-        duration: chunk.duration,
+      allWords = stitchWords(allWords, offsetWords, {
+        start: chunkStart,
+        end: chunkStart + overlap,
       })
-      cumulativeOffset += chunk.duration
+      cumulativeOffset = chunkStart + chunk.duration
     }
 
-    // Merge all transcriptions
-    const allWords = transcriptions.flatMap((t) => t.words)
-    const fullText = transcriptions.map((t) => t.text).join(' ')
+    const totalDuration = chunkPlan.duration ?? cumulativeOffset
+
+    // Enforce glossary spellings before the words are segmented and stored
+    allWords = applyGlossary(allWords, glossary)
+
+    // Without word timings, fall back to Whisper's text (overlaps repeat)
+    const fullText =
+      allWords.length > 0
+        ? allWords.map((w) => w.word.trim()).join(' ')
+        : chunkResults.map((c) => c.text).join(' ')
 
     if (allWords.length === 0 && fullText.trim().length > 0) {
       console.warn(`Whisper returned text but no word-level timing data for episode ${episodeId}`)
     }
 
-    if (!fullText.trim()) {
-      throw new Error('Transcription returned empty result')
+    return {
+      words: allWords,
+      text: fullText,
+      duration: totalDuration,
+      speakers: null,
     }
+  }
 
-    // Step 3: Store transcript segments in D1
-    const fullTranscript = await step.do(
-      'store-transcript',
-      { timeout: '2 minutes' },
-      async () => {
-        const segments = groupWordsIntoSegments(allWords, 15)
-
+  private async analyze(
+    episodeId: string,
+    fullTranscript: string,
+    step: WorkflowStep,
+    tracked: TrackStep,
+  ) {
+    // Step 4: Analyze transcript with GLM-4.7-Flash
+    await step.do(
+      'update-status-analyzing',
+      tracked('update-status-analyzing', async () => {
         const db = getDb(this.env.DB)
-
-        // Batch insert segments
-        for (let i = 0; i < segments.length; i++) {
-          await db.insert(transcriptSegments).values({
-            id: nanoid(),
-            episodeId,
-            segmentIndex: i,
-            text: segments[i].text,
-            startTime: segments[i].startTime,
-            endTime: segments[i].endTime,
-            words: JSON.stringify(segments[i].words),
-          })
-        }
-
-        // Update episode duration
         await db
           .update(episodes)
-          .set({ durationSeconds: Math.round(cumulativeOffset) })
+          .set({ status: 'analyzing' })
           .where(eq(episodes.id, episodeId))
-
-        return fullText
-      },
+      }),
     )
 
-    // Step 4: Analyze transcript with GLM-4.7-Flash
-    await step.do('update-status-analyzing', async () => {
-      const db = getDb(this.env.DB)
-      await db
-        .update(episodes)
-        .set({ status: 'analyzing' })
-        .where(eq(episodes.id, episodeId))
-    })
-
     const analysis = await step.do(
       'analyze-transcript',
       {
         retries: { limit: 2, delay: '15 seconds', backoff: 'exponential' },
         timeout: '5 minutes',
       },
-      async () => {
+      tracked('analyze-transcript', async () => {
         if (!fullTranscript || fullTranscript.length < 100) {
           throw new Error(`Transcript too short for analysis: ${fullTranscript?.length || 0} chars`)
         }
@@ -237,7 +692,8 @@ export class EpisodeProcessingWorkflow extends WorkflowEntrypoint<
               { role: 'system', content: ANALYSIS_SYSTEM_PROMPT },
               { role: 'user', content: prompt },
             ],
-            max_completion_tokens: 4096,
+            // Room for the entity and claim lists on top of the summary and quotes
+            max_completion_tokens: 7168,
             response_format: { type: 'json_object' },
           },
         )) as any
@@ -253,27 +709,80 @@ export class EpisodeProcessingWorkflow extends WorkflowEntrypoint<
         }
 
         return parseAnalysisResult(responseText)
-      },
+      }),
     )
 
-    // Step 5: Store analysis in D1
-    await step.do('store-analysis', async () => {
-      const db = getDb(this.env.DB)
-      await db.insert(episodeAnalyses).values({
-        id: nanoid(),
-        episodeId,
-        summary: analysis.summary,
-        tags: JSON.stringify(analysis.tags),
-        themes: JSON.stringify(analysis.themes),
-        sentiment: analysis.sentiment,
-        keyQuotes: JSON.stringify(analysis.keyQuotes),
-        createdAt: new Date(),
-      })
+    // Step 5: Link the extracted entities to the transcript
+    await step.do(
+      'store-entities',
+      tracked('store-entities', async () => {
+        await storeEpisodeEntities(this.env, episodeId, analysis.entities)
+      }),
+    )
+
+    // Step 6: Normalise the model's tags to canonical tags
+    await step.do(
+      'store-tags',
+      tracked('store-tags', async () => {
+        await storeEpisodeTags(this.env, episodeId, analysis.tags)
+      }),
+    )
+
+    // Step 7: Cluster the episode's claims into narratives. Best-effort:
+    // if embedding keeps failing, the analysis is stored without them.
+    try {
+      await step.do(
+        'store-narratives',
+        {
+          retries: { limit: 2, delay: '15 seconds', backoff: 'exponential' },
+          timeout: '5 minutes',
+        },
+        tracked('store-narratives', async () => {
+          await storeEpisodeClaims(this.env, episodeId, analysis.claims)
+        }),
+      )
+    } catch (error) {
+      console.error(`Narrative clustering failed for episode ${episodeId}:`, error)
+    }
+
+    // Step 8: Split the transcript into topic chapters when the publisher
+    // has none. Best-effort: the episode is still usable without them.
+    try {
+      await step.do(
+        'generate-chapters',
+        {
+          retries: { limit: 2, delay: '15 seconds', backoff: 'exponential' },
+          timeout: '5 minutes',
+        },
+        tracked('generate-chapters', async () => {
+          await generateEpisodeChapters(this.env, episodeId)
+        }),
+      )
+    } catch (error) {
+      console.error(`Chapter generation failed for episode ${episodeId}:`, error)
+    }
 
-      await db
-        .update(episodes)
-        .set({ status: 'complete' })
-        .where(eq(episodes.id, episodeId))
-    })
+    // Step 9: Store analysis in D1
+    await step.do(
+      'store-analysis',
+      tracked('store-analysis', async () => {
+        const db = getDb(this.env.DB)
+        await db.insert(episodeAnalyses).values({
+          id: nanoid(),
+          episodeId,
+          summary: analysis.summary,
+          tags: JSON.stringify(analysis.tags),
+          themes: JSON.stringify(analysis.themes),
+          sentiment: analysis.sentiment,
+          keyQuotes: JSON.stringify(analysis.keyQuotes),
+          createdAt: new Date(),
+        })
+
+        await db
+          .update(episodes)
+          .set({ status: 'complete' })
+          .where(eq(episodes.id, episodeId))
+      }),
+    )
   }
 }
@@ -0,0 +1,99 @@
+import {
+  WorkflowEntrypoint,
+  WorkflowStep,
+  WorkflowEvent,
+} from 'cloudflare:workers'
+import { and, eq, isNull, ne, or } from 'drizzle-orm'
+import { getDb } from '~/db'
+import { episodes } from '~/db/schema'
+import {
+  loadGlossary,
+  reapplyGlossaryToEpisode,
+  type GlossaryTerm,
+} from '~/lib/glossary'
+import { indexEpisodeTranscript } from '~/lib/semantic-search'
+
+type GlossaryReapplyPayload = {
+  // Limit the job to one podcast's episodes; null for every podcast
+  podcastId: string | null
+  // User who started the job, recorded as the author of the revisions
+  requestedBy: string | null
+}
+
+// Episodes per step: small enough for a step to finish well within its
+// timeout, large enough to keep the step count down
+const EPISODES_PER_STEP = 10
+
+/**
+ * Re-applies the current glossary to Whisper transcripts that are already
+ * stored, e.g. after adding terms. Runs as a workflow so large archives are processed
+ * in retryable batches.
+ */
+export class GlossaryReapplyWorkflow extends WorkflowEntrypoint<
+  Env,
+  GlossaryReapplyPayload
+> {
+  async run(event: WorkflowEvent<GlossaryReapplyPayload>, step: WorkflowStep) {
+    const { podcastId, requestedBy } = event.payload
+
+    const targets = await step.do('list-episodes', async () => {
+      const db = getDb(this.env.DB)
+      return db
+        .select({ id: episodes.id, podcastId: episodes.podcastId })
+        .from(episodes)
+        .where(
+          and(
+            eq(episodes.status, 'complete'),
+            // Publisher transcripts are kept as the publisher wrote them
+            or(
+              isNull(episodes.transcriptSource),
+              ne(episodes.transcriptSource, 'publisher'),
+            ),
+            podcastId ? eq(episodes.podcastId, podcastId) : undefined,
+          ),
+        )
+        .orderBy(episodes.id)
+    })
+
+    let updatedSegments = 0
+    for (let i = 0; i < targets.length; i += EPISODES_PER_STEP) {
+      const batch = targets.slice(i, i + EPISODES_PER_STEP)
+      updatedSegments += await step.do(
+        `apply-batch-${i / EPISODES_PER_STEP}`,
+        {
+          retries: { limit: 3, delay: '10 seconds', backoff: 'exponential' },
+          timeout: '5 minutes',
+        },
+        async () => {
+          const glossaries = new Map<string, GlossaryTerm[]>()
+          let changed = 0
+          for (const episode of batch) {
+            let terms = glossaries.get(episode.podcastId)
+            if (!terms) {
+              terms = await loadGlossary(this.env, episode.podcastId)
+              glossaries.set(episode.podcastId, terms)
+            }
+            const updated = await reapplyGlossaryToEpisode(
+              this.env,
+              episode.id,
+              terms,
+              requestedBy,
+            )
+            if (updated > 0) {
+              // Best-effort: stale vectors only affect semantic search
+              try {
+                await indexEpisodeTranscript(this.env, episode.id)
+              } catch (error) {
+                console.error(`Re-indexing episode ${episode.id} failed:`, error)
+              }
+            }
+            changed += updated
+          }
+          return changed
+        },
+      )
+    }
+
+    return { episodes: targets.length, updatedSegments }
+  }
+}
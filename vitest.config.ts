@@ -0,0 +1,18 @@
+import { defineConfig } from 'vitest/config'
+import tsConfigPaths from 'vite-tsconfig-paths'
+
+// Separate from vite.config.ts so tests run in plain Node without the
+// Cloudflare and TanStack Start plugins
+export default defineConfig({
+  plugins: [
+    tsConfigPaths({
+      projects: ['./tsconfig.json'],
+    }),
+  ],
+  test: {
+    include: ['src/**/*.test.ts'],
+    // Tests that need D1 start a local workerd for each case
+    testTimeout: 30_000,
+    hookTimeout: 30_000,
+  },
+})